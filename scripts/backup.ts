@@ -0,0 +1,51 @@
+/**
+ * データベースのバックアップ・復元スクリプト
+ * npx tsx scripts/backup.ts export [出力ファイル]                 → 全テーブルを JSON アーカイブに書き出す
+ * npx tsx scripts/backup.ts restore <ファイル> [--merge] [--dry-run] → アーカイブを復元する
+ *
+ * restore は既定で全テーブルを置き換える（--merge で既存の行を残して追加）。
+ * --dry-run は検証と件数の表示だけを行う。接続先は DATABASE_URL。
+ * /api/backup で復元できない大きなアーカイブ（4 MB 超）は、このスクリプトで復元する。
+ */
+import { readFileSync, writeFileSync } from "fs";
+import { createBackup, restoreBackup, validateBackup } from "../src/lib/backup";
+
+async function exportBackup(file: string | undefined) {
+  const archive = await createBackup();
+  const out = file ?? `kakei-backup-${archive.createdAt.slice(0, 10).replace(/-/g, "")}.json`;
+  writeFileSync(out, JSON.stringify(archive));
+  const total = Object.values(archive.tables).reduce((s, rows) => s + rows.length, 0);
+  console.log(`${out} に書き出しました（${Object.keys(archive.tables).length} テーブル / ${total} 行、スキーマ ${archive.schemaVersion}）`);
+}
+
+async function restore(file: string | undefined, flags: string[]) {
+  if (!file) throw new Error("復元するファイルを指定してください");
+  const result = validateBackup(JSON.parse(readFileSync(file, "utf-8")));
+  if ("error" in result) throw new Error(result.error);
+
+  const mode = flags.includes("--merge") ? "merge" : "replace";
+  const { archive } = result;
+  console.log(`${archive.createdAt} のバックアップを ${mode === "merge" ? "追加（merge）" : "置き換え（replace）"} で復元します`);
+  for (const [name, rows] of Object.entries(archive.tables)) {
+    console.log(`  ${name}: ${rows.length} 行`);
+  }
+  if (flags.includes("--dry-run")) {
+    console.log("--dry-run のため変更していません");
+    return;
+  }
+  await restoreBackup(archive, mode);
+  console.log("復元しました");
+}
+
+async function main() {
+  const [command, file, ...flags] = process.argv.slice(2);
+  if (command === "export") return exportBackup(file);
+  if (command === "restore") return restore(file, flags);
+  console.error("使い方: npx tsx scripts/backup.ts export [file] | restore <file> [--merge] [--dry-run]");
+  process.exitCode = 1;
+}
+
+main().catch((e) => {
+  console.error(e instanceof Error ? e.message : e);
+  process.exitCode = 1;
+});
@@ -0,0 +1,52 @@
+/**
+ * 月の予算を開くスクリプト
+ * npx tsx scripts/open-month.ts [YYYY-MM] [--dry-run]
+ *
+ * 標準予算の月額予算 + 前月からの繰越額（カテゴリごとの繰越ルールを適用）で、その月の予算を作る。
+ * 月を省略すると今月。その月の予算がすでにあれば何もしないため、月初の cron などから何度実行してもよい。
+ * --dry-run は作成する内容の表示だけを行う。接続先は DATABASE_URL。
+ */
+import { openMonth } from "../src/lib/budget-carryover";
+
+function parseMonth(arg: string | undefined): { year: number; month: number } {
+  if (!arg) {
+    const now = new Date();
+    return { year: now.getFullYear(), month: now.getMonth() + 1 };
+  }
+  const m = arg.match(/^(\d{4})-(\d{1,2})$/);
+  if (!m || Number(m[2]) < 1 || Number(m[2]) > 12) {
+    throw new Error(`月は YYYY-MM 形式で指定してください（${arg}）`);
+  }
+  return { year: Number(m[1]), month: Number(m[2]) };
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const dryRun = args.includes("--dry-run");
+  const { year, month } = parseMonth(args.find((a) => !a.startsWith("--")));
+
+  const result = await openMonth(year, month, { dryRun });
+  if (result.alreadyOpen) {
+    console.log(`${year}年${month}月の予算は作成済みのため、何もしませんでした`);
+    return;
+  }
+  for (const item of result.items) {
+    console.log(`  ${item.categoryName}: 月額 ${item.allocation} + 繰越 ${item.carryover} = ${item.totalBudget}`);
+  }
+  const total = result.items.reduce((s, i) => s + i.totalBudget, 0);
+  const income = result.incomeAllocation;
+  if (income) {
+    console.log(`  前月の収入 ${income.totalIncome} / 割り当て ${income.totalAllocated} / 割当待ち ${income.toBeAllocated}`);
+    if (income.toBeAllocated < 0) console.warn("  ※ 前月の収入を超えて割り当てています");
+  }
+  if (dryRun) {
+    console.log(`--dry-run のため変更していません（${result.items.length} カテゴリ / 合計 ${total}）`);
+    return;
+  }
+  console.log(`${year}年${month}月の予算を作成しました（${result.items.length} カテゴリ / 合計 ${total}）`);
+}
+
+main().catch((e) => {
+  console.error(e instanceof Error ? e.message : e);
+  process.exitCode = 1;
+});
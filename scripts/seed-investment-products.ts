@@ -0,0 +1,23 @@
+/**
+ * 投資商品の初期値を登録するスクリプト
+ * npx tsx scripts/seed-investment-products.ts
+ *
+ * investment_products が空のときだけ、従来の固定値（iDeCo・SBI投資信託）を登録する。
+ * 1件でも登録されていれば何もしないため、新しい環境でマイグレーションの後に一度実行すればよい。接続先は DATABASE_URL。
+ */
+import { seedDefaultInvestmentProducts } from "../src/lib/investment-products";
+
+async function main() {
+  const created = await seedDefaultInvestmentProducts();
+  if (created.length === 0) {
+    console.log("投資商品は登録済みのため、何もしませんでした");
+    return;
+  }
+  for (const p of created) console.log(`  ${p.name}（資産名: ${p.assetName}）`);
+  console.log(`投資商品の初期値を登録しました（${created.length} 件）`);
+}
+
+main().catch((e) => {
+  console.error(e instanceof Error ? e.message : e);
+  process.exitCode = 1;
+});
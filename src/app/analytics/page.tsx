@@ -1,5 +1,6 @@
 "use client";
 import { useState, useEffect, useCallback } from "react";
+import Link from "next/link";
 import ReactMarkdown from "react-markdown";
 import { Card, CardTitle } from "@/components/ui/Card";
 import { formatCurrency } from "@/lib/utils";
@@ -7,9 +8,11 @@ import {
   PieChart, Pie, Cell, BarChart, Bar, XAxis, YAxis,
   Tooltip, ResponsiveContainer,
 } from "recharts";
-import { getCategoryColor } from "@/lib/utils";
+import { createCategoryLookup, type CategoryLookup } from "@/lib/categories";
+import type { SavedFilter } from "@/lib/schema";
 
 type CategoryItem = { category: string; total: number; count: number; ratio: number };
+type PieItem = { key: string; label: string; total: number; ratio: number; color: string; isGroup: boolean };
 type PaymentItem = { assetName: string; total: number; count: number; ratio: number };
 type TopItem = { category: string; itemName: string; total: number; count: number };
 
@@ -21,6 +24,9 @@ export default function AnalyticsPage() {
   const [payData, setPayData] = useState<PaymentItem[]>([]);
   const [topItems, setTopItems] = useState<TopItem[]>([]);
   const [loading, setLoading] = useState(false);
+  const [lookup, setLookup] = useState<CategoryLookup>(() => createCategoryLookup(null));
+  const [catView, setCatView] = useState<"category" | "group">("category");
+  const [drillGroup, setDrillGroup] = useState<string | null>(null);
 
   // 比較分析ステート（期間指定）
   const prevMonthDate = new Date(now.getFullYear(), now.getMonth() - 1, 1);
@@ -89,6 +95,13 @@ export default function AnalyticsPage() {
 
   useEffect(() => { fetchData(); }, [fetchData]);
 
+  useEffect(() => {
+    fetch("/api/categories/registry")
+      .then((r) => r.json())
+      .then((json) => setLookup(createCategoryLookup(json.data ?? null)))
+      .catch(() => {});
+  }, []);
+
   async function runComparison() {
     setCmpLoading(true);
     setCmpData(null);
@@ -166,7 +179,31 @@ export default function AnalyticsPage() {
     }
   }
 
-  const COLORS = catData.map((c) => getCategoryColor(c.category));
+  // グループ別表示: グループの小計（色は最も大きいカテゴリの色）。グループを選ぶとそのカテゴリに展開する
+  const catTotal = catData.reduce((s, c) => s + c.total, 0);
+  const toPieItem = (c: CategoryItem): PieItem => ({
+    key: c.category, label: c.category, total: c.total, ratio: c.ratio, color: lookup.color(c.category), isGroup: false,
+  });
+  const pieData: PieItem[] =
+    catView === "category"
+      ? catData.map(toPieItem)
+      : drillGroup
+        ? catData.filter((c) => lookup.groupName(c.category) === drillGroup).map(toPieItem)
+        : lookup
+            .group(catData.map((c) => c.category))
+            .map(({ group, categories }) => {
+              const items = catData.filter((c) => categories.includes(c.category));
+              const total = items.reduce((s, c) => s + c.total, 0);
+              return {
+                key: group,
+                label: group,
+                total,
+                ratio: catTotal > 0 ? Math.round((total / catTotal) * 1000) / 10 : 0,
+                color: lookup.color(items.reduce((top, c) => (c.total > top.total ? c : top)).category),
+                isGroup: true,
+              };
+            })
+            .sort((a, b) => b.total - a.total);
 
   return (
     <div className="p-4 sm:p-6">
@@ -199,26 +236,48 @@ export default function AnalyticsPage() {
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
             {/* カテゴリ別支出 - 円グラフ */}
             <Card>
-              <CardTitle>カテゴリ別支出</CardTitle>
-              {catData.length > 0 ? (
+              <div className="flex items-center justify-between mb-3">
+                <CardTitle>{drillGroup ? `${drillGroup}の内訳` : "カテゴリ別支出"}</CardTitle>
+                <div className="flex items-center gap-2">
+                  {drillGroup && (
+                    <button onClick={() => setDrillGroup(null)} className="text-xs text-blue-400 hover:text-blue-300">
+                      ← グループ一覧
+                    </button>
+                  )}
+                  <div className="flex bg-slate-800 rounded-lg p-0.5">
+                    {(["category", "group"] as const).map((v) => (
+                      <button key={v} onClick={() => { setCatView(v); setDrillGroup(null); }}
+                        className={`px-2.5 py-1 text-xs rounded-md transition ${catView === v ? "bg-blue-600 text-white" : "text-slate-400"}`}>
+                        {v === "category" ? "カテゴリ" : "グループ"}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              </div>
+              {pieData.length > 0 ? (
                 <div className="flex flex-col items-center">
                   <ResponsiveContainer width="100%" height={240}>
                     <PieChart>
-                      <Pie data={catData} dataKey="total" nameKey="category" cx="50%" cy="50%" outerRadius={100}>
-                        {catData.map((entry, i) => (
-                          <Cell key={entry.category} fill={COLORS[i]} />
+                      <Pie data={pieData} dataKey="total" nameKey="label" cx="50%" cy="50%" outerRadius={100}
+                        onClick={(d: PieItem) => d.isGroup && setDrillGroup(d.key)}>
+                        {pieData.map((entry) => (
+                          <Cell key={entry.key} fill={entry.color} cursor={entry.isGroup ? "pointer" : undefined} />
                         ))}
                       </Pie>
                       <Tooltip formatter={(v: number) => formatCurrency(v)} />
                     </PieChart>
                   </ResponsiveContainer>
                   <div className="w-full mt-2 space-y-1">
-                    {catData.slice(0, 8).map((c, i) => (
-                      <div key={c.category} className="flex items-center justify-between text-sm">
-                        <div className="flex items-center gap-2">
-                          <div className="w-2.5 h-2.5 rounded-full" style={{ background: COLORS[i] }} />
-                          <span className="text-slate-300">{c.category}</span>
-                        </div>
+                    {pieData.slice(0, 8).map((c) => (
+                      <div key={c.key} className="flex items-center justify-between text-sm">
+                        <button
+                          onClick={() => c.isGroup && setDrillGroup(c.key)}
+                          className={`flex items-center gap-2 ${c.isGroup ? "hover:text-white" : "cursor-default"}`}
+                        >
+                          <div className="w-2.5 h-2.5 rounded-full" style={{ background: c.color }} />
+                          <span className="text-slate-300">{c.label}</span>
+                          {c.isGroup && <span className="text-slate-600 text-xs">▶</span>}
+                        </button>
                         <div className="flex items-center gap-3">
                           <span className="text-slate-500 text-xs">{c.ratio}%</span>
                           <span className="text-white text-xs w-24 text-right">{formatCurrency(c.total)}</span>
@@ -283,6 +342,9 @@ export default function AnalyticsPage() {
             </table>
           </Card>
 
+          {/* 保存した検索条件の推移 */}
+          <SavedFilterTrendCard />
+
           {/* 比較分析 */}
           <Card>
             <CardTitle>比較分析</CardTitle>
@@ -500,3 +562,85 @@ export default function AnalyticsPage() {
     </div>
   );
 }
+
+type FilterTrendItem = { year: number; month: number; totalExpense: number; totalIncome: number; count: number };
+
+/** 保存した検索条件に一致する取引の月別推移 */
+function SavedFilterTrendCard() {
+  const [filters, setFilters] = useState<SavedFilter[]>([]);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [trend, setTrend] = useState<FilterTrendItem[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    fetch("/api/saved-filters")
+      .then((r) => r.json())
+      .then((json) => {
+        const rows: SavedFilter[] = json.data ?? [];
+        setFilters(rows);
+        if (rows.length > 0) setSelectedId(rows[0].id);
+      })
+      .catch(() => {});
+  }, []);
+
+  useEffect(() => {
+    if (!selectedId) return;
+    setLoading(true);
+    fetch(`/api/analytics?type=saved_filter_trend&savedFilter=${selectedId}`)
+      .then((r) => r.json())
+      .then((json) => setTrend(json.data ?? []))
+      .finally(() => setLoading(false));
+  }, [selectedId]);
+
+  const selected = filters.find((f) => f.id === selectedId);
+  const chartData = trend.map((t) => ({ ...t, label: `${t.year}/${t.month}` }));
+  // 金額のある側（支出・収入）だけ棒を表示する
+  const hasExpense = trend.some((t) => t.totalExpense > 0);
+  const hasIncome = trend.some((t) => t.totalIncome > 0);
+
+  return (
+    <Card>
+      <CardTitle>保存した検索条件の推移</CardTitle>
+      {filters.length === 0 ? (
+        <p className="text-slate-500 text-sm">取引明細で検索条件を保存すると、ここで月別の推移を確認できます</p>
+      ) : (
+        <div className="space-y-4">
+          <div className="flex flex-wrap items-center gap-3">
+            <select
+              value={selectedId ?? ""}
+              onChange={(e) => setSelectedId(Number(e.target.value))}
+              className="bg-slate-800 text-white text-sm rounded-lg px-3 py-2 border border-slate-700"
+            >
+              {filters.map((f) => (
+                <option key={f.id} value={f.id}>{f.name}</option>
+              ))}
+            </select>
+            {selected && (
+              <Link href={`/transactions?${selected.query}`} className="text-xs text-blue-400 hover:text-blue-300">
+                取引明細で開く →
+              </Link>
+            )}
+            <span className="text-slate-500 text-sm ml-auto">
+              {trend.reduce((s, t) => s + t.count, 0).toLocaleString()}件
+            </span>
+          </div>
+          {loading ? (
+            <p className="text-slate-500 text-sm">読み込み中...</p>
+          ) : chartData.length > 0 ? (
+            <ResponsiveContainer width="100%" height={220}>
+              <BarChart data={chartData}>
+                <XAxis dataKey="label" tick={{ fontSize: 10, fill: "#94a3b8" }} />
+                <YAxis tick={{ fontSize: 10, fill: "#94a3b8" }} tickFormatter={(v) => `${(v / 10000).toFixed(0)}万`} />
+                <Tooltip formatter={(v: number) => formatCurrency(v)} />
+                {hasExpense && <Bar dataKey="totalExpense" name="支出" fill="#ef4444" radius={[4, 4, 0, 0]} />}
+                {hasIncome && <Bar dataKey="totalIncome" name="収入" fill="#22c55e" radius={[4, 4, 0, 0]} />}
+              </BarChart>
+            </ResponsiveContainer>
+          ) : (
+            <p className="text-slate-500 text-sm">データなし</p>
+          )}
+        </div>
+      )}
+    </Card>
+  );
+}
@@ -5,11 +5,15 @@
  * GET /api/analytics?type=trend&years=2022,2023,2024,2025   → 年比較
  * GET /api/analytics?type=category_trend&category=食費       → カテゴリ年推移
  * GET /api/analytics?type=available_years                    → データが存在する年一覧
+ * GET /api/analytics?type=saved_filter_trend&savedFilter=3   → 保存した検索条件に一致する取引の月別推移
  */
 import { NextRequest, NextResponse } from "next/server";
 import { db } from "@/lib/db";
-import { transactions, assetSnapshots } from "@/lib/schema";
+import { transactions, transactionLines, assetSnapshots } from "@/lib/schema";
 import { eq, and, inArray, sql, ne, desc, gte, lte } from "drizzle-orm";
+import { resolveTransactionFilter, transactionFilterWhere } from "@/lib/transaction-query";
+import type { TransactionFilter } from "@/lib/transaction-filter";
+import { getAssetBalancesAsOf } from "@/lib/balance-sheet";
 
 export async function GET(req: NextRequest) {
   const { searchParams } = req.nextUrl;
@@ -23,9 +27,9 @@ export async function GET(req: NextRequest) {
     switch (type) {
       case "available_years": {
         const rows = await db
-          .selectDistinct({ year: transactions.year })
-          .from(transactions)
-          .orderBy(transactions.year);
+          .selectDistinct({ year: transactionLines.year })
+          .from(transactionLines)
+          .orderBy(transactionLines.year);
         return NextResponse.json({ data: rows.map((r) => r.year) });
       }
 
@@ -94,6 +98,16 @@ export async function GET(req: NextRequest) {
         return NextResponse.json({ data });
       }
 
+      case "saved_filter_trend": {
+        if (!searchParams.get("savedFilter")) {
+          return NextResponse.json({ error: "savedFilter が必要です" }, { status: 400 });
+        }
+        const filter = await resolveTransactionFilter(searchParams);
+        if (!filter) return NextResponse.json({ error: "保存した検索条件が見つかりません" }, { status: 404 });
+        const data = await getFilteredMonthlyTrend(filter);
+        return NextResponse.json({ data });
+      }
+
       default:
         return NextResponse.json({ error: "不明な type です" }, { status: 400 });
     }
@@ -105,23 +119,23 @@ export async function GET(req: NextRequest) {
 
 async function getCategoryBreakdown(year: number, month?: number) {
   const conditions = [
-    eq(transactions.year, year),
-    eq(transactions.excludeFromPl, false),
-    ne(transactions.type, "振替"),
-    ne(transactions.category, "振替"),
-    eq(transactions.type, "支出"),
+    eq(transactionLines.year, year),
+    eq(transactionLines.excludeFromPl, false),
+    ne(transactionLines.type, "振替"),
+    ne(transactionLines.category, "振替"),
+    eq(transactionLines.type, "支出"),
   ];
-  if (month) conditions.push(eq(transactions.month, month));
+  if (month) conditions.push(eq(transactionLines.month, month));
 
   const rows = await db
     .select({
-      category: transactions.category,
+      category: transactionLines.category,
       total: sql<number>`sum(expense_amount)`,
       count: sql<number>`count(*)`,
     })
-    .from(transactions)
+    .from(transactionLines)
     .where(and(...conditions))
-    .groupBy(transactions.category)
+    .groupBy(transactionLines.category)
     .orderBy(sql`sum(expense_amount) desc`);
 
   const grandTotal = rows.reduce((sum, r) => sum + Number(r.total ?? 0), 0);
@@ -135,25 +149,25 @@ async function getCategoryBreakdown(year: number, month?: number) {
 
 async function getMonthlyTrend(years?: number[]) {
   const conditions = [
-    eq(transactions.excludeFromPl, false),
-    ne(transactions.type, "振替"),
-    ne(transactions.category, "振替"),
+    eq(transactionLines.excludeFromPl, false),
+    ne(transactionLines.type, "振替"),
+    ne(transactionLines.category, "振替"),
   ];
   if (years && years.length > 0) {
-    conditions.push(inArray(transactions.year, years));
+    conditions.push(inArray(transactionLines.year, years));
   }
 
   const rows = await db
     .select({
-      year: transactions.year,
-      month: transactions.month,
+      year: transactionLines.year,
+      month: transactionLines.month,
       totalExpense: sql<number>`sum(expense_amount)`,
       totalIncome: sql<number>`sum(income_amount)`,
     })
-    .from(transactions)
+    .from(transactionLines)
     .where(and(...conditions))
-    .groupBy(transactions.year, transactions.month)
-    .orderBy(transactions.year, transactions.month);
+    .groupBy(transactionLines.year, transactionLines.month)
+    .orderBy(transactionLines.year, transactionLines.month);
 
   return rows.map((r) => ({
     year: r.year,
@@ -164,25 +178,49 @@ async function getMonthlyTrend(years?: number[]) {
   }));
 }
 
-async function getCategoryTrend(category: string) {
+/** 検索条件に一致する取引の月別合計（取引明細と同じ件数・金額になるよう transactions を集計する） */
+async function getFilteredMonthlyTrend(filter: TransactionFilter) {
   const rows = await db
     .select({
       year: transactions.year,
       month: transactions.month,
-      total: sql<number>`sum(expense_amount)`,
+      totalExpense: sql<number>`sum(${transactions.expenseAmount})`,
+      totalIncome: sql<number>`sum(${transactions.incomeAmount})`,
+      count: sql<number>`count(*)`,
     })
     .from(transactions)
+    .where(transactionFilterWhere(filter))
+    .groupBy(transactions.year, transactions.month)
+    .orderBy(transactions.year, transactions.month);
+
+  return rows.map((r) => ({
+    year: r.year,
+    month: r.month,
+    totalExpense: Number(r.totalExpense ?? 0),
+    totalIncome: Number(r.totalIncome ?? 0),
+    count: Number(r.count ?? 0),
+  }));
+}
+
+async function getCategoryTrend(category: string) {
+  const rows = await db
+    .select({
+      year: transactionLines.year,
+      month: transactionLines.month,
+      total: sql<number>`sum(expense_amount)`,
+    })
+    .from(transactionLines)
     .where(
       and(
-        eq(transactions.category, category),
-        eq(transactions.excludeFromPl, false),
-        ne(transactions.type, "振替"),
-        ne(transactions.category, "振替"),
-        eq(transactions.type, "支出")
+        eq(transactionLines.category, category),
+        eq(transactionLines.excludeFromPl, false),
+        ne(transactionLines.type, "振替"),
+        ne(transactionLines.category, "振替"),
+        eq(transactionLines.type, "支出")
       )
     )
-    .groupBy(transactions.year, transactions.month)
-    .orderBy(transactions.year, transactions.month);
+    .groupBy(transactionLines.year, transactionLines.month)
+    .orderBy(transactionLines.year, transactionLines.month);
 
   return rows.map((r) => ({
     year: r.year,
@@ -193,30 +231,7 @@ async function getCategoryTrend(category: string) {
 
 async function getAssetTrend(year?: number, month?: number) {
   if (year && month) {
-    // 各資産について「指定年月以前の最新スナップショット」を返す
-    // → 月に取引がなかった口座も最後に記録された残高で表示できる
-    const rows = await db.execute(
-      sql`
-        SELECT DISTINCT ON (asset_name)
-          id, asset_name, year, month,
-          opening_balance, closing_balance, asset_type, updated_at
-        FROM asset_snapshots
-        WHERE (year * 100 + month) <= ${year * 100 + month}
-        ORDER BY asset_name, (year * 100 + month) DESC
-      `
-    );
-    // 生SQLはsnake_caseで返るので camelCase に変換
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    return (rows.rows as any[]).map((r) => ({
-      id: r.id,
-      assetName: r.asset_name,
-      year: Number(r.year),
-      month: Number(r.month),
-      openingBalance: Number(r.opening_balance),
-      closingBalance: Number(r.closing_balance),
-      assetType: r.asset_type,
-      updatedAt: r.updated_at,
-    }));
+    return getAssetBalancesAsOf(year, month);
   }
 
   // year のみ指定: その年の全月分を返す（推移グラフ用）
@@ -232,23 +247,23 @@ async function getAssetTrend(year?: number, month?: number) {
 
 async function getPaymentMethodBreakdown(year: number, month?: number) {
   const conditions = [
-    eq(transactions.year, year),
-    eq(transactions.excludeFromPl, false),
-    ne(transactions.type, "振替"),
-    ne(transactions.category, "振替"),
-    eq(transactions.type, "支出"),
+    eq(transactionLines.year, year),
+    eq(transactionLines.excludeFromPl, false),
+    ne(transactionLines.type, "振替"),
+    ne(transactionLines.category, "振替"),
+    eq(transactionLines.type, "支出"),
   ];
-  if (month) conditions.push(eq(transactions.month, month));
+  if (month) conditions.push(eq(transactionLines.month, month));
 
   const rows = await db
     .select({
-      assetName: transactions.assetName,
+      assetName: transactionLines.assetName,
       total: sql<number>`sum(expense_amount)`,
       count: sql<number>`count(*)`,
     })
-    .from(transactions)
+    .from(transactionLines)
     .where(and(...conditions))
-    .groupBy(transactions.assetName)
+    .groupBy(transactionLines.assetName)
     .orderBy(sql`sum(expense_amount) desc`);
 
   const grandTotal = rows.reduce((sum, r) => sum + Number(r.total ?? 0), 0);
@@ -304,24 +319,24 @@ async function getNetAssetTrend(years?: number[]) {
 /** カテゴリ別に高額順上位 N 件の取引を返す（Gemini コンテキスト用） */
 async function getTopTransactionsByCategory(year: number, month?: number, limitPerCat = 5) {
   const conditions = [
-    eq(transactions.year, year),
-    eq(transactions.excludeFromPl, false),
-    ne(transactions.type, "振替"),
-    ne(transactions.category, "振替"),
-    eq(transactions.type, "支出"),
+    eq(transactionLines.year, year),
+    eq(transactionLines.excludeFromPl, false),
+    ne(transactionLines.type, "振替"),
+    ne(transactionLines.category, "振替"),
+    eq(transactionLines.type, "支出"),
   ];
-  if (month) conditions.push(eq(transactions.month, month));
+  if (month) conditions.push(eq(transactionLines.month, month));
 
   const rows = await db
     .select({
-      category: transactions.category,
-      itemName: transactions.itemName,
-      expenseAmount: transactions.expenseAmount,
-      date: transactions.date,
+      category: transactionLines.category,
+      itemName: transactionLines.itemName,
+      expenseAmount: transactionLines.expenseAmount,
+      date: transactionLines.date,
     })
-    .from(transactions)
+    .from(transactionLines)
     .where(and(...conditions))
-    .orderBy(desc(transactions.expenseAmount));
+    .orderBy(desc(transactionLines.expenseAmount));
 
   const byCategory = new Map<string, Array<{ itemName: string; amount: number; date: string }>>();
   for (const row of rows) {
@@ -374,23 +389,23 @@ async function getComparisonData(
 /** 日付範囲でカテゴリ別支出を集計 */
 async function getCategoryBreakdownByRange(startDate: string, endDate: string) {
   const conditions = [
-    gte(transactions.date, startDate),
-    lte(transactions.date, endDate),
-    eq(transactions.excludeFromPl, false),
-    ne(transactions.type, "振替"),
-    ne(transactions.category, "振替"),
-    eq(transactions.type, "支出"),
+    gte(transactionLines.date, startDate),
+    lte(transactionLines.date, endDate),
+    eq(transactionLines.excludeFromPl, false),
+    ne(transactionLines.type, "振替"),
+    ne(transactionLines.category, "振替"),
+    eq(transactionLines.type, "支出"),
   ];
 
   const rows = await db
     .select({
-      category: transactions.category,
+      category: transactionLines.category,
       total: sql<number>`sum(expense_amount)`,
       count: sql<number>`count(*)`,
     })
-    .from(transactions)
+    .from(transactionLines)
     .where(and(...conditions))
-    .groupBy(transactions.category)
+    .groupBy(transactionLines.category)
     .orderBy(sql`sum(expense_amount) desc`);
 
   const grandTotal = rows.reduce((sum, r) => sum + Number(r.total ?? 0), 0);
@@ -405,24 +420,24 @@ async function getCategoryBreakdownByRange(startDate: string, endDate: string) {
 /** 日付範囲でカテゴリ別の高額取引を取得 */
 async function getTopTransactionsByCategoryRange(startDate: string, endDate: string, limitPerCat = 5) {
   const conditions = [
-    gte(transactions.date, startDate),
-    lte(transactions.date, endDate),
-    eq(transactions.excludeFromPl, false),
-    ne(transactions.type, "振替"),
-    ne(transactions.category, "振替"),
-    eq(transactions.type, "支出"),
+    gte(transactionLines.date, startDate),
+    lte(transactionLines.date, endDate),
+    eq(transactionLines.excludeFromPl, false),
+    ne(transactionLines.type, "振替"),
+    ne(transactionLines.category, "振替"),
+    eq(transactionLines.type, "支出"),
   ];
 
   const rows = await db
     .select({
-      category: transactions.category,
-      itemName: transactions.itemName,
-      expenseAmount: transactions.expenseAmount,
-      date: transactions.date,
+      category: transactionLines.category,
+      itemName: transactionLines.itemName,
+      expenseAmount: transactionLines.expenseAmount,
+      date: transactionLines.date,
     })
-    .from(transactions)
+    .from(transactionLines)
     .where(and(...conditions))
-    .orderBy(desc(transactions.expenseAmount));
+    .orderBy(desc(transactionLines.expenseAmount));
 
   const byCategory = new Map<string, Array<{ itemName: string; amount: number; date: string }>>();
   for (const row of rows) {
@@ -480,31 +495,31 @@ async function getProgressComparison(baseYear: number) {
   const currentMonth = now.getMonth() + 1;
 
   const baseConditions = [
-    eq(transactions.excludeFromPl, false),
-    ne(transactions.type, "振替"),
-    ne(transactions.category, "振替"),
-    eq(transactions.type, "支出"),
+    eq(transactionLines.excludeFromPl, false),
+    ne(transactionLines.type, "振替"),
+    ne(transactionLines.category, "振替"),
+    eq(transactionLines.type, "支出"),
   ];
 
   // 基準年の年間支出
   const baseRows = await db
     .select({
-      category: transactions.category,
+      category: transactionLines.category,
       total: sql<number>`sum(expense_amount)`,
     })
-    .from(transactions)
-    .where(and(...baseConditions, eq(transactions.year, baseYear)))
-    .groupBy(transactions.category);
+    .from(transactionLines)
+    .where(and(...baseConditions, eq(transactionLines.year, baseYear)))
+    .groupBy(transactionLines.category);
 
   // 今年のYTD支出
   const ytdRows = await db
     .select({
-      category: transactions.category,
+      category: transactionLines.category,
       total: sql<number>`sum(expense_amount)`,
     })
-    .from(transactions)
-    .where(and(...baseConditions, eq(transactions.year, currentYear)))
-    .groupBy(transactions.category);
+    .from(transactionLines)
+    .where(and(...baseConditions, eq(transactionLines.year, currentYear)))
+    .groupBy(transactionLines.category);
 
   const baseMap = new Map(baseRows.map((r) => [r.category, Number(r.total ?? 0)]));
   const ytdMap = new Map(ytdRows.map((r) => [r.category, Number(r.total ?? 0)]));
@@ -547,23 +562,23 @@ async function getPastYearSummary() {
 
   const rows = await db
     .select({
-      category: transactions.category,
-      year: transactions.year,
-      month: transactions.month,
+      category: transactionLines.category,
+      year: transactionLines.year,
+      month: transactionLines.month,
       total: sql<number>`sum(expense_amount)`,
     })
-    .from(transactions)
+    .from(transactionLines)
     .where(
       and(
-        eq(transactions.excludeFromPl, false),
-        ne(transactions.type, "振替"),
-        ne(transactions.category, "振替"),
-        eq(transactions.type, "支出"),
+        eq(transactionLines.excludeFromPl, false),
+        ne(transactionLines.type, "振替"),
+        ne(transactionLines.category, "振替"),
+        eq(transactionLines.type, "支出"),
         sql`(year * 100 + month) >= ${fromYear * 100 + fromMonth}`,
         sql`(year * 100 + month) <= ${toYear * 100 + toMonth}`
       )
     )
-    .groupBy(transactions.category, transactions.year, transactions.month);
+    .groupBy(transactionLines.category, transactionLines.year, transactionLines.month);
 
   // カテゴリ別に月合計を集計
   const categoryMonthlyMap = new Map<string, number[]>();
@@ -599,39 +614,39 @@ async function getPastYearSummary() {
 
 async function getTopItems(year: number, month?: number, limit = 20) {
   const baseConditions = [
-    eq(transactions.year, year),
-    eq(transactions.excludeFromPl, false),
-    ne(transactions.type, "振替"),
-    ne(transactions.category, "振替"),
-    eq(transactions.type, "支出"),
+    eq(transactionLines.year, year),
+    eq(transactionLines.excludeFromPl, false),
+    ne(transactionLines.type, "振替"),
+    ne(transactionLines.category, "振替"),
+    eq(transactionLines.type, "支出"),
   ];
-  if (month) baseConditions.push(eq(transactions.month, month));
+  if (month) baseConditions.push(eq(transactionLines.month, month));
 
   // 名称あり: (category, itemName) でグループ集計
   const namedRows = await db
     .select({
-      category: transactions.category,
-      itemName: transactions.itemName,
+      category: transactionLines.category,
+      itemName: transactionLines.itemName,
       total: sql<number>`sum(expense_amount)`,
       count: sql<number>`count(*)`,
     })
-    .from(transactions)
+    .from(transactionLines)
     .where(and(...baseConditions, sql`item_name IS NOT NULL AND item_name != ''`))
-    .groupBy(transactions.category, transactions.itemName)
+    .groupBy(transactionLines.category, transactionLines.itemName)
     .orderBy(sql`sum(expense_amount) desc`)
     .limit(limit);
 
   // 名称なし: 個別取引をそのまま取得（合算しない）
   const unnamedRows = await db
     .select({
-      category: transactions.category,
-      itemName: transactions.itemName,
-      total: transactions.expenseAmount,
+      category: transactionLines.category,
+      itemName: transactionLines.itemName,
+      total: transactionLines.expenseAmount,
       count: sql<number>`1`,
     })
-    .from(transactions)
+    .from(transactionLines)
     .where(and(...baseConditions, sql`(item_name IS NULL OR item_name = '')`))
-    .orderBy(desc(transactions.expenseAmount))
+    .orderBy(desc(transactionLines.expenseAmount))
     .limit(limit);
 
   // 結合して再ソート
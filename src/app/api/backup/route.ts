@@ -0,0 +1,70 @@
+/**
+ * バックアップ API
+ * GET  /api/backup                                   → 全テーブルの JSON アーカイブをダウンロード
+ * POST /api/backup { mode, archive, dryRun? }        → アーカイブを復元
+ *        mode: 'replace' = 全テーブルを置き換える | 'merge' = 既存の行を残して追加する
+ *        dryRun: true なら検証と件数の確認だけを行う
+ *
+ * アーカイブの形式・復元の挙動は lib/backup.ts を参照。
+ * コマンドラインからは scripts/backup.ts で同じ処理を実行できる。
+ * API での復元は MAX_RESTORE_BYTES（4 MB）までのアーカイブに限る。それより大きいものは scripts/backup.ts で復元する。
+ */
+import { NextRequest, NextResponse } from "next/server";
+import { createBackup, restoreBackup, validateBackup, type RestoreMode } from "@/lib/backup";
+
+export const maxDuration = 60; // Vercel Pro: 60s
+
+/** API で受け付ける復元リクエストの上限（Vercel の関数が受け取れる本文は 4.5 MB まで） */
+const MAX_RESTORE_BYTES = 4 * 1024 * 1024;
+const TOO_LARGE_ERROR =
+  "アーカイブが大きすぎるため画面からは復元できません（上限 4 MB）。" +
+  "npx tsx scripts/backup.ts restore <ファイル> で復元してください";
+
+export async function GET() {
+  try {
+    const archive = await createBackup();
+    const stamp = archive.createdAt.slice(0, 10).replace(/-/g, "");
+    return new NextResponse(JSON.stringify(archive), {
+      headers: {
+        "Content-Type": "application/json; charset=utf-8",
+        "Content-Disposition": `attachment; filename="kakei-backup-${stamp}.json"`,
+      },
+    });
+  } catch (e) {
+    console.error(e);
+    return NextResponse.json({ error: "バックアップの作成に失敗しました" }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    // 本文を読む前に Content-Length で断り、申告がない場合も読んだ大きさで確かめる
+    if (Number(req.headers.get("content-length") ?? 0) > MAX_RESTORE_BYTES) {
+      return NextResponse.json({ error: TOO_LARGE_ERROR }, { status: 413 });
+    }
+    const text = await req.text();
+    if (Buffer.byteLength(text) > MAX_RESTORE_BYTES) {
+      return NextResponse.json({ error: TOO_LARGE_ERROR }, { status: 413 });
+    }
+
+    const { mode, archive, dryRun } = JSON.parse(text) as { mode?: RestoreMode; archive?: unknown; dryRun?: boolean };
+    if (mode !== "replace" && mode !== "merge") {
+      return NextResponse.json({ error: "mode は replace か merge を指定してください" }, { status: 400 });
+    }
+    const result = validateBackup(archive);
+    if ("error" in result) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+
+    if (dryRun) {
+      const counts = Object.fromEntries(Object.entries(result.archive.tables).map(([name, rows]) => [name, rows.length]));
+      return NextResponse.json({ success: true, dryRun: true, mode, createdAt: result.archive.createdAt, counts });
+    }
+
+    const counts = await restoreBackup(result.archive, mode);
+    return NextResponse.json({ success: true, mode, createdAt: result.archive.createdAt, counts });
+  } catch (e) {
+    console.error(e);
+    return NextResponse.json({ error: "バックアップの復元に失敗しました" }, { status: 500 });
+  }
+}
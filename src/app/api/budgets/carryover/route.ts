@@ -1,61 +1,19 @@
 /**
  * GET /api/budgets/carryover?year=2026&month=2
- * 前月の予算残高から今月の繰越額を自動計算して返す
+ * カテゴリ別の繰越台帳から今月の繰越額を計算して返す（繰越ルールを適用、予算を保存しなかった月があっても途切れない）
  */
 import { NextRequest, NextResponse } from "next/server";
-import { db } from "@/lib/db";
-import { budgets, transactions } from "@/lib/schema";
-import { eq, and, sql, ne } from "drizzle-orm";
+import { computeCarryover } from "@/lib/budget-carryover";
 
 export async function GET(req: NextRequest) {
   const { searchParams } = req.nextUrl;
   const year = parseInt(searchParams.get("year") ?? String(new Date().getFullYear()));
   const month = parseInt(searchParams.get("month") ?? String(new Date().getMonth() + 1));
 
-  const prevMonth = month === 1 ? 12 : month - 1;
-  const prevYear = month === 1 ? year - 1 : year;
-
   try {
-    // 前月の予算設定
-    const prevBudgets = await db
-      .select()
-      .from(budgets)
-      .where(and(eq(budgets.year, prevYear), eq(budgets.month, prevMonth)));
-
-    // 前月の実績
-    const prevActuals = await db
-      .select({
-        category: transactions.category,
-        actual: sql<number>`sum(expense_amount)`,
-      })
-      .from(transactions)
-      .where(
-        and(
-          eq(transactions.year, prevYear),
-          eq(transactions.month, prevMonth),
-          eq(transactions.excludeFromPl, false),
-          ne(transactions.type, "振替"),
-          ne(transactions.category, "振替"),
-          eq(transactions.type, "支出")
-        )
-      )
-      .groupBy(transactions.category);
-
-    const actualMap = new Map(prevActuals.map((a) => [a.category, Number(a.actual ?? 0)]));
-
-    const carryoverMap = prevBudgets.map((b) => {
-      const actual = actualMap.get(b.categoryName) ?? 0;
-      const remaining = b.totalBudget - actual;
-      return {
-        categoryName: b.categoryName,
-        prevTotalBudget: b.totalBudget,
-        prevActual: actual,
-        carryover: remaining, // 残りをそのまま繰越（±）
-      };
-    });
-
+    const { items, prevYear, prevMonth } = await computeCarryover(year, month);
     return NextResponse.json({
-      data: carryoverMap,
+      data: items,
       prevYear,
       prevMonth,
     });
@@ -0,0 +1,16 @@
+/**
+ * GET /api/budgets/income-allocations
+ * 予算の月ごとの収入割り当ての履歴（前月の実収入・割り当てた合計・割当待ち）を新しい月から返す
+ */
+import { NextResponse } from "next/server";
+import { listIncomeAllocations } from "@/lib/income-allocation";
+
+export async function GET() {
+  try {
+    const data = await listIncomeAllocations();
+    return NextResponse.json({ data });
+  } catch (e) {
+    console.error(e);
+    return NextResponse.json({ error: "収入割り当ての履歴の取得に失敗しました" }, { status: 500 });
+  }
+}
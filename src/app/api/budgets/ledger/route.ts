@@ -0,0 +1,21 @@
+/**
+ * GET /api/budgets/ledger?year=2026&month=2[&category=食費]
+ * 最初に予算を保存した月から指定月までの、カテゴリ別の繰越台帳（月額予算・繰越・実績・残額の履歴）を返す
+ */
+import { NextRequest, NextResponse } from "next/server";
+import { buildBudgetLedgers } from "@/lib/budget-carryover";
+
+export async function GET(req: NextRequest) {
+  const { searchParams } = req.nextUrl;
+  const year = parseInt(searchParams.get("year") ?? String(new Date().getFullYear()));
+  const month = parseInt(searchParams.get("month") ?? String(new Date().getMonth() + 1));
+  const category = searchParams.get("category") ?? undefined;
+
+  try {
+    const data = await buildBudgetLedgers(year, month, category);
+    return NextResponse.json({ data, year, month });
+  } catch (e) {
+    console.error(e);
+    return NextResponse.json({ error: "繰越台帳の取得に失敗しました" }, { status: 500 });
+  }
+}
@@ -1,12 +1,19 @@
 /**
  * 予算 API
- * GET  /api/budgets?year=2026&month=2   → 指定月の予算一覧（実績付き）
- * POST /api/budgets                      → 予算の保存（upsert）
+ * GET  /api/budgets?year=2026&month=2   → 指定月の予算一覧（実績・予算移動付き。totalBudget / remaining は予算移動を反映）
+ * POST /api/budgets                      → 予算の保存（upsert）{ year, month, items, allowOverAllocation? }
+ *                                           前月の収入を超えて割り当てる場合は 409（allowOverAllocation: true で保存する）
+ *                                           保存後、前月の収入に対する割り当て状況を monthly_income_allocations に記録する
+ * POST /api/budgets { action: "open_month", year, month, dryRun? }
+ *                                         → 標準予算 + 繰越額でその月の予算を作る（作成済みの月は何もしない）
  */
 import { NextRequest, NextResponse } from "next/server";
 import { db } from "@/lib/db";
-import { budgets, transactions } from "@/lib/schema";
-import { eq, and, sql, ne } from "drizzle-orm";
+import { budgets } from "@/lib/schema";
+import { sql } from "drizzle-orm";
+import { getMonthlyBudgetStatus, openMonth } from "@/lib/budget-carryover";
+import { planIncomeAllocation, recordIncomeAllocation } from "@/lib/income-allocation";
+import { formatCurrency } from "@/lib/utils";
 
 export async function GET(req: NextRequest) {
   const { searchParams } = req.nextUrl;
@@ -14,56 +21,7 @@ export async function GET(req: NextRequest) {
   const month = parseInt(searchParams.get("month") ?? String(new Date().getMonth() + 1));
 
   try {
-    // 予算設定を取得
-    const budgetRows = await db
-      .select()
-      .from(budgets)
-      .where(and(eq(budgets.year, year), eq(budgets.month, month)))
-      .orderBy(budgets.categoryName);
-
-    // 同月の実績（カテゴリ別支出合計）を取得
-    const actuals = await db
-      .select({
-        category: transactions.category,
-        actual: sql<number>`sum(expense_amount)`,
-      })
-      .from(transactions)
-      .where(
-        and(
-          eq(transactions.year, year),
-          eq(transactions.month, month),
-          eq(transactions.excludeFromPl, false),
-          ne(transactions.type, "振替"),
-          ne(transactions.category, "振替"),
-          eq(transactions.type, "支出")
-        )
-      )
-      .groupBy(transactions.category);
-
-    const actualMap = new Map(actuals.map((a) => [a.category, Number(a.actual ?? 0)]));
-
-    const budgetMap = new Map(budgetRows.map((b) => [b.categoryName, b]));
-
-    // 予算レコードがあるカテゴリ + 取引があるカテゴリ を合わせる
-    const txCatSet = new Set(actuals.map((a) => a.category));
-    budgetRows.forEach((b) => txCatSet.add(b.categoryName));
-    const allCats = Array.from(txCatSet).sort();
-
-    const result = allCats.map((category) => {
-      const budget = budgetMap.get(category);
-      const actual = actualMap.get(category) ?? 0;
-      return {
-        categoryName: category,
-        allocation: budget?.allocation ?? 0,
-        carryover: budget?.carryover ?? 0,
-        totalBudget: budget?.totalBudget ?? 0,
-        actual,
-        remaining: (budget?.totalBudget ?? 0) - actual,
-        notes: budget?.notes ?? null,
-        hasBudget: !!budget,
-      };
-    });
-
+    const result = await getMonthlyBudgetStatus(year, month);
     return NextResponse.json({ data: result, year, month });
   } catch (e) {
     console.error(e);
@@ -74,9 +32,20 @@ export async function GET(req: NextRequest) {
 export async function POST(req: NextRequest) {
   try {
     const body = await req.json();
-    const { year, month, items } = body as {
+
+    if (body.action === "open_month") {
+      const { year, month, dryRun } = body as { year: number; month: number; dryRun?: boolean };
+      if (!year || !month || month < 1 || month > 12) {
+        return NextResponse.json({ error: "パラメータが不正です" }, { status: 400 });
+      }
+      const result = await openMonth(year, month, { dryRun: !!dryRun });
+      return NextResponse.json({ data: result });
+    }
+
+    const { year, month, items, allowOverAllocation } = body as {
       year: number;
       month: number;
+      allowOverAllocation?: boolean;
       items: Array<{
         categoryName: string;
         allocation: number;
@@ -89,6 +58,15 @@ export async function POST(req: NextRequest) {
       return NextResponse.json({ error: "パラメータが不正です" }, { status: 400 });
     }
 
+    // 前月の収入を超える割り当ては、確認のうえで保存する
+    const plan = await planIncomeAllocation(year, month, items);
+    if (plan.toBeAllocated < 0 && !allowOverAllocation) {
+      return NextResponse.json(
+        { error: `前月の収入を ${formatCurrency(-plan.toBeAllocated)} 超えて割り当てています`, data: plan },
+        { status: 409 }
+      );
+    }
+
     // upsert 一括処理
     for (const item of items) {
       const totalBudget = item.allocation + item.carryover;
@@ -115,7 +93,8 @@ export async function POST(req: NextRequest) {
         });
     }
 
-    return NextResponse.json({ success: true, count: items.length });
+    const incomeAllocation = await recordIncomeAllocation(year, month);
+    return NextResponse.json({ success: true, count: items.length, data: { incomeAllocation } });
   } catch (e) {
     console.error(e);
     return NextResponse.json({ error: "予算の保存に失敗しました" }, { status: 500 });
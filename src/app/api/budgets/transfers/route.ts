@@ -0,0 +1,75 @@
+/**
+ * 予算移動 API（月の途中でカテゴリ間に予算を移す）
+ * GET  /api/budgets/transfers?year=2026&month=2  → 指定月の予算移動の履歴（新しい順）
+ * POST /api/budgets/transfers                    → 予算を移動 { year, month, fromCategory, toCategory, amount, memo? }
+ *
+ * 移動は /api/budgets の totalBudget・remaining と繰越台帳に反映される。
+ * 履歴として残すため削除はできない。取り消すときは逆向きに同じ額を移動する。
+ */
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { budgetTransfers } from "@/lib/schema";
+import { and, desc, eq } from "drizzle-orm";
+
+export async function GET(req: NextRequest) {
+  const { searchParams } = req.nextUrl;
+  const year = parseInt(searchParams.get("year") ?? String(new Date().getFullYear()));
+  const month = parseInt(searchParams.get("month") ?? String(new Date().getMonth() + 1));
+
+  try {
+    const data = await db
+      .select()
+      .from(budgetTransfers)
+      .where(and(eq(budgetTransfers.year, year), eq(budgetTransfers.month, month)))
+      .orderBy(desc(budgetTransfers.createdAt), desc(budgetTransfers.id));
+    return NextResponse.json({ data, year, month });
+  } catch (e) {
+    console.error(e);
+    return NextResponse.json({ error: "予算移動の取得に失敗しました" }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const body = (await req.json()) as {
+      year?: number;
+      month?: number;
+      fromCategory?: string;
+      toCategory?: string;
+      amount?: number;
+      memo?: string;
+    };
+    const fromCategory = body.fromCategory?.trim() ?? "";
+    const toCategory = body.toCategory?.trim() ?? "";
+    const amount = Number(body.amount);
+
+    if (!body.year || !body.month || body.month < 1 || body.month > 12) {
+      return NextResponse.json({ error: "パラメータが不正です" }, { status: 400 });
+    }
+    if (fromCategory === "" || toCategory === "") {
+      return NextResponse.json({ error: "移動元と移動先のカテゴリを指定してください" }, { status: 400 });
+    }
+    if (fromCategory === toCategory) {
+      return NextResponse.json({ error: "移動元と移動先が同じカテゴリです" }, { status: 400 });
+    }
+    if (!Number.isInteger(amount) || amount <= 0) {
+      return NextResponse.json({ error: "移動額は1円以上の整数で入力してください" }, { status: 400 });
+    }
+
+    const [created] = await db
+      .insert(budgetTransfers)
+      .values({
+        year: body.year,
+        month: body.month,
+        fromCategory,
+        toCategory,
+        amount,
+        memo: body.memo?.trim() || null,
+      })
+      .returning();
+    return NextResponse.json({ success: true, data: created });
+  } catch (e) {
+    console.error(e);
+    return NextResponse.json({ error: "予算の移動に失敗しました" }, { status: 500 });
+  }
+}
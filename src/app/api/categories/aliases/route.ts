@@ -0,0 +1,38 @@
+/**
+ * カテゴリの別名 API
+ * GET    /api/categories/aliases          → 旧カテゴリ名と読み替え先の一覧
+ * DELETE /api/categories/aliases?alias=   → 別名を削除（以後のインポートで読み替えなくなる）
+ *
+ * 別名は名前の変更・統合（/api/categories/merge）で登録される。
+ */
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { categoryAliases } from "@/lib/schema";
+import { asc, eq } from "drizzle-orm";
+
+export async function GET() {
+  try {
+    const data = await db
+      .select()
+      .from(categoryAliases)
+      .orderBy(asc(categoryAliases.categoryName), asc(categoryAliases.alias));
+    return NextResponse.json({ data });
+  } catch (e) {
+    console.error(e);
+    return NextResponse.json({ error: "別名の取得に失敗しました" }, { status: 500 });
+  }
+}
+
+export async function DELETE(req: NextRequest) {
+  try {
+    const alias = req.nextUrl.searchParams.get("alias") ?? "";
+    if (!alias) {
+      return NextResponse.json({ error: "alias が必要です" }, { status: 400 });
+    }
+    await db.delete(categoryAliases).where(eq(categoryAliases.alias, alias));
+    return NextResponse.json({ success: true });
+  } catch (e) {
+    console.error(e);
+    return NextResponse.json({ error: "別名の削除に失敗しました" }, { status: 500 });
+  }
+}
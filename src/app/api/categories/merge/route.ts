@@ -0,0 +1,204 @@
+/**
+ * カテゴリの名前変更・統合 API
+ * GET  /api/categories/merge?from=旧名&to=新名 → 書き換わる件数（プレビュー）
+ * POST /api/categories/merge {from, to}        → 実行
+ *
+ * to が既存のカテゴリなら統合、なければ名前の変更として扱う。次を1トランザクションで書き換える:
+ *  - transactions.category・分割明細のカテゴリ・分類ルールの書き換え先
+ *  - budgets.categoryName（同じ月に両方の予算があれば金額を合算して1行にする）
+ *  - standard_budgets.categoryName（両方あれば割当額を合算）
+ *  - budget_transfers の移動元・移動先（旧名と新名の間の移動は、統合後は同じカテゴリ内の移動になるため削除）
+ *  - budget_alert_thresholds.categoryName（両方あれば統合先のしきい値を残す）
+ *  - カテゴリ登録簿（統合なら旧カテゴリを削除、名前の変更なら登録を引き継ぐ）
+ * 旧名は category_aliases に記録し、以後のインポートで新しい名前に読み替える。
+ *
+ * インポートの取り消し（/api/import/history）で戻る行は、取り込み前の旧名のままになる。
+ */
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import {
+  transactions,
+  transactionSplits,
+  budgets,
+  budgetTransfers,
+  budgetAlertThresholds,
+  standardBudgets,
+  categories,
+  categoryAliases,
+  categoryRules,
+} from "@/lib/schema";
+import { and, eq, or, sql } from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
+
+/** 特別経費の予測・実績はこの名前で集計しているため、変更・統合の元にはできない */
+const PROTECTED_CATEGORIES = new Set(["特別経費B"]);
+
+function validateNames(from: string, to: string): string | null {
+  if (!from || !to) return "変更前と変更後のカテゴリ名を指定してください";
+  if (from === to) return "変更前と変更後が同じです";
+  if (to.length > 100) return "カテゴリ名は100文字以内で入力してください";
+  if (from.startsWith("振替") || to.startsWith("振替")) return "振替カテゴリは変更できません";
+  if (PROTECTED_CATEGORIES.has(from)) return `${from}は特別経費の集計に使われているため変更できません`;
+  return null;
+}
+
+async function countAffected(from: string, to: string) {
+  const count = sql<number>`count(*)`;
+  const [[tx], [splits], [budgetRows], [mergedMonths], standard, [transfers], [rules], [targetTx], targetCategory] = await Promise.all([
+    db.select({ count }).from(transactions).where(eq(transactions.category, from)),
+    db.select({ count }).from(transactionSplits).where(eq(transactionSplits.category, from)),
+    db.select({ count }).from(budgets).where(eq(budgets.categoryName, from)),
+    db
+      .select({ count })
+      .from(budgets)
+      .where(
+        and(
+          eq(budgets.categoryName, from),
+          sql`(${budgets.year}, ${budgets.month}) in (select year, month from budgets where category_name = ${to})`
+        )
+      ),
+    db.select({ categoryName: standardBudgets.categoryName }).from(standardBudgets)
+      .where(sql`${standardBudgets.categoryName} in (${from}, ${to})`),
+    db
+      .select({ count })
+      .from(budgetTransfers)
+      .where(or(eq(budgetTransfers.fromCategory, from), eq(budgetTransfers.toCategory, from))),
+    db.select({ count }).from(categoryRules).where(eq(categoryRules.setCategory, from)),
+    db.select({ count }).from(transactions).where(eq(transactions.category, to)),
+    db.select({ id: categories.id }).from(categories).where(eq(categories.name, to)),
+  ]);
+  const targetExists =
+    Number(targetTx.count) > 0 || targetCategory.length > 0 || standard.some((s) => s.categoryName === to);
+
+  return {
+    mode: targetExists ? ("merge" as const) : ("rename" as const),
+    transactions: Number(tx.count),
+    splits: Number(splits.count),
+    budgets: Number(budgetRows.count),
+    budgetsMerged: Number(mergedMonths.count),
+    standardBudget: standard.some((s) => s.categoryName === from),
+    transfers: Number(transfers.count),
+    rules: Number(rules.count),
+  };
+}
+
+export async function GET(req: NextRequest) {
+  const from = req.nextUrl.searchParams.get("from")?.trim() ?? "";
+  const to = req.nextUrl.searchParams.get("to")?.trim() ?? "";
+  const error = validateNames(from, to);
+  if (error) return NextResponse.json({ error }, { status: 400 });
+
+  try {
+    return NextResponse.json({ data: await countAffected(from, to) });
+  } catch (e) {
+    console.error(e);
+    return NextResponse.json({ error: "影響範囲の確認に失敗しました" }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const body = (await req.json()) as { from?: string; to?: string };
+    const from = body.from?.trim() ?? "";
+    const to = body.to?.trim() ?? "";
+    const error = validateNames(from, to);
+    if (error) return NextResponse.json({ error }, { status: 400 });
+
+    const affected = await countAffected(from, to);
+    const [fromCategory, toCategory] = await Promise.all([
+      db.select({ id: categories.id }).from(categories).where(eq(categories.name, from)),
+      db.select({ id: categories.id }).from(categories).where(eq(categories.name, to)),
+    ]);
+
+    const fromBudget = alias(budgets, "from_budgets");
+    const fromStandard = alias(standardBudgets, "from_standard_budgets");
+    const sameMonthAsTo = sql`(${budgets.year}, ${budgets.month}) in (select year, month from budgets where category_name = ${to})`;
+
+    await db.batch([
+      db.update(transactions).set({ category: to }).where(eq(transactions.category, from)),
+      db.update(transactionSplits).set({ category: to }).where(eq(transactionSplits.category, from)),
+      db.update(categoryRules).set({ setCategory: to, updatedAt: new Date() }).where(eq(categoryRules.setCategory, from)),
+
+      // 予算: 同じ月に両方あれば新しい方へ合算してから旧名の行を消し、残りは名前だけ変える
+      db
+        .update(budgets)
+        .set({
+          allocation: sql`${budgets.allocation} + ${fromBudget.allocation}`,
+          carryover: sql`${budgets.carryover} + ${fromBudget.carryover}`,
+          totalBudget: sql`${budgets.totalBudget} + ${fromBudget.totalBudget}`,
+          updatedAt: new Date(),
+        })
+        .from(fromBudget)
+        .where(
+          and(
+            eq(budgets.categoryName, to),
+            eq(fromBudget.categoryName, from),
+            eq(fromBudget.year, budgets.year),
+            eq(fromBudget.month, budgets.month)
+          )
+        ),
+      db.delete(budgets).where(and(eq(budgets.categoryName, from), sameMonthAsTo)),
+      db.update(budgets).set({ categoryName: to, updatedAt: new Date() }).where(eq(budgets.categoryName, from)),
+
+      // 標準予算: 同様に合算
+      db
+        .update(standardBudgets)
+        .set({ allocation: sql`${standardBudgets.allocation} + ${fromStandard.allocation}`, updatedAt: new Date() })
+        .from(fromStandard)
+        .where(and(eq(standardBudgets.categoryName, to), eq(fromStandard.categoryName, from))),
+      db
+        .delete(standardBudgets)
+        .where(
+          and(
+            eq(standardBudgets.categoryName, from),
+            sql`exists (select 1 from standard_budgets where category_name = ${to})`
+          )
+        ),
+      db.update(standardBudgets).set({ categoryName: to, updatedAt: new Date() }).where(eq(standardBudgets.categoryName, from)),
+
+      // 予算移動: 旧名と新名の間の移動は統合後に同じカテゴリ内の移動（差し引き 0）になるので消し、残りは名前を変える
+      db
+        .delete(budgetTransfers)
+        .where(
+          or(
+            and(eq(budgetTransfers.fromCategory, from), eq(budgetTransfers.toCategory, to)),
+            and(eq(budgetTransfers.fromCategory, to), eq(budgetTransfers.toCategory, from))
+          )
+        ),
+      db.update(budgetTransfers).set({ fromCategory: to }).where(eq(budgetTransfers.fromCategory, from)),
+      db.update(budgetTransfers).set({ toCategory: to }).where(eq(budgetTransfers.toCategory, from)),
+
+      // 予算アラートのしきい値: カテゴリ名は一意なので、統合先に設定があればそちらを残す
+      db
+        .delete(budgetAlertThresholds)
+        .where(
+          and(
+            eq(budgetAlertThresholds.categoryName, from),
+            sql`exists (select 1 from budget_alert_thresholds where category_name = ${to})`
+          )
+        ),
+      db
+        .update(budgetAlertThresholds)
+        .set({ categoryName: to, updatedAt: new Date() })
+        .where(eq(budgetAlertThresholds.categoryName, from)),
+
+      // カテゴリ登録簿: 統合先が登録済みなら旧カテゴリを消し、なければ登録（色・グループ）を引き継ぐ
+      fromCategory.length > 0 && toCategory.length > 0
+        ? db.delete(categories).where(eq(categories.name, from))
+        : db.update(categories).set({ name: to, updatedAt: new Date() }).where(eq(categories.name, from)),
+
+      // 別名: 新しい名前は別名ではなくなり、旧名とその別名は新しい名前を指す
+      db.delete(categoryAliases).where(eq(categoryAliases.alias, to)),
+      db.update(categoryAliases).set({ categoryName: to }).where(eq(categoryAliases.categoryName, from)),
+      db
+        .insert(categoryAliases)
+        .values({ alias: from, categoryName: to })
+        .onConflictDoUpdate({ target: [categoryAliases.alias], set: { categoryName: to } }),
+    ]);
+
+    return NextResponse.json({ success: true, data: affected });
+  } catch (e) {
+    console.error(e);
+    return NextResponse.json({ error: "カテゴリの変更に失敗しました" }, { status: 500 });
+  }
+}
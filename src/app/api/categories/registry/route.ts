@@ -0,0 +1,123 @@
+/**
+ * カテゴリ登録簿 API
+ * GET  /api/categories/registry                          → グループとカテゴリ（表示順）
+ * POST /api/categories/registry {action: "save-category"} → カテゴリの追加（id なし）または更新（id あり）
+ * POST /api/categories/registry {action: "save-group"}    → グループの追加（id なし）または更新（id あり）
+ * POST /api/categories/registry {action: "delete-group"}  → グループを削除（所属カテゴリはグループなしになる）
+ *
+ * カテゴリ名は取引の category 文字列と対応するため、ここでは変更しない。
+ */
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { categories, categoryGroups } from "@/lib/schema";
+import { and, eq, ne } from "drizzle-orm";
+import { getCategoryRegistry } from "@/lib/category-registry";
+import { getCategoryColor } from "@/lib/utils";
+
+export async function GET() {
+  try {
+    return NextResponse.json({ data: await getCategoryRegistry() });
+  } catch (e) {
+    console.error(e);
+    return NextResponse.json({ error: "カテゴリの取得に失敗しました" }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json();
+
+    if (body.action === "save-category") {
+      const { id, name, groupId, sortOrder, color, active } = body as {
+        id?: number;
+        name?: string;
+        groupId?: number | null;
+        sortOrder?: number;
+        color?: string;
+        active?: boolean;
+      };
+      if (color !== undefined && !/^#[0-9a-fA-F]{6}$/.test(color)) {
+        return NextResponse.json({ error: "色は #RRGGBB 形式で指定してください" }, { status: 400 });
+      }
+      if (groupId != null) {
+        const [group] = await db.select({ id: categoryGroups.id }).from(categoryGroups).where(eq(categoryGroups.id, groupId));
+        if (!group) return NextResponse.json({ error: "グループが見つかりません" }, { status: 400 });
+      }
+      const values = {
+        groupId: groupId ?? null,
+        sortOrder: sortOrder ?? 0,
+        active: active ?? true,
+        ...(color ? { color } : {}),
+      };
+
+      if (!id) {
+        const trimmed = name?.trim() ?? "";
+        if (!trimmed || trimmed.length > 100) {
+          return NextResponse.json({ error: "カテゴリ名は1〜100文字で入力してください" }, { status: 400 });
+        }
+        const [existing] = await db.select({ id: categories.id }).from(categories).where(eq(categories.name, trimmed));
+        if (existing) {
+          return NextResponse.json({ error: "同じ名前のカテゴリが既にあります" }, { status: 409 });
+        }
+        const [created] = await db
+          .insert(categories)
+          .values({ name: trimmed, color: getCategoryColor(trimmed), ...values })
+          .returning();
+        return NextResponse.json({ success: true, data: created });
+      }
+
+      const [updated] = await db
+        .update(categories)
+        .set({ ...values, updatedAt: new Date() })
+        .where(eq(categories.id, id))
+        .returning();
+      if (!updated) return NextResponse.json({ error: "カテゴリが見つかりません" }, { status: 404 });
+      return NextResponse.json({ success: true, data: updated });
+    }
+
+    if (body.action === "save-group") {
+      const { id, name, sortOrder } = body as { id?: number; name?: string; sortOrder?: number };
+      const trimmed = name?.trim() ?? "";
+      if (!trimmed || trimmed.length > 50) {
+        return NextResponse.json({ error: "グループ名は1〜50文字で入力してください" }, { status: 400 });
+      }
+      const [duplicate] = await db
+        .select({ id: categoryGroups.id })
+        .from(categoryGroups)
+        .where(and(eq(categoryGroups.name, trimmed), id ? ne(categoryGroups.id, id) : undefined));
+      if (duplicate) {
+        return NextResponse.json({ error: "同じ名前のグループが既にあります" }, { status: 409 });
+      }
+
+      if (!id) {
+        const [created] = await db
+          .insert(categoryGroups)
+          .values({ name: trimmed, sortOrder: sortOrder ?? 0 })
+          .returning();
+        return NextResponse.json({ success: true, data: created });
+      }
+      const [updated] = await db
+        .update(categoryGroups)
+        .set({ name: trimmed, sortOrder: sortOrder ?? 0, updatedAt: new Date() })
+        .where(eq(categoryGroups.id, id))
+        .returning();
+      if (!updated) return NextResponse.json({ error: "グループが見つかりません" }, { status: 404 });
+      return NextResponse.json({ success: true, data: updated });
+    }
+
+    if (body.action === "delete-group") {
+      const { id } = body as { id?: number };
+      if (!id) return NextResponse.json({ error: "id が必要です" }, { status: 400 });
+      await db.batch([
+        db.update(categories).set({ groupId: null, updatedAt: new Date() }).where(eq(categories.groupId, id)),
+        db.delete(categoryGroups).where(eq(categoryGroups.id, id)),
+      ]);
+      return NextResponse.json({ success: true });
+    }
+
+    return NextResponse.json({ error: "不明な操作です" }, { status: 400 });
+  } catch (e) {
+    console.error(e);
+    return NextResponse.json({ error: "カテゴリの保存に失敗しました" }, { status: 500 });
+  }
+}
@@ -0,0 +1,111 @@
+/**
+ * 分類ルールの再適用 API
+ * GET  /api/category-rules/apply → 現在のルールを保存済みの取引に適用した場合に変わる行（プレビュー）
+ * POST /api/category-rules/apply → 実際に書き換える
+ *
+ * 対象は CSV から取り込んだ支出・収入の行のみ（手入力の行と振替は書き換えない）。
+ * どのルールにも一致しない行は元のまま残る（ルールを削除しても以前の書き換えは戻らない）。
+ */
+import { NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { transactions, categoryRules } from "@/lib/schema";
+import { and, inArray, ne } from "drizzle-orm";
+import type { BatchItem } from "drizzle-orm/batch";
+import { findCategoryRuleChanges } from "@/lib/category-rules";
+
+export const maxDuration = 60;
+
+/** プレビューで返す行の上限 */
+const PREVIEW_LIMIT = 200;
+
+async function collectChanges() {
+  const [rules, rows] = await Promise.all([
+    db.select().from(categoryRules),
+    db
+      .select({
+        id: transactions.id,
+        date: transactions.date,
+        type: transactions.type,
+        category: transactions.category,
+        itemName: transactions.itemName,
+        memo: transactions.memo,
+        assetName: transactions.assetName,
+        amount: transactions.amount,
+        tag: transactions.tag,
+        excludeFromPl: transactions.excludeFromPl,
+      })
+      .from(transactions)
+      .where(and(ne(transactions.source, "manual"), ne(transactions.type, "振替"))),
+  ]);
+  return findCategoryRuleChanges(rows, rules);
+}
+
+export async function GET() {
+  try {
+    const changes = await collectChanges();
+
+    // ルールごとの件数
+    const byRule = new Map<number, { ruleId: number; name: string; count: number }>();
+    for (const { rule } of changes) {
+      const entry = byRule.get(rule.id) ?? { ruleId: rule.id, name: rule.name, count: 0 };
+      entry.count++;
+      byRule.set(rule.id, entry);
+    }
+
+    return NextResponse.json({
+      data: {
+        count: changes.length,
+        byRule: [...byRule.values()],
+        rows: changes
+          .sort((a, b) => b.before.date.localeCompare(a.before.date))
+          .slice(0, PREVIEW_LIMIT)
+          .map(({ before, after, rule }) => ({
+            id: before.id,
+            date: before.date,
+            itemName: before.itemName,
+            assetName: before.assetName,
+            amount: before.amount,
+            ruleId: rule.id,
+            before: { category: before.category, tag: before.tag, excludeFromPl: before.excludeFromPl },
+            after: { category: after.category, tag: after.tag, excludeFromPl: after.excludeFromPl },
+          })),
+      },
+    });
+  } catch (e) {
+    console.error(e);
+    return NextResponse.json({ error: "再適用のプレビューに失敗しました" }, { status: 500 });
+  }
+}
+
+export async function POST() {
+  try {
+    const changes = await collectChanges();
+    if (changes.length === 0) {
+      return NextResponse.json({ success: true, updated: 0 });
+    }
+
+    // 書き換え後の値が同じ行をまとめて UPDATE する
+    const groups = new Map<string, { values: { category: string; tag: string | null; excludeFromPl: boolean }; ids: number[] }>();
+    for (const { after } of changes) {
+      const values = { category: after.category, tag: after.tag, excludeFromPl: after.excludeFromPl };
+      const key = JSON.stringify(values);
+      const group = groups.get(key) ?? { values, ids: [] };
+      group.ids.push(after.id);
+      groups.set(key, group);
+    }
+
+    const statements: BatchItem<"pg">[] = [];
+    const BATCH = 500;
+    for (const { values, ids } of groups.values()) {
+      for (let i = 0; i < ids.length; i += BATCH) {
+        statements.push(db.update(transactions).set(values).where(inArray(transactions.id, ids.slice(i, i + BATCH))));
+      }
+    }
+    await db.batch(statements as [BatchItem<"pg">, ...BatchItem<"pg">[]]);
+
+    return NextResponse.json({ success: true, updated: changes.length });
+  } catch (e) {
+    console.error(e);
+    return NextResponse.json({ error: "分類ルールの再適用に失敗しました" }, { status: 500 });
+  }
+}
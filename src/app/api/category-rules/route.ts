@@ -0,0 +1,72 @@
+/**
+ * 分類ルール API
+ * GET    /api/category-rules        → ルールの一覧（評価順）
+ * POST   /api/category-rules        → 追加（id なし）または更新（id あり）
+ * DELETE /api/category-rules?id=    → 削除
+ *
+ * ルールはインポート時に適用される（category-rules.ts）。
+ * 保存済みの取引に反映するには /api/category-rules/apply で再適用する。
+ */
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { categoryRules } from "@/lib/schema";
+import { asc, eq } from "drizzle-orm";
+import { validateCategoryRuleInput, type CategoryRuleInput } from "@/lib/category-rules";
+
+export async function GET() {
+  try {
+    const data = await db
+      .select()
+      .from(categoryRules)
+      .orderBy(asc(categoryRules.priority), asc(categoryRules.id));
+    return NextResponse.json({ data });
+  } catch (e) {
+    console.error(e);
+    return NextResponse.json({ error: "分類ルールの取得に失敗しました" }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const body = (await req.json()) as CategoryRuleInput & { id?: number };
+    const result = validateCategoryRuleInput(body);
+    if ("error" in result) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+
+    if (!body.id) {
+      const [created] = await db.insert(categoryRules).values(result.values).returning();
+      return NextResponse.json({ success: true, data: created });
+    }
+
+    const [updated] = await db
+      .update(categoryRules)
+      .set({ ...result.values, updatedAt: new Date() })
+      .where(eq(categoryRules.id, body.id))
+      .returning();
+    if (!updated) {
+      return NextResponse.json({ error: "分類ルールが見つかりません" }, { status: 404 });
+    }
+    return NextResponse.json({ success: true, data: updated });
+  } catch (e) {
+    console.error(e);
+    return NextResponse.json({ error: "分類ルールの保存に失敗しました" }, { status: 500 });
+  }
+}
+
+export async function DELETE(req: NextRequest) {
+  try {
+    const id = parseInt(req.nextUrl.searchParams.get("id") ?? "", 10);
+    if (!id) {
+      return NextResponse.json({ error: "id が必要です" }, { status: 400 });
+    }
+    const deleted = await db.delete(categoryRules).where(eq(categoryRules.id, id)).returning({ id: categoryRules.id });
+    if (deleted.length === 0) {
+      return NextResponse.json({ error: "分類ルールが見つかりません" }, { status: 404 });
+    }
+    return NextResponse.json({ success: true });
+  } catch (e) {
+    console.error(e);
+    return NextResponse.json({ error: "分類ルールの削除に失敗しました" }, { status: 500 });
+  }
+}
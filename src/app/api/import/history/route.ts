@@ -0,0 +1,128 @@
+/**
+ * インポート履歴 API
+ * GET  /api/import/history           → 直近のインポート一覧
+ * POST /api/import/history {batchId} → 指定インポートを取り消し、取り込み前の状態に戻す
+ *
+ * 取り消しは新しいものから順にしか行えない（後続のインポートが同じ月を上書きしている可能性があるため）。
+ * 退避データを削除した古いインポート（/api/import の BACKUP_RETENTION を参照）は取り消せない。
+ */
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import {
+  transactions,
+  assetSnapshots,
+  importBatches,
+  importBatchBackups,
+  type Transaction,
+  type AssetSnapshot,
+} from "@/lib/schema";
+import { desc, eq, isNull } from "drizzle-orm";
+import type { BatchItem } from "drizzle-orm/batch";
+import { relinkSplitsStatement } from "@/lib/transaction-splits";
+
+export const maxDuration = 60;
+
+export async function GET() {
+  try {
+    const rows = await db
+      .select()
+      .from(importBatches)
+      .orderBy(desc(importBatches.id))
+      .limit(50);
+
+    // 取り消し可能なのは、取り消されていない最新のインポートのみ（退避データが残っている場合）
+    const latestActive = rows.find((r) => r.revertedAt === null);
+    const data = rows.map((r) => ({ ...r, revertable: r.id === latestActive?.id && r.backupPrunedAt === null }));
+
+    return NextResponse.json({ data });
+  } catch (e) {
+    console.error(e);
+    return NextResponse.json({ error: "インポート履歴の取得に失敗しました" }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const { batchId } = (await req.json()) as { batchId: number };
+    if (!batchId) {
+      return NextResponse.json({ error: "batchId が必要です" }, { status: 400 });
+    }
+
+    const [batch] = await db.select().from(importBatches).where(eq(importBatches.id, batchId));
+    if (!batch) {
+      return NextResponse.json({ error: "インポートが見つかりません" }, { status: 404 });
+    }
+    if (batch.revertedAt) {
+      return NextResponse.json({ error: "このインポートは取り消し済みです" }, { status: 400 });
+    }
+    if (batch.backupPrunedAt) {
+      return NextResponse.json(
+        { error: "古いインポートのため取り込み前のデータが残っておらず、取り消せません" },
+        { status: 400 }
+      );
+    }
+
+    const [latest] = await db
+      .select({ id: importBatches.id })
+      .from(importBatches)
+      .where(isNull(importBatches.revertedAt))
+      .orderBy(desc(importBatches.id))
+      .limit(1);
+    if (latest?.id !== batch.id) {
+      return NextResponse.json(
+        { error: "新しいインポートから順に取り消してください" },
+        { status: 409 }
+      );
+    }
+
+    const backups = await db
+      .select()
+      .from(importBatchBackups)
+      .where(eq(importBatchBackups.batchId, batchId));
+
+    // jsonb に退避した行は timestamp が文字列になっているので戻す
+    const txRows = backups
+      .filter((b) => b.tableName === "transactions")
+      .map((b) => {
+        const row = b.data as Transaction;
+        return { ...row, createdAt: new Date(row.createdAt) };
+      });
+    const snapRows = backups
+      .filter((b) => b.tableName === "asset_snapshots")
+      .map((b) => {
+        const row = b.data as AssetSnapshot;
+        return { ...row, updatedAt: new Date(row.updatedAt) };
+      });
+
+    // このインポートで入った行を消し、退避していた行を元の id のまま戻す
+    const statements: BatchItem<"pg">[] = [
+      db.delete(transactions).where(eq(transactions.importBatchId, batchId)),
+      db.delete(assetSnapshots).where(eq(assetSnapshots.importBatchId, batchId)),
+    ];
+    const BATCH = 500;
+    for (let i = 0; i < txRows.length; i += BATCH) {
+      statements.push(db.insert(transactions).values(txRows.slice(i, i + BATCH)));
+    }
+    for (let i = 0; i < snapRows.length; i += BATCH) {
+      statements.push(db.insert(assetSnapshots).values(snapRows.slice(i, i + BATCH)));
+    }
+    statements.push(
+      relinkSplitsStatement(),
+      db.update(importBatches).set({ revertedAt: new Date() }).where(eq(importBatches.id, batchId)),
+      db.delete(importBatchBackups).where(eq(importBatchBackups.batchId, batchId))
+    );
+
+    await db.batch(statements as [BatchItem<"pg">, ...BatchItem<"pg">[]]);
+
+    return NextResponse.json({
+      success: true,
+      restored: { transactions: txRows.length, assets: snapRows.length },
+    });
+  } catch (e) {
+    console.error(e);
+    return NextResponse.json(
+      { error: e instanceof Error ? e.message : "取り消しに失敗しました" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,124 +1,496 @@
+/**
+ * CSV インポート API
+ * POST /api/import               → 収支合算・資産別レポート（銀行・カード明細も可）を取り込む
+ * POST /api/import (dryRun=true) → DB を変更せず、月別の差分だけを返す
+ *
+ * フォーム: combined / asset（ファイル）, format, assetName（銀行・カード明細は必須）, encoding, fromYear / toYear（任意）
+ */
+import { createHash } from "crypto";
 import { NextRequest, NextResponse } from "next/server";
 import { db } from "@/lib/db";
-import { transactions, assetSnapshots, investmentValuations } from "@/lib/schema";
 import {
-  parseCombinedReport,
+  transactions,
+  assetSnapshots,
+  investmentValuations,
+  importBatches,
+  importBatchBackups,
+  importSettings,
+  categoryRules,
+} from "@/lib/schema";
+import {
   parseAssetReport,
   aggregateAssetSnapshots,
   extractInvestmentTransfers,
+  type MonthlyAssetSnapshot,
+  type ParsedTransaction,
+  type RowIssue,
+  type IssueSeverity,
 } from "@/lib/csv-parser";
-import { and, eq, isNull, ne, or, sql } from "drizzle-orm";
+import { detectCsvFormat, getCsvFormat } from "@/lib/csv-formats";
+import { decodeCsv, parseEncodingParam } from "@/lib/encoding";
+import { isValidImportYear, resolveImportSettings } from "@/lib/import-settings";
+import { getInvestmentProducts } from "@/lib/investment-products";
+import { relinkSplitsStatement } from "@/lib/transaction-splits";
+import { applyCategoryRules } from "@/lib/category-rules";
+import { applyCategoryAliases, loadCategoryAliases } from "@/lib/category-registry";
+import { assignFingerprints, matchUnfingerprintedRows } from "@/lib/fingerprint";
+import { diffTransactions, diffSnapshots, toDiffTransaction } from "@/lib/import-diff";
+import { evaluateBudgetAlerts } from "@/lib/budget-alerts";
+import { and, between, desc, eq, inArray, isNull, ne, notInArray, or, sql } from "drizzle-orm";
+import type { BatchItem } from "drizzle-orm/batch";
 
 export const maxDuration = 60; // Vercel Pro: 60s
 
+/** 失敗時にどの段階で止まったかをレスポンスに含める */
+type ImportPhase = "parse" | "prepare" | "commit";
+
+/** レスポンスに含める検証結果の上限（重要度ごと） */
+const ISSUE_LIMIT = 200;
+
+/** 取り消せるように退避データを残すインポートの件数（それより古いものは取り消せない） */
+const BACKUP_RETENTION = 20;
+
+/** 行単位の検証結果を重要度ごとに件数 + 先頭 ISSUE_LIMIT 件にまとめる（どのファイルの行かを付ける） */
+function summarizeIssues(combined: RowIssue[], asset: RowIssue[]) {
+  const tagged = [
+    ...combined.map((r) => ({ ...r, file: "combined" as const })),
+    ...asset.map((r) => ({ ...r, file: "asset" as const })),
+  ];
+  const group = (severity: IssueSeverity) => {
+    const rows = tagged.filter((r) => r.severity === severity);
+    return { count: rows.length, rows: rows.slice(0, ISSUE_LIMIT) };
+  };
+  return { error: group("error"), warning: group("warning") };
+}
+
+/** フォームの fromYear / toYear（任意）を読む。不正な値なら null */
+function parseYearRange(formData: FormData): { fromYear: number | null; toYear: number | null } | null {
+  const read = (key: string) => {
+    const raw = ((formData.get(key) as string | null) ?? "").trim();
+    return raw === "" ? null : Number(raw);
+  };
+  const fromYear = read("fromYear");
+  const toYear = read("toYear");
+  if (fromYear !== null && !isValidImportYear(fromYear)) return null;
+  if (toYear !== null && !isValidImportYear(toYear)) return null;
+  if (fromYear !== null && toYear !== null && fromYear > toYear) return null;
+  return { fromYear, toYear };
+}
+
+/** "2026-2" → 202602 */
+function toYearMonthKey(ym: string) {
+  const [y, m] = ym.split("-").map(Number);
+  return y * 100 + m;
+}
+
+/**
+ * import_batches の id を先に採番する
+ * バッチ内の全 INSERT に同じ id を付けるため、シーケンスから直接取得する
+ */
+async function reserveImportBatchId(): Promise<number> {
+  const result = await db.execute<{ id: string }>(
+    sql`select nextval(pg_get_serial_sequence('import_batches', 'id')) as id`
+  );
+  return Number(result.rows[0].id);
+}
+
+/** upsert で上書きされる既存スナップショットを取得（取り消し用の退避） */
+async function selectExistingSnapshots(snapshots: MonthlyAssetSnapshot[]) {
+  if (snapshots.length === 0) return [];
+  const keys = new Set(snapshots.map((s) => `${s.assetName}|${s.year}-${s.month}`));
+  const rows = await db
+    .select()
+    .from(assetSnapshots)
+    .where(
+      inArray(
+        sql`(${assetSnapshots.year} * 100 + ${assetSnapshots.month})`,
+        [...new Set(snapshots.map((s) => s.year * 100 + s.month))]
+      )
+    );
+  return rows.filter((r) => keys.has(`${r.assetName}|${r.year}-${r.month}`));
+}
+
+/** ParsedTransaction → transactions の INSERT 値 */
+function toTransactionValues(t: ParsedTransaction) {
+  return {
+    date: t.date,
+    year: t.year,
+    month: t.month,
+    type: t.type,
+    category: t.category,
+    itemName: t.itemName || null,
+    amount: t.amount,
+    expenseAmount: t.expenseAmount,
+    incomeAmount: t.incomeAmount,
+    assetName: t.assetName || null,
+    tag: t.tag || null,
+    memo: t.memo || null,
+    excludeFromPl: t.excludeFromPl,
+  };
+}
+
+/**
+ * 資産別レポート由来の投資振替のうち、収支合算CSVに同じ振替が既に存在するものを除く
+ * 収支合算CSVで置き換える月はパース結果と、それ以外の月は DB の既存行と突き合わせる
+ */
+async function filterDuplicateTransfers(
+  transfers: ParsedTransaction[],
+  combined: ParsedTransaction[]
+) {
+  const transferKey = (date: string, assetName: string | null, incomeAmount: number) =>
+    `${date}|${assetName ?? ""}|${incomeAmount}`;
+  const replacedMonths = new Set(combined.map((t) => `${t.year}-${t.month}`));
+
+  const existing = await db
+    .select({
+      date: transactions.date,
+      year: transactions.year,
+      month: transactions.month,
+      assetName: transactions.assetName,
+      incomeAmount: transactions.incomeAmount,
+    })
+    .from(transactions)
+    .where(
+      and(
+        inArray(transactions.date, [...new Set(transfers.map((t) => t.date))]),
+        eq(transactions.category, "振替"),
+        or(isNull(transactions.memo), ne(transactions.memo, "__asset_report__"))
+      )
+    );
+
+  const keys = new Set([
+    ...existing
+      .filter((r) => !replacedMonths.has(`${r.year}-${r.month}`))
+      .map((r) => transferKey(r.date, r.assetName, r.incomeAmount)),
+    ...combined
+      .filter((t) => t.category === "振替" && t.memo !== "__asset_report__")
+      .map((t) => transferKey(t.date, t.assetName, t.incomeAmount)),
+  ]);
+
+  return transfers.filter((t) => !keys.has(transferKey(t.date, t.assetName, t.incomeAmount)));
+}
+
+/**
+ * 資産スナップショットのうち、実際に upsert する対象を返す
+ * 投資管理で評価額が登録済みの月は CSV で上書きしない
+ */
+async function selectSnapshotsToUpsert(
+  snapshots: MonthlyAssetSnapshot[],
+  investmentAssetNames: ReadonlySet<string>
+) {
+  // investment_valuations に記録がある (year, month) を取得
+  const valuationRows = await db
+    .select({ year: investmentValuations.year, month: investmentValuations.month })
+    .from(investmentValuations);
+  const valuatedMonths = new Set(valuationRows.map((v) => `${v.year}-${v.month}`));
+
+  // 投資口座 vs その他に分離
+  const investSnapshots = snapshots.filter((s) => investmentAssetNames.has(s.assetName));
+  const otherSnapshots = snapshots.filter((s) => !investmentAssetNames.has(s.assetName));
+  // 投資口座は investment_valuations が存在しない月のみ更新
+  const investSnapsToUpsert = investSnapshots.filter(
+    (s) => !valuatedMonths.has(`${s.year}-${s.month}`)
+  );
+  return [...otherSnapshots, ...investSnapsToUpsert];
+}
+
+/** 資産単位で置き換える範囲（銀行・カード明細）。期間はファイルの最初の日付〜最後の日付 */
+type AssetReplaceScope = { assetName: string; fromDate: string; toDate: string };
+
+function toAssetReplaceScope(parsed: ParsedTransaction[], scopeAssetName: string | null): AssetReplaceScope | null {
+  if (scopeAssetName === null || parsed.length === 0) return null;
+  const dates = parsed.map((t) => t.date).sort();
+  return { assetName: scopeAssetName, fromDate: dates[0], toDate: dates[dates.length - 1] };
+}
+
+/**
+ * 置き換え対象の既存取引の WHERE 条件
+ * assetScope を指定すると、対象月のうちその資産・その期間の取引だけに絞る。
+ * カードの明細は締め日（例: 15日〜翌月14日）で区切られるため、月全体を置き換えると前後の明細の行まで消える
+ * 手入力の取引（source='manual'）は置き換えない
+ */
+function replaceScopeCondition(yearMonths: string[], assetScope: AssetReplaceScope | null) {
+  return and(
+    inArray(sql`(${transactions.year} * 100 + ${transactions.month})`, yearMonths.map(toYearMonthKey)),
+    assetScope !== null ? eq(transactions.assetName, assetScope.assetName) : undefined,
+    assetScope !== null ? between(transactions.date, assetScope.fromDate, assetScope.toDate) : undefined,
+    ne(transactions.source, "manual")
+  );
+}
+
+/** dry-run: CSV と既存データの差分を計算する（DB は変更しない） */
+async function buildImportPreview(
+  parsed: ParsedTransaction[],
+  assetScope: AssetReplaceScope | null,
+  assetSnapshotsParsed: MonthlyAssetSnapshot[] | null,
+  investmentAssetNames: ReadonlySet<string>
+) {
+  const yearMonths = [...new Set(parsed.map((t) => `${t.year}-${t.month}`))];
+
+  const existingTx = yearMonths.length > 0
+    ? await db.select().from(transactions).where(replaceScopeCondition(yearMonths, assetScope))
+    : [];
+  const months = diffTransactions(existingTx.map(toDiffTransaction), parsed);
+
+  let snapshots: ReturnType<typeof diffSnapshots> = [];
+  let snapshotCount = 0;
+  if (assetSnapshotsParsed) {
+    const snapsToUpsert = await selectSnapshotsToUpsert(assetSnapshotsParsed, investmentAssetNames);
+    snapshotCount = snapsToUpsert.length;
+    const snapKeys = [...new Set(snapsToUpsert.map((s) => s.year * 100 + s.month))];
+    const existingSnaps = snapKeys.length > 0
+      ? await db
+          .select()
+          .from(assetSnapshots)
+          .where(inArray(sql`(${assetSnapshots.year} * 100 + ${assetSnapshots.month})`, snapKeys))
+      : [];
+    snapshots = diffSnapshots(existingSnaps, snapsToUpsert);
+  }
+
+  return {
+    months,
+    snapshots,
+    totals: {
+      parsed: parsed.length,
+      added: months.reduce((s, m) => s + m.addedCount, 0),
+      removed: months.reduce((s, m) => s + m.removedCount, 0),
+      changed: months.reduce((s, m) => s + m.changedCount, 0),
+      unchanged: months.reduce((s, m) => s + m.unchangedCount, 0),
+      snapshots: snapshotCount,
+      snapshotsOverwritten: snapshots.filter((s) => s.before !== null).length,
+    },
+  };
+}
+
 export async function POST(req: NextRequest) {
+  // 読み込み(parse) → 書き込み内容の準備(prepare) → 一括反映(commit)。失敗したらどの段階かを返す
+  let phase: ImportPhase = "parse";
   try {
     const formData = await req.formData();
     const combinedFile = formData.get("combined") as File | null;
     const assetFile = formData.get("asset") as File | null;
+    const dryRun = formData.get("dryRun") === "true";
 
     if (!combinedFile && !assetFile) {
       return NextResponse.json({ error: "ファイルが指定されていません" }, { status: 400 });
     }
 
-    let txInserted = 0;
-    let txSkipped = 0;
-    let assetInserted = 0;
+    // ── 1. CSV の読み込み ───────────────────────────────────────────────────
+    // 文字コードは指定がなければ自動判定（Shift_JIS の銀行・カード CSV に対応）
+    const encodingParam = parseEncodingParam(formData.get("encoding") as string | null);
+    const combinedDecoded = combinedFile ? decodeCsv(await combinedFile.arrayBuffer(), encodingParam) : null;
+    const assetDecoded = assetFile ? decodeCsv(await assetFile.arrayBuffer(), encodingParam) : null;
+    const combinedText = combinedDecoded?.text ?? null;
+    const assetText = assetDecoded?.text ?? null;
+    const fileNames = [combinedFile?.name, assetFile?.name].filter(Boolean).join(", ");
+    const fileHash = createHash("sha256")
+      .update(combinedText ?? "")
+      .update("\u0000")
+      .update(assetText ?? "")
+      .digest("hex");
 
-    // ── 収支合算レポートの取り込み ──────────────────────────────────────────
-    if (combinedFile) {
-      const text = await combinedFile.text();
-      const parsed = parseCombinedReport(text, 2019);
+    // 取引ファイルの形式（指定がなければ自動判別。csv-formats.ts）
+    const requestedFormat = (formData.get("format") as string | null) ?? "auto";
+    const format = !combinedText
+      ? null
+      : requestedFormat === "auto"
+        ? detectCsvFormat(combinedText)
+        : getCsvFormat(requestedFormat);
+    if (combinedText && !format) {
+      return NextResponse.json({ error: "CSV の形式を判別できませんでした" }, { status: 400 });
+    }
+    const assetName = ((formData.get("assetName") as string | null) ?? "").trim();
+    // 口座・カード単位の明細は、その資産の取引だけを置き換える。
+    // 資産名を省略すると別の口座・カードの明細どうしが上書きし合うため必須にする
+    if (format?.replaceScope === "asset" && !assetName) {
+      return NextResponse.json({ error: "銀行・カード明細は資産名を指定してください" }, { status: 400 });
+    }
+    const scopeAssetName = format?.replaceScope === "asset" ? assetName : null;
 
-      if (parsed.length === 0) {
-        return NextResponse.json({ error: "取引データが見つかりませんでした" }, { status: 400 });
-      }
+    // 取り込む年の範囲: 期間指定があればそれを、なければ形式ごとの設定（/api/import/settings）を使う
+    const range = parseYearRange(formData);
+    if (!range) {
+      return NextResponse.json({ error: "取り込み期間の指定が不正です" }, { status: 400 });
+    }
+    const settings = resolveImportSettings(await db.select().from(importSettings));
+    const txFromYear = range.fromYear ?? (format ? settings[format.id].fromYear : settings.combined.fromYear);
+    const assetFromYear = range.fromYear ?? settings.asset.fromYear;
+    // 投資振替の開始年は「それより前は収支合算CSVに振替がある」という境界なので、期間指定があっても下回らない
+    const configuredTransferFromYear = settings.asset.transferFromYear ?? settings.asset.fromYear;
+    const transferFromYear =
+      range.fromYear === null ? configuredTransferFromYear : Math.max(range.fromYear, configuredTransferFromYear);
+    const inRange = (year: number) => range.toYear === null || year <= range.toYear;
 
-      // CSV に含まれる年月を特定し、対象月の既存データを削除（冪等インポート）
-      // 同じCSVを何度インポートしても重複しない
-      const yearMonths = [...new Set(parsed.map((t) => `${t.year}-${t.month}`))];
-      for (const ym of yearMonths) {
-        const [y, m] = ym.split("-").map(Number);
-        await db.delete(transactions)
-          .where(and(eq(transactions.year, y), eq(transactions.month, m)));
-      }
+    const txParse = combinedText && format
+      ? format.parse(combinedText, { fromYear: txFromYear, assetName })
+      : { rows: [], issues: [] };
+    const parsed = txParse.rows.filter((t) => inRange(t.year));
+    const txIssues = txParse.issues;
+    const assetScope = toAssetReplaceScope(parsed, scopeAssetName);
+    if (combinedText && parsed.length === 0) {
+      return NextResponse.json(
+        { error: "取引データが見つかりませんでした", issues: summarizeIssues(txIssues, []) },
+        { status: 400 }
+      );
+    }
+    const { rows: assetTxList, issues: assetIssues } = assetText
+      ? parseAssetReport(assetText, assetFromYear)
+      : { rows: [], issues: [] };
+    const snapshots = aggregateAssetSnapshots(assetTxList.filter((t) => t.isInitial || inRange(t.year)));
+    // 行単位の検証結果（取り込まない行 = error、取り込むが疑わしい行 = warning）はレスポンスの issues で返す
+    const issues = summarizeIssues(txIssues, assetIssues);
+    // 資産別レポートから投資振替（iDeCo・投資信託）を抽出してトランザクションに保存
+    // 収支合算CSVに振替が含まれない旧形式データの累計コスト計算に使用
+    const investmentAssetNames = new Set((await getInvestmentProducts()).map((p) => p.assetName));
+    const investmentTransfers = assetText
+      ? extractInvestmentTransfers(assetText, transferFromYear, investmentAssetNames).filter((t) => inRange(t.year))
+      : [];
+    // 旧カテゴリ名の読み替え（category_aliases）→ 分類ルール（category_rules）の順に適用する
+    const [rules, aliases] = await Promise.all([db.select().from(categoryRules), loadCategoryAliases()]);
+    const classify = <T extends ParsedTransaction>(rows: T[]) =>
+      applyCategoryRules(applyCategoryAliases(rows, aliases), rules);
 
-      // バッチで一括INSERT
-      const BATCH = 500;
-      for (let i = 0; i < parsed.length; i += BATCH) {
-        const batch = parsed.slice(i, i + BATCH);
-        const values = batch.map((t) => ({
-          date: t.date,
-          year: t.year,
-          month: t.month,
-          type: t.type,
-          category: t.category,
-          itemName: t.itemName || null,
-          amount: t.amount,
-          expenseAmount: t.expenseAmount,
-          incomeAmount: t.incomeAmount,
-          assetName: t.assetName || null,
-          tag: t.tag || null,
-          memo: t.memo || null,
-          excludeFromPl: t.excludeFromPl,
-        }));
-
-        await db.insert(transactions).values(values);
-        txInserted += batch.length;
-      }
+    if (dryRun) {
+      const preview = await buildImportPreview(
+        classify(parsed),
+        assetScope,
+        assetText ? snapshots : null,
+        investmentAssetNames
+      );
+      // 同じ内容のファイルを取り込み済みなら知らせる
+      const [previousImport] = await db
+        .select({ id: importBatches.id, createdAt: importBatches.createdAt })
+        .from(importBatches)
+        .where(and(eq(importBatches.fileHash, fileHash), isNull(importBatches.revertedAt)))
+        .orderBy(desc(importBatches.id))
+        .limit(1);
+      return NextResponse.json({
+        success: true,
+        dryRun: true,
+        preview: {
+          ...preview,
+          format: format ? { id: format.id, label: format.label, assetScope } : null,
+          encodings: {
+            combined: combinedDecoded?.encoding ?? null,
+            asset: assetDecoded?.encoding ?? null,
+          },
+          previousImport: previousImport ?? null,
+          issues,
+          range: {
+            fromYear: combinedText ? txFromYear : null,
+            assetFromYear: assetText ? assetFromYear : null,
+            transferFromYear: assetText ? transferFromYear : null,
+            toYear: range.toYear,
+          },
+        },
+      });
     }
 
-    // ── 資産別レポートの取り込み ─────────────────────────────────────────────
-    if (assetFile) {
-      const text = await assetFile.text();
-      const assetTxList = parseAssetReport(text, 2019);
-      const snapshots = aggregateAssetSnapshots(assetTxList);
-
-      // 投資管理で評価額が登録済みの月は CSV で上書きしない
-      // investment_valuations に記録がある (year, month) を取得
-      const INVESTMENT_ASSET_NAMES = new Set(["iDeCo", "投資信託/SBI"]);
-      const valuationRows = await db
-        .select({ year: investmentValuations.year, month: investmentValuations.month })
-        .from(investmentValuations);
-      const valuatedMonths = new Set(valuationRows.map((v) => `${v.year}-${v.month}`));
-
-      // 投資口座 vs その他に分離
-      const investSnapshots = snapshots.filter((s) => INVESTMENT_ASSET_NAMES.has(s.assetName));
-      const otherSnapshots = snapshots.filter((s) => !INVESTMENT_ASSET_NAMES.has(s.assetName));
-      // 投資口座は investment_valuations が存在しない月のみ更新
-      const investSnapsToUpsert = investSnapshots.filter(
-        (s) => !valuatedMonths.has(`${s.year}-${s.month}`)
+    // ── 2. 書き込み内容の準備（ここまでは DB を変更しない） ──────────────────
+    phase = "prepare";
+    const statements: BatchItem<"pg">[] = [];
+    const batchId = await reserveImportBatchId();
+
+    // 取引:
+    // CSV に含まれる年月を対象に、CSV にない既存行を削除し、CSV の行を指紋で upsert する（冪等インポート）
+    // 同じCSVを何度インポートしても重複せず、内容が同じ取引は id が変わらない。手入力の取引（source='manual'）は残す
+    const yearMonths = [...new Set(parsed.map((t) => `${t.year}-${t.month}`))];
+    // 指紋は読み替え・ルール適用前の CSV の内容から作る。ルールやカテゴリ名を変えて再インポートしても
+    // 同じ行として扱われ、カテゴリ等だけが更新される
+    const fingerprinted = classify(assignFingerprints(parsed));
+    const replacedTx = yearMonths.length > 0
+      ? await db.select().from(transactions).where(replaceScopeCondition(yearMonths, assetScope))
+      : [];
+    // 指紋のない既存行（指紋の導入前に取り込んだ行）は、内容が同じ CSV の行の指紋を先に付けて削除しない
+    const adopted = matchUnfingerprintedRows(replacedTx, fingerprinted);
+    for (const { id, fingerprint } of adopted) {
+      statements.push(db.update(transactions).set({ fingerprint }).where(eq(transactions.id, id)));
+    }
+    const adoptedIds = new Set(adopted.map((a) => a.id));
+    const incomingFingerprints = new Set(fingerprinted.map((t) => t.fingerprint));
+    const removedCount = replacedTx.filter(
+      (r) => !adoptedIds.has(r.id) && (!r.fingerprint || !incomingFingerprints.has(r.fingerprint))
+    ).length;
+    for (const ym of yearMonths) {
+      const [y, m] = ym.split("-").map(Number);
+      const monthFingerprints = fingerprinted
+        .filter((t) => t.year === y && t.month === m)
+        .map((t) => t.fingerprint);
+      statements.push(
+        db.delete(transactions).where(
+          and(
+            replaceScopeCondition([ym], assetScope),
+            or(isNull(transactions.fingerprint), notInArray(transactions.fingerprint, monthFingerprints))
+          )
+        )
       );
-      const snapsToUpsert = [...otherSnapshots, ...investSnapsToUpsert];
+    }
+    const TX_BATCH = 500;
+    for (let i = 0; i < fingerprinted.length; i += TX_BATCH) {
+      statements.push(
+        db
+          .insert(transactions)
+          .values(
+            fingerprinted
+              .slice(i, i + TX_BATCH)
+              .map((t) => ({ ...toTransactionValues(t), fingerprint: t.fingerprint, importBatchId: batchId }))
+          )
+          .onConflictDoUpdate({
+            target: [transactions.fingerprint],
+            set: {
+              category: sql`excluded.category`,
+              tag: sql`excluded.tag`,
+              excludeFromPl: sql`excluded.exclude_from_pl`,
+              importBatchId: sql`excluded.import_batch_id`,
+            },
+          })
+      );
+    }
 
-      const BATCH = 200;
-      for (let i = 0; i < snapsToUpsert.length; i += BATCH) {
-        const batch = snapsToUpsert.slice(i, i + BATCH);
-        await db
+    // 資産別レポート: 月次スナップショットを upsert
+    const snapsToUpsert = assetText ? await selectSnapshotsToUpsert(snapshots, investmentAssetNames) : [];
+    const overwrittenSnaps = await selectExistingSnapshots(snapsToUpsert);
+    const SNAP_BATCH = 200;
+    for (let i = 0; i < snapsToUpsert.length; i += SNAP_BATCH) {
+      statements.push(
+        db
           .insert(assetSnapshots)
-          .values(batch)
+          .values(snapsToUpsert.slice(i, i + SNAP_BATCH).map((s) => ({ ...s, importBatchId: batchId })))
           .onConflictDoUpdate({
             target: [assetSnapshots.assetName, assetSnapshots.year, assetSnapshots.month],
             set: {
               closingBalance: sql`excluded.closing_balance`,
               openingBalance: sql`excluded.opening_balance`,
               assetType: sql`excluded.asset_type`,
+              importBatchId: sql`excluded.import_batch_id`,
               updatedAt: sql`now()`,
             },
-          });
-        assetInserted += batch.length;
-      }
-
-      // 資産別レポートから投資振替（iDeCo・投資信託）を抽出してトランザクションに保存
-      // 収支合算CSVに振替が含まれない旧形式データの累計コスト計算に使用
-      const investmentTransfers = extractInvestmentTransfers(text, 2026);
+          })
+      );
+    }
 
-      if (investmentTransfers.length > 0) {
-        // 対象年月の既存の合成レコード（__asset_report__）を削除（再インポートに冪等対応）
-        const ymSet = [...new Set(investmentTransfers.map((t) => `${t.year}-${t.month}`))];
-        for (const ym of ymSet) {
-          const [y, m] = ym.split("-").map(Number);
-          await db
+    // 投資振替: 対象年月の既存の合成レコード（__asset_report__）を削除してから再挿入
+    let transfersToInsert: ParsedTransaction[] = [];
+    const replacedTransfers: typeof replacedTx = [];
+    if (investmentTransfers.length > 0) {
+      const ymSet = [...new Set(investmentTransfers.map((t) => `${t.year}-${t.month}`))];
+      // 取引の置き換え対象として退避済みの行は除く
+      const backedUpIds = new Set(replacedTx.map((r) => r.id));
+      const syntheticRows = await db
+        .select()
+        .from(transactions)
+        .where(
+          and(
+            inArray(sql`(${transactions.year} * 100 + ${transactions.month})`, ymSet.map(toYearMonthKey)),
+            eq(transactions.type, "振替"),
+            eq(transactions.memo, "__asset_report__")
+          )
+        );
+      replacedTransfers.push(...syntheticRows.filter((r) => !backedUpIds.has(r.id)));
+      for (const ym of ymSet) {
+        const [y, m] = ym.split("-").map(Number);
+        statements.push(
+          db
             .delete(transactions)
             .where(
               and(
@@ -127,58 +499,122 @@ export async function POST(req: NextRequest) {
                 eq(transactions.type, "振替"),
                 eq(transactions.memo, "__asset_report__")
               )
-            );
-        }
-
-        // 収支合算CSVに同じ振替が既に存在する場合は重複挿入しない
-        let transfersInserted = 0;
-        for (const t of investmentTransfers) {
-          const existing = await db
-            .select({ id: transactions.id })
-            .from(transactions)
-            .where(
-              and(
-                eq(transactions.date, t.date),
-                eq(transactions.assetName, t.assetName!),
-                eq(transactions.incomeAmount, t.incomeAmount),
-                eq(transactions.category, "振替"),
-                or(isNull(transactions.memo), ne(transactions.memo, "__asset_report__"))
-              )
-            );
-
-          if (existing.length === 0) {
-            await db.insert(transactions).values({
-              date: t.date,
-              year: t.year,
-              month: t.month,
-              type: t.type,
-              category: t.category,
-              itemName: t.itemName || null,
-              amount: t.amount,
-              expenseAmount: t.expenseAmount,
-              incomeAmount: t.incomeAmount,
-              assetName: t.assetName || null,
-              tag: t.tag || null,
-              memo: t.memo || null,
-              excludeFromPl: t.excludeFromPl,
-            });
-            transfersInserted++;
-          }
-        }
-
-        assetInserted += transfersInserted; // カウントに含める
+            )
+        );
+      }
+
+      // 収支合算CSVに同じ振替が既に存在する場合は重複挿入しない
+      transfersToInsert = await filterDuplicateTransfers(
+        investmentTransfers,
+        format?.replaceScope === "month" ? parsed : []
+      );
+      if (transfersToInsert.length > 0) {
+        statements.push(
+          db.insert(transactions).values(
+            transfersToInsert.map((t) => ({ ...toTransactionValues(t), importBatchId: batchId }))
+          )
+        );
       }
     }
 
+    // インポート履歴と、取り消し用に削除・上書きされる行を退避
+    const affectedMonths = [
+      ...new Set([
+        ...yearMonths,
+        ...snapsToUpsert.map((s) => `${s.year}-${s.month}`),
+        ...transfersToInsert.map((t) => `${t.year}-${t.month}`),
+      ]),
+    ]
+      .sort((x, y) => toYearMonthKey(x) - toYearMonthKey(y))
+      .map((ym) => {
+        const [y, m] = ym.split("-");
+        return `${y}-${m.padStart(2, "0")}`;
+      });
+    // 取り込んだ行には import_batches.id を付け、削除・上書きされる既存行は import_batch_backups に退避する
+    // （/api/import/history から取り消せる）
+    const backups = [
+      ...[...replacedTx, ...replacedTransfers].map((row) => ({ batchId, tableName: "transactions", data: row })),
+      ...overwrittenSnaps.map((row) => ({ batchId, tableName: "asset_snapshots", data: row })),
+    ];
+    const historyStatements: BatchItem<"pg">[] = [
+      db.insert(importBatches).values({
+        id: batchId,
+        fileNames,
+        fileHash,
+        format: format?.id ?? null,
+        transactionCount: parsed.length,
+        transferCount: transfersToInsert.length,
+        snapshotCount: snapsToUpsert.length,
+        replacedCount: removedCount + replacedTransfers.length,
+        yearMonths: affectedMonths,
+      }),
+    ];
+    const BACKUP_BATCH = 500;
+    for (let i = 0; i < backups.length; i += BACKUP_BATCH) {
+      historyStatements.push(db.insert(importBatchBackups).values(backups.slice(i, i + BACKUP_BATCH)));
+    }
+    // 取り消しは新しい順に遡るので、退避データは有効なインポートの新しい方から BACKUP_RETENTION 件分だけ残す。
+    // 取り消し済みのインポートの退避データも、もう使わないのでここで消える
+    const retainedBatchIds = db
+      .select({ id: importBatches.id })
+      .from(importBatches)
+      .where(isNull(importBatches.revertedAt))
+      .orderBy(desc(importBatches.id))
+      .limit(BACKUP_RETENTION);
+    historyStatements.push(
+      db
+        .update(importBatches)
+        .set({ backupPrunedAt: new Date() })
+        .where(
+          and(
+            isNull(importBatches.revertedAt),
+            isNull(importBatches.backupPrunedAt),
+            notInArray(importBatches.id, retainedBatchIds)
+          )
+        ),
+      db.delete(importBatchBackups).where(notInArray(importBatchBackups.batchId, retainedBatchIds))
+    );
+
+    // 分割明細: 親取引の id が変わっていれば指紋で付け直す
+    statements.push(relinkSplitsStatement());
+
+    // ── 3. 一括反映（全体が1トランザクション） ──────────────────────────────
+    // neon-http は対話的トランザクションを持たないため、全ての DELETE / INSERT を db.batch() にまとめる
+    // （途中で失敗すれば全体がロールバック）
+    phase = "commit";
+    await db.batch([...historyStatements, ...statements] as [BatchItem<"pg">, ...BatchItem<"pg">[]]);
+
+    // ── 4. 予算アラートの評価 ───────────────────────────────────────────────
+    // 取引のあった月を評価する（budget-alerts.ts）。失敗しても取り込みは成功として返す
+    let alerts = 0;
+    try {
+      const alertMonths = yearMonths.map((ym) => {
+        const [y, m] = ym.split("-").map(Number);
+        return { year: y, month: m };
+      });
+      alerts = (await evaluateBudgetAlerts(alertMonths)).length;
+    } catch (e) {
+      console.error(e);
+    }
+
     return NextResponse.json({
       success: true,
-      transactions: { inserted: txInserted, skipped: txSkipped },
-      assets: { inserted: assetInserted },
+      batchId,
+      transactions: {
+        inserted: parsed.length,
+        skipped: txIssues.filter((r) => r.severity === "error").length,
+      },
+      assets: { inserted: snapsToUpsert.length + transfersToInsert.length },
+      issues,
+      alerts,
     });
   } catch (e) {
     console.error(e);
     return NextResponse.json(
-      { error: e instanceof Error ? e.message : "インポートに失敗しました" },
+      {
+        error: e instanceof Error ? e.message : "インポートに失敗しました",
+        phase,
+      },
       { status: 500 }
     );
   }
@@ -0,0 +1,56 @@
+/**
+ * インポート設定 API
+ * GET  /api/import/settings → 全形式の設定（未保存の形式は既定値）
+ * POST /api/import/settings {format, fromYear, transferFromYear?} → 形式ごとの設定を保存
+ */
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { importSettings } from "@/lib/schema";
+import {
+  isImportSettingsFormat,
+  isValidImportYear,
+  resolveImportSettings,
+} from "@/lib/import-settings";
+
+export async function GET() {
+  try {
+    const rows = await db.select().from(importSettings);
+    return NextResponse.json({ data: resolveImportSettings(rows) });
+  } catch (e) {
+    console.error(e);
+    return NextResponse.json({ error: "インポート設定の取得に失敗しました" }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const { format, fromYear, transferFromYear } = (await req.json()) as {
+      format: string;
+      fromYear: unknown;
+      transferFromYear?: unknown;
+    };
+    if (!format || !isImportSettingsFormat(format)) {
+      return NextResponse.json({ error: "形式が不正です" }, { status: 400 });
+    }
+    if (!isValidImportYear(fromYear)) {
+      return NextResponse.json({ error: "取り込み開始年が不正です" }, { status: 400 });
+    }
+    const transferYear = format === "asset" ? transferFromYear : null;
+    if (transferYear !== null && !isValidImportYear(transferYear)) {
+      return NextResponse.json({ error: "投資振替の開始年が不正です" }, { status: 400 });
+    }
+
+    await db
+      .insert(importSettings)
+      .values({ format, fromYear, transferFromYear: transferYear })
+      .onConflictDoUpdate({
+        target: [importSettings.format],
+        set: { fromYear, transferFromYear: transferYear, updatedAt: new Date() },
+      });
+
+    return NextResponse.json({ success: true });
+  } catch (e) {
+    console.error(e);
+    return NextResponse.json({ error: "インポート設定の保存に失敗しました" }, { status: 500 });
+  }
+}
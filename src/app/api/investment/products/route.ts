@@ -0,0 +1,97 @@
+/**
+ * 投資商品 API
+ * GET  /api/investment/products        → 投資商品の一覧（無効なものを含む、表示順）
+ * POST /api/investment/products        → 追加（id なし）または更新（id あり）
+ *
+ * 商品名を変えると、登録済みの評価額（investment_valuations.product_name）も付け替える。
+ * 使わなくなった口座は削除せず active=false にする（過去の評価額・損益は残る）。
+ */
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { investmentProducts, investmentValuations } from "@/lib/schema";
+import { and, eq, ne, or } from "drizzle-orm";
+import { getInvestmentProducts, isInvestmentAccountKind } from "@/lib/investment-products";
+
+export async function GET() {
+  try {
+    return NextResponse.json({ data: await getInvestmentProducts() });
+  } catch (e) {
+    console.error(e);
+    return NextResponse.json({ error: "投資商品の取得に失敗しました" }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const body = (await req.json()) as {
+      id?: number;
+      name?: string;
+      assetName?: string;
+      accountKind?: string;
+      color?: string;
+      sortOrder?: number;
+      active?: boolean;
+    };
+    const name = body.name?.trim() ?? "";
+    const assetName = body.assetName?.trim() ?? "";
+    if (!name || !assetName) {
+      return NextResponse.json({ error: "商品名と資産名は必須です" }, { status: 400 });
+    }
+    if (!isInvestmentAccountKind(body.accountKind)) {
+      return NextResponse.json({ error: "口座区分が不正です" }, { status: 400 });
+    }
+    if (body.color !== undefined && !/^#[0-9a-fA-F]{6}$/.test(body.color)) {
+      return NextResponse.json({ error: "色は #RRGGBB 形式で指定してください" }, { status: 400 });
+    }
+
+    // 商品名・資産名はそれぞれ一意
+    const [duplicate] = await db
+      .select({ id: investmentProducts.id })
+      .from(investmentProducts)
+      .where(
+        and(
+          or(eq(investmentProducts.name, name), eq(investmentProducts.assetName, assetName)),
+          body.id ? ne(investmentProducts.id, body.id) : undefined
+        )
+      )
+      .limit(1);
+    if (duplicate) {
+      return NextResponse.json({ error: "同じ商品名または資産名の投資商品が既にあります" }, { status: 409 });
+    }
+
+    const values = {
+      name,
+      assetName,
+      accountKind: body.accountKind,
+      color: body.color ?? "#3b82f6",
+      sortOrder: body.sortOrder ?? 0,
+      active: body.active ?? true,
+    };
+
+    if (!body.id) {
+      const [created] = await db.insert(investmentProducts).values(values).returning();
+      return NextResponse.json({ success: true, data: created });
+    }
+
+    const [current] = await db.select().from(investmentProducts).where(eq(investmentProducts.id, body.id));
+    if (!current) {
+      return NextResponse.json({ error: "投資商品が見つかりません" }, { status: 404 });
+    }
+
+    await db.batch([
+      db
+        .update(investmentProducts)
+        .set({ ...values, updatedAt: new Date() })
+        .where(eq(investmentProducts.id, body.id)),
+      db
+        .update(investmentValuations)
+        .set({ productName: name })
+        .where(eq(investmentValuations.productName, current.name)),
+    ]);
+
+    return NextResponse.json({ success: true });
+  } catch (e) {
+    console.error(e);
+    return NextResponse.json({ error: "投資商品の保存に失敗しました" }, { status: 500 });
+  }
+}
@@ -3,23 +3,17 @@
  * GET  /api/investment?year=2026&month=2   → 当月の評価額・コスト・損益
  * GET  /api/investment?history=true        → 全期間の評価額履歴
  * POST /api/investment                     → 評価額を保存し asset_snapshots も更新
+ *
+ * 対象の商品と資産名の対応は investment_products（/api/investment/products）で管理する。
  */
 import { NextRequest, NextResponse } from "next/server";
 import { db } from "@/lib/db";
 import { investmentValuations, assetSnapshots, transactions } from "@/lib/schema";
-import { and, eq, or, sql, desc } from "drizzle-orm";
-
-// 商品名 → asset_snapshots の asset_name マッピング
-const PRODUCT_TO_ASSET: Record<string, string> = {
-  "iDeCo": "iDeCo",
-  "SBI投資信託": "投資信託/SBI",
-};
-
-const PRODUCTS = ["iDeCo", "SBI投資信託"] as const;
+import { and, eq, sql, desc } from "drizzle-orm";
+import { getInvestmentProducts } from "@/lib/investment-products";
 
 /** 商品の累計投資コスト（振替の income_amount 合計） */
-async function getCostBasis(productName: string, uptoYear?: number, uptoMonth?: number) {
-  const assetName = PRODUCT_TO_ASSET[productName];
+async function getCostBasis(assetName: string | undefined, uptoYear?: number, uptoMonth?: number) {
   if (!assetName) return 0;
 
   // 新形式: type='収入', category='振替'（収支合算CSV）
@@ -50,6 +44,9 @@ export async function GET(req: NextRequest) {
   const month = searchParams.get("month") ? parseInt(searchParams.get("month")!) : null;
 
   try {
+    const allProducts = await getInvestmentProducts();
+    const assetNameOf = (productName: string) => allProducts.find((p) => p.name === productName)?.assetName;
+
     if (isHistory) {
       // 全履歴: 評価額 + コスト（各月時点）
       const rows = await db
@@ -62,7 +59,7 @@ export async function GET(req: NextRequest) {
       for (const r of rows) {
         const key = `${r.year}-${String(r.month).padStart(2, "0")}`;
         if (!monthMap.has(key)) monthMap.set(key, {});
-        const cost = await getCostBasis(r.productName, r.year, r.month);
+        const cost = await getCostBasis(assetNameOf(r.productName), r.year, r.month);
         monthMap.get(key)![r.productName] = {
           marketValue: r.marketValue,
           costBasis: cost,
@@ -111,12 +108,14 @@ export async function GET(req: NextRequest) {
     }
 
     const products = await Promise.all(
-      PRODUCTS.map(async (name) => {
+      allProducts.filter((p) => p.active).map(async ({ name, assetName, accountKind, color }) => {
         const v = valuations.find((r) => r.productName === name);
-        const cost = await getCostBasis(name, targetYear, targetMonth);
+        const cost = await getCostBasis(assetName, targetYear, targetMonth);
         const market = v?.marketValue ?? latestMap[name] ?? 0;
         return {
           productName: name,
+          accountKind,
+          color,
           marketValue: market,
           costBasis: cost,
           unrealizedGain: market - cost,
@@ -142,8 +141,9 @@ export async function POST(req: NextRequest) {
       valuations: { productName: string; marketValue: number }[];
     };
 
+    const allProducts = await getInvestmentProducts();
     for (const v of vals) {
-      const assetName = PRODUCT_TO_ASSET[v.productName];
+      const assetName = allProducts.find((p) => p.name === v.productName)?.assetName;
       if (!assetName) continue;
 
       // investment_valuations を upsert
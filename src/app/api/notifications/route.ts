@@ -0,0 +1,91 @@
+/**
+ * 通知 API
+ * GET    /api/notifications              → 通知一覧（新しい順）+ 未読数 { data, unreadCount }
+ * GET    /api/notifications?summary=1    → 未読数だけ { unreadCount }（サイドバーのバッジ）
+ * POST   /api/notifications { action: "mark_all_read" } → すべて既読にする
+ * PATCH  /api/notifications?id=          → 既読にする
+ * DELETE /api/notifications?id=          → 削除
+ */
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { notifications } from "@/lib/schema";
+import { desc, eq, isNull, sql } from "drizzle-orm";
+
+/** 一覧に返す件数の上限 */
+const LIST_LIMIT = 200;
+
+async function countUnread(): Promise<number> {
+  const [row] = await db
+    .select({ count: sql<number>`count(*)` })
+    .from(notifications)
+    .where(isNull(notifications.readAt));
+  return Number(row?.count ?? 0);
+}
+
+export async function GET(req: NextRequest) {
+  try {
+    if (req.nextUrl.searchParams.get("summary") === "1") {
+      return NextResponse.json({ unreadCount: await countUnread() });
+    }
+    const [data, unreadCount] = await Promise.all([
+      db.select().from(notifications).orderBy(desc(notifications.createdAt), desc(notifications.id)).limit(LIST_LIMIT),
+      countUnread(),
+    ]);
+    return NextResponse.json({ data, unreadCount });
+  } catch (e) {
+    console.error(e);
+    return NextResponse.json({ error: "通知の取得に失敗しました" }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const body = (await req.json()) as { action?: string };
+    if (body.action !== "mark_all_read") {
+      return NextResponse.json({ error: "不明な操作です" }, { status: 400 });
+    }
+    await db.update(notifications).set({ readAt: new Date() }).where(isNull(notifications.readAt));
+    return NextResponse.json({ success: true });
+  } catch (e) {
+    console.error(e);
+    return NextResponse.json({ error: "通知の更新に失敗しました" }, { status: 500 });
+  }
+}
+
+export async function PATCH(req: NextRequest) {
+  try {
+    const id = parseInt(req.nextUrl.searchParams.get("id") ?? "", 10);
+    if (!id) {
+      return NextResponse.json({ error: "id が必要です" }, { status: 400 });
+    }
+    const updated = await db
+      .update(notifications)
+      .set({ readAt: new Date() })
+      .where(eq(notifications.id, id))
+      .returning({ id: notifications.id });
+    if (updated.length === 0) {
+      return NextResponse.json({ error: "通知が見つかりません" }, { status: 404 });
+    }
+    return NextResponse.json({ success: true });
+  } catch (e) {
+    console.error(e);
+    return NextResponse.json({ error: "通知の更新に失敗しました" }, { status: 500 });
+  }
+}
+
+export async function DELETE(req: NextRequest) {
+  try {
+    const id = parseInt(req.nextUrl.searchParams.get("id") ?? "", 10);
+    if (!id) {
+      return NextResponse.json({ error: "id が必要です" }, { status: 400 });
+    }
+    const deleted = await db.delete(notifications).where(eq(notifications.id, id)).returning({ id: notifications.id });
+    if (deleted.length === 0) {
+      return NextResponse.json({ error: "通知が見つかりません" }, { status: 404 });
+    }
+    return NextResponse.json({ success: true });
+  } catch (e) {
+    console.error(e);
+    return NextResponse.json({ error: "通知の削除に失敗しました" }, { status: 500 });
+  }
+}
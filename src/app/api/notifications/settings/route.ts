@@ -0,0 +1,91 @@
+/**
+ * 予算アラート設定 API
+ * GET  /api/notifications/settings → { defaultThresholds, webhookUrl, categoryThresholds }
+ * POST /api/notifications/settings → 保存 { defaultThresholds?, webhookUrl?, categoryThresholds? }
+ *                                    省略した項目は保存済みの値のまま（webhookUrl は null・空文字で解除）
+ *                                    categoryThresholds はカテゴリ → しきい値（%）。null のカテゴリは既定に戻す、[] は通知しない
+ * POST /api/notifications/settings { action: "evaluate", year, month }
+ *                                  → 指定月の予算アラートをいま評価する（インポートを待たずに確認したいとき）
+ */
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { budgetAlertSettings, budgetAlertThresholds } from "@/lib/schema";
+import { inArray } from "drizzle-orm";
+import { evaluateBudgetAlerts, getBudgetAlertConfig } from "@/lib/budget-alerts";
+import { parseThresholds } from "@/lib/notifications";
+
+export async function GET() {
+  try {
+    return NextResponse.json({ data: await getBudgetAlertConfig() });
+  } catch (e) {
+    console.error(e);
+    return NextResponse.json({ error: "予算アラート設定の取得に失敗しました" }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json();
+
+    if (body.action === "evaluate") {
+      const { year, month } = body as { year: number; month: number };
+      if (!year || !month || month < 1 || month > 12) {
+        return NextResponse.json({ error: "パラメータが不正です" }, { status: 400 });
+      }
+      const created = await evaluateBudgetAlerts([{ year, month }]);
+      return NextResponse.json({ success: true, data: created });
+    }
+
+    const { defaultThresholds, webhookUrl, categoryThresholds } = body as {
+      defaultThresholds?: unknown;
+      webhookUrl?: string | null;
+      categoryThresholds?: Record<string, unknown>;
+    };
+
+    const patch: { defaultThresholds?: number[]; webhookUrl?: string | null } = {};
+    if (defaultThresholds !== undefined) {
+      patch.defaultThresholds = parseThresholds(defaultThresholds);
+    }
+    if (webhookUrl !== undefined) {
+      const url = webhookUrl?.trim() || null;
+      if (url && !/^https?:\/\//.test(url)) {
+        return NextResponse.json({ error: "webhook の URL は http:// か https:// で始めてください" }, { status: 400 });
+      }
+      patch.webhookUrl = url;
+    }
+
+    // 初めて保存するときは、省略した項目をテーブルの既定値で作る
+    if (Object.keys(patch).length > 0) {
+      await db
+        .insert(budgetAlertSettings)
+        .values({ id: 1, ...patch })
+        .onConflictDoUpdate({
+          target: [budgetAlertSettings.id],
+          set: { ...patch, updatedAt: new Date() },
+        });
+    }
+
+    // カテゴリ別: null は既定に戻す（行を削除）、それ以外は upsert
+    const entries = Object.entries(categoryThresholds ?? {});
+    const resetCategories = entries.filter(([, v]) => v === null).map(([c]) => c);
+    if (resetCategories.length > 0) {
+      await db.delete(budgetAlertThresholds).where(inArray(budgetAlertThresholds.categoryName, resetCategories));
+    }
+    for (const [categoryName, value] of entries) {
+      if (value === null) continue;
+      const parsed = parseThresholds(value);
+      await db
+        .insert(budgetAlertThresholds)
+        .values({ categoryName, thresholds: parsed })
+        .onConflictDoUpdate({
+          target: [budgetAlertThresholds.categoryName],
+          set: { thresholds: parsed, updatedAt: new Date() },
+        });
+    }
+
+    return NextResponse.json({ success: true, data: await getBudgetAlertConfig() });
+  } catch (e) {
+    console.error(e);
+    return NextResponse.json({ error: "予算アラート設定の保存に失敗しました" }, { status: 500 });
+  }
+}
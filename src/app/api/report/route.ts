@@ -1,15 +1,49 @@
 /**
  * 決算レポート API
  * GET /api/report?type=annual&year=2025    → 年次決算サマリー
+ * GET /api/report?type=annual&year=2025&format=pdf → 年次決算サマリー＋保存済み定性レポートの PDF
  * GET /api/report?type=quarterly&year=2025 → 四半期別サマリー
+ * GET /api/report?type=pl&year=2025[&month=2|&quarter=1][&format=pdf] → 損益計算書（月・四半期を省略すると年次）
+ * GET /api/report?type=balance_sheet&year=2025&month=12[&format=pdf]  → 指定月末の貸借対照表
  * GET /api/report?type=analysis&year=2025&period=annual|quarterly → 保存済み定性レポート
  * POST /api/report { action:"generate_analysis", year, period }  → Gemini定性分析を生成・保存
  */
 import { NextRequest, NextResponse } from "next/server";
 import { db } from "@/lib/db";
-import { transactions, assetSnapshots, reportAnalyses } from "@/lib/schema";
+import { transactionLines, assetSnapshots, reportAnalyses } from "@/lib/schema";
 import { eq, and, sql, ne, inArray, desc } from "drizzle-orm";
 import { analyzeWithGemini } from "@/lib/gemini";
+import { getAnnualReport } from "@/lib/annual-report";
+import { renderAnnualReportPdf } from "@/lib/annual-report-pdf";
+import { getProfitAndLoss, type PlPeriod } from "@/lib/profit-loss";
+import { renderProfitAndLossPdf } from "@/lib/profit-loss-pdf";
+import { getBalanceSheet } from "@/lib/balance-sheet";
+import { renderBalanceSheetPdf } from "@/lib/balance-sheet-pdf";
+
+/** PDF をダウンロードさせるレスポンス（fileName は日本語可、fallback は ASCII） */
+function pdfResponse(body: Uint8Array<ArrayBuffer>, fallback: string, fileName: string) {
+  return new NextResponse(body, {
+    headers: {
+      "Content-Type": "application/pdf",
+      "Content-Disposition": `attachment; filename="${fallback}"; filename*=UTF-8''${encodeURIComponent(fileName)}`,
+    },
+  });
+}
+
+/** month / quarter から損益計算書の期間を決める（不正な値なら null） */
+function parsePlPeriod(year: number, searchParams: URLSearchParams): PlPeriod | null {
+  const month = searchParams.get("month");
+  const quarter = searchParams.get("quarter");
+  if (month) {
+    const m = Number(month);
+    return Number.isInteger(m) && m >= 1 && m <= 12 ? { type: "monthly", year, month: m } : null;
+  }
+  if (quarter) {
+    const q = Number(quarter);
+    return Number.isInteger(q) && q >= 1 && q <= 4 ? { type: "quarterly", year, quarter: q } : null;
+  }
+  return { type: "yearly", year };
+}
 
 export async function GET(req: NextRequest) {
   const { searchParams } = req.nextUrl;
@@ -48,6 +82,37 @@ export async function GET(req: NextRequest) {
 
     if (type === "annual") {
       const data = await getAnnualReport(year);
+      if (searchParams.get("format") === "pdf") {
+        const [analysis] = await db
+          .select()
+          .from(reportAnalyses)
+          .where(and(eq(reportAnalyses.year, year), eq(reportAnalyses.reportType, "annual")));
+        return pdfResponse(renderAnnualReportPdf(data, analysis ?? null), `report-${year}.pdf`, `${year}年_家計決算報告.pdf`);
+      }
+      return NextResponse.json({ data });
+    }
+    if (type === "pl") {
+      const period = parsePlPeriod(year, searchParams);
+      if (!period) return NextResponse.json({ error: "期間の指定が不正です" }, { status: 400 });
+      const data = await getProfitAndLoss(period);
+      if (searchParams.get("format") === "pdf") {
+        return pdfResponse(renderProfitAndLossPdf(data), `pl-${year}.pdf`, `${data.label}_損益計算書.pdf`);
+      }
+      return NextResponse.json({ data });
+    }
+    if (type === "balance_sheet") {
+      const month = Number(searchParams.get("month") ?? "12");
+      if (!Number.isInteger(month) || month < 1 || month > 12) {
+        return NextResponse.json({ error: "月の指定が不正です" }, { status: 400 });
+      }
+      const data = await getBalanceSheet(year, month);
+      if (searchParams.get("format") === "pdf") {
+        return pdfResponse(
+          renderBalanceSheetPdf(data),
+          `balance-sheet-${year}-${month}.pdf`,
+          `${year}年${month}月末_貸借対照表.pdf`
+        );
+      }
       return NextResponse.json({ data });
     }
     if (type === "quarterly") {
@@ -149,6 +214,7 @@ export async function POST(req: NextRequest) {
 
 // ──────────────────────────────────────────────
 // 取引明細ヘルパー（Gemini コンテキスト用）
+// 分割された取引は分割明細のカテゴリ・金額で数えるため transaction_lines ビューから読む
 // ──────────────────────────────────────────────
 
 /** 期間内の支出カテゴリ別上位取引 */
@@ -159,24 +225,24 @@ async function getTopTransactionsForPeriod(
   topCatCount = 10
 ) {
   const conditions = [
-    eq(transactions.year, year),
-    eq(transactions.excludeFromPl, false),
-    ne(transactions.type, "振替"),
-    ne(transactions.category, "振替"),
-    eq(transactions.type, "支出"),
+    eq(transactionLines.year, year),
+    eq(transactionLines.excludeFromPl, false),
+    ne(transactionLines.type, "振替"),
+    ne(transactionLines.category, "振替"),
+    eq(transactionLines.type, "支出"),
   ];
-  if (months && months.length > 0) conditions.push(inArray(transactions.month, months));
+  if (months && months.length > 0) conditions.push(inArray(transactionLines.month, months));
 
   const rows = await db
     .select({
-      category: transactions.category,
-      itemName: transactions.itemName,
-      expenseAmount: transactions.expenseAmount,
-      date: transactions.date,
+      category: transactionLines.category,
+      itemName: transactionLines.itemName,
+      expenseAmount: transactionLines.expenseAmount,
+      date: transactionLines.date,
     })
-    .from(transactions)
+    .from(transactionLines)
     .where(and(...conditions))
-    .orderBy(desc(transactions.expenseAmount));
+    .orderBy(desc(transactionLines.expenseAmount));
 
   // カテゴリ合計を算出
   const catTotals = new Map<string, number>();
@@ -213,24 +279,24 @@ async function getTopTransactionsForPeriod(
 /** 期間内の高額支出 TOP N */
 async function getHighExpenseTransactions(year: number, months?: number[], limit = 20) {
   const conditions = [
-    eq(transactions.year, year),
-    eq(transactions.excludeFromPl, false),
-    ne(transactions.type, "振替"),
-    ne(transactions.category, "振替"),
-    eq(transactions.type, "支出"),
+    eq(transactionLines.year, year),
+    eq(transactionLines.excludeFromPl, false),
+    ne(transactionLines.type, "振替"),
+    ne(transactionLines.category, "振替"),
+    eq(transactionLines.type, "支出"),
   ];
-  if (months && months.length > 0) conditions.push(inArray(transactions.month, months));
+  if (months && months.length > 0) conditions.push(inArray(transactionLines.month, months));
 
   const rows = await db
     .select({
-      category: transactions.category,
-      itemName: transactions.itemName,
-      expenseAmount: transactions.expenseAmount,
-      date: transactions.date,
+      category: transactionLines.category,
+      itemName: transactionLines.itemName,
+      expenseAmount: transactionLines.expenseAmount,
+      date: transactionLines.date,
     })
-    .from(transactions)
+    .from(transactionLines)
     .where(and(...conditions))
-    .orderBy(desc(transactions.expenseAmount))
+    .orderBy(desc(transactionLines.expenseAmount))
     .limit(limit);
 
   return rows.map((r) => ({
@@ -337,127 +403,6 @@ async function buildSingleQuarterContext(year: number, quarter: number): Promise
   }, null, 2);
 }
 
-// ──────────────────────────────────────────────
-// 年次レポート
-// ──────────────────────────────────────────────
-async function getAnnualReport(year: number) {
-  const baseWhere = (y: number) =>
-    and(
-      eq(transactions.year, y),
-      eq(transactions.excludeFromPl, false),
-      ne(transactions.type, "振替"),
-      ne(transactions.category, "振替")
-    );
-
-  // 当年・前年の収支
-  const [curRows, prevRows] = await Promise.all([
-    db.select({
-      totalExpense: sql<number>`sum(expense_amount)`,
-      totalIncome: sql<number>`sum(income_amount)`,
-    }).from(transactions).where(baseWhere(year)),
-    db.select({
-      totalExpense: sql<number>`sum(expense_amount)`,
-      totalIncome: sql<number>`sum(income_amount)`,
-    }).from(transactions).where(baseWhere(year - 1)),
-  ]);
-
-  const curIncome = Number(curRows[0]?.totalIncome ?? 0);
-  const curExpense = Number(curRows[0]?.totalExpense ?? 0);
-  const prevIncome = Number(prevRows[0]?.totalIncome ?? 0);
-  const prevExpense = Number(prevRows[0]?.totalExpense ?? 0);
-
-  // 月別収支
-  const monthlyRows = await db
-    .select({
-      month: transactions.month,
-      totalExpense: sql<number>`sum(expense_amount)`,
-      totalIncome: sql<number>`sum(income_amount)`,
-    })
-    .from(transactions)
-    .where(baseWhere(year))
-    .groupBy(transactions.month)
-    .orderBy(transactions.month);
-
-  const monthly = Array.from({ length: 12 }, (_, i) => {
-    const m = i + 1;
-    const r = monthlyRows.find((x) => x.month === m);
-    const inc = Number(r?.totalIncome ?? 0);
-    const exp = Number(r?.totalExpense ?? 0);
-    return { month: m, totalIncome: inc, totalExpense: exp, netIncome: inc - exp };
-  });
-
-  // カテゴリ別支出
-  const categoryRows = await db
-    .select({
-      category: transactions.category,
-      total: sql<number>`sum(expense_amount)`,
-    })
-    .from(transactions)
-    .where(and(baseWhere(year), eq(transactions.type, "支出")))
-    .groupBy(transactions.category)
-    .orderBy(sql`sum(expense_amount) desc`);
-
-  const totalExpForRatio = Number(curRows[0]?.totalExpense ?? 0);
-  const categories = categoryRows.map((r) => ({
-    category: r.category,
-    total: Number(r.total ?? 0),
-    ratio: totalExpForRatio > 0 ? Math.round((Number(r.total ?? 0) / totalExpForRatio) * 1000) / 10 : 0,
-  }));
-
-  // 期首・期末純資産（1月 & 12月の closing_balance 合計）
-  const [assetStart, assetEnd, prevAssetEnd] = await Promise.all([
-    db.select({ net: sql<number>`sum(closing_balance)` }).from(assetSnapshots)
-      .where(and(eq(assetSnapshots.year, year), eq(assetSnapshots.month, 1))),
-    db.select({ net: sql<number>`sum(closing_balance)` }).from(assetSnapshots)
-      .where(and(eq(assetSnapshots.year, year), eq(assetSnapshots.month, 12))),
-    db.select({ net: sql<number>`sum(closing_balance)` }).from(assetSnapshots)
-      .where(and(eq(assetSnapshots.year, year - 1), eq(assetSnapshots.month, 12))),
-  ]);
-
-  const netAssetStart = Number(assetStart[0]?.net ?? 0);
-  const netAssetEnd = Number(assetEnd[0]?.net ?? 0);
-  const prevNetAssetEnd = Number(prevAssetEnd[0]?.net ?? 0);
-
-  // 最高支出月・最低支出月
-  const bestMonth = monthly.reduce((a, b) => (b.netIncome > a.netIncome ? b : a), monthly[0]);
-  const worstMonth = monthly.reduce((a, b) => (b.netIncome < a.netIncome ? b : a), monthly[0]);
-
-  return {
-    year,
-    income: {
-      current: curIncome,
-      prev: prevIncome,
-      yoy: prevIncome > 0 ? Math.round(((curIncome - prevIncome) / prevIncome) * 1000) / 10 : null,
-    },
-    expense: {
-      current: curExpense,
-      prev: prevExpense,
-      yoy: prevExpense > 0 ? Math.round(((curExpense - prevExpense) / prevExpense) * 1000) / 10 : null,
-    },
-    netIncome: {
-      current: curIncome - curExpense,
-      prev: prevIncome - prevExpense,
-    },
-    savingsRate: {
-      current: curIncome > 0 ? Math.round(((curIncome - curExpense) / curIncome) * 1000) / 10 : 0,
-      prev: prevIncome > 0 ? Math.round(((prevIncome - prevExpense) / prevIncome) * 1000) / 10 : 0,
-    },
-    netAsset: {
-      start: netAssetStart,
-      end: netAssetEnd,
-      change: netAssetEnd - netAssetStart,
-      prevEnd: prevNetAssetEnd,
-      yoy: prevNetAssetEnd > 0 ? Math.round(((netAssetEnd - prevNetAssetEnd) / prevNetAssetEnd) * 1000) / 10 : null,
-    },
-    monthly,
-    categories,
-    highlights: {
-      bestMonth: bestMonth ? { month: bestMonth.month, netIncome: bestMonth.netIncome } : null,
-      worstMonth: worstMonth ? { month: worstMonth.month, netIncome: worstMonth.netIncome } : null,
-    },
-  };
-}
-
 // ──────────────────────────────────────────────
 // 四半期レポート
 // ──────────────────────────────────────────────
@@ -472,59 +417,59 @@ async function getQuarterlyReport(year: number) {
   // 当年の月別データを取得
   const monthlyRows = await db
     .select({
-      month: transactions.month,
+      month: transactionLines.month,
       totalExpense: sql<number>`sum(expense_amount)`,
       totalIncome: sql<number>`sum(income_amount)`,
     })
-    .from(transactions)
+    .from(transactionLines)
     .where(
       and(
-        eq(transactions.year, year),
-        eq(transactions.excludeFromPl, false),
-        ne(transactions.type, "振替"),
-        ne(transactions.category, "振替")
+        eq(transactionLines.year, year),
+        eq(transactionLines.excludeFromPl, false),
+        ne(transactionLines.type, "振替"),
+        ne(transactionLines.category, "振替")
       )
     )
-    .groupBy(transactions.month)
-    .orderBy(transactions.month);
+    .groupBy(transactionLines.month)
+    .orderBy(transactionLines.month);
 
   // 前年の月別データ（QoQ比較用に前年Q同士も比較できるようにする）
   const prevMonthlyRows = await db
     .select({
-      month: transactions.month,
+      month: transactionLines.month,
       totalExpense: sql<number>`sum(expense_amount)`,
       totalIncome: sql<number>`sum(income_amount)`,
     })
-    .from(transactions)
+    .from(transactionLines)
     .where(
       and(
-        eq(transactions.year, year - 1),
-        eq(transactions.excludeFromPl, false),
-        ne(transactions.type, "振替"),
-        ne(transactions.category, "振替")
+        eq(transactionLines.year, year - 1),
+        eq(transactionLines.excludeFromPl, false),
+        ne(transactionLines.type, "振替"),
+        ne(transactionLines.category, "振替")
       )
     )
-    .groupBy(transactions.month)
-    .orderBy(transactions.month);
+    .groupBy(transactionLines.month)
+    .orderBy(transactionLines.month);
 
-  // カテゴリ別支出（四半期ごと）
+  // カテゴリ別支出（四半期ごと。分割明細のカテゴリで数える）
   const catRows = await db
     .select({
-      month: transactions.month,
-      category: transactions.category,
+      month: transactionLines.month,
+      category: transactionLines.category,
       total: sql<number>`sum(expense_amount)`,
     })
-    .from(transactions)
+    .from(transactionLines)
     .where(
       and(
-        eq(transactions.year, year),
-        eq(transactions.excludeFromPl, false),
-        ne(transactions.type, "振替"),
-        ne(transactions.category, "振替"),
-        eq(transactions.type, "支出")
+        eq(transactionLines.year, year),
+        eq(transactionLines.excludeFromPl, false),
+        ne(transactionLines.type, "振替"),
+        ne(transactionLines.category, "振替"),
+        eq(transactionLines.type, "支出")
       )
     )
-    .groupBy(transactions.month, transactions.category);
+    .groupBy(transactionLines.month, transactionLines.category);
 
   // 四半期末の純資産（資産スナップショットの月末残高）
   const assetRows = await db
@@ -0,0 +1,84 @@
+/**
+ * 保存した検索条件 API
+ * GET    /api/saved-filters        → 一覧（サイドバー・取引明細・分析で使う）
+ * POST   /api/saved-filters        → 追加（id なし）または更新（id あり）{ id?, name, query }
+ * DELETE /api/saved-filters?id=    → 削除
+ *
+ * query は /api/transactions と同じ形式のクエリ文字列（transaction-filter.ts）。
+ * 保存した条件は /api/transactions?savedFilter=<id> のように、検索条件の代わりに指定できる。
+ */
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { savedFilters } from "@/lib/schema";
+import { asc, eq, sql } from "drizzle-orm";
+import { parseTransactionFilter, transactionFilterToParams } from "@/lib/transaction-filter";
+
+export async function GET() {
+  try {
+    const data = await db
+      .select()
+      .from(savedFilters)
+      .orderBy(asc(savedFilters.sortOrder), asc(savedFilters.id));
+    return NextResponse.json({ data });
+  } catch (e) {
+    console.error(e);
+    return NextResponse.json({ error: "保存した検索条件の取得に失敗しました" }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const body = (await req.json()) as { id?: number; name?: string; query?: string };
+    const name = body.name?.trim() ?? "";
+    if (name === "" || name.length > 100) {
+      return NextResponse.json({ error: "名前は1〜100文字で入力してください" }, { status: 400 });
+    }
+    // 解釈できないパラメータを落とし、同じ条件が同じ文字列になるように揃える
+    const query = transactionFilterToParams(parseTransactionFilter(new URLSearchParams(body.query ?? ""))).toString();
+    if (query === "") {
+      return NextResponse.json({ error: "検索条件を1つ以上指定してください" }, { status: 400 });
+    }
+
+    if (!body.id) {
+      const [created] = await db
+        .insert(savedFilters)
+        .values({
+          name,
+          query,
+          sortOrder: sql`(select coalesce(max(${savedFilters.sortOrder}), 0) + 1 from ${savedFilters})`,
+        })
+        .returning();
+      return NextResponse.json({ success: true, data: created });
+    }
+
+    const [updated] = await db
+      .update(savedFilters)
+      .set({ name, query, updatedAt: new Date() })
+      .where(eq(savedFilters.id, body.id))
+      .returning();
+    if (!updated) {
+      return NextResponse.json({ error: "検索条件が見つかりません" }, { status: 404 });
+    }
+    return NextResponse.json({ success: true, data: updated });
+  } catch (e) {
+    console.error(e);
+    return NextResponse.json({ error: "検索条件の保存に失敗しました" }, { status: 500 });
+  }
+}
+
+export async function DELETE(req: NextRequest) {
+  try {
+    const id = parseInt(req.nextUrl.searchParams.get("id") ?? "", 10);
+    if (!id) {
+      return NextResponse.json({ error: "id が必要です" }, { status: 400 });
+    }
+    const deleted = await db.delete(savedFilters).where(eq(savedFilters.id, id)).returning({ id: savedFilters.id });
+    if (deleted.length === 0) {
+      return NextResponse.json({ error: "検索条件が見つかりません" }, { status: 404 });
+    }
+    return NextResponse.json({ success: true });
+  } catch (e) {
+    console.error(e);
+    return NextResponse.json({ error: "検索条件の削除に失敗しました" }, { status: 500 });
+  }
+}
@@ -1,12 +1,13 @@
 /**
  * 標準予算 API
  * GET  /api/standard-budget  → 標準予算一覧 + 基準収入
- * POST /api/standard-budget  → 標準予算を一括保存
+ * POST /api/standard-budget  → 標準予算を一括保存（繰越ルール rolloverPolicy / rolloverCapMonths を含む）
  */
 import { NextRequest, NextResponse } from "next/server";
 import { db } from "@/lib/db";
 import { standardBudgets, standardBudgetSettings } from "@/lib/schema";
 import { eq } from "drizzle-orm";
+import { toRolloverRule } from "@/lib/budget-rollover";
 
 export async function GET() {
   try {
@@ -32,7 +33,13 @@ export async function POST(req: NextRequest) {
     const body = await req.json();
     const { referenceIncome, items } = body as {
       referenceIncome: number;
-      items: { categoryName: string; allocation: number; notes?: string }[];
+      items: {
+        categoryName: string;
+        allocation: number;
+        notes?: string;
+        rolloverPolicy?: string;
+        rolloverCapMonths?: number | null;
+      }[];
     };
 
     // 基準収入を保存（id=1 固定）
@@ -46,18 +53,24 @@ export async function POST(req: NextRequest) {
 
     // カテゴリ別標準予算を upsert
     for (const item of items) {
+      // 未知のルールは全額繰越、cap の月数が不正なら既定の月数にする
+      const rule = toRolloverRule(item.rolloverPolicy, item.rolloverCapMonths);
       await db
         .insert(standardBudgets)
         .values({
           categoryName: item.categoryName,
           allocation: item.allocation,
           notes: item.notes ?? null,
+          rolloverPolicy: rule.policy,
+          rolloverCapMonths: rule.capMonths,
         })
         .onConflictDoUpdate({
           target: [standardBudgets.categoryName],
           set: {
             allocation: item.allocation,
             notes: item.notes ?? null,
+            rolloverPolicy: rule.policy,
+            rolloverCapMonths: rule.capMonths,
             updatedAt: new Date(),
           },
         });
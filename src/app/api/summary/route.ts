@@ -6,11 +6,10 @@
  */
 import { NextRequest, NextResponse } from "next/server";
 import { db } from "@/lib/db";
-import { transactions, investmentValuations } from "@/lib/schema";
-import { eq, and, inArray, sql, ne, or, desc } from "drizzle-orm";
-
-// 投資損益は excludeFromPl=true でも P&L に含める
-const plCondition = or(eq(transactions.excludeFromPl, false), eq(transactions.category, "投資損益"))!;
+import { transactionLines } from "@/lib/schema";
+import { eq, and, inArray, sql, ne } from "drizzle-orm";
+import { getMonthlyInvestmentPL, getInvestmentPLForMonths } from "@/lib/investment-pl";
+import { plCondition } from "@/lib/profit-loss";
 
 export async function GET(req: NextRequest) {
   const { searchParams } = req.nextUrl;
@@ -87,23 +86,23 @@ export async function GET(req: NextRequest) {
 async function getMonthlySummary(year: number, month: number) {
   const rows = await db
     .select({
-      type: transactions.type,
-      category: transactions.category,
+      type: transactionLines.type,
+      category: transactionLines.category,
       totalExpense: sql<number>`sum(expense_amount)`,
       totalIncome: sql<number>`sum(income_amount)`,
       count: sql<number>`count(*)`,
     })
-    .from(transactions)
+    .from(transactionLines)
     .where(
       and(
-        eq(transactions.year, year),
-        eq(transactions.month, month),
+        eq(transactionLines.year, year),
+        eq(transactionLines.month, month),
         plCondition,
-        ne(transactions.type, "振替"),
-        ne(transactions.category, "振替")
+        ne(transactionLines.type, "振替"),
+        ne(transactionLines.category, "振替")
       )
     )
-    .groupBy(transactions.type, transactions.category)
+    .groupBy(transactionLines.type, transactionLines.category)
     .orderBy(sql`sum(expense_amount) desc`);
 
   const categories: Record<string, { expense: number; income: number; count: number }> = {};
@@ -133,21 +132,21 @@ async function getMonthlySummary(year: number, month: number) {
 async function getYearlyMonthlyBreakdown(year: number) {
   const rows = await db
     .select({
-      month: transactions.month,
+      month: transactionLines.month,
       totalExpense: sql<number>`sum(expense_amount)`,
       totalIncome: sql<number>`sum(income_amount)`,
     })
-    .from(transactions)
+    .from(transactionLines)
     .where(
       and(
-        eq(transactions.year, year),
+        eq(transactionLines.year, year),
         plCondition,
-        ne(transactions.type, "振替"),
-        ne(transactions.category, "振替")
+        ne(transactionLines.type, "振替"),
+        ne(transactionLines.category, "振替")
       )
     )
-    .groupBy(transactions.month)
-    .orderBy(transactions.month);
+    .groupBy(transactionLines.month)
+    .orderBy(transactionLines.month);
 
   return rows.map((r) => ({
     year,
@@ -161,22 +160,22 @@ async function getYearlyMonthlyBreakdown(year: number) {
 async function getYearlyCategoryBreakdown(year: number) {
   const rows = await db
     .select({
-      type: transactions.type,
-      category: transactions.category,
+      type: transactionLines.type,
+      category: transactionLines.category,
       totalExpense: sql<number>`sum(expense_amount)`,
       totalIncome: sql<number>`sum(income_amount)`,
       count: sql<number>`count(*)`,
     })
-    .from(transactions)
+    .from(transactionLines)
     .where(
       and(
-        eq(transactions.year, year),
+        eq(transactionLines.year, year),
         plCondition,
-        ne(transactions.type, "振替"),
-        ne(transactions.category, "振替")
+        ne(transactionLines.type, "振替"),
+        ne(transactionLines.category, "振替")
       )
     )
-    .groupBy(transactions.type, transactions.category)
+    .groupBy(transactionLines.type, transactionLines.category)
     .orderBy(sql`sum(expense_amount) desc`);
 
   const categories: Record<string, { expense: number; income: number; count: number }> = {};
@@ -200,23 +199,23 @@ async function getQuarterlySummary(year: number, quarter: number) {
   const qMonths = [1, 2, 3].map(m => m + (quarter - 1) * 3);
   const rows = await db
     .select({
-      type: transactions.type,
-      category: transactions.category,
+      type: transactionLines.type,
+      category: transactionLines.category,
       totalExpense: sql<number>`sum(expense_amount)`,
       totalIncome: sql<number>`sum(income_amount)`,
       count: sql<number>`count(*)`,
     })
-    .from(transactions)
+    .from(transactionLines)
     .where(
       and(
-        eq(transactions.year, year),
-        inArray(transactions.month, qMonths),
+        eq(transactionLines.year, year),
+        inArray(transactionLines.month, qMonths),
         plCondition,
-        ne(transactions.type, "振替"),
-        ne(transactions.category, "振替")
+        ne(transactionLines.type, "振替"),
+        ne(transactionLines.category, "振替")
       )
     )
-    .groupBy(transactions.type, transactions.category)
+    .groupBy(transactionLines.type, transactionLines.category)
     .orderBy(sql`sum(expense_amount) desc`);
 
   const categories: Record<string, { expense: number; income: number; count: number }> = {};
@@ -247,23 +246,23 @@ async function getQuarterlySummary(year: number, quarter: number) {
 async function getYearlySummaries(years?: number[]) {
   const conditions = [
     plCondition,
-    ne(transactions.type, "振替"),
-    ne(transactions.category, "振替"),
+    ne(transactionLines.type, "振替"),
+    ne(transactionLines.category, "振替"),
   ];
   if (years && years.length > 0) {
-    conditions.push(inArray(transactions.year, years));
+    conditions.push(inArray(transactionLines.year, years));
   }
 
   const rows = await db
     .select({
-      year: transactions.year,
+      year: transactionLines.year,
       totalExpense: sql<number>`sum(expense_amount)`,
       totalIncome: sql<number>`sum(income_amount)`,
     })
-    .from(transactions)
+    .from(transactionLines)
     .where(and(...conditions))
-    .groupBy(transactions.year)
-    .orderBy(transactions.year);
+    .groupBy(transactionLines.year)
+    .orderBy(transactionLines.year);
 
   return rows.map((r) => ({
     year: r.year,
@@ -272,90 +271,3 @@ async function getYearlySummaries(years?: number[]) {
     netIncome: Number(r.totalIncome ?? 0) - Number(r.totalExpense ?? 0),
   }));
 }
-
-// ─────────────────────────────────────────────────────────────────────────────
-// 投資の月次運用損益
-// 当月運用損益 = 当月末評価額 - 前月末評価額 - 当月新規拠出額
-// ─────────────────────────────────────────────────────────────────────────────
-
-const PRODUCT_TO_ASSET: Record<string, string> = {
-  "iDeCo": "iDeCo",
-  "SBI投資信託": "投資信託/SBI",
-};
-
-/** 指定月までの累計拠出額 */
-async function getCostBasisUpTo(assetName: string, uptoYear: number, uptoMonth: number) {
-  const rows = await db
-    .select({ total: sql<number>`sum(income_amount)` })
-    .from(transactions)
-    .where(and(
-      eq(transactions.category, "振替"),
-      eq(transactions.assetName, assetName),
-      sql`income_amount > 0`,
-      sql`(year * 100 + month) <= ${uptoYear * 100 + uptoMonth}`,
-    ));
-  return Number(rows[0]?.total ?? 0);
-}
-
-/** 単月の投資運用損益（商品別 + 合計） */
-async function getMonthlyInvestmentPL(year: number, month: number) {
-  const prevMonth = month === 1 ? { y: year - 1, m: 12 } : { y: year, m: month - 1 };
-
-  const [currentVals, prevVals] = await Promise.all([
-    db.select().from(investmentValuations)
-      .where(and(eq(investmentValuations.year, year), eq(investmentValuations.month, month))),
-    db.select().from(investmentValuations)
-      .where(and(eq(investmentValuations.year, prevMonth.y), eq(investmentValuations.month, prevMonth.m))),
-  ]);
-
-  const products: { productName: string; gain: number; marketValue: number; prevMarketValue: number; contribution: number }[] = [];
-  let totalGain = 0;
-
-  for (const [productName, assetName] of Object.entries(PRODUCT_TO_ASSET)) {
-    const cur = currentVals.find(v => v.productName === productName);
-    if (!cur) continue; // 当月の評価額が未登録ならスキップ
-    const prev = prevVals.find(v => v.productName === productName);
-
-    const curMarket = cur.marketValue;
-    const prevMarket = prev?.marketValue ?? 0;
-
-    let gain: number;
-    let contribution: number;
-    if (!prev) {
-      // 初回登録月: 前月の評価額がないため運用損益は算出不可 → スキップ
-      continue;
-    } else {
-      // 通常月: 運用損益 = 当月末評価額 - 前月末評価額 - 当月新規拠出額
-      const [costCur, costPrev] = await Promise.all([
-        getCostBasisUpTo(assetName, year, month),
-        getCostBasisUpTo(assetName, prevMonth.y, prevMonth.m),
-      ]);
-      contribution = costCur - costPrev;
-      gain = curMarket - prevMarket - contribution;
-    }
-
-    products.push({ productName, gain, marketValue: curMarket, prevMarketValue: prevMarket, contribution });
-    totalGain += gain;
-  }
-
-  return { products, totalGain };
-}
-
-/** 複数月の投資運用損益を合算 */
-async function getInvestmentPLForMonths(year: number, months: number[]) {
-  const results = await Promise.all(months.map(m => getMonthlyInvestmentPL(year, m)));
-  const productMap = new Map<string, number>();
-  let totalGain = 0;
-
-  for (const r of results) {
-    for (const p of r.products) {
-      productMap.set(p.productName, (productMap.get(p.productName) ?? 0) + p.gain);
-    }
-    totalGain += r.totalGain;
-  }
-
-  return {
-    products: Array.from(productMap.entries()).map(([name, gain]) => ({ productName: name, gain })),
-    totalGain,
-  };
-}
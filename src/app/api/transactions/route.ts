@@ -1,43 +1,64 @@
+/**
+ * 取引 API
+ * GET    /api/transactions?year=&month=&...  → 取引の検索（ページング、分割明細付き）
+ *          検索条件のパラメータは lib/transaction-filter.ts を参照。savedFilter=<id> で保存した検索条件を使う
+ *          format=csv | xlsx で、検索条件の期間の全件を月単位で収支合算レポートの形式でダウンロード
+ *          （期間以外の絞り込みは適用しない。手入力の行は除く。取り込めるのは CSV のみ）
+ * POST   /api/transactions                   → 手入力の取引を追加
+ * PATCH  /api/transactions {id, ...}         → 手入力の取引を更新
+ * DELETE /api/transactions?id=               → 手入力の取引を削除
+ *
+ * 手入力の行は source='manual' とし、CSV の再インポートでは置き換えない。
+ * CSV から取り込んだ行は、再インポートで元に戻ってしまうため編集・削除できない。
+ */
 import { NextRequest, NextResponse } from "next/server";
 import { db } from "@/lib/db";
-import { transactions } from "@/lib/schema";
-import { eq, and, desc, asc, sql, ilike, or, inArray } from "drizzle-orm";
+import { transactions, transactionSplits } from "@/lib/schema";
+import { and, eq, ne, asc, sql, inArray } from "drizzle-orm";
+import { validateTransactionInput, type TransactionInput } from "@/lib/transaction-input";
+import { exportTransactions, EXPORT_CONTENT_TYPES } from "@/lib/transaction-export";
+import { todayString } from "@/lib/csv-parser";
+import { toExportFilter } from "@/lib/transaction-filter";
+import { resolveTransactionFilter, transactionFilterWhere, transactionFilterOrderBy } from "@/lib/transaction-query";
 
 export async function GET(req: NextRequest) {
   const { searchParams } = req.nextUrl;
-  const year = searchParams.get("year") ? parseInt(searchParams.get("year")!) : null;
-  const month = searchParams.get("month") ? parseInt(searchParams.get("month")!) : null;
-  const quarter = searchParams.get("quarter") ? parseInt(searchParams.get("quarter")!) : null;
-  const category = searchParams.get("category");
-  const type = searchParams.get("type");
-  const keyword = searchParams.get("keyword");
-  const amount = searchParams.get("amount") ? parseInt(searchParams.get("amount")!) : null;
   const page = parseInt(searchParams.get("page") ?? "1");
   const limit = parseInt(searchParams.get("limit") ?? "50");
   const offset = (page - 1) * limit;
 
   try {
-    const conditions = [];
-    if (year) conditions.push(eq(transactions.year, year));
-    if (quarter) {
-      const qMonths = [1, 2, 3].map((m) => m + (quarter - 1) * 3);
-      conditions.push(inArray(transactions.month, qMonths));
-    } else if (month) {
-      conditions.push(eq(transactions.month, month));
+    const filter = await resolveTransactionFilter(searchParams);
+    if (!filter) {
+      return NextResponse.json({ error: "保存した検索条件が見つかりません" }, { status: 404 });
     }
-    if (category) conditions.push(eq(transactions.category, category));
-    if (type) conditions.push(eq(transactions.type, type));
-    if (keyword) conditions.push(ilike(transactions.itemName, `%${keyword}%`));
-    if (amount) conditions.push(or(eq(transactions.expenseAmount, amount), eq(transactions.incomeAmount, amount))!);
+    const where = transactionFilterWhere(filter);
 
-    const where = conditions.length > 0 ? and(...conditions) : undefined;
+    const format = searchParams.get("format");
+    if (format === "csv" || format === "xlsx") {
+      // 取り込みは月単位で置き換えるため、期間以外の絞り込みは外して月ごと全件を出力する。
+      // 手入力の行は再インポートで置き換わらず残るため、出力すると読み戻したときに二重になる
+      const exportFilter = toExportFilter(filter);
+      const rows = await db
+        .select()
+        .from(transactions)
+        .where(and(transactionFilterWhere(exportFilter), ne(transactions.source, "manual")))
+        .orderBy(...transactionFilterOrderBy(exportFilter));
+      const fileName = `収支合算レポート_${todayString().replace(/-/g, "")}.${format}`;
+      return new NextResponse(exportTransactions(rows, format), {
+        headers: {
+          "Content-Type": EXPORT_CONTENT_TYPES[format],
+          "Content-Disposition": `attachment; filename="export.${format}"; filename*=UTF-8''${encodeURIComponent(fileName)}`,
+        },
+      });
+    }
 
     const [rows, countResult] = await Promise.all([
       db
         .select()
         .from(transactions)
         .where(where)
-        .orderBy(desc(transactions.date), asc(transactions.id))
+        .orderBy(...transactionFilterOrderBy(filter))
         .limit(limit)
         .offset(offset),
       db
@@ -46,8 +67,17 @@ export async function GET(req: NextRequest) {
         .where(where),
     ]);
 
+    // 分割された取引には分割明細を付ける
+    const splits = rows.length > 0
+      ? await db
+          .select()
+          .from(transactionSplits)
+          .where(inArray(transactionSplits.transactionId, rows.map((r) => r.id)))
+          .orderBy(asc(transactionSplits.sortOrder), asc(transactionSplits.id))
+      : [];
+
     return NextResponse.json({
-      data: rows,
+      data: rows.map((r) => ({ ...r, splits: splits.filter((s) => s.transactionId === r.id) })),
       total: Number(countResult[0]?.count ?? 0),
       page,
       limit,
@@ -57,3 +87,111 @@ export async function GET(req: NextRequest) {
     return NextResponse.json({ error: "取引の取得に失敗しました" }, { status: 500 });
   }
 }
+
+/** 編集・削除の対象（手入力の行）を取得する。エラー時はレスポンスを返す */
+async function findManualTransaction(id: number) {
+  if (!Number.isInteger(id) || id <= 0) {
+    return { error: NextResponse.json({ error: "id が必要です" }, { status: 400 }) };
+  }
+  const [row] = await db.select().from(transactions).where(eq(transactions.id, id));
+  if (!row) {
+    return { error: NextResponse.json({ error: "取引が見つかりません" }, { status: 404 }) };
+  }
+  if (row.source !== "manual") {
+    return {
+      error: NextResponse.json(
+        { error: "CSV から取り込んだ取引は編集・削除できません（再インポートで元に戻るため）" },
+        { status: 409 }
+      ),
+    };
+  }
+  return { row };
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const result = validateTransactionInput((await req.json()) as TransactionInput);
+    if ("error" in result) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+
+    const [created] = await db
+      .insert(transactions)
+      .values({ ...result.values, source: "manual" })
+      .returning();
+
+    return NextResponse.json({ success: true, data: created });
+  } catch (e) {
+    console.error(e);
+    return NextResponse.json({ error: "取引の追加に失敗しました" }, { status: 500 });
+  }
+}
+
+export async function PATCH(req: NextRequest) {
+  try {
+    const { id, ...patch } = (await req.json()) as Partial<TransactionInput> & { id: number };
+    const found = await findManualTransaction(id);
+    if (found.error) return found.error;
+    const { row } = found;
+
+    // 指定されなかった項目は現在の値のまま、全体として整合しているかを検証する
+    const result = validateTransactionInput({
+      date: row.date,
+      type: row.type,
+      category: row.category,
+      itemName: row.itemName,
+      expenseAmount: row.expenseAmount,
+      incomeAmount: row.incomeAmount,
+      assetName: row.assetName,
+      tag: row.tag,
+      memo: row.memo,
+      excludeFromPl: row.excludeFromPl,
+      ...patch,
+    });
+    if ("error" in result) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+    // 分割明細の合計が合わなくなるため、分割済みの取引は金額・収支の向きを変えられない
+    const amountChanged =
+      result.values.expenseAmount !== row.expenseAmount || result.values.incomeAmount !== row.incomeAmount;
+    if (amountChanged) {
+      const [split] = await db
+        .select({ id: transactionSplits.id })
+        .from(transactionSplits)
+        .where(eq(transactionSplits.transactionId, id))
+        .limit(1);
+      if (split) {
+        return NextResponse.json({ error: "分割を解除してから金額を変更してください" }, { status: 409 });
+      }
+    }
+
+    const [updated] = await db
+      .update(transactions)
+      .set(result.values)
+      .where(eq(transactions.id, id))
+      .returning();
+
+    return NextResponse.json({ success: true, data: updated });
+  } catch (e) {
+    console.error(e);
+    return NextResponse.json({ error: "取引の更新に失敗しました" }, { status: 500 });
+  }
+}
+
+export async function DELETE(req: NextRequest) {
+  try {
+    const id = parseInt(req.nextUrl.searchParams.get("id") ?? "");
+    const found = await findManualTransaction(id);
+    if (found.error) return found.error;
+
+    await db.batch([
+      db.delete(transactionSplits).where(eq(transactionSplits.transactionId, id)),
+      db.delete(transactions).where(eq(transactions.id, id)),
+    ]);
+
+    return NextResponse.json({ success: true });
+  } catch (e) {
+    console.error(e);
+    return NextResponse.json({ error: "取引の削除に失敗しました" }, { status: 500 });
+  }
+}
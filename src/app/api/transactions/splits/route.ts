@@ -0,0 +1,98 @@
+/**
+ * 取引の分割 API
+ * GET  /api/transactions/splits?transactionId=123          → 分割明細
+ * POST /api/transactions/splits {transactionId, lines: []} → 分割明細を置き換える（lines が空なら分割を解除）
+ *
+ * 分割明細の金額の合計は親取引の金額と一致させる。
+ * 取り込んだ取引の分割は親の指紋（fingerprint）も記録し、再インポート後も同じ取引に付け直す。
+ */
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { transactions, transactionSplits } from "@/lib/schema";
+import { asc, eq } from "drizzle-orm";
+import type { BatchItem } from "drizzle-orm/batch";
+
+type SplitLineInput = { category: string; amount: number; memo?: string | null };
+
+export async function GET(req: NextRequest) {
+  const transactionId = parseInt(req.nextUrl.searchParams.get("transactionId") ?? "");
+  if (!transactionId) {
+    return NextResponse.json({ error: "transactionId が必要です" }, { status: 400 });
+  }
+
+  try {
+    const rows = await db
+      .select()
+      .from(transactionSplits)
+      .where(eq(transactionSplits.transactionId, transactionId))
+      .orderBy(asc(transactionSplits.sortOrder), asc(transactionSplits.id));
+    return NextResponse.json({ data: rows });
+  } catch (e) {
+    console.error(e);
+    return NextResponse.json({ error: "分割明細の取得に失敗しました" }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const { transactionId, lines } = (await req.json()) as {
+      transactionId: number;
+      lines: SplitLineInput[];
+    };
+    if (!transactionId || !Array.isArray(lines)) {
+      return NextResponse.json({ error: "transactionId と lines が必要です" }, { status: 400 });
+    }
+
+    const [parent] = await db.select().from(transactions).where(eq(transactions.id, transactionId));
+    if (!parent) {
+      return NextResponse.json({ error: "取引が見つかりません" }, { status: 404 });
+    }
+
+    const normalized = lines.map((l) => ({
+      category: l.category?.trim() ?? "",
+      amount: l.amount,
+      memo: l.memo?.trim() || null,
+    }));
+    if (normalized.length === 1) {
+      return NextResponse.json({ error: "分割明細は2行以上必要です" }, { status: 400 });
+    }
+    for (const l of normalized) {
+      if (!l.category || l.category.length > 100) {
+        return NextResponse.json({ error: "分割明細のカテゴリが不正です" }, { status: 400 });
+      }
+      if (!Number.isInteger(l.amount) || l.amount <= 0) {
+        return NextResponse.json({ error: "分割明細の金額は正の整数で指定してください" }, { status: 400 });
+      }
+    }
+    const parentAmount = parent.expenseAmount || parent.incomeAmount;
+    const total = normalized.reduce((s, l) => s + l.amount, 0);
+    if (normalized.length > 0 && total !== parentAmount) {
+      return NextResponse.json(
+        { error: `分割明細の合計（${total.toLocaleString()}円）が取引の金額（${parentAmount.toLocaleString()}円）と一致しません` },
+        { status: 400 }
+      );
+    }
+
+    const statements: BatchItem<"pg">[] = [
+      db.delete(transactionSplits).where(eq(transactionSplits.transactionId, transactionId)),
+    ];
+    if (normalized.length > 0) {
+      statements.push(
+        db.insert(transactionSplits).values(
+          normalized.map((l, i) => ({
+            ...l,
+            transactionId,
+            parentFingerprint: parent.fingerprint,
+            sortOrder: i,
+          }))
+        )
+      );
+    }
+    await db.batch(statements as [BatchItem<"pg">, ...BatchItem<"pg">[]]);
+
+    return NextResponse.json({ success: true });
+  } catch (e) {
+    console.error(e);
+    return NextResponse.json({ error: "分割明細の保存に失敗しました" }, { status: 500 });
+  }
+}
@@ -1,8 +1,10 @@
 "use client";
 import { useState, useEffect, useCallback, useMemo } from "react";
 import { Card, CardTitle } from "@/components/ui/Card";
+import { PdfExportLink } from "@/components/ui/PdfExportLink";
 import { formatCurrency } from "@/lib/utils";
 import type { AssetSnapshot } from "@/lib/schema";
+import { ASSET_SIDE_TYPES, ASSET_TYPE_LABELS } from "@/lib/asset-types";
 import {
   BarChart, Bar, XAxis, YAxis, Tooltip,
   CartesianGrid, ResponsiveContainer, ReferenceLine, Cell,
@@ -18,16 +20,6 @@ type GroupedAssets = {
   other: AssetSnapshot[];
 };
 
-const TYPE_LABELS: Record<string, string> = {
-  bank: "銀行口座",
-  credit: "クレジットカード（負債）",
-  investment: "投資・証券",
-  ic_card: "IC カード",
-  qr_pay: "QR 決済",
-  cash: "現金",
-  other: "その他",
-};
-
 // 四半期末月
 const Q_MONTH: Record<number, number> = { 1: 3, 2: 6, 3: 9, 4: 12 };
 
@@ -146,6 +138,9 @@ export default function BalanceSheetPage() {
               ))}
             </select>
           )}
+
+          {/* 表示中の月末の貸借対照表をサーバーで PDF にしてダウンロード */}
+          <PdfExportLink href={`/api/report?type=balance_sheet&year=${year}&month=${effectiveMonth}&format=pdf`} />
         </div>
       </div>
 
@@ -213,14 +208,14 @@ export default function BalanceSheetPage() {
           {/* 資産側 */}
           <div className="space-y-4">
             <h2 className="text-white font-semibold text-base">資産</h2>
-            {(["bank", "investment", "ic_card", "qr_pay", "cash", "other"] as const).map((type) => {
+            {ASSET_SIDE_TYPES.map((type) => {
               const items = grouped[type].filter((a) => a.closingBalance >= 0);
               if (items.length === 0) return null;
               const subtotal = items.reduce((sum, a) => sum + a.closingBalance, 0);
               return (
                 <Card key={type}>
                   <div className="flex justify-between items-center mb-2">
-                    <CardTitle>{TYPE_LABELS[type]}</CardTitle>
+                    <CardTitle>{ASSET_TYPE_LABELS[type]}</CardTitle>
                     <span className="text-blue-400 font-semibold text-sm">{formatCurrency(subtotal)}</span>
                   </div>
                   <table className="data-table">
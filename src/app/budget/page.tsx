@@ -1,12 +1,17 @@
 "use client";
-import { useState, useEffect, useCallback } from "react";
+import { Fragment, useState, useEffect, useCallback, useMemo } from "react";
 import { Card, CardTitle } from "@/components/ui/Card";
 import { formatCurrency, formatCurrencySigned } from "@/lib/utils";
+import { createCategoryLookup, type CategoryRegistry } from "@/lib/categories";
+import { describeRolloverRule, prevYearMonth, type RolloverRule } from "@/lib/budget-rollover";
+import type { CategoryLedger } from "@/lib/budget-carryover";
 
 type BudgetRow = {
   categoryName: string;
   allocation: number;
   carryover: number;
+  /** 予算移動の純額（totalBudget に含まれる） */
+  transfers: number;
   totalBudget: number;
   actual: number;
   remaining: number;
@@ -14,10 +19,29 @@ type BudgetRow = {
   hasBudget: boolean;
 };
 
+type IncomeAllocationRow = {
+  year: number;
+  month: number;
+  totalIncome: number;
+  totalAllocated: number;
+  toBeAllocated: number;
+};
+
+type TransferRow = {
+  id: number;
+  fromCategory: string;
+  toCategory: string;
+  amount: number;
+  memo: string | null;
+  createdAt: string;
+};
+
 type CarryoverItem = {
   categoryName: string;
   prevTotalBudget: number;
   prevActual: number;
+  remaining: number;
+  rule: RolloverRule;
   carryover: number;
 };
 
@@ -30,36 +54,9 @@ type TxRow = {
   type: string;
 };
 
-const CATEGORY_ORDER_BY_YEAR: Record<string, string[]> = {
-  "2019": ["研究費", "カフェ", "娯楽費", "交際費", "交通費", "衣服・美容費", "生活費", "医療費", "光熱費", "通信費", "法律", "教育ビジネス", "特別経費M", "特別経費B", "旅行・帰省"],
-  "2020": ["研究費", "カフェ", "娯楽費", "交際費", "交通費", "衣服・美容費", "生活費", "医療費", "家賃", "家賃補助", "通信費", "法律", "教育ビジネス", "特別経費M", "特別経費B", "旅行・帰省"],
-  "2021": ["研究費", "カフェ", "娯楽費", "交際費", "交通費", "衣服・美容費", "生活費", "医療費", "家賃", "家賃補助", "通信費", "法律・教育", "特別経費M", "特別経費B", "脱毛", "旅行・帰省", "投資損益", "貯蓄"],
-  "2022": ["研究費", "カフェ", "娯楽費", "交際費", "交通費", "美容費", "生活費", "医療費", "家賃", "通信費", "テニス", "特別経費M", "特別経費B", "ファッション", "旅行・帰省", "投資損益", "貯蓄（投信）"],
-  "2023": ["研究費", "カフェ", "娯楽費", "交際費", "交通費", "美容費", "生活費", "医療費", "家賃", "通信費", "特別経費S", "特別経費B", "ファッション", "旅行・帰省", "FjordBootCamp", "投資損益", "貯蓄", "貯蓄（投信）", "会社立替"],
-  "2024": ["食費", "研究", "カフェ", "娯楽費", "交際費・贅沢費", "交通費", "美容費", "生活消耗品費", "医療費", "家賃・光熱費", "通信費", "特別経費S", "特別経費B", "ファッション", "旅行・帰省", "FjordBootCamp", "投資損益", "貯蓄", "貯蓄（投信）", "会社立替"],
-  "2025": ["食費", "研究", "カフェ", "娯楽費", "交際費・贅沢費", "交通費", "美容費", "生活消耗品費", "医療費", "家賃・光熱費", "通信費", "特別経費S", "特別経費B", "ファッション", "旅行・帰省", "同棲費", "貯蓄", "貯蓄（投信）", "会社立替"],
-  "2026": ["食費", "研究", "カフェ", "娯楽費", "交際費・贅沢費", "交通費", "美容費", "生活消耗品費", "医療費", "家賃・光熱費", "通信費", "特別経費S", "特別経費B", "ファッション", "旅行・帰省", "貯蓄", "貯蓄（投信）", "会社立替"],
-};
-
 // 貯蓄・積立扱いのカテゴリ（支出として発生しない）
 const SAVINGS_CATEGORIES = new Set(["貯蓄", "貯蓄（投信）"]);
 
-function sortByExcelOrder(cats: string[], year: number): string[] {
-  const order = CATEGORY_ORDER_BY_YEAR[String(year)] ?? CATEGORY_ORDER_BY_YEAR["2026"];
-  return [...cats].sort((a, b) => {
-    const ia = order.indexOf(a);
-    const ib = order.indexOf(b);
-    if (ia === -1 && ib === -1) return a.localeCompare(b, "ja");
-    if (ia === -1) return 1;
-    if (ib === -1) return -1;
-    return ia - ib;
-  });
-}
-
-function prevYearMonth(y: number, m: number) {
-  return m === 1 ? { year: y - 1, month: 12 } : { year: y, month: m - 1 };
-}
-
 export default function BudgetPage() {
   const now = new Date();
   const [year, setYear] = useState(now.getFullYear());
@@ -75,31 +72,50 @@ export default function BudgetPage() {
   const [showIncomeBreakdown, setShowIncomeBreakdown] = useState(false);
   const [prevActuals, setPrevActuals] = useState<Record<string, number>>({});
   const [existingBudgets, setExistingBudgets] = useState<BudgetRow[]>([]);
+  const [transfers, setTransfers] = useState<TransferRow[]>([]);
+  const [incomeHistory, setIncomeHistory] = useState<IncomeAllocationRow[]>([]);
+  const [registry, setRegistry] = useState<CategoryRegistry | null>(null);
+  const [collapsedGroups, setCollapsedGroups] = useState<Set<string>>(new Set());
   const [loading, setLoading] = useState(false);
   const [saving, setSaving] = useState(false);
   const [saved, setSaved] = useState(false);
+  const [opening, setOpening] = useState(false);
 
   // 内訳展開
   const [expandedCategory, setExpandedCategory] = useState<string | null>(null);
   const [txCache, setTxCache] = useState<Record<string, TxRow[]>>({});
   const [txLoading, setTxLoading] = useState(false);
 
+  // 繰越の内訳（台帳）展開
+  const [ledgerCategory, setLedgerCategory] = useState<string | null>(null);
+  const [ledgerCache, setLedgerCache] = useState<Record<string, CategoryLedger | null>>({});
+
   const prev = prevYearMonth(year, month);
 
   const loadData = useCallback(async () => {
     setLoading(true);
     setExpandedCategory(null);
     setTxCache({});
+    setLedgerCategory(null);
+    setLedgerCache({});
     try {
-      const [budgetRes, carryoverRes, prevSummaryRes, prevBudgetRes] = await Promise.all([
+      const [budgetRes, carryoverRes, prevSummaryRes, prevBudgetRes, registryRes, transferRes, incomeRes] = await Promise.all([
         fetch(`/api/budgets?year=${year}&month=${month}`),
         fetch(`/api/budgets/carryover?year=${year}&month=${month}`),
         fetch(`/api/summary?year=${prev.year}&month=${prev.month}`),
         fetch(`/api/budgets?year=${prev.year}&month=${prev.month}`),
+        fetch("/api/categories/registry"),
+        fetch(`/api/budgets/transfers?year=${year}&month=${month}`),
+        fetch("/api/budgets/income-allocations"),
       ]);
-      const [budgetJson, carryoverJson, prevSummaryJson, prevBudgetJson] = await Promise.all([
-        budgetRes.json(), carryoverRes.json(), prevSummaryRes.json(), prevBudgetRes.json(),
+      const [budgetJson, carryoverJson, prevSummaryJson, prevBudgetJson, registryJson, transferJson, incomeJson] = await Promise.all([
+        budgetRes.json(), carryoverRes.json(), prevSummaryRes.json(), prevBudgetRes.json(), registryRes.json(), transferRes.json(),
+        incomeRes.json(),
       ]);
+      setTransfers(transferJson.data ?? []);
+      setIncomeHistory(incomeJson.data ?? []);
+      const loadedRegistry: CategoryRegistry | null = registryJson.data ?? null;
+      setRegistry(loadedRegistry);
 
       const existing: BudgetRow[] = budgetJson.data ?? [];
       setExistingBudgets(existing);
@@ -119,13 +135,13 @@ export default function BudgetPage() {
       prevRows.forEach((r) => { actualsMap[r.categoryName] = r.actual; });
       setPrevActuals(actualsMap);
 
-      const allCats = sortByExcelOrder(Array.from(
+      const allCats = Array.from(
         new Set([
           ...existing.map((r) => r.categoryName),
           ...carryoverItems.map((c) => c.categoryName),
           ...prevRows.map((r) => r.categoryName),
         ])
-      ), year);
+      ).sort(createCategoryLookup(loadedRegistry).compare);
       setCategories(allCats);
 
       const carryoverMap = new Map(carryoverItems.map((c) => [c.categoryName, c.carryover]));
@@ -168,7 +184,8 @@ export default function BudgetPage() {
     }));
   }
 
-  async function saveBudgets() {
+  /** 保存できたら true。前月の収入を超える割り当ては確認してから保存する */
+  async function saveBudgets(): Promise<boolean> {
     setSaving(true);
     setSaved(false);
     try {
@@ -177,18 +194,64 @@ export default function BudgetPage() {
         allocation: v.allocation,
         carryover: v.carryover,
       }));
-      await fetch("/api/budgets", {
+      const post = (allowOverAllocation: boolean) =>
+        fetch("/api/budgets", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ year, month, items, allowOverAllocation }),
+        });
+      let res = await post(false);
+      if (res.status === 409) {
+        const json = await res.json();
+        if (!confirm(`${json.error}。このまま保存しますか？`)) return false;
+        res = await post(true);
+      }
+      if (!res.ok) {
+        const json = await res.json();
+        alert(json.error ?? "予算の保存に失敗しました");
+        return false;
+      }
+      setSaved(true);
+      await loadData();
+      return true;
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  // 標準予算 + 繰越額でこの月の予算を作る（scripts/open-month.ts と同じ処理）
+  async function openBudgetMonth() {
+    setOpening(true);
+    try {
+      const res = await fetch("/api/budgets", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ year, month, items }),
+        body: JSON.stringify({ action: "open_month", year, month }),
       });
-      setSaved(true);
+      const json = await res.json();
+      if (!res.ok) {
+        alert(json.error ?? "予算の作成に失敗しました");
+        return;
+      }
+      const income: IncomeAllocationRow | null = json.data?.incomeAllocation ?? null;
+      if (income && income.toBeAllocated < 0) {
+        alert(`前月の収入を ${formatCurrency(-income.toBeAllocated)} 超えて割り当てています。編集で配分を見直してください`);
+      }
       await loadData();
     } finally {
-      setSaving(false);
+      setOpening(false);
     }
   }
 
+  function toggleGroup(group: string) {
+    setCollapsedGroups((prev) => {
+      const next = new Set(prev);
+      if (next.has(group)) next.delete(group);
+      else next.add(group);
+      return next;
+    });
+  }
+
   async function toggleExpand(cat: string) {
     if (expandedCategory === cat) {
       setExpandedCategory(null);
@@ -208,6 +271,18 @@ export default function BudgetPage() {
     }
   }
 
+  async function toggleLedger(cat: string) {
+    if (ledgerCategory === cat) {
+      setLedgerCategory(null);
+      return;
+    }
+    setLedgerCategory(cat);
+    if (cat in ledgerCache) return;
+    const res = await fetch(`/api/budgets/ledger?year=${year}&month=${month}&category=${encodeURIComponent(cat)}`);
+    const json = res.ok ? await res.json() : {};
+    setLedgerCache((prev) => ({ ...prev, [cat]: json.data?.[0] ?? null }));
+  }
+
   // 集計
   const enabledItems = Object.entries(editMap).filter(([, v]) => v.enabled);
   const totalAllocation = enabledItems.reduce((sum, [, v]) => sum + (v.allocation ?? 0), 0);
@@ -215,18 +290,26 @@ export default function BudgetPage() {
   const totalBudget = totalAllocation + totalCarryover;
   const unallocated = prevMonthIncome - totalAllocation;
   const actualMap = new Map(existingBudgets.map((r) => [r.categoryName, r.actual]));
+  // 予算移動の純額（予算合計に足す。全カテゴリの合計は 0）
+  const transferMap = new Map(existingBudgets.map((r) => [r.categoryName, r.transfers ?? 0]));
+  const transferOf = (cat: string) => transferMap.get(cat) ?? 0;
+  const isMonthOpen = existingBudgets.some((r) => r.hasBudget);
 
   const expenseCats = categories.filter((c) => !SAVINGS_CATEGORIES.has(c));
   const savingsCats = categories.filter((c) => SAVINGS_CATEGORIES.has(c));
 
-  const expenseTotal = {
-    budget: expenseCats.reduce((s, c) => s + (editMap[c]?.allocation ?? 0) + (editMap[c]?.carryover ?? 0), 0),
-    actual: expenseCats.reduce((s, c) => s + (actualMap.get(c) ?? 0), 0),
-  };
-  const savingsTotal = {
-    budget: savingsCats.reduce((s, c) => s + (editMap[c]?.allocation ?? 0) + (editMap[c]?.carryover ?? 0), 0),
-    actual: savingsCats.reduce((s, c) => s + (actualMap.get(c) ?? 0), 0),
-  };
+  // 支出カテゴリはグループ（固定費 / 変動費 など）ごとに小計を出す
+  const lookup = useMemo(() => createCategoryLookup(registry), [registry]);
+  const expenseGroups = lookup.group(expenseCats);
+  const sumOf = (cats: string[]) => ({
+    carryover: cats.reduce((s, c) => s + (editMap[c]?.carryover ?? 0), 0),
+    allocation: cats.reduce((s, c) => s + (editMap[c]?.allocation ?? 0), 0),
+    budget: cats.reduce((s, c) => s + (editMap[c]?.allocation ?? 0) + (editMap[c]?.carryover ?? 0) + transferOf(c), 0),
+    actual: cats.reduce((s, c) => s + (actualMap.get(c) ?? 0), 0),
+  });
+
+  const expenseTotal = sumOf(expenseCats);
+  const savingsTotal = sumOf(savingsCats);
 
   return (
     <div className="p-4 sm:p-6">
@@ -257,6 +340,16 @@ export default function BudgetPage() {
               <option key={m} value={m}>{m}月</option>
             ))}
           </select>
+          {!isEditing && !isMonthOpen && !loading && (
+            <button
+              onClick={openBudgetMonth}
+              disabled={opening}
+              title="標準予算と前月からの繰越（繰越ルール適用）でこの月の予算を作成します"
+              className="px-4 py-2 text-sm bg-blue-600 hover:bg-blue-500 disabled:bg-slate-700 text-white rounded-lg transition font-semibold"
+            >
+              {opening ? "作成中..." : "月を開く"}
+            </button>
+          )}
           {!isEditing ? (
             <button
               onClick={() => setIsEditing(true)}
@@ -273,7 +366,7 @@ export default function BudgetPage() {
                 キャンセル
               </button>
               <button
-                onClick={async () => { await saveBudgets(); setIsEditing(false); }}
+                onClick={async () => { if (await saveBudgets()) setIsEditing(false); }}
                 disabled={saving}
                 className="px-4 py-2 text-sm bg-blue-600 hover:bg-blue-500 disabled:bg-slate-700 text-white rounded-lg transition font-semibold"
               >
@@ -305,100 +398,138 @@ export default function BudgetPage() {
             </div>
 
             <div className="divide-y divide-slate-800/60">
-              {expenseCats.map((cat) => {
-                const edit = editMap[cat] ?? { allocation: 0, carryover: 0, enabled: false };
-                const totalB = (edit.allocation ?? 0) + (edit.carryover ?? 0);
-                const actual = actualMap.get(cat) ?? 0;
-                const remaining = totalB - actual;
-                const pct = totalB > 0 ? Math.min((actual / totalB) * 100, 100) : 0;
-                const over = totalB > 0 && actual > totalB;
-                const isExpanded = expandedCategory === cat;
-                const txList = txCache[cat];
-                const hasData = totalB !== 0 || actual > 0;
-
+              {expenseGroups.map(({ group, categories: groupCats }) => {
+                const t = sumOf(groupCats);
+                const collapsed = collapsedGroups.has(group);
                 return (
-                  <div key={cat}>
-                    <div className="px-4 py-3">
-                      <p className="font-medium text-slate-200 text-sm mb-2 leading-tight">{cat}</p>
-
-                      {/* 予算 / 実績 / 残り — 3列 */}
-                      <div className="grid grid-cols-3 gap-1 mb-2">
-                        <div>
-                          <p className="text-xs text-slate-500 mb-0.5">予算</p>
-                          <p className="text-sm font-medium text-slate-300 tabular-nums">
-                            {hasData ? formatCurrencySigned(totalB) : "—"}
-                          </p>
-                          {(edit.carryover ?? 0) !== 0 && (
-                            <p className={`text-xs tabular-nums ${edit.carryover > 0 ? "text-blue-400" : "text-red-400"}`}>
-                              繰越 {formatCurrencySigned(edit.carryover)}
-                            </p>
-                          )}
-                        </div>
-                        <div>
-                          <p className="text-xs text-slate-500 mb-0.5">実績</p>
-                          <button
-                            onClick={() => toggleExpand(cat)}
-                            disabled={actual === 0}
-                            className={`text-sm font-medium tabular-nums flex items-center gap-0.5 transition ${
-                              actual > 0 ? "text-slate-300 hover:text-white" : "text-slate-600 cursor-default"
-                            }`}
-                          >
-                            {actual > 0 ? formatCurrency(actual) : "—"}
-                            {actual > 0 && <span className="text-slate-500 text-xs">{isExpanded ? "▲" : "▼"}</span>}
-                          </button>
-                        </div>
-                        <div>
-                          <p className="text-xs text-slate-500 mb-0.5">残り</p>
-                          <p className={`text-sm font-bold tabular-nums ${
-                            !hasData ? "text-slate-600"
-                            : remaining < 0 ? "text-red-400"
-                            : remaining === 0 ? "text-slate-400"
-                            : "text-green-400"
-                          }`}>
-                            {hasData ? formatCurrencySigned(remaining) : "—"}
-                          </p>
-                        </div>
-                      </div>
+                  <div key={group}>
+                    <button
+                      onClick={() => toggleGroup(group)}
+                      className="w-full px-4 py-2 bg-slate-800/30 flex items-center justify-between gap-2 text-left hover:bg-slate-800/50 transition"
+                    >
+                      <span className="text-xs font-semibold text-slate-400">
+                        <span className="text-slate-500 mr-1">{collapsed ? "▶" : "▼"}</span>
+                        {group}
+                      </span>
+                      <span className="text-xs tabular-nums text-slate-500">
+                        {formatCurrency(t.actual)} / {formatCurrency(t.budget)}
+                        <span className={`ml-2 font-semibold ${t.budget - t.actual < 0 ? "text-red-400" : "text-green-400"}`}>
+                          残 {formatCurrencySigned(t.budget - t.actual)}
+                        </span>
+                      </span>
+                    </button>
+                    {!collapsed && groupCats.map((cat) => {
+                      const edit = editMap[cat] ?? { allocation: 0, carryover: 0, enabled: false };
+                      const totalB = (edit.allocation ?? 0) + (edit.carryover ?? 0) + transferOf(cat);
+                      const actual = actualMap.get(cat) ?? 0;
+                      const remaining = totalB - actual;
+                      const pct = totalB > 0 ? Math.min((actual / totalB) * 100, 100) : 0;
+                      const over = totalB > 0 && actual > totalB;
+                      const isExpanded = expandedCategory === cat;
+                      const txList = txCache[cat];
+                      const hasData = totalB !== 0 || actual > 0;
 
-                      {/* 進捗バー */}
-                      {totalB > 0 && (
-                        <div className="h-1.5 bg-slate-700/80 rounded-full overflow-hidden">
-                          <div
-                            className={`h-full rounded-full transition-all ${
-                              over ? "bg-red-500" : pct > 80 ? "bg-amber-500" : "bg-blue-500"
-                            }`}
-                            style={{ width: `${pct}%` }}
-                          />
-                        </div>
-                      )}
-                    </div>
+                      return (
+                        <div key={cat}>
+                          <div className="px-4 py-3">
+                            <p className="font-medium text-slate-200 text-sm mb-2 leading-tight">{cat}</p>
 
-                    {/* 取引内訳（展開時） */}
-                    {isExpanded && (
-                      <div className="bg-slate-900/60 border-t border-slate-700/40 px-4 py-2">
-                        {txLoading && !txList ? (
-                          <p className="text-xs text-slate-500 py-2 text-center">読み込み中...</p>
-                        ) : txList && txList.length > 0 ? (
-                          <div className="space-y-1">
-                            {txList.map((tx) => (
-                              <div key={tx.id} className="flex items-center justify-between py-0.5">
-                                <div className="flex items-center gap-2 min-w-0">
-                                  <span className="text-slate-500 text-xs shrink-0 tabular-nums">{tx.date.slice(5)}</span>
-                                  <span className="text-slate-400 text-xs truncate">
-                                    {tx.itemName || "(項目名なし)"}
-                                  </span>
-                                </div>
-                                <span className="text-slate-300 text-xs font-medium tabular-nums shrink-0 ml-2">
-                                  {formatCurrency(tx.expenseAmount)}
-                                </span>
+                            {/* 予算 / 実績 / 残り — 3列 */}
+                            <div className="grid grid-cols-3 gap-1 mb-2">
+                              <div>
+                                <p className="text-xs text-slate-500 mb-0.5">予算</p>
+                                <p className="text-sm font-medium text-slate-300 tabular-nums">
+                                  {hasData ? formatCurrencySigned(totalB) : "—"}
+                                </p>
+                                {(edit.carryover ?? 0) !== 0 && (
+                                  <button
+                                    onClick={() => toggleLedger(cat)}
+                                    title="繰越の内訳を表示"
+                                    className={`text-xs tabular-nums hover:underline ${edit.carryover > 0 ? "text-blue-400" : "text-red-400"}`}
+                                  >
+                                    繰越 {formatCurrencySigned(edit.carryover)}
+                                    <span className="text-slate-500 ml-0.5">{ledgerCategory === cat ? "▲" : "▼"}</span>
+                                  </button>
+                                )}
+                                {transferOf(cat) !== 0 && (
+                                  <p className={`text-xs tabular-nums ${transferOf(cat) > 0 ? "text-amber-300" : "text-amber-500"}`}>
+                                    移動 {formatCurrencySigned(transferOf(cat))}
+                                  </p>
+                                )}
+                              </div>
+                              <div>
+                                <p className="text-xs text-slate-500 mb-0.5">実績</p>
+                                <button
+                                  onClick={() => toggleExpand(cat)}
+                                  disabled={actual === 0}
+                                  className={`text-sm font-medium tabular-nums flex items-center gap-0.5 transition ${
+                                    actual > 0 ? "text-slate-300 hover:text-white" : "text-slate-600 cursor-default"
+                                  }`}
+                                >
+                                  {actual > 0 ? formatCurrency(actual) : "—"}
+                                  {actual > 0 && <span className="text-slate-500 text-xs">{isExpanded ? "▲" : "▼"}</span>}
+                                </button>
+                              </div>
+                              <div>
+                                <p className="text-xs text-slate-500 mb-0.5">残り</p>
+                                <p className={`text-sm font-bold tabular-nums ${
+                                  !hasData ? "text-slate-600"
+                                  : remaining < 0 ? "text-red-400"
+                                  : remaining === 0 ? "text-slate-400"
+                                  : "text-green-400"
+                                }`}>
+                                  {hasData ? formatCurrencySigned(remaining) : "—"}
+                                </p>
                               </div>
-                            ))}
+                            </div>
+
+                            {/* 進捗バー */}
+                            {totalB > 0 && (
+                              <div className="h-1.5 bg-slate-700/80 rounded-full overflow-hidden">
+                                <div
+                                  className={`h-full rounded-full transition-all ${
+                                    over ? "bg-red-500" : pct > 80 ? "bg-amber-500" : "bg-blue-500"
+                                  }`}
+                                  style={{ width: `${pct}%` }}
+                                />
+                              </div>
+                            )}
                           </div>
-                        ) : (
-                          <p className="text-xs text-slate-600 py-1">取引明細なし</p>
-                        )}
-                      </div>
-                    )}
+
+                          {/* 繰越の内訳（展開時） */}
+                          {ledgerCategory === cat && (
+                            <CarryoverLedgerPanel ledger={ledgerCache[cat]} loading={!(cat in ledgerCache)} />
+                          )}
+
+                          {/* 取引内訳（展開時） */}
+                          {isExpanded && (
+                            <div className="bg-slate-900/60 border-t border-slate-700/40 px-4 py-2">
+                              {txLoading && !txList ? (
+                                <p className="text-xs text-slate-500 py-2 text-center">読み込み中...</p>
+                              ) : txList && txList.length > 0 ? (
+                                <div className="space-y-1">
+                                  {txList.map((tx) => (
+                                    <div key={tx.id} className="flex items-center justify-between py-0.5">
+                                      <div className="flex items-center gap-2 min-w-0">
+                                        <span className="text-slate-500 text-xs shrink-0 tabular-nums">{tx.date.slice(5)}</span>
+                                        <span className="text-slate-400 text-xs truncate">
+                                          {tx.itemName || "(項目名なし)"}
+                                        </span>
+                                      </div>
+                                      <span className="text-slate-300 text-xs font-medium tabular-nums shrink-0 ml-2">
+                                        {formatCurrency(tx.expenseAmount)}
+                                      </span>
+                                    </div>
+                                  ))}
+                                </div>
+                              ) : (
+                                <p className="text-xs text-slate-600 py-1">取引明細なし</p>
+                              )}
+                            </div>
+                          )}
+                        </div>
+                      );
+                    })}
                   </div>
                 );
               })}
@@ -415,7 +546,7 @@ export default function BudgetPage() {
                 {savingsCats.map((cat) => {
                   const edit = editMap[cat] ?? { allocation: 0, carryover: 0, enabled: false };
                   const allocation = edit.allocation ?? 0;
-                  const total = (edit.carryover ?? 0) + allocation;
+                  const total = (edit.carryover ?? 0) + allocation + transferOf(cat);
                   return (
                     <div key={cat} className="px-4 py-3">
                       <div className="flex items-center justify-between mb-1">
@@ -436,7 +567,7 @@ export default function BudgetPage() {
                   <div className="flex items-center justify-between mb-1">
                     <span className="text-slate-400 text-sm font-semibold">合計</span>
                     <span className="text-purple-200 font-bold tabular-nums text-sm">
-                      {formatCurrency(savingsCats.reduce((s, c) => s + (editMap[c]?.carryover ?? 0) + (editMap[c]?.allocation ?? 0), 0))}
+                      {formatCurrency(savingsTotal.budget)}
                     </span>
                   </div>
                   <div className="flex items-center justify-between">
@@ -469,6 +600,52 @@ export default function BudgetPage() {
               </p>
             </div>
           </div>
+
+          {/* 予算移動 */}
+          <BudgetTransferCard
+            year={year}
+            month={month}
+            categories={categories}
+            transfers={transfers}
+            onChanged={loadData}
+          />
+
+          {/* 収入の割り当て履歴 */}
+          {incomeHistory.length > 0 && (
+            <Card>
+              <CardTitle>収入の割り当て履歴</CardTitle>
+              <div className="overflow-x-auto">
+                <table className="data-table">
+                  <thead>
+                    <tr>
+                      <th className="text-left">予算の月</th>
+                      <th className="text-right">前月の収入</th>
+                      <th className="text-right">割り当て</th>
+                      <th className="text-right">割当待ち</th>
+                      <th className="text-right">割当率</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {incomeHistory.map((h) => (
+                      <tr key={`${h.year}-${h.month}`} className={h.year === year && h.month === month ? "bg-slate-800/40" : ""}>
+                        <td className="text-slate-300 text-sm">{h.year}年{h.month}月</td>
+                        <td className="text-right text-green-400 text-sm tabular-nums">{formatCurrency(h.totalIncome)}</td>
+                        <td className="text-right text-slate-300 text-sm tabular-nums">{formatCurrency(h.totalAllocated)}</td>
+                        <td className={`text-right text-sm tabular-nums ${
+                          h.toBeAllocated < 0 ? "text-red-400" : h.toBeAllocated === 0 ? "text-green-400" : "text-yellow-300"
+                        }`}>
+                          {formatCurrencySigned(h.toBeAllocated)}
+                        </td>
+                        <td className="text-right text-slate-400 text-sm tabular-nums">
+                          {h.totalIncome > 0 ? `${Math.round((h.totalAllocated / h.totalIncome) * 100)}%` : "—"}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </Card>
+          )}
         </div>
       ) : (
         /* ────────────────────────────────
@@ -502,6 +679,9 @@ export default function BudgetPage() {
                   </p>
                 )}
                 <p className="text-xs text-slate-500 mt-1 tabular-nums">配分済み {formatCurrency(totalAllocation)}</p>
+                {unallocated < 0 && (
+                  <p className="text-xs text-red-400 mt-1">収入を超えて配分しています（保存時に確認します）</p>
+                )}
               </div>
             </div>
 
@@ -547,55 +727,86 @@ export default function BudgetPage() {
                 </thead>
                 <tbody className="divide-y divide-slate-800/50">
                   {/* 支出カテゴリ */}
-                  {expenseCats.map((cat) => {
-                    const edit = editMap[cat] ?? { allocation: 0, carryover: 0, enabled: false };
-                    const totalB = (edit.allocation ?? 0) + (edit.carryover ?? 0);
-                    const actual = actualMap.get(cat) ?? 0;
-                    const remaining = totalB - actual;
-                    const prevActual = prevActuals[cat] ?? 0;
-
+                  {expenseGroups.map(({ group, categories: groupCats }) => {
+                    const t = sumOf(groupCats);
+                    const prevSum = groupCats.reduce((s, c) => s + (prevActuals[c] ?? 0), 0);
                     return (
-                      <tr key={cat} className="hover:bg-slate-800/30">
-                        <td className="px-3 py-2 font-medium text-slate-200">{cat}</td>
-                        <td className={`px-3 py-2 text-right tabular-nums font-medium text-sm ${
-                          (edit.carryover ?? 0) >= 0 ? "text-blue-400" : "text-red-400"
-                        }`}>
-                          {(edit.carryover ?? 0) !== 0 ? formatCurrencySigned(edit.carryover) : "—"}
-                        </td>
-                        <td className="px-3 py-2 text-right">
-                          <input
-                            type="text"
-                            inputMode="text"
-                            value={edit.allocation}
-                            onChange={(e) => {
-                              const v = e.target.value;
-                              if (v === "" || v === "-") update(cat, "allocation", v as unknown as number);
-                              else if (/^-?\d+$/.test(v)) update(cat, "allocation", Number(v));
-                            }}
-                            onBlur={(e) => {
-                              const n = parseInt(e.target.value, 10);
-                              update(cat, "allocation", isNaN(n) ? 0 : n);
-                            }}
-                            onFocus={(e) => e.target.select()}
-                            style={{ fontSize: "16px" }}
-                            className="w-24 bg-slate-800 text-white text-right px-2 py-1 rounded border border-slate-700 focus:border-blue-500 outline-none tabular-nums"
-                          />
-                        </td>
-                        <td className="px-3 py-2 text-right text-white font-medium tabular-nums whitespace-nowrap">
-                          {formatCurrency(totalB)}
-                        </td>
-                        <td className="px-3 py-2 text-right text-slate-500 text-xs tabular-nums whitespace-nowrap hidden sm:table-cell">
-                          {prevActual > 0 ? formatCurrency(prevActual) : "—"}
-                        </td>
-                        <td className="px-3 py-2 text-right text-slate-300 tabular-nums whitespace-nowrap">
-                          {actual > 0 ? formatCurrency(actual) : "—"}
-                        </td>
-                        <td className={`px-3 py-2 text-right font-medium tabular-nums whitespace-nowrap ${
-                          remaining < 0 ? "text-red-400" : totalB !== 0 ? "text-green-400" : "text-slate-600"
-                        }`}>
-                          {totalB !== 0 || actual > 0 ? formatCurrencySigned(remaining) : "—"}
-                        </td>
-                      </tr>
+                      <Fragment key={group}>
+                        <tr>
+                          <td className="px-3 py-1.5 bg-slate-800/40">
+                            <span className="text-xs font-semibold text-slate-500 uppercase tracking-wider">{group}</span>
+                          </td>
+                          <td className={`px-3 py-1.5 bg-slate-800/40 text-right text-xs tabular-nums ${t.carryover >= 0 ? "text-blue-300/70" : "text-red-400"}`}>
+                            {t.carryover !== 0 ? formatCurrencySigned(t.carryover) : "—"}
+                          </td>
+                          <td className="px-3 py-1.5 bg-slate-800/40 text-right text-xs text-blue-300/70 tabular-nums">
+                            {formatCurrency(t.allocation)}
+                          </td>
+                          <td className="px-3 py-1.5 bg-slate-800/40 text-right text-xs text-slate-300 tabular-nums">
+                            {formatCurrency(t.budget)}
+                          </td>
+                          <td className="px-3 py-1.5 bg-slate-800/40 text-right text-xs text-slate-500 tabular-nums hidden sm:table-cell">
+                            {prevSum > 0 ? formatCurrency(prevSum) : "—"}
+                          </td>
+                          <td className="px-3 py-1.5 bg-slate-800/40 text-right text-xs text-slate-400 tabular-nums">
+                            {t.actual > 0 ? formatCurrency(t.actual) : "—"}
+                          </td>
+                          <td className={`px-3 py-1.5 bg-slate-800/40 text-right text-xs tabular-nums ${t.budget - t.actual < 0 ? "text-red-400" : "text-emerald-300/80"}`}>
+                            {t.budget !== 0 || t.actual > 0 ? formatCurrencySigned(t.budget - t.actual) : "—"}
+                          </td>
+                        </tr>
+                        {groupCats.map((cat) => {
+                          const edit = editMap[cat] ?? { allocation: 0, carryover: 0, enabled: false };
+                          const totalB = (edit.allocation ?? 0) + (edit.carryover ?? 0) + transferOf(cat);
+                          const actual = actualMap.get(cat) ?? 0;
+                          const remaining = totalB - actual;
+                          const prevActual = prevActuals[cat] ?? 0;
+
+                          return (
+                            <tr key={cat} className="hover:bg-slate-800/30">
+                              <td className="px-3 py-2 font-medium text-slate-200">{cat}</td>
+                              <td className={`px-3 py-2 text-right tabular-nums font-medium text-sm ${
+                                (edit.carryover ?? 0) >= 0 ? "text-blue-400" : "text-red-400"
+                              }`}>
+                                {(edit.carryover ?? 0) !== 0 ? formatCurrencySigned(edit.carryover) : "—"}
+                              </td>
+                              <td className="px-3 py-2 text-right">
+                                <input
+                                  type="text"
+                                  inputMode="text"
+                                  value={edit.allocation}
+                                  onChange={(e) => {
+                                    const v = e.target.value;
+                                    if (v === "" || v === "-") update(cat, "allocation", v as unknown as number);
+                                    else if (/^-?\d+$/.test(v)) update(cat, "allocation", Number(v));
+                                  }}
+                                  onBlur={(e) => {
+                                    const n = parseInt(e.target.value, 10);
+                                    update(cat, "allocation", isNaN(n) ? 0 : n);
+                                  }}
+                                  onFocus={(e) => e.target.select()}
+                                  style={{ fontSize: "16px" }}
+                                  className="w-24 bg-slate-800 text-white text-right px-2 py-1 rounded border border-slate-700 focus:border-blue-500 outline-none tabular-nums"
+                                />
+                              </td>
+                              <td className="px-3 py-2 text-right text-white font-medium tabular-nums whitespace-nowrap">
+                                {formatCurrency(totalB)}
+                              </td>
+                              <td className="px-3 py-2 text-right text-slate-500 text-xs tabular-nums whitespace-nowrap hidden sm:table-cell">
+                                {prevActual > 0 ? formatCurrency(prevActual) : "—"}
+                              </td>
+                              <td className="px-3 py-2 text-right text-slate-300 tabular-nums whitespace-nowrap">
+                                {actual > 0 ? formatCurrency(actual) : "—"}
+                              </td>
+                              <td className={`px-3 py-2 text-right font-medium tabular-nums whitespace-nowrap ${
+                                remaining < 0 ? "text-red-400" : totalB !== 0 ? "text-green-400" : "text-slate-600"
+                              }`}>
+                                {totalB !== 0 || actual > 0 ? formatCurrencySigned(remaining) : "—"}
+                              </td>
+                            </tr>
+                          );
+                        })}
+                      </Fragment>
                     );
                   })}
 
@@ -609,7 +820,7 @@ export default function BudgetPage() {
                       </tr>
                       {savingsCats.map((cat) => {
                         const edit = editMap[cat] ?? { allocation: 0, carryover: 0, enabled: false };
-                        const totalB = (edit.allocation ?? 0) + (edit.carryover ?? 0);
+                        const totalB = (edit.allocation ?? 0) + (edit.carryover ?? 0) + transferOf(cat);
                         const actual = actualMap.get(cat) ?? 0;
                         const remaining = totalB - actual;
                         const prevActual = prevActuals[cat] ?? 0;
@@ -696,3 +907,202 @@ export default function BudgetPage() {
     </div>
   );
 }
+
+/** 繰越額の求め方（最初に予算を保存した月からの台帳）を表示する */
+function CarryoverLedgerPanel({ ledger, loading }: { ledger: CategoryLedger | null | undefined; loading: boolean }) {
+  if (loading) {
+    return (
+      <div className="bg-slate-900/60 border-t border-slate-700/40 px-4 py-2">
+        <p className="text-xs text-slate-500 py-2 text-center">読み込み中...</p>
+      </div>
+    );
+  }
+  if (!ledger) {
+    return (
+      <div className="bg-slate-900/60 border-t border-slate-700/40 px-4 py-2">
+        <p className="text-xs text-slate-600 py-1">繰越の履歴なし</p>
+      </div>
+    );
+  }
+  return (
+    <div className="bg-slate-900/60 border-t border-slate-700/40 px-4 py-2">
+      <p className="text-xs text-slate-500 mb-1.5">
+        繰越ルール: <span className="text-slate-300">{describeRolloverRule(ledger.rule)}</span>
+        <span className="ml-2">前月の残額にルールを適用した額が翌月の繰越になります</span>
+      </p>
+      <div className="overflow-x-auto">
+        <table className="w-full text-xs tabular-nums">
+          <thead>
+            <tr className="text-slate-500">
+              <th className="text-left font-normal py-0.5">月</th>
+              <th className="text-right font-normal py-0.5">前月残</th>
+              <th className="text-right font-normal py-0.5">繰越</th>
+              <th className="text-right font-normal py-0.5">月額予算</th>
+              <th className="text-right font-normal py-0.5">移動</th>
+              <th className="text-right font-normal py-0.5">予算合計</th>
+              <th className="text-right font-normal py-0.5">実績</th>
+              <th className="text-right font-normal py-0.5">残額</th>
+            </tr>
+          </thead>
+          <tbody>
+            {ledger.entries.map((e) => (
+              <tr key={`${e.year}-${e.month}`} className="border-t border-slate-800/60">
+                <td className="py-0.5 text-slate-400 whitespace-nowrap">
+                  {e.year}/{String(e.month).padStart(2, "0")}
+                  {e.source === "standard" && (
+                    <span className="ml-1 text-slate-600" title="予算を保存していないため標準予算で計算">標準</span>
+                  )}
+                </td>
+                <td className="py-0.5 text-right text-slate-500">
+                  {e.prevRemaining === null ? "—" : formatCurrencySigned(e.prevRemaining)}
+                </td>
+                <td className={`py-0.5 text-right ${e.carryover < 0 ? "text-red-400" : "text-blue-400"}`}>
+                  {formatCurrencySigned(e.carryover)}
+                </td>
+                <td className="py-0.5 text-right text-slate-300">{formatCurrency(e.allocation)}</td>
+                <td className="py-0.5 text-right text-amber-300">{e.transfers !== 0 ? formatCurrencySigned(e.transfers) : "—"}</td>
+                <td className="py-0.5 text-right text-slate-300">{formatCurrencySigned(e.totalBudget)}</td>
+                <td className="py-0.5 text-right text-slate-300">{formatCurrency(e.actual)}</td>
+                <td className={`py-0.5 text-right ${e.remaining < 0 ? "text-red-400" : "text-green-400"}`}>
+                  {formatCurrencySigned(e.remaining)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+/** 月の途中でカテゴリ間に予算を移す。履歴は削除せず、取り消しは逆向きの移動として記録する */
+function BudgetTransferCard({
+  year, month, categories, transfers, onChanged,
+}: {
+  year: number;
+  month: number;
+  categories: string[];
+  transfers: TransferRow[];
+  onChanged: () => Promise<void>;
+}) {
+  const [fromCategory, setFromCategory] = useState("");
+  const [toCategory, setToCategory] = useState("");
+  const [amount, setAmount] = useState("");
+  const [memo, setMemo] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+
+  const inputClass = "bg-slate-800 text-white text-sm rounded-lg px-2 py-1.5 border border-slate-700 focus:border-blue-500 outline-none";
+
+  async function submit(body: { fromCategory: string; toCategory: string; amount: number; memo?: string }) {
+    setSubmitting(true);
+    try {
+      const res = await fetch("/api/budgets/transfers", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ year, month, ...body }),
+      });
+      const json = await res.json();
+      if (!res.ok) {
+        alert(json.error ?? "予算の移動に失敗しました");
+        return false;
+      }
+      await onChanged();
+      return true;
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  async function transfer() {
+    const ok = await submit({ fromCategory, toCategory, amount: parseInt(amount, 10), memo });
+    if (ok) {
+      setAmount("");
+      setMemo("");
+    }
+  }
+
+  function revert(t: TransferRow) {
+    if (!confirm(`${t.toCategory} → ${t.fromCategory} に ${formatCurrency(t.amount)} を戻しますか？`)) return;
+    submit({ fromCategory: t.toCategory, toCategory: t.fromCategory, amount: t.amount, memo: `取り消し: #${t.id}` });
+  }
+
+  return (
+    <Card>
+      <CardTitle>予算の移動</CardTitle>
+      <div className="flex items-center gap-2 flex-wrap mb-3">
+        <select value={fromCategory} onChange={(e) => setFromCategory(e.target.value)} className={inputClass}>
+          <option value="">移動元</option>
+          {categories.map((c) => <option key={c} value={c}>{c}</option>)}
+        </select>
+        <span className="text-slate-500 text-sm">→</span>
+        <select value={toCategory} onChange={(e) => setToCategory(e.target.value)} className={inputClass}>
+          <option value="">移動先</option>
+          {categories.map((c) => <option key={c} value={c}>{c}</option>)}
+        </select>
+        <input
+          type="number"
+          min={1}
+          value={amount}
+          onChange={(e) => setAmount(e.target.value)}
+          placeholder="金額"
+          className={`${inputClass} w-28 text-right`}
+        />
+        <input
+          type="text"
+          value={memo}
+          onChange={(e) => setMemo(e.target.value)}
+          placeholder="メモ（任意）"
+          className={`${inputClass} flex-1 min-w-32`}
+        />
+        <button
+          onClick={transfer}
+          disabled={submitting || !fromCategory || !toCategory || !amount}
+          className="px-4 py-1.5 text-sm bg-blue-600 hover:bg-blue-500 disabled:bg-slate-700 text-white rounded-lg transition font-semibold"
+        >
+          移動
+        </button>
+      </div>
+
+      {transfers.length === 0 ? (
+        <p className="text-xs text-slate-600">この月の予算移動はありません</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="data-table">
+            <thead>
+              <tr>
+                <th className="text-left">日時</th>
+                <th className="text-left">移動元 → 移動先</th>
+                <th className="text-right">金額</th>
+                <th className="text-left">メモ</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {transfers.map((t) => (
+                <tr key={t.id}>
+                  <td className="text-slate-400 text-xs whitespace-nowrap tabular-nums">
+                    {new Date(t.createdAt).toLocaleString("ja-JP", { month: "numeric", day: "numeric", hour: "2-digit", minute: "2-digit" })}
+                  </td>
+                  <td className="text-slate-300 text-sm whitespace-nowrap">
+                    {t.fromCategory} <span className="text-slate-500">→</span> {t.toCategory}
+                  </td>
+                  <td className="text-right text-slate-200 text-sm tabular-nums">{formatCurrency(t.amount)}</td>
+                  <td className="text-slate-400 text-xs">{t.memo ?? ""}</td>
+                  <td className="text-right">
+                    <button
+                      onClick={() => revert(t)}
+                      disabled={submitting}
+                      className="text-xs text-slate-500 hover:text-slate-300 transition"
+                    >
+                      取り消す
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </Card>
+  );
+}
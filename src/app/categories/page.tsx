@@ -0,0 +1,452 @@
+"use client";
+import { useState, useEffect, useCallback } from "react";
+import { Card, CardTitle } from "@/components/ui/Card";
+import { createCategoryLookup, UNGROUPED_LABEL, type CategoryRegistry } from "@/lib/categories";
+import type { Category, CategoryGroup, CategoryAlias } from "@/lib/schema";
+
+type GroupDraft = { id?: number; name: string; sortOrder: number };
+
+type MergePreview = {
+  mode: "merge" | "rename";
+  transactions: number;
+  splits: number;
+  budgets: number;
+  budgetsMerged: number;
+  standardBudget: boolean;
+  transfers: number;
+  rules: number;
+};
+
+type CategoryDraft = {
+  id?: number;
+  name: string;
+  groupId: number | null;
+  sortOrder: number;
+  color: string;
+  active: boolean;
+};
+
+const inputClass = "bg-slate-700 text-white text-sm px-2 py-1.5 rounded-lg border border-slate-600 focus:border-blue-500 outline-none";
+
+async function postRegistry(payload: Record<string, unknown>): Promise<boolean> {
+  const res = await fetch("/api/categories/registry", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(payload),
+  });
+  const json = await res.json();
+  if (!res.ok) {
+    alert(json.error ?? "保存に失敗しました");
+    return false;
+  }
+  return true;
+}
+
+export default function CategoriesPage() {
+  const [registry, setRegistry] = useState<CategoryRegistry | null>(null);
+
+  const load = useCallback(async () => {
+    const res = await fetch("/api/categories/registry");
+    const json = await res.json();
+    setRegistry(json.data ?? null);
+  }, []);
+
+  useEffect(() => { load(); }, [load]);
+
+  return (
+    <div className="p-4 sm:p-6">
+      <div className="mb-5">
+        <h1 className="text-xl sm:text-2xl font-bold text-white">カテゴリ設定</h1>
+        <p className="text-slate-400 text-sm mt-0.5">表示順・色・グループ（固定費 / 変動費 / 特別費 など）を管理します</p>
+      </div>
+
+      {!registry ? (
+        <p className="text-slate-500">読み込み中...</p>
+      ) : (
+        <div className="space-y-5">
+          <GroupsCard groups={registry.groups} onChanged={load} />
+          <CategoriesCard registry={registry} onChanged={load} />
+          <CategoryMergeCard registry={registry} onChanged={load} />
+        </div>
+      )}
+    </div>
+  );
+}
+
+function GroupsCard({ groups, onChanged }: { groups: CategoryGroup[]; onChanged: () => Promise<void> }) {
+  const [drafts, setDrafts] = useState<Record<string, GroupDraft>>({});
+  const [saving, setSaving] = useState<string | null>(null);
+
+  const keyOf = (id?: number) => (id ? String(id) : "new");
+  const draftOf = (g?: CategoryGroup): GroupDraft =>
+    drafts[keyOf(g?.id)] ??
+    (g ? { id: g.id, name: g.name, sortOrder: g.sortOrder } : { name: "", sortOrder: groups.length + 1 });
+  const update = (g: CategoryGroup | undefined, patch: Partial<GroupDraft>) =>
+    setDrafts((d) => ({ ...d, [keyOf(g?.id)]: { ...draftOf(g), ...patch } }));
+  const clearDraft = (key: string) =>
+    setDrafts((d) => {
+      const next = { ...d };
+      delete next[key];
+      return next;
+    });
+
+  async function save(g?: CategoryGroup) {
+    const key = keyOf(g?.id);
+    setSaving(key);
+    try {
+      if (await postRegistry({ action: "save-group", ...draftOf(g) })) {
+        clearDraft(key);
+        await onChanged();
+      }
+    } finally {
+      setSaving(null);
+    }
+  }
+
+  async function remove(g: CategoryGroup) {
+    if (!confirm(`グループ「${g.name}」を削除しますか？（所属カテゴリは${UNGROUPED_LABEL}になります）`)) return;
+    if (await postRegistry({ action: "delete-group", id: g.id })) {
+      clearDraft(keyOf(g.id));
+      await onChanged();
+    }
+  }
+
+  const renderRow = (g?: CategoryGroup) => {
+    const key = keyOf(g?.id);
+    const draft = draftOf(g);
+    return (
+      <tr key={key}>
+        <td>
+          <input value={draft.name} onChange={(e) => update(g, { name: e.target.value })} placeholder="例: 固定費" className={`${inputClass} w-40`} />
+        </td>
+        <td>
+          <input type="number" value={draft.sortOrder} onChange={(e) => update(g, { sortOrder: Number(e.target.value) })} className={`${inputClass} w-16 text-right`} />
+        </td>
+        <td className="text-right whitespace-nowrap">
+          {(drafts[key] || !g) && (
+            <button
+              onClick={() => save(g)}
+              disabled={saving !== null || !draft.name.trim()}
+              className="px-3 py-1.5 text-xs bg-blue-600 hover:bg-blue-500 disabled:bg-slate-700 text-white rounded-lg transition"
+            >
+              {saving === key ? "保存中..." : g ? "保存" : "追加"}
+            </button>
+          )}
+          {g && (
+            <button onClick={() => remove(g)} className="ml-1 px-2 py-1.5 text-xs text-slate-500 hover:text-red-400 transition">
+              削除
+            </button>
+          )}
+        </td>
+      </tr>
+    );
+  };
+
+  return (
+    <Card>
+      <CardTitle>グループ</CardTitle>
+      <p className="text-xs text-slate-500 mb-3">損益計算書・予算管理・分析でグループ別に集計できます。</p>
+      <table className="data-table">
+        <thead>
+          <tr>
+            <th className="text-left">グループ名</th>
+            <th className="text-right">表示順</th>
+            <th />
+          </tr>
+        </thead>
+        <tbody>
+          {groups.map((g) => renderRow(g))}
+          {renderRow()}
+        </tbody>
+      </table>
+    </Card>
+  );
+}
+
+function CategoriesCard({ registry, onChanged }: { registry: CategoryRegistry; onChanged: () => Promise<void> }) {
+  const [drafts, setDrafts] = useState<Record<string, CategoryDraft>>({});
+  const [saving, setSaving] = useState<string | null>(null);
+  const lookup = createCategoryLookup(registry);
+
+  const keyOf = (id?: number) => (id ? String(id) : "new");
+  const maxSortOrder = registry.categories.reduce((max, c) => Math.max(max, c.sortOrder), 0);
+  const draftOf = (c?: Category): CategoryDraft =>
+    drafts[keyOf(c?.id)] ??
+    (c
+      ? { id: c.id, name: c.name, groupId: c.groupId, sortOrder: c.sortOrder, color: c.color, active: c.active }
+      : { name: "", groupId: null, sortOrder: maxSortOrder + 1, color: "#94a3b8", active: true });
+  const update = (c: Category | undefined, patch: Partial<CategoryDraft>) =>
+    setDrafts((d) => ({ ...d, [keyOf(c?.id)]: { ...draftOf(c), ...patch } }));
+
+  async function save(c?: Category) {
+    const key = keyOf(c?.id);
+    setSaving(key);
+    try {
+      // 新規追加時の色はサーバーで名前から決める
+      const { color, ...rest } = draftOf(c);
+      if (await postRegistry({ action: "save-category", ...rest, ...(c ? { color } : {}) })) {
+        setDrafts((d) => {
+          const next = { ...d };
+          delete next[key];
+          return next;
+        });
+        await onChanged();
+      }
+    } finally {
+      setSaving(null);
+    }
+  }
+
+  const renderRow = (c?: Category) => {
+    const key = keyOf(c?.id);
+    const draft = draftOf(c);
+    return (
+      <tr key={key} className={draft.active ? "" : "opacity-50"}>
+        <td>
+          {c && (
+            <input
+              type="color"
+              value={draft.color}
+              onChange={(e) => update(c, { color: e.target.value })}
+              className="w-8 h-8 bg-transparent border-0 cursor-pointer"
+            />
+          )}
+        </td>
+        <td>
+          {c ? (
+            <span className="text-slate-200">{c.name}</span>
+          ) : (
+            <input value={draft.name} onChange={(e) => update(c, { name: e.target.value })} placeholder="カテゴリ名" className={`${inputClass} w-40`} />
+          )}
+        </td>
+        <td>
+          <select
+            value={draft.groupId ?? ""}
+            onChange={(e) => update(c, { groupId: e.target.value === "" ? null : Number(e.target.value) })}
+            className={inputClass}
+          >
+            <option value="">{UNGROUPED_LABEL}</option>
+            {registry.groups.map((g) => (
+              <option key={g.id} value={g.id}>{g.name}</option>
+            ))}
+          </select>
+        </td>
+        <td>
+          <input type="number" value={draft.sortOrder} onChange={(e) => update(c, { sortOrder: Number(e.target.value) })} className={`${inputClass} w-16 text-right`} />
+        </td>
+        <td className="text-center">
+          <input type="checkbox" checked={draft.active} onChange={(e) => update(c, { active: e.target.checked })} />
+        </td>
+        <td className="text-right">
+          {(drafts[key] || !c) && (
+            <button
+              onClick={() => save(c)}
+              disabled={saving !== null || !draft.name.trim()}
+              className="px-3 py-1.5 text-xs bg-blue-600 hover:bg-blue-500 disabled:bg-slate-700 text-white rounded-lg transition"
+            >
+              {saving === key ? "保存中..." : c ? "保存" : "追加"}
+            </button>
+          )}
+        </td>
+      </tr>
+    );
+  };
+
+  const byName = new Map(registry.categories.map((c) => [c.name, c]));
+  const grouped = lookup.group(registry.categories.map((c) => c.name));
+
+  return (
+    <Card>
+      <CardTitle>カテゴリ</CardTitle>
+      <p className="text-xs text-slate-500 mb-3">
+        取引・予算に出てくるカテゴリは自動で登録されます。使わなくなったカテゴリは「有効」を外すと選択肢から外れます（過去の集計には残ります）。
+      </p>
+      <div className="overflow-x-auto">
+        <table className="data-table">
+          <thead>
+            <tr>
+              <th>色</th>
+              <th className="text-left">カテゴリ</th>
+              <th className="text-left">グループ</th>
+              <th className="text-right">表示順</th>
+              <th className="text-center">有効</th>
+              <th />
+            </tr>
+          </thead>
+          {grouped.map(({ group, categories }) => (
+            <tbody key={group}>
+              <tr>
+                <td colSpan={6} className="bg-slate-800/40">
+                  <span className="text-xs font-semibold text-slate-500 uppercase tracking-wider">{group}</span>
+                </td>
+              </tr>
+              {categories.map((name) => renderRow(byName.get(name)))}
+            </tbody>
+          ))}
+          <tbody>{renderRow()}</tbody>
+        </table>
+      </div>
+    </Card>
+  );
+}
+
+function CategoryMergeCard({ registry, onChanged }: { registry: CategoryRegistry; onChanged: () => Promise<void> }) {
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [preview, setPreview] = useState<MergePreview | null>(null);
+  const [running, setRunning] = useState(false);
+  const [aliases, setAliases] = useState<CategoryAlias[]>([]);
+
+  const loadAliases = useCallback(async () => {
+    const res = await fetch("/api/categories/aliases");
+    const json = await res.json();
+    setAliases(json.data ?? []);
+  }, []);
+
+  useEffect(() => { loadAliases(); }, [loadAliases]);
+
+  async function check() {
+    setRunning(true);
+    try {
+      const params = new URLSearchParams({ from, to: to.trim() });
+      const res = await fetch(`/api/categories/merge?${params}`);
+      const json = await res.json();
+      if (!res.ok) {
+        alert(json.error ?? "確認に失敗しました");
+        return;
+      }
+      setPreview(json.data);
+    } finally {
+      setRunning(false);
+    }
+  }
+
+  async function run() {
+    if (!preview) return;
+    const verb = preview.mode === "merge" ? "統合" : "名前を変更";
+    if (!confirm(`「${from}」を「${to.trim()}」に${verb}します。よろしいですか？`)) return;
+    setRunning(true);
+    try {
+      const res = await fetch("/api/categories/merge", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ from, to: to.trim() }),
+      });
+      const json = await res.json();
+      if (!res.ok) {
+        alert(json.error ?? "変更に失敗しました");
+        return;
+      }
+      setFrom("");
+      setTo("");
+      setPreview(null);
+      await Promise.all([onChanged(), loadAliases()]);
+    } finally {
+      setRunning(false);
+    }
+  }
+
+  async function removeAlias(alias: string) {
+    if (!confirm(`別名「${alias}」を削除しますか？（以後のインポートで読み替えなくなります）`)) return;
+    const res = await fetch(`/api/categories/aliases?alias=${encodeURIComponent(alias)}`, { method: "DELETE" });
+    if (!res.ok) {
+      alert("削除に失敗しました");
+      return;
+    }
+    await loadAliases();
+  }
+
+  const names = registry.categories.map((c) => c.name);
+
+  return (
+    <Card>
+      <CardTitle>名前の変更・統合</CardTitle>
+      <p className="text-xs text-slate-500 mb-3">
+        取引・分割明細・予算・標準予算・分類ルールのカテゴリ名をまとめて書き換えます。変更後の名前が既にあれば統合します（同じ月の予算は合算）。
+        旧名は別名として残り、以後のインポートでは新しい名前で取り込まれます。
+      </p>
+      <div className="flex items-center gap-2 flex-wrap mb-3">
+        <select value={from} onChange={(e) => { setFrom(e.target.value); setPreview(null); }} className={inputClass}>
+          <option value="">変更前のカテゴリ</option>
+          {names.map((name) => (
+            <option key={name} value={name}>{name}</option>
+          ))}
+        </select>
+        <span className="text-slate-500">→</span>
+        <input
+          value={to}
+          onChange={(e) => { setTo(e.target.value); setPreview(null); }}
+          list="category-names"
+          placeholder="変更後のカテゴリ名"
+          className={`${inputClass} w-48`}
+        />
+        <datalist id="category-names">
+          {names.map((name) => (
+            <option key={name} value={name} />
+          ))}
+        </datalist>
+        <button
+          onClick={check}
+          disabled={running || !from || !to.trim()}
+          className="px-3 py-1.5 text-xs bg-slate-700 hover:bg-slate-600 disabled:opacity-50 text-slate-300 rounded-lg transition"
+        >
+          影響を確認
+        </button>
+      </div>
+
+      {preview && (
+        <div className="bg-slate-800/50 rounded-lg border border-slate-700 p-3 mb-3">
+          <p className="text-sm text-slate-200 mb-2">
+            {preview.mode === "merge" ? "既存のカテゴリに統合します" : "カテゴリの名前を変更します"}
+          </p>
+          <ul className="text-xs text-slate-400 space-y-0.5 mb-3">
+            <li>取引: {preview.transactions.toLocaleString()}件</li>
+            <li>分割明細: {preview.splits.toLocaleString()}件</li>
+            <li>
+              予算: {preview.budgets.toLocaleString()}か月分
+              {preview.budgetsMerged > 0 && `（うち ${preview.budgetsMerged}か月は変更後の予算に合算）`}
+            </li>
+            <li>標準予算: {preview.standardBudget ? "あり" : "なし"}</li>
+            <li>予算移動: {preview.transfers.toLocaleString()}件</li>
+            <li>分類ルール: {preview.rules.toLocaleString()}件</li>
+          </ul>
+          <button
+            onClick={run}
+            disabled={running}
+            className="px-3 py-1.5 text-xs bg-blue-600 hover:bg-blue-500 disabled:bg-slate-700 text-white rounded-lg transition"
+          >
+            {running ? "実行中..." : "実行"}
+          </button>
+        </div>
+      )}
+
+      {aliases.length > 0 && (
+        <>
+          <p className="text-xs text-slate-500 mb-1">別名（インポート時に読み替える旧カテゴリ名）</p>
+          <table className="data-table">
+            <thead>
+              <tr>
+                <th className="text-left">旧カテゴリ名</th>
+                <th className="text-left">読み替え先</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {aliases.map((a) => (
+                <tr key={a.alias}>
+                  <td className="text-slate-400">{a.alias}</td>
+                  <td className="text-slate-200">{a.categoryName}</td>
+                  <td className="text-right">
+                    <button onClick={() => removeAlias(a.alias)} className="px-2 py-1 text-xs text-slate-500 hover:text-red-400 transition">
+                      削除
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      )}
+    </Card>
+  );
+}
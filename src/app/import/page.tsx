@@ -1,12 +1,74 @@
 "use client";
-import { useState, useRef } from "react";
+import { useState, useRef, useEffect, useCallback } from "react";
+import Link from "next/link";
 import { Card, CardTitle } from "@/components/ui/Card";
+import { formatCurrency } from "@/lib/utils";
+import type { DiffTransaction, MonthDiff, SnapshotDiff } from "@/lib/import-diff";
+import type { ImportBatch } from "@/lib/schema";
+import { CSV_FORMATS } from "@/lib/csv-formats";
+import { NOTIFICATIONS_CHANGED_EVENT } from "@/lib/notifications";
+import { CSV_ENCODING_LABELS, type CsvEncoding } from "@/lib/encoding";
+import {
+  IMPORT_SETTINGS_FORMATS,
+  type ImportSettingsFormat,
+  type ImportSettingsValues,
+} from "@/lib/import-settings";
+import type { IssueSeverity, RowIssue } from "@/lib/csv-parser";
+
+/** 行単位の検証結果（重要度ごとに件数 + 先頭の一部） */
+type IssueSummary = Record<
+  IssueSeverity,
+  { count: number; rows: (RowIssue & { file: "combined" | "asset" })[] }
+>;
+
+type ImportPreview = {
+  months: MonthDiff[];
+  snapshots: SnapshotDiff[];
+  totals: {
+    parsed: number;
+    added: number;
+    removed: number;
+    changed: number;
+    unchanged: number;
+    snapshots: number;
+    snapshotsOverwritten: number;
+  };
+  format: {
+    id: string;
+    label: string;
+    assetScope: { assetName: string; fromDate: string; toDate: string } | null;
+  } | null;
+  encodings: { combined: CsvEncoding | null; asset: CsvEncoding | null };
+  previousImport: { id: number; createdAt: string } | null;
+  issues: IssueSummary;
+  range: {
+    fromYear: number | null;
+    assetFromYear: number | null;
+    transferFromYear: number | null;
+    toYear: number | null;
+  };
+};
+
+type HistoryItem = Omit<ImportBatch, "createdAt" | "revertedAt"> & {
+  createdAt: string;
+  revertedAt: string | null;
+  revertable: boolean;
+};
 
 type ImportResult = {
   success: boolean;
   transactions?: { inserted: number; skipped: number };
   assets?: { inserted: number };
+  alerts?: number;
   error?: string;
+  phase?: "parse" | "prepare" | "commit";
+  issues?: IssueSummary;
+};
+
+const PHASE_LABELS: Record<NonNullable<ImportResult["phase"]>, string> = {
+  parse: "CSV の読み込み",
+  prepare: "書き込み内容の準備",
+  commit: "データベースへの反映",
 };
 
 export default function ImportPage() {
@@ -16,8 +78,69 @@ export default function ImportPage() {
   const [result, setResult] = useState<ImportResult | null>(null);
   const [combinedFile, setCombinedFile] = useState<File | null>(null);
   const [assetFile, setAssetFile] = useState<File | null>(null);
+  const [format, setFormat] = useState("auto");
+  const [assetName, setAssetName] = useState("");
+  const [encoding, setEncoding] = useState("auto");
+  const [rangeFrom, setRangeFrom] = useState("");
+  const [rangeTo, setRangeTo] = useState("");
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [expandedMonth, setExpandedMonth] = useState<string | null>(null);
+  const [history, setHistory] = useState<HistoryItem[]>([]);
+  const [reverting, setReverting] = useState<number | null>(null);
 
-  async function handleImport() {
+  const loadHistory = useCallback(async () => {
+    try {
+      const res = await fetch("/api/import/history");
+      const json = await res.json();
+      setHistory(json.data ?? []);
+    } catch { /* ignore */ }
+  }, []);
+
+  useEffect(() => { loadHistory(); }, [loadHistory]);
+
+  async function handleRevert(item: HistoryItem) {
+    if (!confirm(`${formatDateTime(item.createdAt)} のインポート（${item.fileNames}）を取り消して、取り込み前の状態に戻しますか？`)) return;
+    setReverting(item.id);
+    try {
+      const res = await fetch("/api/import/history", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ batchId: item.id }),
+      });
+      const json = await res.json();
+      if (!res.ok) alert(json.error ?? "取り消しに失敗しました");
+      await loadHistory();
+    } finally {
+      setReverting(null);
+    }
+  }
+
+  function buildFormData(dryRun: boolean) {
+    const formData = new FormData();
+    if (combinedFile) {
+      formData.append("combined", combinedFile);
+      formData.append("format", format);
+      if (assetName.trim()) formData.append("assetName", assetName.trim());
+    }
+    if (assetFile) formData.append("asset", assetFile);
+    formData.append("encoding", encoding);
+    if (rangeFrom) formData.append("fromYear", rangeFrom);
+    if (rangeTo) formData.append("toYear", rangeTo);
+    if (dryRun) formData.append("dryRun", "true");
+    return formData;
+  }
+
+  // ファイルを選び直したらプレビューは無効
+  function selectCombined(file: File | null) {
+    setCombinedFile(file);
+    setPreview(null);
+  }
+  function selectAsset(file: File | null) {
+    setAssetFile(file);
+    setPreview(null);
+  }
+
+  async function handlePreview() {
     if (!combinedFile && !assetFile) {
       alert("少なくとも1つのファイルを選択してください");
       return;
@@ -25,15 +148,35 @@ export default function ImportPage() {
 
     setLoading(true);
     setResult(null);
+    setPreview(null);
+    setExpandedMonth(null);
 
-    const formData = new FormData();
-    if (combinedFile) formData.append("combined", combinedFile);
-    if (assetFile) formData.append("asset", assetFile);
+    try {
+      const res = await fetch("/api/import", { method: "POST", body: buildFormData(true) });
+      const data = await res.json();
+      if (data.success) setPreview(data.preview);
+      else setResult(data);
+    } catch {
+      setResult({ success: false, error: "通信エラーが発生しました" });
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function handleImport() {
+    setLoading(true);
+    setResult(null);
 
     try {
-      const res = await fetch("/api/import", { method: "POST", body: formData });
+      const res = await fetch("/api/import", { method: "POST", body: buildFormData(false) });
       const data = await res.json();
       setResult(data);
+      if (data.success) {
+        setPreview(null);
+        // 予算アラートが増えていればサイドバーのバッジを更新する
+        if ((data.alerts ?? 0) > 0) window.dispatchEvent(new Event(NOTIFICATIONS_CHANGED_EVENT));
+        await loadHistory();
+      }
     } catch {
       setResult({ success: false, error: "通信エラーが発生しました" });
     } finally {
@@ -46,22 +189,69 @@ export default function ImportPage() {
       <h1 className="text-xl sm:text-2xl font-bold text-white mb-1">CSV インポート</h1>
       <p className="text-slate-400 text-sm mb-6">
         マネーフォワード等のアプリから出力した CSV をアップロードしてください。<br />
-        2019年以降のデータが取り込まれます。同じ月のCSVを再インポートしても重複しません（上書き）。
+        インポート設定の開始年以降のデータが取り込まれます。同じ月のCSVを再インポートしても重複しません（上書き）。<br />
+        取り込みは一括で反映され、途中で失敗した場合は何も変更されません。
       </p>
 
+      <div className="flex items-center gap-2 mb-4">
+        <span className="text-sm text-slate-400">文字コード</span>
+        <select
+          value={encoding}
+          onChange={(e) => { setEncoding(e.target.value); setPreview(null); }}
+          className="bg-slate-800 text-white text-sm rounded-lg px-3 py-2 border border-slate-700"
+        >
+          <option value="auto">自動判定</option>
+          {Object.entries(CSV_ENCODING_LABELS).map(([value, label]) => (
+            <option key={value} value={value}>{label}</option>
+          ))}
+        </select>
+      </div>
+
+      {/* 期間を指定すると、その期間だけを取り込み直す（投資振替の抽出もこの期間でやり直す） */}
+      <div className="flex items-center gap-2 mb-4">
+        <span className="text-sm text-slate-400">取り込み期間</span>
+        <YearInput value={rangeFrom} onChange={(v) => { setRangeFrom(v); setPreview(null); }} placeholder="設定どおり" />
+        <span className="text-sm text-slate-500">〜</span>
+        <YearInput value={rangeTo} onChange={(v) => { setRangeTo(v); setPreview(null); }} placeholder="最新" />
+        <span className="text-xs text-slate-500">年（任意）</span>
+      </div>
+
       <div className="space-y-4 mb-6">
         {/* 収支合算レポート */}
         <Card>
-          <CardTitle>収支合算レポート.csv（必須）</CardTitle>
+          <CardTitle>取引 CSV（収支合算レポート.csv など）</CardTitle>
           <p className="text-xs text-slate-500 mb-3">
-            全取引が含まれる主データファイルです。まずこちらをインポートしてください。
+            全取引が含まれる収支合算レポートが主データファイルです。<br />
+            銀行の入出金明細・クレジットカードの利用明細も取り込めます（資産名が必要です。その口座・カードの、明細の期間にある取引だけを置き換えます）。
           </p>
+          <div className="flex flex-wrap gap-2 mb-3">
+            <select
+              value={format}
+              onChange={(e) => { setFormat(e.target.value); setPreview(null); }}
+              className="bg-slate-800 text-white text-sm rounded-lg px-3 py-2 border border-slate-700"
+            >
+              <option value="auto">形式を自動判別</option>
+              {CSV_FORMATS.map((f) => (
+                <option key={f.id} value={f.id}>{f.label}</option>
+              ))}
+            </select>
+            {format !== "combined" && (
+              <input
+                type="text"
+                value={assetName}
+                onChange={(e) => { setAssetName(e.target.value); setPreview(null); }}
+                placeholder="資産名（銀行・カード明細は必須）"
+                style={{ fontSize: "16px" }}
+                className="bg-slate-800 text-white text-sm rounded-lg px-3 py-2 border border-slate-700 outline-none focus:border-blue-500 min-w-48"
+              />
+            )}
+          </div>
           <input
             ref={combinedRef}
             type="file"
             accept=".csv"
             className="hidden"
-            onChange={(e) => setCombinedFile(e.target.files?.[0] ?? null)}
+            onChange={(e) => selectCombined(e.target.files?.[0] ?? null)}
           />
           <button
             onClick={() => combinedRef.current?.click()}
@@ -85,7 +275,7 @@ export default function ImportPage() {
             type="file"
             accept=".csv"
             className="hidden"
-            onChange={(e) => setAssetFile(e.target.files?.[0] ?? null)}
+            onChange={(e) => selectAsset(e.target.files?.[0] ?? null)}
           />
           <button
             onClick={() => assetRef.current?.click()}
@@ -99,13 +289,130 @@ export default function ImportPage() {
         </Card>
       </div>
 
-      <button
-        onClick={handleImport}
-        disabled={loading || (!combinedFile && !assetFile)}
-        className="w-full py-3 bg-blue-600 hover:bg-blue-500 disabled:bg-slate-700 disabled:text-slate-500 text-white font-semibold rounded-xl transition text-sm"
-      >
-        {loading ? "インポート中..." : "インポート実行"}
-      </button>
+      {!preview ? (
+        <button
+          onClick={handlePreview}
+          disabled={loading || (!combinedFile && !assetFile)}
+          className="w-full py-3 bg-blue-600 hover:bg-blue-500 disabled:bg-slate-700 disabled:text-slate-500 text-white font-semibold rounded-xl transition text-sm"
+        >
+          {loading ? "差分を確認中..." : "差分をプレビュー"}
+        </button>
+      ) : (
+        <Card>
+          <CardTitle>インポート内容の確認</CardTitle>
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 mb-4">
+            <PreviewStat label="追加" value={preview.totals.added} color="text-green-400" />
+            <PreviewStat label="削除" value={preview.totals.removed} color="text-red-400" />
+            <PreviewStat label="金額変更" value={preview.totals.changed} color="text-amber-400" />
+            <PreviewStat label="変更なし" value={preview.totals.unchanged} color="text-slate-400" />
+          </div>
+
+          {preview.format && (
+            <p className="text-xs text-slate-400 mb-1">
+              形式: {preview.format.label}
+              {preview.format.assetScope &&
+                `（資産「${preview.format.assetScope.assetName}」の ${preview.format.assetScope.fromDate} 〜 ${preview.format.assetScope.toDate} の取引のみ置き換え）`}
+            </p>
+          )}
+          <p className="text-xs text-slate-400 mb-1">
+            取り込み期間: {formatRange(preview.range)}
+          </p>
+          <p className="text-xs text-slate-400 mb-3">
+            文字コード:{" "}
+            {[preview.encodings.combined, preview.encodings.asset]
+              .filter((e): e is CsvEncoding => e !== null)
+              .map((e) => CSV_ENCODING_LABELS[e])
+              .join(" / ")}
+            {encoding === "auto" && "（自動判定）"}
+          </p>
+
+          {preview.previousImport && (
+            <p className="text-xs text-amber-400 mb-3">
+              ⚠ 同じ内容のファイルを {formatDateTime(preview.previousImport.createdAt)} に取り込み済みです。
+            </p>
+          )}
+
+          <IssueList issues={preview.issues} />
+
+          {preview.totals.removed > 0 && (
+            <p className="text-xs text-red-400 mb-3">
+              ⚠ CSV に含まれない既存取引が {preview.totals.removed.toLocaleString()} 件削除されます。
+              部分的なエクスポートでないか確認してください。
+            </p>
+          )}
+
+          {preview.months.length > 0 && (
+            <div className="overflow-x-auto mb-4">
+              <table className="data-table">
+                <thead>
+                  <tr>
+                    <th>年月</th>
+                    <th className="text-right">追加</th>
+                    <th className="text-right">削除</th>
+                    <th className="text-right">金額変更</th>
+                    <th className="text-right">変更なし</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {preview.months.map((m) => {
+                    const key = `${m.year}-${m.month}`;
+                    const hasChanges = m.addedCount + m.removedCount + m.changedCount > 0;
+                    return (
+                      <MonthDiffRow
+                        key={key}
+                        diff={m}
+                        expanded={expandedMonth === key}
+                        onToggle={() => hasChanges && setExpandedMonth(expandedMonth === key ? null : key)}
+                      />
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {assetFile && (
+            <div className="mb-4">
+              <p className="text-sm text-slate-300 mb-2">
+                資産スナップショット: {preview.totals.snapshots.toLocaleString()} 件（うち上書き{" "}
+                <span className={preview.totals.snapshotsOverwritten > 0 ? "text-amber-400" : ""}>
+                  {preview.totals.snapshotsOverwritten.toLocaleString()}
+                </span>{" "}
+                件）
+              </p>
+              {preview.snapshots.some((s) => s.before) && (
+                <div className="max-h-48 overflow-y-auto space-y-0.5">
+                  {preview.snapshots.filter((s) => s.before).map((s) => (
+                    <div key={`${s.assetName}-${s.year}-${s.month}`} className="flex justify-between text-xs">
+                      <span className="text-slate-400">{s.year}/{s.month} {s.assetName}</span>
+                      <span className="tabular-nums text-slate-300">
+                        {formatCurrency(s.before!.closingBalance)} → {formatCurrency(s.after.closingBalance)}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
+          <div className="flex gap-2">
+            <button
+              onClick={() => setPreview(null)}
+              disabled={loading}
+              className="px-4 py-3 bg-slate-700 hover:bg-slate-600 text-slate-300 rounded-xl transition text-sm"
+            >
+              キャンセル
+            </button>
+            <button
+              onClick={handleImport}
+              disabled={loading}
+              className="flex-1 py-3 bg-blue-600 hover:bg-blue-500 disabled:bg-slate-700 disabled:text-slate-500 text-white font-semibold rounded-xl transition text-sm"
+            >
+              {loading ? "インポート中..." : "この内容でインポート"}
+            </button>
+          </div>
+        </Card>
+      )}
 
       {result && (
         <Card className="mt-6">
@@ -113,31 +420,324 @@ export default function ImportPage() {
             <div className="text-green-400">
               <p className="font-semibold mb-2">✓ インポート完了</p>
               {result.transactions && (
-                <p className="text-sm">取引: {result.transactions.inserted.toLocaleString()} 件取り込み</p>
+                <p className="text-sm">
+                  取引: {result.transactions.inserted.toLocaleString()} 件取り込み
+                  {result.transactions.skipped > 0 && (
+                    <span className="text-amber-400">（{result.transactions.skipped.toLocaleString()} 行は取り込まれませんでした）</span>
+                  )}
+                </p>
               )}
               {result.assets && (
                 <p className="text-sm">資産スナップショット: {result.assets.inserted.toLocaleString()} 件取り込み</p>
               )}
+              {(result.alerts ?? 0) > 0 && (
+                <p className="text-sm text-amber-400">
+                  予算アラート: {result.alerts} 件（
+                  <Link href="/notifications" className="underline hover:text-amber-300">通知を見る</Link>
+                  ）
+                </p>
+              )}
             </div>
           ) : (
             <div className="text-red-400">
               <p className="font-semibold mb-1">エラー</p>
               <p className="text-sm">{result.error}</p>
+              {result.phase && (
+                <p className="text-xs text-slate-400 mt-2">
+                  「{PHASE_LABELS[result.phase]}」の段階で失敗しました。データベースは変更されていません。
+                </p>
+              )}
+              {result.issues && (
+                <div className="mt-3">
+                  <IssueList issues={result.issues} />
+                </div>
+              )}
             </div>
           )}
         </Card>
       )}
 
+      {history.length > 0 && (
+        <Card className="mt-6">
+          <CardTitle>インポート履歴</CardTitle>
+          <div className="divide-y divide-slate-800/60">
+            {history.map((item) => (
+              <div key={item.id} className="py-2.5 flex items-center justify-between gap-3">
+                <div className="min-w-0">
+                  <p className={`text-sm truncate ${item.revertedAt ? "text-slate-600 line-through" : "text-slate-300"}`}>
+                    {item.fileNames}
+                  </p>
+                  <p className="text-xs text-slate-500 tabular-nums">
+                    {formatDateTime(item.createdAt)}
+                    {" · "}取引 {item.transactionCount.toLocaleString()} 件
+                    {item.snapshotCount > 0 && ` · 資産 ${item.snapshotCount.toLocaleString()} 件`}
+                    {item.yearMonths.length > 0 && ` · ${formatMonthRange(item.yearMonths)}`}
+                  </p>
+                </div>
+                {item.revertedAt ? (
+                  <span className="text-xs text-slate-600 shrink-0">取り消し済み</span>
+                ) : item.revertable ? (
+                  <button
+                    onClick={() => handleRevert(item)}
+                    disabled={reverting !== null || loading}
+                    className="px-3 py-1.5 text-xs bg-slate-700 hover:bg-red-900/60 disabled:opacity-40 text-slate-300 rounded-lg transition shrink-0"
+                  >
+                    {reverting === item.id ? "取り消し中..." : "取り消す"}
+                  </button>
+                ) : null}
+              </div>
+            ))}
+          </div>
+        </Card>
+      )}
+
+      <ImportSettingsCard />
+
       <Card className="mt-6">
         <CardTitle>インポート手順</CardTitle>
         <ol className="text-sm text-slate-400 space-y-1.5 list-decimal list-inside">
           <li>スマホアプリでレポートフォルダを出力する（月次 or 全期間）</li>
-          <li>PC に転送して、このページで「収支合算レポート.csv」を選択</li>
+          <li>PC に転送して、このページで「収支合算レポート.csv」を選択（銀行・カードの明細 CSV も可）</li>
           <li>資産残高も更新したい場合は「資産別レポート.csv」も選択</li>
-          <li>「インポート実行」ボタンを押す</li>
+          <li>「差分をプレビュー」で追加・削除・金額変更される取引を確認する</li>
+          <li>問題なければ「この内容でインポート」ボタンを押す</li>
           <li>完了後、ダッシュボードで最新データが反映されます</li>
         </ol>
       </Card>
     </div>
   );
 }
+
+/** プレビューの取り込み期間 → "取引 2019年〜 / 資産 2019年〜（投資振替 2026年〜）" */
+function formatRange(range: ImportPreview["range"]) {
+  const until = range.toYear ? `${range.toYear}年` : "";
+  const parts: string[] = [];
+  if (range.fromYear !== null) parts.push(`取引 ${range.fromYear}年〜${until}`);
+  if (range.assetFromYear !== null) {
+    parts.push(`資産 ${range.assetFromYear}年〜${until}（投資振替 ${range.transferFromYear}年〜）`);
+  }
+  return parts.join(" / ");
+}
+
+function YearInput({ value, onChange, placeholder }: { value: string; onChange: (v: string) => void; placeholder?: string }) {
+  return (
+    <input
+      type="number"
+      inputMode="numeric"
+      min={1900}
+      max={2100}
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      placeholder={placeholder}
+      style={{ fontSize: "16px" }}
+      className="w-28 bg-slate-800 text-white text-sm rounded-lg px-3 py-2 border border-slate-700 outline-none focus:border-blue-500 tabular-nums"
+    />
+  );
+}
+
+/** 形式ごとのインポート設定（取り込み開始年・投資振替の開始年） */
+function ImportSettingsCard() {
+  const [settings, setSettings] = useState<Record<ImportSettingsFormat, ImportSettingsValues> | null>(null);
+  const [drafts, setDrafts] = useState<Partial<Record<ImportSettingsFormat, { fromYear: string; transferFromYear: string }>>>({});
+  const [saving, setSaving] = useState<ImportSettingsFormat | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const res = await fetch("/api/import/settings");
+      const json = await res.json();
+      if (json.data) setSettings(json.data);
+    } catch { /* ignore */ }
+  }, []);
+
+  useEffect(() => { load(); }, [load]);
+
+  if (!settings) return null;
+
+  const draftOf = (id: ImportSettingsFormat) =>
+    drafts[id] ?? {
+      fromYear: String(settings[id].fromYear),
+      transferFromYear: settings[id].transferFromYear !== null ? String(settings[id].transferFromYear) : "",
+    };
+
+  async function save(id: ImportSettingsFormat) {
+    const draft = draftOf(id);
+    setSaving(id);
+    try {
+      const res = await fetch("/api/import/settings", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          format: id,
+          fromYear: Number(draft.fromYear),
+          transferFromYear: id === "asset" ? Number(draft.transferFromYear) : null,
+        }),
+      });
+      const json = await res.json();
+      if (!res.ok) {
+        alert(json.error ?? "保存に失敗しました");
+        return;
+      }
+      setDrafts((d) => {
+        const next = { ...d };
+        delete next[id];
+        return next;
+      });
+      await load();
+    } finally {
+      setSaving(null);
+    }
+  }
+
+  return (
+    <Card className="mt-6">
+      <CardTitle>インポート設定</CardTitle>
+      <p className="text-xs text-slate-500 mb-3">
+        形式ごとに、取り込む最初の年を設定します。資産別レポートからは、設定した年以降の投資振替（投資管理に登録した口座への入金）を補います。
+      </p>
+      <div className="divide-y divide-slate-800/60">
+        {IMPORT_SETTINGS_FORMATS.map(({ id, label }) => {
+          const draft = draftOf(id);
+          return (
+            <div key={id} className="py-2.5 flex flex-wrap items-center gap-2">
+              <span className="text-sm text-slate-300 w-44 shrink-0">{label}</span>
+              <YearInput
+                value={draft.fromYear}
+                onChange={(v) => setDrafts((d) => ({ ...d, [id]: { ...draft, fromYear: v } }))}
+              />
+              <span className="text-xs text-slate-500">年〜</span>
+              {id === "asset" && (
+                <>
+                  <span className="text-xs text-slate-500 ml-2">投資振替</span>
+                  <YearInput
+                    value={draft.transferFromYear}
+                    onChange={(v) => setDrafts((d) => ({ ...d, [id]: { ...draft, transferFromYear: v } }))}
+                  />
+                  <span className="text-xs text-slate-500">年〜</span>
+                </>
+              )}
+              {drafts[id] && (
+                <button
+                  onClick={() => save(id)}
+                  disabled={saving !== null}
+                  className="ml-auto px-3 py-1.5 text-xs bg-blue-600 hover:bg-blue-500 disabled:opacity-40 text-white rounded-lg transition"
+                >
+                  {saving === id ? "保存中..." : "保存"}
+                </button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </Card>
+  );
+}
+
+function formatDateTime(iso: string) {
+  return new Date(iso).toLocaleString("ja-JP", { dateStyle: "short", timeStyle: "short" });
+}
+
+/** ['2026-01', '2026-02', '2026-03'] → "2026-01〜2026-03（3ヶ月）" */
+function formatMonthRange(yearMonths: string[]) {
+  if (yearMonths.length === 1) return yearMonths[0];
+  return `${yearMonths[0]}〜${yearMonths[yearMonths.length - 1]}（${yearMonths.length}ヶ月）`;
+}
+
+function PreviewStat({ label, value, color }: { label: string; value: number; color: string }) {
+  return (
+    <div className="bg-slate-800/50 rounded-xl p-3 border border-slate-700/50 text-center">
+      <p className="text-slate-500 text-xs mb-1">{label}</p>
+      <p className={`font-bold text-sm tabular-nums ${color}`}>{value.toLocaleString()}</p>
+    </div>
+  );
+}
+
+const ISSUE_GROUPS: { severity: IssueSeverity; label: string; color: string }[] = [
+  { severity: "error", label: "エラー（取り込まれない行）", color: "text-red-400" },
+  { severity: "warning", label: "警告（取り込まれるが確認が必要な行）", color: "text-amber-400" },
+];
+
+const ISSUE_FILE_LABELS = { combined: "取引", asset: "資産" } as const;
+
+/** 行単位の検証結果を重要度ごとに一覧表示（行番号 + 理由） */
+function IssueList({ issues }: { issues: IssueSummary }) {
+  const groups = ISSUE_GROUPS.filter((g) => issues[g.severity].count > 0);
+  if (groups.length === 0) return null;
+
+  return (
+    <div className="mb-3 space-y-1">
+      {groups.map(({ severity, label, color }) => {
+        const { count, rows } = issues[severity];
+        return (
+          <details key={severity}>
+            <summary className={`text-xs cursor-pointer ${color}`}>
+              ⚠ {label}: {count.toLocaleString()} 件
+            </summary>
+            <div className="mt-1 max-h-48 overflow-y-auto space-y-0.5">
+              {rows.map((r, i) => (
+                <div key={`${r.file}-${r.line}-${i}`} className="flex gap-2 text-xs">
+                  <span className="text-slate-500 tabular-nums shrink-0 w-20 text-right">
+                    {ISSUE_FILE_LABELS[r.file]} {r.line}行目
+                  </span>
+                  <span className={`shrink-0 ${color}`}>{r.reason}</span>
+                  <span className="text-slate-500 truncate" title={r.raw}>{r.raw}</span>
+                </div>
+              ))}
+              {count > rows.length && <p className="text-xs text-slate-500 pt-1">…ほか省略</p>}
+            </div>
+          </details>
+        );
+      })}
+    </div>
+  );
+}
+
+function MonthDiffRow({ diff, expanded, onToggle }: { diff: MonthDiff; expanded: boolean; onToggle: () => void }) {
+  const txLabel = (t: DiffTransaction) =>
+    `${t.date.slice(5)} ${t.category} ${t.itemName || "(項目名なし)"}`;
+  const txAmount = (t: DiffTransaction) =>
+    t.incomeAmount > 0 ? `+${formatCurrency(t.incomeAmount)}` : formatCurrency(t.expenseAmount);
+
+  return (
+    <>
+      <tr onClick={onToggle} className="cursor-pointer hover:bg-slate-800/30">
+        <td className="text-slate-300 text-sm whitespace-nowrap">{diff.year}年{diff.month}月</td>
+        <td className="text-right text-green-400 text-sm tabular-nums">{diff.addedCount || "—"}</td>
+        <td className={`text-right text-sm tabular-nums ${diff.removedCount > 0 ? "text-red-400 font-semibold" : "text-slate-600"}`}>
+          {diff.removedCount || "—"}
+        </td>
+        <td className="text-right text-amber-400 text-sm tabular-nums">{diff.changedCount || "—"}</td>
+        <td className="text-right text-slate-500 text-sm tabular-nums">{diff.unchangedCount}</td>
+      </tr>
+      {expanded && (
+        <tr>
+          <td colSpan={5} className="bg-slate-900/60">
+            <div className="space-y-0.5 text-xs">
+              {diff.added.map((t, i) => (
+                <div key={`a${i}`} className="flex justify-between gap-2">
+                  <span className="text-green-400 truncate">＋ {txLabel(t)}</span>
+                  <span className="text-slate-300 tabular-nums shrink-0">{txAmount(t)}</span>
+                </div>
+              ))}
+              {diff.removed.map((t, i) => (
+                <div key={`r${i}`} className="flex justify-between gap-2">
+                  <span className="text-red-400 truncate">－ {txLabel(t)}</span>
+                  <span className="text-slate-300 tabular-nums shrink-0">{txAmount(t)}</span>
+                </div>
+              ))}
+              {diff.changed.map(({ before, after }, i) => (
+                <div key={`c${i}`} className="flex justify-between gap-2">
+                  <span className="text-amber-400 truncate">± {txLabel(after)}</span>
+                  <span className="text-slate-300 tabular-nums shrink-0">{txAmount(before)} → {txAmount(after)}</span>
+                </div>
+              ))}
+              {diff.addedCount + diff.removedCount + diff.changedCount >
+                diff.added.length + diff.removed.length + diff.changed.length && (
+                <p className="text-slate-500 pt-1">…ほか省略</p>
+              )}
+            </div>
+          </td>
+        </tr>
+      )}
+    </>
+  );
+}
@@ -1,14 +1,18 @@
 "use client";
-import { useState, useEffect, useCallback } from "react";
+import { Fragment, useState, useEffect, useCallback } from "react";
 import { Card, CardTitle } from "@/components/ui/Card";
 import { formatCurrency } from "@/lib/utils";
 import {
   LineChart, Line, XAxis, YAxis, Tooltip, ResponsiveContainer,
   CartesianGrid, Legend,
 } from "recharts";
+import type { InvestmentProduct } from "@/lib/schema";
+import type { InvestmentAccountKind } from "@/lib/investment-products";
 
 type ProductData = {
   productName: string;
+  accountKind: InvestmentAccountKind;
+  color: string;
   marketValue: number;
   costBasis: number;
   unrealizedGain: number;
@@ -26,9 +30,11 @@ type HistoryPoint = {
   totalGain: number;
 };
 
-const PRODUCT_COLORS: Record<string, { market: string; cost: string }> = {
-  "iDeCo": { market: "#3b82f6", cost: "#93c5fd" },
-  "SBI投資信託": { market: "#22c55e", cost: "#86efac" },
+const ACCOUNT_KIND_LABELS: Record<InvestmentAccountKind, string> = {
+  nisa: "NISA",
+  ideco: "iDeCo",
+  taxable: "特定・一般",
+  other: "その他",
 };
 
 export default function InvestmentPage() {
@@ -38,6 +44,7 @@ export default function InvestmentPage() {
   const [products, setProducts] = useState<ProductData[]>([]);
   const [inputValues, setInputValues] = useState<Record<string, string>>({});
   const [history, setHistory] = useState<HistoryPoint[]>([]);
+  const [productList, setProductList] = useState<InvestmentProduct[]>([]);
   const [loading, setLoading] = useState(false);
   const [saving, setSaving] = useState(false);
   const [saved, setSaved] = useState(false);
@@ -66,8 +73,19 @@ export default function InvestmentPage() {
     setHistory(json.data ?? []);
   }, []);
 
+  const loadProducts = useCallback(async () => {
+    const res = await fetch("/api/investment/products");
+    const json = await res.json();
+    setProductList(json.data ?? []);
+  }, []);
+
   useEffect(() => { loadCurrent(); }, [loadCurrent]);
   useEffect(() => { loadHistory(); }, [loadHistory]);
+  useEffect(() => { loadProducts(); }, [loadProducts]);
+
+  async function handleProductsChanged() {
+    await Promise.all([loadProducts(), loadCurrent(), loadHistory()]);
+  }
 
   async function save() {
     setSaving(true);
@@ -89,13 +107,18 @@ export default function InvestmentPage() {
     }
   }
 
-  // グラフデータ（過去12ヶ月に絞る）
+  // 履歴に評価額がある商品（無効にした商品も過去の記録は表示する）
+  const historyProducts = productList.filter((p) => history.some((h) => h.products[p.name]));
+
+  // グラフデータ（過去24ヶ月に絞る）
   const chartData = history.slice(-24).map((h) => ({
     label: `${h.year}/${String(h.month).padStart(2, "0")}`,
-    iDeCo評価額: h.products["iDeCo"]?.marketValue ?? 0,
-    iDeCoコスト: h.products["iDeCo"]?.costBasis ?? 0,
-    SBI評価額: h.products["SBI投資信託"]?.marketValue ?? 0,
-    SBIコスト: h.products["SBI投資信託"]?.costBasis ?? 0,
+    ...Object.fromEntries(
+      historyProducts.flatMap((p) => [
+        [`${p.name}評価額`, h.products[p.name]?.marketValue ?? 0],
+        [`${p.name}コスト`, h.products[p.name]?.costBasis ?? 0],
+      ])
+    ),
     合計評価額: h.totalMarket,
     合計コスト: h.totalCost,
   }));
@@ -162,7 +185,6 @@ export default function InvestmentPage() {
               const inputNum = inputVal !== "" ? Number(inputVal) : p.marketValue;
               const gain = inputNum - p.costBasis;
               const gainRate = p.costBasis > 0 ? ((gain / p.costBasis) * 100) : 0;
-              const color = PRODUCT_COLORS[p.productName];
               return (
                 <div
                   key={p.productName}
@@ -171,9 +193,10 @@ export default function InvestmentPage() {
                   <div className="flex items-center gap-2 mb-3">
                     <span
                       className="w-3 h-3 rounded-full"
-                      style={{ background: color?.market ?? "#94a3b8" }}
+                      style={{ background: p.color }}
                     />
                     <span className="text-white font-semibold">{p.productName}</span>
+                    <span className="text-xs text-slate-500">{ACCOUNT_KIND_LABELS[p.accountKind]}</span>
                     {p.hasRecord && (
                       <span className="text-xs text-green-400 border border-green-800 rounded px-1.5 py-0.5">登録済</span>
                     )}
@@ -252,10 +275,10 @@ export default function InvestmentPage() {
               <YAxis tick={{ fontSize: 10, fill: "#94a3b8" }} tickFormatter={(v) => `${(v / 10000).toFixed(0)}万`} />
               <Tooltip formatter={(v: number) => formatCurrency(v)} />
               <Legend />
-              <Line type="monotone" dataKey="iDeCo評価額" stroke="#3b82f6" strokeWidth={2} dot={false} />
-              <Line type="monotone" dataKey="iDeCoコスト" stroke="#93c5fd" strokeWidth={1.5} strokeDasharray="4 2" dot={false} />
-              <Line type="monotone" dataKey="SBI評価額" stroke="#22c55e" strokeWidth={2} dot={false} />
-              <Line type="monotone" dataKey="SBIコスト" stroke="#86efac" strokeWidth={1.5} strokeDasharray="4 2" dot={false} />
+              {historyProducts.flatMap((p) => [
+                <Line key={`${p.id}-market`} type="monotone" dataKey={`${p.name}評価額`} stroke={p.color} strokeWidth={2} dot={false} />,
+                <Line key={`${p.id}-cost`} type="monotone" dataKey={`${p.name}コスト`} stroke={p.color} strokeOpacity={0.5} strokeWidth={1.5} strokeDasharray="4 2" dot={false} />,
+              ])}
             </LineChart>
           </ResponsiveContainer>
           <p className="text-xs text-slate-600 mt-1">実線 = 評価額、破線 = 累計投資コスト（振替から自動算出）</p>
@@ -271,41 +294,35 @@ export default function InvestmentPage() {
               <thead>
                 <tr>
                   <th className="text-left">年月</th>
-                  <th className="text-right">iDeCo 評価額</th>
-                  <th className="text-right">iDeCo 損益</th>
-                  <th className="text-right">SBI投信 評価額</th>
-                  <th className="text-right">SBI投信 損益</th>
+                  {historyProducts.map((p) => (
+                    <Fragment key={p.id}>
+                      <th className="text-right">{p.name} 評価額</th>
+                      <th className="text-right">{p.name} 損益</th>
+                    </Fragment>
+                  ))}
                   <th className="text-right">合計評価額</th>
                   <th className="text-right">合計含み損益</th>
                 </tr>
               </thead>
               <tbody>
                 {[...history].reverse().slice(0, 24).map((h) => {
-                  const ideco = h.products["iDeCo"];
-                  const sbi = h.products["SBI投資信託"];
                   return (
                     <tr key={h.label}>
                       <td className="text-slate-400">{h.year}/{String(h.month).padStart(2, "0")}</td>
-                      <td className="text-right text-slate-300">
-                        {ideco ? formatCurrency(ideco.marketValue) : "—"}
-                      </td>
-                      <td className={`text-right text-sm font-medium ${
-                        ideco && ideco.marketValue - ideco.costBasis >= 0 ? "text-green-400" : "text-red-400"
-                      }`}>
-                        {ideco && ideco.costBasis > 0
-                          ? `${ideco.marketValue - ideco.costBasis >= 0 ? "+" : ""}${formatCurrency(ideco.marketValue - ideco.costBasis)}`
-                          : "—"}
-                      </td>
-                      <td className="text-right text-slate-300">
-                        {sbi ? formatCurrency(sbi.marketValue) : "—"}
-                      </td>
-                      <td className={`text-right text-sm font-medium ${
-                        sbi && sbi.marketValue - sbi.costBasis >= 0 ? "text-green-400" : "text-red-400"
-                      }`}>
-                        {sbi && sbi.costBasis > 0
-                          ? `${sbi.marketValue - sbi.costBasis >= 0 ? "+" : ""}${formatCurrency(sbi.marketValue - sbi.costBasis)}`
-                          : "—"}
-                      </td>
+                      {historyProducts.map((p) => {
+                        const v = h.products[p.name];
+                        const gain = v ? v.marketValue - v.costBasis : 0;
+                        return (
+                          <Fragment key={p.id}>
+                            <td className="text-right text-slate-300">
+                              {v ? formatCurrency(v.marketValue) : "—"}
+                            </td>
+                            <td className={`text-right text-sm font-medium ${v && gain >= 0 ? "text-green-400" : "text-red-400"}`}>
+                              {v && v.costBasis > 0 ? `${gain >= 0 ? "+" : ""}${formatCurrency(gain)}` : "—"}
+                            </td>
+                          </Fragment>
+                        );
+                      })}
                       <td className="text-right text-blue-400 font-medium">
                         {formatCurrency(h.totalMarket)}
                       </td>
@@ -322,6 +339,144 @@ export default function InvestmentPage() {
           </div>
         </Card>
       )}
+
+      <InvestmentProductsCard products={productList} onChanged={handleProductsChanged} />
     </div>
   );
 }
+
+type ProductDraft = {
+  id?: number;
+  name: string;
+  assetName: string;
+  accountKind: InvestmentAccountKind;
+  color: string;
+  sortOrder: number;
+  active: boolean;
+};
+
+const EMPTY_PRODUCT: ProductDraft = {
+  name: "",
+  assetName: "",
+  accountKind: "nisa",
+  color: "#f59e0b",
+  sortOrder: 0,
+  active: true,
+};
+
+/** 投資口座の登録簿（商品名・資産別レポートの資産名・口座区分・色・表示順・有効/無効） */
+function InvestmentProductsCard({ products, onChanged }: { products: InvestmentProduct[]; onChanged: () => Promise<void> }) {
+  const [drafts, setDrafts] = useState<Record<string, ProductDraft>>({});
+  const [saving, setSaving] = useState<string | null>(null);
+
+  const keyOf = (id?: number) => (id ? String(id) : "new");
+  const draftOf = (p?: InvestmentProduct): ProductDraft =>
+    drafts[keyOf(p?.id)] ??
+    (p
+      ? { id: p.id, name: p.name, assetName: p.assetName, accountKind: p.accountKind as InvestmentAccountKind, color: p.color, sortOrder: p.sortOrder, active: p.active }
+      : { ...EMPTY_PRODUCT, sortOrder: products.length + 1 });
+  const update = (p: InvestmentProduct | undefined, patch: Partial<ProductDraft>) =>
+    setDrafts((d) => ({ ...d, [keyOf(p?.id)]: { ...draftOf(p), ...patch } }));
+
+  async function save(p?: InvestmentProduct) {
+    const key = keyOf(p?.id);
+    setSaving(key);
+    try {
+      const res = await fetch("/api/investment/products", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(draftOf(p)),
+      });
+      const json = await res.json();
+      if (!res.ok) {
+        alert(json.error ?? "保存に失敗しました");
+        return;
+      }
+      setDrafts((d) => {
+        const next = { ...d };
+        delete next[key];
+        return next;
+      });
+      await onChanged();
+    } finally {
+      setSaving(null);
+    }
+  }
+
+  const renderRow = (p?: InvestmentProduct) => {
+    const key = keyOf(p?.id);
+    const draft = draftOf(p);
+    const inputClass = "bg-slate-700 text-white text-sm px-2 py-1.5 rounded-lg border border-slate-600 focus:border-blue-500 outline-none";
+    return (
+      <tr key={key} className={draft.active ? "" : "opacity-50"}>
+        <td>
+          <input
+            type="color"
+            value={draft.color}
+            onChange={(e) => update(p, { color: e.target.value })}
+            className="w-8 h-8 bg-transparent border-0 cursor-pointer"
+          />
+        </td>
+        <td>
+          <input value={draft.name} onChange={(e) => update(p, { name: e.target.value })} placeholder="例: 楽天NISA" className={`${inputClass} w-32`} />
+        </td>
+        <td>
+          <input value={draft.assetName} onChange={(e) => update(p, { assetName: e.target.value })} placeholder="資産別レポートの資産名" className={`${inputClass} w-40`} />
+        </td>
+        <td>
+          <select value={draft.accountKind} onChange={(e) => update(p, { accountKind: e.target.value as InvestmentAccountKind })} className={inputClass}>
+            {Object.entries(ACCOUNT_KIND_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+        </td>
+        <td>
+          <input type="number" value={draft.sortOrder} onChange={(e) => update(p, { sortOrder: Number(e.target.value) })} className={`${inputClass} w-16 text-right`} />
+        </td>
+        <td className="text-center">
+          <input type="checkbox" checked={draft.active} onChange={(e) => update(p, { active: e.target.checked })} />
+        </td>
+        <td className="text-right">
+          {(drafts[key] || !p) && (
+            <button
+              onClick={() => save(p)}
+              disabled={saving !== null || !draft.name.trim() || !draft.assetName.trim()}
+              className="px-3 py-1.5 text-xs bg-blue-600 hover:bg-blue-500 disabled:bg-slate-700 text-white rounded-lg transition"
+            >
+              {saving === key ? "保存中..." : p ? "保存" : "追加"}
+            </button>
+          )}
+        </td>
+      </tr>
+    );
+  };
+
+  return (
+    <Card className="mt-5">
+      <CardTitle>投資口座の管理</CardTitle>
+      <p className="text-xs text-slate-500 mb-3">
+        資産名は資産別レポート・貸借対照表の資産名と一致させてください。CSV インポート時の投資振替の抽出と、累計投資コストの集計に使われます。
+        使わなくなった口座は「有効」を外すと評価額の入力対象から外れます（過去の記録は残ります）。
+      </p>
+      <div className="overflow-x-auto">
+        <table className="data-table">
+          <thead>
+            <tr>
+              <th>色</th>
+              <th className="text-left">商品名</th>
+              <th className="text-left">資産名</th>
+              <th className="text-left">口座区分</th>
+              <th className="text-right">表示順</th>
+              <th className="text-center">有効</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {products.map((p) => renderRow(p))}
+            {renderRow()}
+          </tbody>
+        </table>
+      </div>
+    </Card>
+  );
+}
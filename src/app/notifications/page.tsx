@@ -0,0 +1,336 @@
+"use client";
+import { useState, useEffect, useCallback } from "react";
+import Link from "next/link";
+import { Card, CardTitle } from "@/components/ui/Card";
+import { NOTIFICATIONS_CHANGED_EVENT, formatThresholds } from "@/lib/notifications";
+import type { Notification } from "@/lib/schema";
+
+type AlertConfig = {
+  defaultThresholds: number[];
+  webhookUrl: string | null;
+  categoryThresholds: Record<string, number[]>;
+};
+
+/** カテゴリ別の入力（useDefault = 既定のしきい値を使う、muted = 通知しない） */
+type CategoryDraft = { useDefault: boolean; muted: boolean; thresholds: string };
+
+const inputClass =
+  "bg-slate-800 text-white text-sm rounded-lg px-2 py-1.5 border border-slate-700 focus:border-blue-500 outline-none";
+
+function notifyChanged() {
+  window.dispatchEvent(new Event(NOTIFICATIONS_CHANGED_EVENT));
+}
+
+export default function NotificationsPage() {
+  const [items, setItems] = useState<Notification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [loading, setLoading] = useState(false);
+
+  const loadNotifications = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await fetch("/api/notifications");
+      const json = await res.json();
+      setItems(json.data ?? []);
+      setUnreadCount(json.unreadCount ?? 0);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => { loadNotifications(); }, [loadNotifications]);
+
+  async function request(url: string, init: RequestInit, fallback: string) {
+    const res = await fetch(url, init);
+    if (!res.ok) {
+      const json = await res.json().catch(() => ({}));
+      alert(json.error ?? fallback);
+      return;
+    }
+    notifyChanged();
+    await loadNotifications();
+  }
+
+  const markRead = (id: number) =>
+    request(`/api/notifications?id=${id}`, { method: "PATCH" }, "通知の更新に失敗しました");
+
+  const remove = (id: number) =>
+    request(`/api/notifications?id=${id}`, { method: "DELETE" }, "通知の削除に失敗しました");
+
+  const markAllRead = () =>
+    request(
+      "/api/notifications",
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action: "mark_all_read" }),
+      },
+      "通知の更新に失敗しました"
+    );
+
+  return (
+    <div className="p-4 sm:p-6 max-w-3xl">
+      <div className="mb-5 flex items-start justify-between flex-wrap gap-3">
+        <div>
+          <h1 className="text-xl sm:text-2xl font-bold text-white">通知</h1>
+          <p className="text-slate-400 text-sm mt-0.5">予算アラートなど（未読 {unreadCount} 件）</p>
+        </div>
+        <button
+          onClick={markAllRead}
+          disabled={unreadCount === 0}
+          className="px-4 py-2 text-sm bg-slate-700 hover:bg-slate-600 disabled:opacity-50 text-slate-300 rounded-lg transition"
+        >
+          すべて既読にする
+        </button>
+      </div>
+
+      <Card className="p-0 overflow-hidden mb-5">
+        {loading && items.length === 0 ? (
+          <p className="text-slate-500 text-sm py-8 text-center">読み込み中...</p>
+        ) : items.length === 0 ? (
+          <p className="text-slate-500 text-sm py-8 text-center">通知はありません</p>
+        ) : (
+          <div className="divide-y divide-slate-800/60">
+            {items.map((n) => (
+              <div key={n.id} className={`px-4 py-3 flex items-start gap-3 ${n.readAt ? "" : "bg-blue-950/20"}`}>
+                <span
+                  className={`mt-1.5 w-2 h-2 rounded-full shrink-0 ${n.readAt ? "bg-transparent" : "bg-blue-400"}`}
+                  aria-label={n.readAt ? undefined : "未読"}
+                />
+                <div className="flex-1 min-w-0">
+                  <p className={`text-sm ${n.readAt ? "text-slate-400" : "text-slate-100 font-medium"}`}>{n.title}</p>
+                  <p className="text-xs text-slate-500 mt-0.5">{n.message}</p>
+                  <div className="flex items-center gap-3 mt-1 text-xs">
+                    <span className="text-slate-600 tabular-nums">
+                      {new Date(n.createdAt).toLocaleString("ja-JP", {
+                        year: "numeric", month: "numeric", day: "numeric", hour: "2-digit", minute: "2-digit",
+                      })}
+                    </span>
+                    {n.link && (
+                      <Link href={n.link} className="text-blue-400 hover:text-blue-300">
+                        開く
+                      </Link>
+                    )}
+                  </div>
+                </div>
+                <div className="flex gap-2 shrink-0">
+                  {!n.readAt && (
+                    <button onClick={() => markRead(n.id)} className="text-xs text-slate-400 hover:text-white transition">
+                      既読
+                    </button>
+                  )}
+                  <button onClick={() => remove(n.id)} className="text-xs text-slate-500 hover:text-red-400 transition">
+                    削除
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </Card>
+
+      <BudgetAlertSettingsCard onEvaluated={loadNotifications} />
+    </div>
+  );
+}
+
+/** 予算アラートのしきい値と webhook の設定 */
+function BudgetAlertSettingsCard({ onEvaluated }: { onEvaluated: () => Promise<void> }) {
+  const [defaultThresholds, setDefaultThresholds] = useState("");
+  const [webhookUrl, setWebhookUrl] = useState("");
+  const [categories, setCategories] = useState<string[]>([]);
+  const [drafts, setDrafts] = useState<Record<string, CategoryDraft>>({});
+  const [saving, setSaving] = useState(false);
+  const [saved, setSaved] = useState(false);
+  const [evaluating, setEvaluating] = useState(false);
+
+  const now = new Date();
+  const year = now.getFullYear();
+  const month = now.getMonth() + 1;
+
+  const load = useCallback(async () => {
+    const [settingsRes, budgetRes] = await Promise.all([
+      fetch("/api/notifications/settings"),
+      fetch(`/api/budgets?year=${year}&month=${month}`),
+    ]);
+    const [settingsJson, budgetJson] = await Promise.all([settingsRes.json(), budgetRes.json()]);
+    const config: AlertConfig | null = settingsJson.data ?? null;
+    if (!config) return;
+
+    setDefaultThresholds(formatThresholds(config.defaultThresholds));
+    setWebhookUrl(config.webhookUrl ?? "");
+
+    const budgetCats: string[] = (budgetJson.data ?? [])
+      .filter((r: { totalBudget: number }) => r.totalBudget > 0)
+      .map((r: { categoryName: string }) => r.categoryName);
+    const cats = Array.from(new Set([...budgetCats, ...Object.keys(config.categoryThresholds)])).sort();
+    setCategories(cats);
+    setDrafts(
+      Object.fromEntries(
+        cats.map((c) => {
+          const t = config.categoryThresholds[c];
+          return [c, { useDefault: !t, muted: !!t && t.length === 0, thresholds: t ? formatThresholds(t) : "" }];
+        })
+      )
+    );
+  }, [year, month]);
+
+  useEffect(() => { load(); }, [load]);
+
+  function updateDraft(cat: string, patch: Partial<CategoryDraft>) {
+    setDrafts((prev) => ({ ...prev, [cat]: { ...prev[cat], ...patch } }));
+  }
+
+  async function save() {
+    setSaving(true);
+    setSaved(false);
+    try {
+      const categoryThresholds = Object.fromEntries(
+        Object.entries(drafts).map(([cat, d]) => [cat, d.useDefault ? null : d.muted ? [] : d.thresholds])
+      );
+      const res = await fetch("/api/notifications/settings", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ defaultThresholds, webhookUrl, categoryThresholds }),
+      });
+      const json = await res.json();
+      if (!res.ok) {
+        alert(json.error ?? "予算アラート設定の保存に失敗しました");
+        return;
+      }
+      setSaved(true);
+      await load();
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function evaluate() {
+    setEvaluating(true);
+    try {
+      const res = await fetch("/api/notifications/settings", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action: "evaluate", year, month }),
+      });
+      const json = await res.json();
+      if (!res.ok) {
+        alert(json.error ?? "予算アラートの評価に失敗しました");
+        return;
+      }
+      alert(`新しい通知: ${(json.data ?? []).length} 件`);
+      notifyChanged();
+      await onEvaluated();
+    } finally {
+      setEvaluating(false);
+    }
+  }
+
+  return (
+    <Card>
+      <div className="flex items-center justify-between mb-4 flex-wrap gap-2">
+        <CardTitle>予算アラート設定</CardTitle>
+        <div className="flex gap-2 items-center">
+          {saved && <span className="text-green-400 text-xs">保存しました</span>}
+          <button
+            onClick={evaluate}
+            disabled={evaluating}
+            className="px-3 py-1.5 text-xs bg-slate-700 hover:bg-slate-600 disabled:opacity-50 text-slate-300 rounded-lg transition"
+          >
+            {evaluating ? "確認中..." : `${month}月の予算をいま確認`}
+          </button>
+          <button
+            onClick={save}
+            disabled={saving}
+            className="px-4 py-1.5 text-xs bg-blue-600 hover:bg-blue-500 disabled:bg-slate-700 text-white rounded-lg transition font-semibold"
+          >
+            {saving ? "保存中..." : "保存"}
+          </button>
+        </div>
+      </div>
+
+      <div className="grid sm:grid-cols-2 gap-4 mb-4">
+        <label className="block">
+          <span className="text-xs text-slate-400">既定のしきい値（予算合計に対する %、カンマ区切り）</span>
+          <input
+            type="text"
+            value={defaultThresholds}
+            onChange={(e) => setDefaultThresholds(e.target.value)}
+            placeholder="80, 100"
+            className={`${inputClass} w-full mt-1`}
+          />
+        </label>
+        <label className="block">
+          <span className="text-xs text-slate-400">webhook URL（任意。新しいアラートを JSON で POST）</span>
+          <input
+            type="url"
+            value={webhookUrl}
+            onChange={(e) => setWebhookUrl(e.target.value)}
+            placeholder="http://homeserver.local:8080/kakei"
+            className={`${inputClass} w-full mt-1`}
+          />
+        </label>
+      </div>
+
+      {categories.length > 0 && (
+        <div className="overflow-x-auto">
+          <table className="data-table">
+            <thead>
+              <tr>
+                <th className="text-left">カテゴリ</th>
+                <th className="text-left">既定を使う</th>
+                <th className="text-left">通知しない</th>
+                <th className="text-left">しきい値（%）</th>
+              </tr>
+            </thead>
+            <tbody>
+              {categories.map((cat) => {
+                const d = drafts[cat] ?? { useDefault: true, muted: false, thresholds: "" };
+                return (
+                  <tr key={cat}>
+                    <td className="text-slate-200 text-sm">{cat}</td>
+                    <td>
+                      <input
+                        type="checkbox"
+                        checked={d.useDefault}
+                        onChange={(e) =>
+                          updateDraft(cat, {
+                            useDefault: e.target.checked,
+                            thresholds: d.thresholds || defaultThresholds,
+                          })
+                        }
+                      />
+                    </td>
+                    <td>
+                      <input
+                        type="checkbox"
+                        checked={!d.useDefault && d.muted}
+                        disabled={d.useDefault}
+                        onChange={(e) => updateDraft(cat, { muted: e.target.checked })}
+                      />
+                    </td>
+                    <td>
+                      <input
+                        type="text"
+                        value={d.useDefault ? defaultThresholds : d.thresholds}
+                        disabled={d.useDefault || d.muted}
+                        onChange={(e) => updateDraft(cat, { thresholds: e.target.value })}
+                        className={`${inputClass} w-32 disabled:opacity-50`}
+                      />
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <ul className="text-xs text-slate-500 space-y-1 mt-4">
+        <li>・CSV をインポートするたびに、取り込んだ月の予算（月額予算 + 繰越 + 予算移動）に対する支出の割合を確認します</li>
+        <li>・同じ月・カテゴリ・しきい値の通知は1回だけ作成します</li>
+        <li>・表にないカテゴリは既定のしきい値で確認します（{year}年{month}月に予算があるカテゴリを表示）</li>
+      </ul>
+    </Card>
+  );
+}
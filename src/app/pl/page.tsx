@@ -1,7 +1,9 @@
 "use client";
-import { useState, useEffect, useCallback, useMemo } from "react";
+import { Fragment, useState, useEffect, useCallback, useMemo } from "react";
 import { Card, CardTitle } from "@/components/ui/Card";
+import { PdfExportLink } from "@/components/ui/PdfExportLink";
 import { formatCurrency, formatCurrencySigned } from "@/lib/utils";
+import { createCategoryLookup, type CategoryLookup } from "@/lib/categories";
 import {
   ComposedChart, Bar, Line, XAxis, YAxis, Tooltip,
   CartesianGrid, ResponsiveContainer, ReferenceLine,
@@ -66,6 +68,14 @@ export default function PLPage() {
   const [yearlySummaries, setYearlySummaries] = useState<{ year: number; totalIncome: number; totalExpense: number; netIncome: number }[]>([]);
   const [selectedQ, setSelectedQ] = useState(Math.ceil((now.getMonth() + 1) / 3));
   const [loading, setLoading] = useState(false);
+  const [lookup, setLookup] = useState<CategoryLookup>(() => createCategoryLookup(null));
+
+  useEffect(() => {
+    fetch("/api/categories/registry")
+      .then((r) => r.json())
+      .then((json) => setLookup(createCategoryLookup(json.data ?? null)))
+      .catch(() => {});
+  }, []);
 
   const fetchData = useCallback(async () => {
     setLoading(true);
@@ -187,6 +197,12 @@ export default function PLPage() {
               ))}
             </select>
           )}
+          {/* 表示中の期間の損益計算書をサーバーで PDF にしてダウンロード */}
+          <PdfExportLink
+            href={`/api/report?type=pl&year=${year}${
+              mode === "monthly" ? `&month=${month}` : mode === "quarterly" ? `&quarter=${selectedQ}` : ""
+            }&format=pdf`}
+          />
         </div>
       </div>
 
@@ -198,12 +214,12 @@ export default function PLPage() {
       {loading ? (
         <p className="text-slate-500">読み込み中...</p>
       ) : mode === "monthly" && monthDetail ? (
-        <PeriodPL summary={monthDetail} label={`${year}年${month}月`} year={year} month={month} investPL={investPL} />
+        <PeriodPL summary={monthDetail} label={`${year}年${month}月`} year={year} month={month} investPL={investPL} lookup={lookup} />
       ) : mode === "quarterly" ? (
         <QuarterlyPL year={year} quarterRows={quarterRows} yearTotal={yearTotal} investPL={investPL}
-          selectedQ={selectedQ} setSelectedQ={setSelectedQ} />
+          selectedQ={selectedQ} setSelectedQ={setSelectedQ} lookup={lookup} />
       ) : mode === "yearly" ? (
-        <YearlyPL monthlyData={monthlyData} year={year} yearTotal={yearTotal} yearCategories={yearCategories} investPL={investPL} />
+        <YearlyPL monthlyData={monthlyData} year={year} yearTotal={yearTotal} yearCategories={yearCategories} investPL={investPL} lookup={lookup} />
       ) : null}
     </div>
   );
@@ -314,8 +330,14 @@ function KpiCardsWithInvestment({ income, expense, label, investPL }: {
 }
 
 /** カテゴリ別収支テーブル（月次・四半期・年次で共用） */
-function CategoryBreakdown({ summary, label, period }: { summary: CategorySummary; label: string; period: DrilldownPeriod }) {
+function CategoryBreakdown({ summary, label, period, lookup }: {
+  summary: CategorySummary;
+  label: string;
+  period: DrilldownPeriod;
+  lookup: CategoryLookup;
+}) {
   const [selected, setSelected] = useState<{ cat: string; side: "expense" | "income" } | null>(null);
+  const [byGroup, setByGroup] = useState(false);
   const [txns, setTxns] = useState<Transaction[]>([]);
   const [txLoading, setTxLoading] = useState(false);
 
@@ -359,57 +381,35 @@ function CategoryBreakdown({ summary, label, period }: { summary: CategorySummar
 
   return (
     <div className="space-y-3">
+      <div className="flex bg-slate-800 rounded-lg p-0.5 w-fit">
+        {([false, true] as const).map((g) => (
+          <button key={String(g)} onClick={() => setByGroup(g)}
+            className={`px-3 py-1 text-xs rounded-md transition ${byGroup === g ? "bg-blue-600 text-white" : "text-slate-400"}`}>
+            {g ? "グループ別" : "カテゴリ別"}
+          </button>
+        ))}
+      </div>
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
-        <Card>
-          <CardTitle>{label} 支出明細</CardTitle>
-          <table className="data-table">
-            <thead><tr><th>カテゴリ</th><th className="text-right">金額</th><th className="text-right">件数</th></tr></thead>
-            <tbody>
-              {expenseCats.map(([cat, v]) => {
-                const isOpen = selected?.cat === cat && selected.side === "expense";
-                return (
-                  <tr key={cat}
-                    onClick={() => toggle(cat, "expense")}
-                    className={`cursor-pointer hover:bg-slate-800/50 transition ${isOpen ? "bg-slate-800/60" : ""}`}>
-                    <td className={`${isOpen ? "text-blue-300" : "text-slate-300"}`}>{cat}</td>
-                    <td className="text-right text-red-300">{formatCurrency(v.expense)}</td>
-                    <td className="text-right text-slate-500 text-xs">{v.count}件</td>
-                  </tr>
-                );
-              })}
-              <tr className="font-semibold">
-                <td className="text-white">合計</td>
-                <td className="text-right text-red-400">{formatCurrency(summary.totalExpense)}</td>
-                <td></td>
-              </tr>
-            </tbody>
-          </table>
-        </Card>
-        <Card>
-          <CardTitle>{label} 収入明細</CardTitle>
-          <table className="data-table">
-            <thead><tr><th>カテゴリ</th><th className="text-right">金額</th><th className="text-right">件数</th></tr></thead>
-            <tbody>
-              {incomeCats.map(([cat, v]) => {
-                const isOpen = selected?.cat === cat && selected.side === "income";
-                return (
-                  <tr key={cat}
-                    onClick={() => toggle(cat, "income")}
-                    className={`cursor-pointer hover:bg-slate-800/50 transition ${isOpen ? "bg-slate-800/60" : ""}`}>
-                    <td className={`${isOpen ? "text-blue-300" : "text-slate-300"}`}>{cat}</td>
-                    <td className="text-right text-green-300">{formatCurrency(v.income)}</td>
-                    <td className="text-right text-slate-500 text-xs">{v.count}件</td>
-                  </tr>
-                );
-              })}
-              <tr className="font-semibold">
-                <td className="text-white">合計</td>
-                <td className="text-right text-green-400">{formatCurrency(summary.totalIncome)}</td>
-                <td></td>
-              </tr>
-            </tbody>
-          </table>
-        </Card>
+        <BreakdownTable
+          title={`${label} 支出明細`}
+          side="expense"
+          rows={expenseCats.map(([cat, v]) => ({ cat, amount: v.expense, count: v.count }))}
+          total={summary.totalExpense}
+          byGroup={byGroup}
+          lookup={lookup}
+          selected={selected}
+          onToggle={toggle}
+        />
+        <BreakdownTable
+          title={`${label} 収入明細`}
+          side="income"
+          rows={incomeCats.map(([cat, v]) => ({ cat, amount: v.income, count: v.count }))}
+          total={summary.totalIncome}
+          byGroup={byGroup}
+          lookup={lookup}
+          selected={selected}
+          onToggle={toggle}
+        />
       </div>
 
       {/* ドリルダウンパネル */}
@@ -451,25 +451,122 @@ function CategoryBreakdown({ summary, label, period }: { summary: CategorySummar
   );
 }
 
+/**
+ * カテゴリ別の収支表
+ * byGroup のときはグループ（固定費 / 変動費 など）の小計を出し、行を開くとカテゴリに展開する
+ */
+function BreakdownTable({ title, side, rows, total, byGroup, lookup, selected, onToggle }: {
+  title: string;
+  side: "expense" | "income";
+  rows: { cat: string; amount: number; count: number }[];
+  total: number;
+  byGroup: boolean;
+  lookup: CategoryLookup;
+  selected: { cat: string; side: "expense" | "income" } | null;
+  onToggle: (cat: string, side: "expense" | "income") => void;
+}) {
+  const [openGroups, setOpenGroups] = useState<Set<string>>(new Set());
+  const amountClass = side === "expense" ? "text-red-300" : "text-green-300";
+  const totalClass = side === "expense" ? "text-red-400" : "text-green-400";
+  const rowByCat = new Map(rows.map((r) => [r.cat, r]));
+
+  const toggleGroup = (group: string) =>
+    setOpenGroups((prev) => {
+      const next = new Set(prev);
+      if (next.has(group)) next.delete(group);
+      else next.add(group);
+      return next;
+    });
+
+  const renderCategory = (row: { cat: string; amount: number; count: number }, indent: boolean) => {
+    const isOpen = selected?.cat === row.cat && selected.side === side;
+    return (
+      <tr key={row.cat}
+        onClick={() => onToggle(row.cat, side)}
+        className={`cursor-pointer hover:bg-slate-800/50 transition ${isOpen ? "bg-slate-800/60" : ""}`}>
+        <td className={`${indent ? "pl-6" : ""} ${isOpen ? "text-blue-300" : "text-slate-300"}`}>{row.cat}</td>
+        <td className={`text-right ${amountClass}`}>{formatCurrency(row.amount)}</td>
+        <td className="text-right text-slate-500 text-xs">{row.count}件</td>
+      </tr>
+    );
+  };
+
+  // グループ内は金額の大きい順
+  const groups = lookup
+    .group(rows.map((r) => r.cat))
+    .map(({ group, categories }) => {
+      const items = categories.map((c) => rowByCat.get(c)!).sort((a, b) => b.amount - a.amount);
+      return {
+        group,
+        items,
+        amount: items.reduce((s, r) => s + r.amount, 0),
+        count: items.reduce((s, r) => s + r.count, 0),
+      };
+    })
+    .sort((a, b) => b.amount - a.amount);
+
+  return (
+    <Card>
+      <CardTitle>{title}</CardTitle>
+      <table className="data-table">
+        <thead><tr><th>{byGroup ? "グループ / カテゴリ" : "カテゴリ"}</th><th className="text-right">金額</th><th className="text-right">件数</th></tr></thead>
+        <tbody>
+          {byGroup
+            ? groups.map((g) => {
+                const open = openGroups.has(g.group);
+                return (
+                  <Fragment key={g.group}>
+                    <tr onClick={() => toggleGroup(g.group)} className="cursor-pointer hover:bg-slate-800/50 transition">
+                      <td className="text-slate-200 font-medium">
+                        <span className="text-slate-500 text-xs mr-1">{open ? "▼" : "▶"}</span>
+                        {g.group}
+                      </td>
+                      <td className={`text-right font-medium ${amountClass}`}>{formatCurrency(g.amount)}</td>
+                      <td className="text-right text-slate-500 text-xs">{g.count}件</td>
+                    </tr>
+                    {open && g.items.map((row) => renderCategory(row, true))}
+                  </Fragment>
+                );
+              })
+            : rows.map((row) => renderCategory(row, false))}
+          <tr className="font-semibold">
+            <td className="text-white">合計</td>
+            <td className={`text-right ${totalClass}`}>{formatCurrency(total)}</td>
+            <td></td>
+          </tr>
+        </tbody>
+      </table>
+    </Card>
+  );
+}
+
 /** 月次 */
-function PeriodPL({ summary, label, year, month, investPL }: { summary: MonthlySummary; label: string; year: number; month: number; investPL: InvestmentPL | null }) {
+function PeriodPL({ summary, label, year, month, investPL, lookup }: {
+  summary: MonthlySummary;
+  label: string;
+  year: number;
+  month: number;
+  investPL: InvestmentPL | null;
+  lookup: CategoryLookup;
+}) {
   const period: DrilldownPeriod = { type: "monthly", year, month };
   return (
     <div className="space-y-4">
       <KpiCardsWithInvestment income={summary.totalIncome} expense={summary.totalExpense} label={label} investPL={investPL} />
-      {summary.categories && <CategoryBreakdown summary={summary as CategorySummary} label={label} period={period} />}
+      {summary.categories && <CategoryBreakdown summary={summary as CategorySummary} label={label} period={period} lookup={lookup} />}
     </div>
   );
 }
 
 /** 四半期 */
-function QuarterlyPL({ year, quarterRows, yearTotal, investPL: yearInvestPL, selectedQ, setSelectedQ }: {
+function QuarterlyPL({ year, quarterRows, yearTotal, investPL: yearInvestPL, selectedQ, setSelectedQ, lookup }: {
   year: number;
   quarterRows: QuarterRow[];
   yearTotal: { income: number; expense: number };
   investPL: InvestmentPL | null;
   selectedQ: number;
   setSelectedQ: (q: number) => void;
+  lookup: CategoryLookup;
 }) {
   const [detail, setDetail] = useState<CategorySummary | null>(null);
   const [qInvestPL, setQInvestPL] = useState<InvestmentPL | null>(null);
@@ -512,7 +609,7 @@ function QuarterlyPL({ year, quarterRows, yearTotal, investPL: yearInvestPL, sel
       {detailLoading ? (
         <p className="text-slate-500 text-sm">読み込み中...</p>
       ) : detail ? (
-        <CategoryBreakdown summary={detail} label={qLabel} period={{ type: "quarterly", year, quarter: selectedQ }} />
+        <CategoryBreakdown summary={detail} label={qLabel} period={{ type: "quarterly", year, quarter: selectedQ }} lookup={lookup} />
       ) : null}
 
       {/* 四半期サマリーテーブル */}
@@ -561,12 +658,13 @@ function QuarterlyPL({ year, quarterRows, yearTotal, investPL: yearInvestPL, sel
 }
 
 /** 年次 */
-function YearlyPL({ monthlyData, year, yearTotal, yearCategories, investPL }: {
+function YearlyPL({ monthlyData, year, yearTotal, yearCategories, investPL, lookup }: {
   monthlyData: MonthlySummary[];
   year: number;
   yearTotal: { income: number; expense: number };
   yearCategories: CategorySummary | null;
   investPL: InvestmentPL | null;
+  lookup: CategoryLookup;
 }) {
   const net = yearTotal.income - yearTotal.expense;
   return (
@@ -575,7 +673,7 @@ function YearlyPL({ monthlyData, year, yearTotal, yearCategories, investPL }: {
 
       {/* カテゴリ別集計 */}
       {yearCategories && (
-        <CategoryBreakdown summary={yearCategories} label={`${year}年`} period={{ type: "yearly", year }} />
+        <CategoryBreakdown summary={yearCategories} label={`${year}年`} period={{ type: "yearly", year }} lookup={lookup} />
       )}
 
       {/* 月別テーブル */}
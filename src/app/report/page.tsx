@@ -1,6 +1,7 @@
 "use client";
 import { useState, useEffect, useCallback } from "react";
 import { Card, CardTitle } from "@/components/ui/Card";
+import { PdfExportLink } from "@/components/ui/PdfExportLink";
 import { formatCurrency, formatCurrencySigned } from "@/lib/utils";
 import {
   BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer,
@@ -303,6 +304,10 @@ export default function ReportPage() {
               <option key={y} value={y}>{y}年</option>
             ))}
           </select>
+          {/* 年次決算（保存済みの定性分析を含む）をサーバーで PDF にしてダウンロード */}
+          {tab === "annual" && (
+            <PdfExportLink href={`/api/report?type=annual&year=${year}&format=pdf`} />
+          )}
         </div>
       </div>
 
@@ -0,0 +1,385 @@
+"use client";
+import { useState, useEffect, useCallback } from "react";
+import { Card, CardTitle } from "@/components/ui/Card";
+import CategorySelect from "@/components/ui/CategorySelect";
+import { formatCurrency } from "@/lib/utils";
+import {
+  CATEGORY_RULE_MATCH_FIELDS,
+  CATEGORY_RULE_MATCH_TYPES,
+  type CategoryRuleMatchField,
+  type CategoryRuleMatchType,
+} from "@/lib/category-rules";
+import type { CategoryRule } from "@/lib/schema";
+
+type RuleDraft = {
+  id?: number;
+  name: string;
+  priority: number;
+  active: boolean;
+  matchField: CategoryRuleMatchField;
+  matchType: CategoryRuleMatchType;
+  pattern: string;
+  amountMin: string;
+  amountMax: string;
+  setCategory: string;
+  setTag: string;
+  setExcludeFromPl: "" | "true" | "false"; // "" = 変更しない
+};
+
+type RuleChangeSide = { category: string; tag: string | null; excludeFromPl: boolean };
+
+type ApplyPreview = {
+  count: number;
+  byRule: { ruleId: number; name: string; count: number }[];
+  rows: {
+    id: number;
+    date: string;
+    itemName: string | null;
+    assetName: string | null;
+    amount: number;
+    ruleId: number;
+    before: RuleChangeSide;
+    after: RuleChangeSide;
+  }[];
+};
+
+const EMPTY_RULE: RuleDraft = {
+  name: "",
+  priority: 0,
+  active: true,
+  matchField: "itemName",
+  matchType: "contains",
+  pattern: "",
+  amountMin: "",
+  amountMax: "",
+  setCategory: "",
+  setTag: "",
+  setExcludeFromPl: "",
+};
+
+function toDraft(r: CategoryRule): RuleDraft {
+  return {
+    id: r.id,
+    name: r.name,
+    priority: r.priority,
+    active: r.active,
+    matchField: r.matchField as CategoryRuleMatchField,
+    matchType: r.matchType as CategoryRuleMatchType,
+    pattern: r.pattern,
+    amountMin: r.amountMin === null ? "" : String(r.amountMin),
+    amountMax: r.amountMax === null ? "" : String(r.amountMax),
+    setCategory: r.setCategory ?? "",
+    setTag: r.setTag ?? "",
+    setExcludeFromPl: r.setExcludeFromPl === null ? "" : r.setExcludeFromPl ? "true" : "false",
+  };
+}
+
+function toPayload(d: RuleDraft) {
+  return {
+    ...d,
+    amountMin: d.amountMin === "" ? null : Number(d.amountMin),
+    amountMax: d.amountMax === "" ? null : Number(d.amountMax),
+    setCategory: d.setCategory || null,
+    setTag: d.setTag || null,
+    setExcludeFromPl: d.setExcludeFromPl === "" ? null : d.setExcludeFromPl === "true",
+  };
+}
+
+export default function RulesPage() {
+  const [rules, setRules] = useState<CategoryRule[]>([]);
+  const [drafts, setDrafts] = useState<Record<string, RuleDraft>>({});
+  const [saving, setSaving] = useState<string | null>(null);
+  const [preview, setPreview] = useState<ApplyPreview | null>(null);
+  const [previewing, setPreviewing] = useState(false);
+  const [applying, setApplying] = useState(false);
+  const [applied, setApplied] = useState<number | null>(null);
+
+  const loadRules = useCallback(async () => {
+    const res = await fetch("/api/category-rules");
+    const json = await res.json();
+    setRules(json.data ?? []);
+  }, []);
+
+  useEffect(() => { loadRules(); }, [loadRules]);
+
+  const keyOf = (id?: number) => (id ? String(id) : "new");
+  const draftOf = (r?: CategoryRule): RuleDraft =>
+    drafts[keyOf(r?.id)] ?? (r ? toDraft(r) : { ...EMPTY_RULE, priority: (rules.at(-1)?.priority ?? 0) + 10 });
+  const update = (r: CategoryRule | undefined, patch: Partial<RuleDraft>) =>
+    setDrafts((d) => ({ ...d, [keyOf(r?.id)]: { ...draftOf(r), ...patch } }));
+  const clearDraft = (key: string) =>
+    setDrafts((d) => {
+      const next = { ...d };
+      delete next[key];
+      return next;
+    });
+
+  async function save(r?: CategoryRule) {
+    const key = keyOf(r?.id);
+    setSaving(key);
+    try {
+      const res = await fetch("/api/category-rules", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(toPayload(draftOf(r))),
+      });
+      const json = await res.json();
+      if (!res.ok) {
+        alert(json.error ?? "保存に失敗しました");
+        return;
+      }
+      clearDraft(key);
+      setPreview(null);
+      await loadRules();
+    } finally {
+      setSaving(null);
+    }
+  }
+
+  async function remove(r: CategoryRule) {
+    if (!confirm(`ルール「${r.name || r.pattern}」を削除しますか？`)) return;
+    const res = await fetch(`/api/category-rules?id=${r.id}`, { method: "DELETE" });
+    const json = await res.json();
+    if (!res.ok) {
+      alert(json.error ?? "削除に失敗しました");
+      return;
+    }
+    clearDraft(keyOf(r.id));
+    setPreview(null);
+    await loadRules();
+  }
+
+  async function loadPreview() {
+    setPreviewing(true);
+    setApplied(null);
+    try {
+      const res = await fetch("/api/category-rules/apply");
+      const json = await res.json();
+      if (!res.ok) {
+        alert(json.error ?? "プレビューに失敗しました");
+        return;
+      }
+      setPreview(json.data);
+    } finally {
+      setPreviewing(false);
+    }
+  }
+
+  async function apply() {
+    if (!preview || !confirm(`${preview.count.toLocaleString()}件の取引を書き換えます。よろしいですか？`)) return;
+    setApplying(true);
+    try {
+      const res = await fetch("/api/category-rules/apply", { method: "POST" });
+      const json = await res.json();
+      if (!res.ok) {
+        alert(json.error ?? "再適用に失敗しました");
+        return;
+      }
+      setApplied(json.updated);
+      setPreview(null);
+    } finally {
+      setApplying(false);
+    }
+  }
+
+  const ruleName = (id: number) => {
+    const r = rules.find((x) => x.id === id);
+    return r ? r.name || r.pattern : `#${id}`;
+  };
+
+  const renderRow = (r?: CategoryRule) => {
+    const key = keyOf(r?.id);
+    const draft = draftOf(r);
+    const inputClass = "bg-slate-700 text-white text-sm px-2 py-1.5 rounded-lg border border-slate-600 focus:border-blue-500 outline-none";
+    const hasCondition = draft.pattern.trim() !== "" || draft.amountMin !== "" || draft.amountMax !== "";
+    const hasAction = draft.setCategory !== "" || draft.setTag.trim() !== "" || draft.setExcludeFromPl !== "";
+    return (
+      <tr key={key} className={draft.active ? "" : "opacity-50"}>
+        <td>
+          <input type="number" value={draft.priority} onChange={(e) => update(r, { priority: Number(e.target.value) })} className={`${inputClass} w-16 text-right`} />
+        </td>
+        <td>
+          <input value={draft.name} onChange={(e) => update(r, { name: e.target.value })} placeholder="例: コンビニ" className={`${inputClass} w-28`} />
+        </td>
+        <td>
+          <div className="flex gap-1">
+            <select value={draft.matchField} onChange={(e) => update(r, { matchField: e.target.value as CategoryRuleMatchField })} className={inputClass}>
+              {Object.entries(CATEGORY_RULE_MATCH_FIELDS).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+            <input value={draft.pattern} onChange={(e) => update(r, { pattern: e.target.value })} placeholder={draft.matchType === "regex" ? "^AMAZON" : "セブン"} className={`${inputClass} w-36 font-mono`} />
+            <select value={draft.matchType} onChange={(e) => update(r, { matchType: e.target.value as CategoryRuleMatchType })} className={inputClass}>
+              {Object.entries(CATEGORY_RULE_MATCH_TYPES).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+          </div>
+        </td>
+        <td>
+          <div className="flex items-center gap-1">
+            <input type="number" min={0} value={draft.amountMin} onChange={(e) => update(r, { amountMin: e.target.value })} placeholder="下限" className={`${inputClass} w-20 text-right`} />
+            <span className="text-slate-500">〜</span>
+            <input type="number" min={0} value={draft.amountMax} onChange={(e) => update(r, { amountMax: e.target.value })} placeholder="上限" className={`${inputClass} w-20 text-right`} />
+          </div>
+        </td>
+        <td>
+          <CategorySelect value={draft.setCategory} onChange={(v) => update(r, { setCategory: v })} type="all" allLabel="変更しない" className="text-sm px-2 py-1.5" />
+        </td>
+        <td>
+          <input value={draft.setTag} onChange={(e) => update(r, { setTag: e.target.value })} placeholder="変更しない" className={`${inputClass} w-24`} />
+        </td>
+        <td>
+          <select value={draft.setExcludeFromPl} onChange={(e) => update(r, { setExcludeFromPl: e.target.value as RuleDraft["setExcludeFromPl"] })} className={inputClass}>
+            <option value="">変更しない</option>
+            <option value="true">除外する</option>
+            <option value="false">含める</option>
+          </select>
+        </td>
+        <td className="text-center">
+          <input type="checkbox" checked={draft.active} onChange={(e) => update(r, { active: e.target.checked })} />
+        </td>
+        <td className="text-right whitespace-nowrap">
+          {(drafts[key] || !r) && (
+            <button
+              onClick={() => save(r)}
+              disabled={saving !== null || !hasCondition || !hasAction}
+              className="px-3 py-1.5 text-xs bg-blue-600 hover:bg-blue-500 disabled:bg-slate-700 text-white rounded-lg transition"
+            >
+              {saving === key ? "保存中..." : r ? "保存" : "追加"}
+            </button>
+          )}
+          {r && (
+            <button onClick={() => remove(r)} className="ml-1 px-2 py-1.5 text-xs text-slate-500 hover:text-red-400 transition">
+              削除
+            </button>
+          )}
+        </td>
+      </tr>
+    );
+  };
+
+  return (
+    <div className="p-4 sm:p-6">
+      <div className="mb-5">
+        <h1 className="text-xl sm:text-2xl font-bold text-white">分類ルール</h1>
+        <p className="text-slate-400 text-sm mt-0.5">CSV インポート時にカテゴリ・タグ・P/L 除外を自動で書き換えます</p>
+      </div>
+
+      <Card>
+        <CardTitle>ルール</CardTitle>
+        <p className="text-xs text-slate-500 mb-3">
+          優先度の小さい順に評価し、最初に一致したルールだけを適用します。文字列の照合は大文字・小文字を区別しません。
+          金額範囲は両端を含み、空欄は制限なしです。振替の取引と手入力の取引には適用されません。
+        </p>
+        <div className="overflow-x-auto">
+          <table className="data-table">
+            <thead>
+              <tr>
+                <th className="text-right">優先度</th>
+                <th className="text-left">名前</th>
+                <th className="text-left">条件</th>
+                <th className="text-left">金額</th>
+                <th className="text-left">カテゴリ</th>
+                <th className="text-left">タグ</th>
+                <th className="text-left">P/L</th>
+                <th className="text-center">有効</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {rules.map((r) => renderRow(r))}
+              {renderRow()}
+            </tbody>
+          </table>
+        </div>
+      </Card>
+
+      <Card className="mt-5">
+        <CardTitle>過去の取引に再適用</CardTitle>
+        <p className="text-xs text-slate-500 mb-3">
+          保存済みの取引に現在のルールを適用します。どのルールにも一致しない取引は変更されません。
+        </p>
+        <div className="flex items-center gap-3 mb-3">
+          <button
+            onClick={loadPreview}
+            disabled={previewing || applying}
+            className="px-4 py-2 text-sm bg-slate-800 hover:bg-slate-700 text-slate-300 rounded-lg border border-slate-700 transition"
+          >
+            {previewing ? "確認中..." : "影響を確認"}
+          </button>
+          {preview && preview.count > 0 && (
+            <button
+              onClick={apply}
+              disabled={applying}
+              className="px-4 py-2 text-sm bg-blue-600 hover:bg-blue-500 disabled:bg-slate-700 text-white rounded-lg transition"
+            >
+              {applying ? "適用中..." : `${preview.count.toLocaleString()}件に適用`}
+            </button>
+          )}
+          {applied !== null && <span className="text-sm text-green-400">{applied.toLocaleString()}件の取引を書き換えました</span>}
+        </div>
+
+        {preview && preview.count === 0 && <p className="text-sm text-slate-400">変更される取引はありません</p>}
+        {preview && preview.count > 0 && (
+          <>
+            <div className="flex flex-wrap gap-2 mb-3">
+              {preview.byRule.map((b) => (
+                <span key={b.ruleId} className="text-xs bg-slate-800 text-slate-300 px-2 py-1 rounded">
+                  {b.name || ruleName(b.ruleId)}: {b.count.toLocaleString()}件
+                </span>
+              ))}
+            </div>
+            <div className="overflow-x-auto">
+              <table className="data-table">
+                <thead>
+                  <tr>
+                    <th className="text-left">日付</th>
+                    <th className="text-left">項目名</th>
+                    <th className="text-left">資産</th>
+                    <th className="text-right">金額</th>
+                    <th className="text-left">変更内容</th>
+                    <th className="text-left">ルール</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {preview.rows.map((row) => (
+                    <tr key={row.id}>
+                      <td className="whitespace-nowrap">{row.date}</td>
+                      <td>{row.itemName}</td>
+                      <td className="text-slate-400">{row.assetName}</td>
+                      <td className="text-right">{formatCurrency(row.amount)}</td>
+                      <td className="text-xs">
+                        <ChangeSummary before={row.before} after={row.after} />
+                      </td>
+                      <td className="text-xs text-slate-400">{ruleName(row.ruleId)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            {preview.count > preview.rows.length && (
+              <p className="text-xs text-slate-500 mt-2">
+                新しい順に {preview.rows.length}件を表示しています（全 {preview.count.toLocaleString()}件）
+              </p>
+            )}
+          </>
+        )}
+      </Card>
+    </div>
+  );
+}
+
+function ChangeSummary({ before, after }: { before: RuleChangeSide; after: RuleChangeSide }) {
+  const items: string[] = [];
+  if (before.category !== after.category) items.push(`${before.category} → ${after.category}`);
+  if ((before.tag ?? "") !== (after.tag ?? "")) items.push(`タグ: ${before.tag || "なし"} → ${after.tag || "なし"}`);
+  if (before.excludeFromPl !== after.excludeFromPl) items.push(after.excludeFromPl ? "P/L から除外" : "P/L に含める");
+  return (
+    <div className="space-y-0.5">
+      {items.map((item) => (
+        <div key={item}>{item}</div>
+      ))}
+    </div>
+  );
+}
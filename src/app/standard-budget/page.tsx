@@ -2,6 +2,7 @@
 import { useState, useEffect, useCallback } from "react";
 import { Card, CardTitle } from "@/components/ui/Card";
 import { formatCurrency } from "@/lib/utils";
+import { DEFAULT_CAP_MONTHS, ROLLOVER_POLICIES, type RolloverPolicy } from "@/lib/budget-rollover";
 
 // 2026年のカテゴリ順（budget/page.tsx と同じ）
 const CATEGORY_ORDER = [
@@ -28,6 +29,15 @@ type StandardBudgetItem = {
   categoryName: string;
   allocation: number;
   notes: string | null;
+  rolloverPolicy: RolloverPolicy;
+  rolloverCapMonths: number | null;
+};
+
+type EditItem = {
+  allocation: number;
+  notes: string;
+  rolloverPolicy: RolloverPolicy;
+  rolloverCapMonths: number | null;
 };
 
 function sortByOrder(cats: string[]): string[] {
@@ -45,7 +55,7 @@ export default function StandardBudgetPage() {
   const [referenceIncome, setReferenceIncome] = useState(0);
   const [incomeInput, setIncomeInput] = useState("");
   const [pastYear, setPastYear] = useState<PastYearItem[]>([]);
-  const [editMap, setEditMap] = useState<Record<string, { allocation: number; notes: string }>>({});
+  const [editMap, setEditMap] = useState<Record<string, EditItem>>({});
   const [categories, setCategories] = useState<string[]>([]);
   const [loading, setLoading] = useState(false);
   const [saving, setSaving] = useState(false);
@@ -79,12 +89,14 @@ export default function StandardBudgetPage() {
       setCategories(allCats);
 
       // editMap 初期化
-      const newEditMap: Record<string, { allocation: number; notes: string }> = {};
+      const newEditMap: Record<string, EditItem> = {};
       for (const cat of allCats) {
         const saved = savedMap.get(cat);
         newEditMap[cat] = {
           allocation: saved?.allocation ?? 0,
           notes: saved?.notes ?? "",
+          rolloverPolicy: saved?.rolloverPolicy ?? "full",
+          rolloverCapMonths: saved?.rolloverCapMonths ?? null,
         };
       }
       setEditMap(newEditMap);
@@ -129,6 +141,8 @@ export default function StandardBudgetPage() {
         categoryName: cat,
         allocation: editMap[cat]?.allocation ?? 0,
         notes: editMap[cat]?.notes || undefined,
+        rolloverPolicy: editMap[cat]?.rolloverPolicy ?? "full",
+        rolloverCapMonths: editMap[cat]?.rolloverCapMonths ?? null,
       }));
       await fetch("/api/standard-budget", {
         method: "POST",
@@ -223,6 +237,7 @@ export default function StandardBudgetPage() {
                   <th className="text-right">割合</th>
                   <th className="text-right">参考値</th>
                   <th className="text-right">設定予算</th>
+                  <th className="text-left">繰越ルール</th>
                   <th className="text-left hidden sm:table-cell">メモ</th>
                 </tr>
               </thead>
@@ -274,6 +289,46 @@ export default function StandardBudgetPage() {
                           </button>
                         )}
                       </td>
+                      <td>
+                        <div className="flex items-center gap-1">
+                          <select
+                            value={editMap[cat]?.rolloverPolicy ?? "full"}
+                            onChange={(e) => {
+                              const policy = e.target.value as RolloverPolicy;
+                              setEditMap((prev) => ({
+                                ...prev,
+                                [cat]: {
+                                  ...prev[cat],
+                                  rolloverPolicy: policy,
+                                  rolloverCapMonths: policy === "cap" ? prev[cat]?.rolloverCapMonths ?? DEFAULT_CAP_MONTHS : null,
+                                },
+                              }));
+                            }}
+                            className="bg-slate-800 text-white text-sm rounded px-2 py-1 border border-slate-700 focus:border-blue-500 outline-none"
+                          >
+                            {(Object.keys(ROLLOVER_POLICIES) as RolloverPolicy[]).map((p) => (
+                              <option key={p} value={p}>{ROLLOVER_POLICIES[p]}</option>
+                            ))}
+                          </select>
+                          {editMap[cat]?.rolloverPolicy === "cap" && (
+                            <>
+                              <input
+                                type="number"
+                                min={1}
+                                value={editMap[cat]?.rolloverCapMonths ?? DEFAULT_CAP_MONTHS}
+                                onChange={(e) =>
+                                  setEditMap((prev) => ({
+                                    ...prev,
+                                    [cat]: { ...prev[cat], rolloverCapMonths: Number(e.target.value) || null },
+                                  }))
+                                }
+                                className="w-14 bg-slate-800 text-white text-right text-sm px-2 py-1 rounded border border-slate-700 focus:border-blue-500 outline-none"
+                              />
+                              <span className="text-xs text-slate-500 whitespace-nowrap">ヶ月分</span>
+                            </>
+                          )}
+                        </div>
+                      </td>
                       <td className="hidden sm:table-cell">
                         <input
                           type="text"
@@ -305,6 +360,7 @@ export default function StandardBudgetPage() {
                   <td className="text-right pt-3 text-white">
                     {formatCurrency(totalAllocation)}
                   </td>
+                  <td />
                   <td className="hidden sm:table-cell" />
                 </tr>
               </tbody>
@@ -320,6 +376,8 @@ export default function StandardBudgetPage() {
           <li>・「↑」ボタンで設定予算に参考値を適用できます</li>
           <li>・<span className="text-blue-400">固定</span>ラベルのカテゴリ（貯蓄3%・貯蓄（投信）7%）は基準収入に対する固定比率で計算されます。残り90%が他カテゴリに按分されます</li>
           <li>・保存後、予算管理ページで未設定の月を開くと、この標準予算が自動的に適用されます</li>
+          <li>・繰越ルールは前月の残額の扱いです（全額繰越 / 余りのみ繰越 / 繰越なし / 月額予算の N ヶ月分までの上限付き繰越）</li>
+          <li>・<code className="text-slate-300">npx tsx scripts/open-month.ts</code> で、標準予算と繰越額から今月の予算をまとめて作成できます</li>
         </ul>
       </Card>
     </div>
@@ -1,43 +1,161 @@
 "use client";
-import { useState, useEffect, useCallback, useRef } from "react";
+import { Fragment, Suspense, useState, useEffect, useCallback, useRef } from "react";
+import Link from "next/link";
+import { useSearchParams } from "next/navigation";
 import { Card, CardTitle } from "@/components/ui/Card";
 import { formatCurrency } from "@/lib/utils";
 import CategorySelect from "@/components/ui/CategorySelect";
-import type { Transaction } from "@/lib/schema";
+import type { SavedFilter, Transaction, TransactionSplit } from "@/lib/schema";
+import {
+  EMPTY_TRANSACTION_FILTER,
+  SAVED_FILTERS_CHANGED_EVENT,
+  TRANSACTION_SORTS,
+  parseTransactionFilter,
+  transactionFilterToParams,
+  type TransactionFilter,
+  type TransactionPlFilter,
+  type TransactionSort,
+} from "@/lib/transaction-filter";
+
+type TransactionRow = Transaction & { splits: TransactionSplit[] };
+
+/** 編集中の分割明細 */
+type SplitDraft = {
+  transaction: TransactionRow;
+  lines: { category: string; amount: string; memo: string }[];
+};
+
+/** 編集中の取引（id なし = 新規） */
+type TransactionDraft = {
+  id?: number;
+  date: string;
+  type: string;
+  category: string;
+  itemName: string;
+  amount: string;
+  transferDirection: "out" | "in"; // 振替のみ: 出金側 / 入金側
+  assetName: string;
+  memo: string;
+  excludeFromPl: boolean;
+};
+
+function toDraft(tx: Transaction): TransactionDraft {
+  return {
+    id: tx.id,
+    date: tx.date,
+    type: tx.type,
+    category: tx.category,
+    itemName: tx.itemName ?? "",
+    amount: String(tx.expenseAmount || tx.incomeAmount),
+    transferDirection: tx.incomeAmount > 0 ? "in" : "out",
+    assetName: tx.assetName ?? "",
+    memo: tx.memo ?? "",
+    excludeFromPl: tx.excludeFromPl,
+  };
+}
+
+/** 詳細検索パネルで指定する条件の数 */
+function countAdvancedConditions(filter: TransactionFilter): number {
+  return [
+    filter.dateFrom,
+    filter.dateTo,
+    filter.categories.length > 1 ? filter.categories : null,
+    filter.amountMin,
+    filter.amountMax,
+    filter.pl,
+  ].filter((v) => v !== null).length;
+}
+
+/** 空欄は null（条件なし） */
+function parseAmountInput(value: string): number | null {
+  const n = parseInt(value, 10);
+  return Number.isNaN(n) ? null : n;
+}
 
 export default function TransactionsPage() {
+  // useSearchParams を使うため Suspense で囲む
+  return (
+    <Suspense>
+      <TransactionsView />
+    </Suspense>
+  );
+}
+
+function TransactionsView() {
   const now = new Date();
-  const [year, setYear] = useState(now.getFullYear());
-  const [month, setMonth] = useState(now.getMonth() + 1);
-  const [type, setType] = useState("");
-  const [category, setCategory] = useState("");
+  const searchParams = useSearchParams();
+  const query = searchParams.toString();
+  // 検索条件は URL のクエリと同期する（URL を共有すると同じ検索結果を開ける）
+  const [filter, setFilter] = useState<TransactionFilter>({
+    ...EMPTY_TRANSACTION_FILTER,
+    year: now.getFullYear(),
+    month: now.getMonth() + 1,
+  });
+  const [filterReady, setFilterReady] = useState(false);
   const [keyword, setKeyword] = useState("");
-  const [debouncedKeyword, setDebouncedKeyword] = useState("");
-  const [amount, setAmount] = useState("");
+  const [showAdvanced, setShowAdvanced] = useState(false);
+  const [savedFilters, setSavedFilters] = useState<SavedFilter[]>([]);
   const [page, setPage] = useState(1);
-  const [data, setData] = useState<Transaction[]>([]);
+  const [data, setData] = useState<TransactionRow[]>([]);
   const [total, setTotal] = useState(0);
   const [loading, setLoading] = useState(false);
+  const [editing, setEditing] = useState<TransactionDraft | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [splitting, setSplitting] = useState<SplitDraft | null>(null);
   const LIMIT = 50;
   const fetchIdRef = useRef(0);
+  const writtenQueryRef = useRef<string | null>(null);
+  const { year, month } = filter;
+
+  const updateFilter = useCallback((patch: Partial<TransactionFilter>) => {
+    setFilter((f) => ({ ...f, ...patch }));
+  }, []);
+
+  // URL に検索条件があれば復元する（なければ今月）
+  // サイドバーの保存した検索条件から開いたときも URL が変わるので、ここで読み直す
+  useEffect(() => {
+    if (query === writtenQueryRef.current) return;
+    if (query) {
+      const restored = parseTransactionFilter(new URLSearchParams(query));
+      setFilter(restored);
+      setKeyword(restored.keyword ?? "");
+      setShowAdvanced(countAdvancedConditions(restored) > 0);
+    }
+    setFilterReady(true);
+  }, [query]);
+
+  useEffect(() => {
+    if (!filterReady) return;
+    const params = transactionFilterToParams(filter);
+    // 条件なし（全期間）を「今月」と区別するため、年の指定がないことを残す
+    if (!filter.year) params.set("year", "all");
+    writtenQueryRef.current = params.toString();
+    window.history.replaceState(null, "", `${window.location.pathname}?${params}`);
+  }, [filter, filterReady]);
+
+  const loadSavedFilters = useCallback(async () => {
+    const res = await fetch("/api/saved-filters");
+    const json = await res.json();
+    setSavedFilters(json.data ?? []);
+  }, []);
+
+  useEffect(() => { loadSavedFilters(); }, [loadSavedFilters]);
 
   // キーワードのデバウンス（300ms）
   useEffect(() => {
-    const timer = setTimeout(() => setDebouncedKeyword(keyword), 300);
+    const next = keyword.trim() || null;
+    const timer = setTimeout(() => setFilter((f) => (f.keyword === next ? f : { ...f, keyword: next })), 300);
     return () => clearTimeout(timer);
   }, [keyword]);
 
   const fetchData = useCallback(async () => {
+    if (!filterReady) return;
     const id = ++fetchIdRef.current;
     setLoading(true);
     try {
-      const params = new URLSearchParams({ page: String(page), limit: String(LIMIT) });
-      if (year) params.set("year", String(year));
-      if (month) params.set("month", String(month));
-      if (type) params.set("type", type);
-      if (category) params.set("category", category);
-      if (debouncedKeyword.trim()) params.set("keyword", debouncedKeyword.trim());
-      if (amount.trim()) params.set("amount", amount.trim());
+      const params = transactionFilterToParams(filter);
+      params.set("page", String(page));
+      params.set("limit", String(LIMIT));
       const res = await fetch(`/api/transactions?${params}`);
       const json = await res.json();
       // 古いリクエストの結果は無視
@@ -47,47 +165,211 @@ export default function TransactionsPage() {
     } finally {
       if (id === fetchIdRef.current) setLoading(false);
     }
-  }, [year, month, type, category, debouncedKeyword, amount, page]);
+  }, [filter, filterReady, page]);
 
-  useEffect(() => { setPage(1); }, [year, month, type, category, debouncedKeyword, amount]);
+  useEffect(() => { setPage(1); }, [filter]);
   useEffect(() => { fetchData(); }, [fetchData]);
 
+  function clearFilter() {
+    setFilter({ ...EMPTY_TRANSACTION_FILTER, year: now.getFullYear(), month: now.getMonth() + 1 });
+    setKeyword("");
+  }
+
+  async function saveFilter() {
+    const name = prompt("検索条件の名前", "")?.trim();
+    if (!name) return;
+    const res = await fetch("/api/saved-filters", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ name, query: transactionFilterToParams(filter).toString() }),
+    });
+    const json = await res.json();
+    if (!res.ok) {
+      alert(json.error ?? "保存に失敗しました");
+      return;
+    }
+    await loadSavedFilters();
+    window.dispatchEvent(new Event(SAVED_FILTERS_CHANGED_EVENT));
+  }
+
+  async function deleteSavedFilter(saved: SavedFilter) {
+    if (!confirm(`検索条件「${saved.name}」を削除しますか？`)) return;
+    const res = await fetch(`/api/saved-filters?id=${saved.id}`, { method: "DELETE" });
+    const json = await res.json();
+    if (!res.ok) {
+      alert(json.error ?? "削除に失敗しました");
+      return;
+    }
+    await loadSavedFilters();
+    window.dispatchEvent(new Event(SAVED_FILTERS_CHANGED_EVENT));
+  }
+
+  function exportUrl(format: "csv" | "xlsx") {
+    const params = transactionFilterToParams(filter);
+    params.set("format", format);
+    return `/api/transactions?${params}`;
+  }
+
+  async function copyFilterUrl() {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      alert("検索条件の URL をコピーしました");
+    } catch {
+      prompt("この URL を共有してください", window.location.href);
+    }
+  }
+
   const totalPages = Math.ceil(total / LIMIT);
 
+  function startAdd() {
+    const today = new Date();
+    const d = year && month ? new Date(year, month - 1, Math.min(today.getDate(), new Date(year, month, 0).getDate())) : today;
+    setEditing({
+      date: `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}`,
+      type: "支出",
+      category: "",
+      itemName: "",
+      amount: "",
+      transferDirection: "out",
+      assetName: "",
+      memo: "",
+      excludeFromPl: false,
+    });
+  }
+
+  async function saveEditing() {
+    if (!editing) return;
+    const amountNum = Number(editing.amount);
+    const isIncome = editing.type === "収入" || (editing.type === "振替" && editing.transferDirection === "in");
+    setSaving(true);
+    try {
+      const res = await fetch("/api/transactions", {
+        method: editing.id ? "PATCH" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          id: editing.id,
+          date: editing.date,
+          type: editing.type,
+          category: editing.category,
+          itemName: editing.itemName,
+          expenseAmount: isIncome ? 0 : amountNum,
+          incomeAmount: isIncome ? amountNum : 0,
+          assetName: editing.assetName,
+          memo: editing.memo,
+          excludeFromPl: editing.excludeFromPl,
+        }),
+      });
+      const json = await res.json();
+      if (!res.ok) {
+        alert(json.error ?? "保存に失敗しました");
+        return;
+      }
+      setEditing(null);
+      await fetchData();
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  function startSplit(tx: TransactionRow) {
+    const total = tx.expenseAmount || tx.incomeAmount;
+    setSplitting({
+      transaction: tx,
+      lines: tx.splits.length > 0
+        ? tx.splits.map((l) => ({ category: l.category, amount: String(l.amount), memo: l.memo ?? "" }))
+        : [
+            { category: tx.category, amount: String(total), memo: "" },
+            { category: "", amount: "", memo: "" },
+          ],
+    });
+  }
+
+  /** lines が空なら分割を解除する */
+  async function saveSplit(lines: SplitDraft["lines"]) {
+    if (!splitting) return;
+    setSaving(true);
+    try {
+      const res = await fetch("/api/transactions/splits", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          transactionId: splitting.transaction.id,
+          lines: lines.map((l) => ({ category: l.category, amount: Number(l.amount), memo: l.memo })),
+        }),
+      });
+      const json = await res.json();
+      if (!res.ok) {
+        alert(json.error ?? "保存に失敗しました");
+        return;
+      }
+      setSplitting(null);
+      await fetchData();
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function deleteTransaction(tx: Transaction) {
+    if (!confirm(`${tx.date} ${tx.itemName ?? tx.category} を削除しますか？`)) return;
+    const res = await fetch(`/api/transactions?id=${tx.id}`, { method: "DELETE" });
+    const json = await res.json();
+    if (!res.ok) {
+      alert(json.error ?? "削除に失敗しました");
+      return;
+    }
+    await fetchData();
+  }
+
   return (
     <div className="p-4 sm:p-6">
       <h1 className="text-xl sm:text-2xl font-bold text-white mb-5">取引明細</h1>
 
       {/* フィルター */}
       <div className="flex flex-wrap gap-3 mb-5">
-        <select value={year} onChange={(e) => setYear(Number(e.target.value))}
+        <select value={year ?? 0} onChange={(e) => updateFilter({ year: Number(e.target.value) || null })}
           className="bg-slate-800 text-white text-sm rounded-lg px-3 py-2 border border-slate-700">
           <option value={0}>すべての年</option>
           {Array.from({ length: 8 }, (_, i) => 2019 + i).map((y) => (
             <option key={y} value={y}>{y}年</option>
           ))}
         </select>
-        <select value={month} onChange={(e) => setMonth(Number(e.target.value))}
+        <select value={filter.quarter ? -1 : month ?? 0} onChange={(e) => updateFilter({ month: Number(e.target.value) || null, quarter: null })}
           className="bg-slate-800 text-white text-sm rounded-lg px-3 py-2 border border-slate-700">
+          {filter.quarter && <option value={-1}>第{filter.quarter}四半期</option>}
           <option value={0}>すべての月</option>
           {Array.from({ length: 12 }, (_, i) => i + 1).map((m) => (
             <option key={m} value={m}>{m}月</option>
           ))}
         </select>
-        <select value={type} onChange={(e) => setType(e.target.value)}
+        <select value={filter.type ?? ""} onChange={(e) => updateFilter({ type: e.target.value || null })}
           className="bg-slate-800 text-white text-sm rounded-lg px-3 py-2 border border-slate-700">
           <option value="">すべての種別</option>
           <option value="支出">支出</option>
           <option value="収入">収入</option>
           <option value="振替">振替</option>
         </select>
-        <CategorySelect
-          value={category}
-          onChange={setCategory}
-          type="all"
-          year={year || undefined}
-          allLabel="すべてのカテゴリ"
-        />
+        {filter.categories.length > 1 ? (
+          <button
+            onClick={() => setShowAdvanced(true)}
+            className="bg-slate-800 text-white text-sm rounded-lg px-3 py-2 border border-blue-700"
+          >
+            {filter.categories.length}カテゴリ
+          </button>
+        ) : (
+          <CategorySelect
+            value={filter.categories[0] ?? ""}
+            onChange={(c) => updateFilter({ categories: c ? [c] : [] })}
+            type="all"
+            year={year || undefined}
+            allLabel="すべてのカテゴリ"
+          />
+        )}
+        <select value={filter.sort} onChange={(e) => updateFilter({ sort: e.target.value as TransactionSort })}
+          className="bg-slate-800 text-white text-sm rounded-lg px-3 py-2 border border-slate-700">
+          {(Object.keys(TRANSACTION_SORTS) as TransactionSort[]).map((s) => (
+            <option key={s} value={s}>{TRANSACTION_SORTS[s]}</option>
+          ))}
+        </select>
       </div>
       {/* キーワード・金額検索 */}
       <div className="flex flex-wrap gap-3 mb-5">
@@ -97,7 +379,7 @@ export default function TransactionsPage() {
             type="text"
             value={keyword}
             onChange={(e) => setKeyword(e.target.value)}
-            placeholder="項目名で検索"
+            placeholder="項目名・メモ・タグ・支払手段で検索"
             style={{ fontSize: "16px" }}
             className="bg-transparent text-white text-sm outline-none w-full"
           />
@@ -109,18 +391,81 @@ export default function TransactionsPage() {
           <span className="text-slate-500 text-sm">¥</span>
           <input
             type="number"
-            value={amount}
-            onChange={(e) => setAmount(e.target.value)}
+            value={filter.amount ?? ""}
+            onChange={(e) => updateFilter({ amount: parseAmountInput(e.target.value) })}
             placeholder="金額（完全一致）"
             style={{ fontSize: "16px" }}
             className="bg-transparent text-white text-sm outline-none w-32"
           />
-          {amount && (
-            <button onClick={() => setAmount("")} className="text-slate-500 hover:text-slate-300 text-xs">✕</button>
+          {filter.amount !== null && (
+            <button onClick={() => updateFilter({ amount: null })} className="text-slate-500 hover:text-slate-300 text-xs">✕</button>
           )}
         </div>
+        <button
+          onClick={() => setShowAdvanced((v) => !v)}
+          className={`px-3 py-2 text-sm rounded-lg border ${
+            showAdvanced ? "bg-slate-700 border-slate-600 text-white" : "bg-slate-800 border-slate-700 text-slate-300 hover:text-white"
+          }`}
+        >
+          詳細検索{countAdvancedConditions(filter) > 0 && ` (${countAdvancedConditions(filter)})`}
+        </button>
         <span className="text-slate-500 text-sm self-center">{total.toLocaleString()}件</span>
+        {/* 検索条件の期間の全件を月単位で収支合算レポートの形式でダウンロード（CSV はインポートで読み戻せる。手入力の取引は含まない） */}
+        <div className="flex items-center bg-slate-800 rounded-lg p-0.5 border border-slate-700 self-center">
+          <span className="text-slate-500 text-xs px-2">エクスポート</span>
+          {(["csv", "xlsx"] as const).map((format) => (
+            <a
+              key={format}
+              href={exportUrl(format)}
+              title={
+                format === "csv"
+                  ? "表示中の期間を月単位で出力します（期間以外の絞り込みは適用しません）。CSV インポートで読み戻せます"
+                  : "表示中の期間を月単位で出力します（期間以外の絞り込みは適用しません）。Excel ファイルは取り込めません"
+              }
+              className={`px-2.5 py-1 text-xs rounded-md text-slate-300 hover:bg-slate-700 hover:text-white ${
+                total === 0 ? "pointer-events-none opacity-40" : ""
+              }`}
+            >
+              {format === "csv" ? "CSV" : "Excel"}
+            </a>
+          ))}
+        </div>
+        <button
+          onClick={startAdd}
+          disabled={editing !== null}
+          className="ml-auto px-4 py-2 text-sm bg-blue-600 hover:bg-blue-500 disabled:bg-slate-700 text-white rounded-lg transition"
+        >
+          ＋ 取引を追加
+        </button>
       </div>
+      {showAdvanced && (
+        <AdvancedFilterPanel
+          filter={filter}
+          onChange={updateFilter}
+          onClear={clearFilter}
+          onCopyUrl={copyFilterUrl}
+          onSave={saveFilter}
+        />
+      )}
+      {savedFilters.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2 mb-5">
+          <span className="text-slate-500 text-xs">保存した検索条件</span>
+          {savedFilters.map((f) => {
+            const current = f.query === transactionFilterToParams(filter).toString();
+            return (
+              <span
+                key={f.id}
+                className={`flex items-center gap-1 text-xs rounded-full border pl-2.5 pr-1.5 py-1 ${
+                  current ? "bg-blue-600/20 border-blue-700 text-blue-300" : "bg-slate-800 border-slate-700 text-slate-300"
+                }`}
+              >
+                <Link href={`/transactions?${f.query}`} className="hover:text-white">{f.name}</Link>
+                <button onClick={() => deleteSavedFilter(f)} className="text-slate-500 hover:text-red-400 px-0.5">✕</button>
+              </span>
+            );
+          })}
+        </div>
+      )}
 
       <Card>
         {loading ? (
@@ -138,41 +483,114 @@ export default function TransactionsPage() {
                     <th className="text-right">金額</th>
                     <th className="hidden md:table-cell">支払手段</th>
                     <th className="hidden lg:table-cell">メモ</th>
+                    <th />
                   </tr>
                 </thead>
                 <tbody>
-                  {data.map((tx) => (
-                    <tr key={tx.id}>
-                      <td className="text-slate-500 text-xs whitespace-nowrap">{tx.date}</td>
-                      <td className="hidden sm:table-cell">
-                        <span className={`text-xs px-1.5 py-0.5 rounded ${
-                          tx.type === "収入" ? "bg-green-900/50 text-green-400" :
-                          tx.type === "振替" ? "bg-slate-700 text-slate-400" :
-                          "bg-red-900/50 text-red-400"
-                        }`}>{tx.type}</span>
-                      </td>
-                      <td className="hidden sm:table-cell text-slate-400 text-sm">{tx.category}</td>
-                      <td className="text-slate-300 text-sm">
-                        <div>{tx.itemName}</div>
-                        {/* モバイルでカテゴリをサブテキストで表示 */}
-                        <div className="sm:hidden text-xs text-slate-500">{tx.category}</div>
-                      </td>
-                      <td className={`text-right font-medium text-sm ${
-                        tx.type === "収入" ? "text-green-400" :
-                        tx.type === "振替" ? "text-slate-400" :
-                        "text-slate-200"
-                      }`}>
-                        {tx.type === "収入"
-                          ? `+${formatCurrency(tx.incomeAmount)}`
-                          : formatCurrency(tx.expenseAmount)}
-                      </td>
-                      <td className="hidden md:table-cell text-slate-500 text-xs">{tx.assetName}</td>
-                      <td className="hidden lg:table-cell text-slate-500 text-xs max-w-32 truncate">{tx.memo}</td>
-                    </tr>
+                  {editing && !editing.id && (
+                    <TransactionEditorRow
+                      draft={editing}
+                      onChange={setEditing}
+                      onSave={saveEditing}
+                      onCancel={() => setEditing(null)}
+                      saving={saving}
+                    />
+                  )}
+                  {data.map((tx) => editing?.id === tx.id ? (
+                    <TransactionEditorRow
+                      key={tx.id}
+                      draft={editing}
+                      onChange={setEditing}
+                      onSave={saveEditing}
+                      onCancel={() => setEditing(null)}
+                      saving={saving}
+                    />
+                  ) : (
+                    <Fragment key={tx.id}>
+                      <tr>
+                        <td className="text-slate-500 text-xs whitespace-nowrap">{tx.date}</td>
+                        <td className="hidden sm:table-cell">
+                          <span className={`text-xs px-1.5 py-0.5 rounded ${
+                            tx.type === "収入" ? "bg-green-900/50 text-green-400" :
+                            tx.type === "振替" ? "bg-slate-700 text-slate-400" :
+                            "bg-red-900/50 text-red-400"
+                          }`}>{tx.type}</span>
+                        </td>
+                        <td className="hidden sm:table-cell text-slate-400 text-sm">{tx.category}</td>
+                        <td className="text-slate-300 text-sm">
+                          <div>{tx.itemName}</div>
+                          {/* モバイルでカテゴリをサブテキストで表示 */}
+                          <div className="sm:hidden text-xs text-slate-500">{tx.category}</div>
+                        </td>
+                        <td className={`text-right font-medium text-sm ${
+                          tx.type === "収入" ? "text-green-400" :
+                          tx.type === "振替" ? "text-slate-400" :
+                          "text-slate-200"
+                        }`}>
+                          {tx.type === "収入"
+                            ? `+${formatCurrency(tx.incomeAmount)}`
+                            : formatCurrency(tx.expenseAmount)}
+                        </td>
+                        <td className="hidden md:table-cell text-slate-500 text-xs">{tx.assetName}</td>
+                        <td className="hidden lg:table-cell text-slate-500 text-xs max-w-32 truncate">{tx.memo}</td>
+                        <td className="text-right whitespace-nowrap">
+                          <button
+                            onClick={() => startSplit(tx)}
+                            disabled={editing !== null || splitting !== null}
+                            className="text-xs text-slate-400 hover:text-white disabled:opacity-40 px-1"
+                          >
+                            {tx.splits.length > 0 ? "分割編集" : "分割"}
+                          </button>
+                          {tx.source === "manual" && (
+                            <>
+                              <span className="text-[10px] text-blue-400 border border-blue-900 rounded px-1 mr-1">手入力</span>
+                              <button
+                                onClick={() => setEditing(toDraft(tx))}
+                                disabled={editing !== null}
+                                className="text-xs text-slate-400 hover:text-white disabled:opacity-40 px-1"
+                              >
+                                編集
+                              </button>
+                              <button
+                                onClick={() => deleteTransaction(tx)}
+                                disabled={editing !== null}
+                                className="text-xs text-slate-500 hover:text-red-400 disabled:opacity-40 px-1"
+                              >
+                                削除
+                              </button>
+                            </>
+                          )}
+                        </td>
+                      </tr>
+                      {splitting?.transaction.id === tx.id ? (
+                        <SplitEditorRow
+                          draft={splitting}
+                          onChange={setSplitting}
+                          onSave={saveSplit}
+                          onCancel={() => setSplitting(null)}
+                          saving={saving}
+                        />
+                      ) : (
+                        tx.splits.map((l) => (
+                          <tr key={`split-${l.id}`} className="bg-slate-900/40">
+                            <td />
+                            <td className="hidden sm:table-cell" />
+                            <td className="hidden sm:table-cell text-slate-400 text-xs">└ {l.category}</td>
+                            <td className="text-slate-500 text-xs">
+                              <span className="sm:hidden">└ {l.category} </span>{l.memo}
+                            </td>
+                            <td className="text-right text-slate-400 text-xs">{formatCurrency(l.amount)}</td>
+                            <td className="hidden md:table-cell" />
+                            <td className="hidden lg:table-cell" />
+                            <td />
+                          </tr>
+                        ))
+                      )}
+                    </Fragment>
                   ))}
-                  {data.length === 0 && (
+                  {data.length === 0 && !editing && (
                     <tr>
-                      <td colSpan={7} className="text-center text-slate-500 py-8">データがありません</td>
+                      <td colSpan={8} className="text-center text-slate-500 py-8">データがありません</td>
                     </tr>
                   )}
                 </tbody>
@@ -205,3 +623,335 @@ export default function TransactionsPage() {
     </div>
   );
 }
+
+/** 詳細検索（日付範囲・複数カテゴリ・金額範囲・P/L 除外） */
+function AdvancedFilterPanel({
+  filter, onChange, onClear, onCopyUrl, onSave,
+}: {
+  filter: TransactionFilter;
+  onChange: (patch: Partial<TransactionFilter>) => void;
+  onClear: () => void;
+  onCopyUrl: () => void;
+  onSave: () => void;
+}) {
+  const inputClass = "bg-slate-800 text-white text-sm rounded-lg px-2 py-1.5 border border-slate-700 focus:border-blue-500 outline-none";
+  const [categoryOptions, setCategoryOptions] = useState<string[]>([]);
+
+  useEffect(() => {
+    const params = new URLSearchParams({ type: "all" });
+    if (filter.year) params.set("year", String(filter.year));
+    fetch(`/api/categories?${params}`)
+      .then((r) => r.json())
+      .then((json) => setCategoryOptions((json.data ?? []).map((d: { category: string }) => d.category)))
+      .catch(() => {});
+  }, [filter.year]);
+
+  // 選択中のカテゴリがその年に出てこなくても選択肢に残す
+  const options = [...categoryOptions, ...filter.categories.filter((c) => !categoryOptions.includes(c))];
+
+  function toggleCategory(category: string) {
+    onChange({
+      categories: filter.categories.includes(category)
+        ? filter.categories.filter((c) => c !== category)
+        : [...filter.categories, category],
+    });
+  }
+
+  return (
+    <Card className="mb-5">
+      <div className="space-y-4">
+        <div className="flex flex-wrap items-center gap-4">
+          <div className="flex items-center gap-2">
+            <span className="text-slate-400 text-xs">日付</span>
+            <input
+              type="date"
+              value={filter.dateFrom ?? ""}
+              onChange={(e) => onChange({ dateFrom: e.target.value || null })}
+              className={inputClass}
+            />
+            <span className="text-slate-500 text-xs">〜</span>
+            <input
+              type="date"
+              value={filter.dateTo ?? ""}
+              onChange={(e) => onChange({ dateTo: e.target.value || null })}
+              className={inputClass}
+            />
+          </div>
+          <div className="flex items-center gap-2">
+            <span className="text-slate-400 text-xs">金額</span>
+            <input
+              type="number"
+              min={0}
+              value={filter.amountMin ?? ""}
+              onChange={(e) => onChange({ amountMin: parseAmountInput(e.target.value) })}
+              placeholder="下限"
+              style={{ fontSize: "16px" }}
+              className={`${inputClass} w-28 text-right`}
+            />
+            <span className="text-slate-500 text-xs">〜</span>
+            <input
+              type="number"
+              min={0}
+              value={filter.amountMax ?? ""}
+              onChange={(e) => onChange({ amountMax: parseAmountInput(e.target.value) })}
+              placeholder="上限"
+              style={{ fontSize: "16px" }}
+              className={`${inputClass} w-28 text-right`}
+            />
+          </div>
+          <div className="flex items-center gap-2">
+            <span className="text-slate-400 text-xs">P/L</span>
+            <select
+              value={filter.pl ?? ""}
+              onChange={(e) => onChange({ pl: (e.target.value || null) as TransactionPlFilter | null })}
+              className={inputClass}
+            >
+              <option value="">すべて</option>
+              <option value="included">集計対象のみ</option>
+              <option value="excluded">収支から除外のみ</option>
+            </select>
+          </div>
+          {(filter.year || filter.month || filter.quarter) && (filter.dateFrom || filter.dateTo) && (
+            <span className="text-amber-400 text-xs">年・月の指定と日付範囲の両方で絞り込んでいます</span>
+          )}
+        </div>
+
+        <div>
+          <div className="flex items-center gap-3 mb-2">
+            <span className="text-slate-400 text-xs">カテゴリ（複数選択）</span>
+            {filter.categories.length > 0 && (
+              <button onClick={() => onChange({ categories: [] })} className="text-xs text-slate-500 hover:text-slate-300">
+                選択を解除
+              </button>
+            )}
+          </div>
+          <div className="flex flex-wrap gap-1.5">
+            {options.map((c) => {
+              const selected = filter.categories.includes(c);
+              return (
+                <button
+                  key={c}
+                  onClick={() => toggleCategory(c)}
+                  className={`text-xs px-2 py-1 rounded-full border transition ${
+                    selected
+                      ? "bg-blue-600 border-blue-500 text-white"
+                      : "bg-slate-800 border-slate-700 text-slate-400 hover:text-white"
+                  }`}
+                >
+                  {c}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+
+        <div className="flex gap-2 justify-end">
+          <button onClick={onClear} className="px-3 py-1.5 text-xs bg-slate-700 hover:bg-slate-600 text-slate-300 rounded-lg">
+            条件をクリア
+          </button>
+          <button onClick={onCopyUrl} className="px-3 py-1.5 text-xs bg-slate-700 hover:bg-slate-600 text-slate-300 rounded-lg">
+            URL をコピー
+          </button>
+          <button onClick={onSave} className="px-3 py-1.5 text-xs bg-blue-600 hover:bg-blue-500 text-white rounded-lg">
+            この条件を保存
+          </button>
+        </div>
+      </div>
+    </Card>
+  );
+}
+
+/** 取引の追加・編集フォーム（テーブル内に1行で表示） */
+function TransactionEditorRow({
+  draft, onChange, onSave, onCancel, saving,
+}: {
+  draft: TransactionDraft;
+  onChange: (d: TransactionDraft) => void;
+  onSave: () => void;
+  onCancel: () => void;
+  saving: boolean;
+}) {
+  const inputClass = "bg-slate-800 text-white text-sm rounded-lg px-2 py-1.5 border border-slate-700 focus:border-blue-500 outline-none";
+  const set = (patch: Partial<TransactionDraft>) => onChange({ ...draft, ...patch });
+
+  return (
+    <tr className="bg-slate-900/60">
+      <td colSpan={8}>
+        <div className="flex flex-wrap items-center gap-2 py-1">
+          <input type="date" value={draft.date} onChange={(e) => set({ date: e.target.value })} className={inputClass} />
+          <select
+            value={draft.type}
+            onChange={(e) => set({ type: e.target.value, category: e.target.value === "振替" ? "振替" : "" })}
+            className={inputClass}
+          >
+            <option value="支出">支出</option>
+            <option value="収入">収入</option>
+            <option value="振替">振替</option>
+          </select>
+          {draft.type === "振替" ? (
+            <>
+              <input value={draft.category} onChange={(e) => set({ category: e.target.value })} className={`${inputClass} w-28`} />
+              <select
+                value={draft.transferDirection}
+                onChange={(e) => set({ transferDirection: e.target.value as "out" | "in" })}
+                className={inputClass}
+              >
+                <option value="out">出金</option>
+                <option value="in">入金</option>
+              </select>
+            </>
+          ) : (
+            <CategorySelect
+              value={draft.category}
+              onChange={(category) => set({ category })}
+              type={draft.type === "収入" ? "income" : "expense"}
+              includeAll={false}
+              className="py-1.5 px-2"
+            />
+          )}
+          <input
+            value={draft.itemName}
+            onChange={(e) => set({ itemName: e.target.value })}
+            placeholder="項目名"
+            style={{ fontSize: "16px" }}
+            className={`${inputClass} w-36`}
+          />
+          <input
+            type="number"
+            min={1}
+            value={draft.amount}
+            onChange={(e) => set({ amount: e.target.value })}
+            placeholder="金額"
+            style={{ fontSize: "16px" }}
+            className={`${inputClass} w-28 text-right`}
+          />
+          <input
+            value={draft.assetName}
+            onChange={(e) => set({ assetName: e.target.value })}
+            placeholder="支払手段"
+            style={{ fontSize: "16px" }}
+            className={`${inputClass} w-28`}
+          />
+          <input
+            value={draft.memo}
+            onChange={(e) => set({ memo: e.target.value })}
+            placeholder="メモ"
+            style={{ fontSize: "16px" }}
+            className={`${inputClass} w-36`}
+          />
+          <label className="flex items-center gap-1 text-xs text-slate-400">
+            <input type="checkbox" checked={draft.excludeFromPl} onChange={(e) => set({ excludeFromPl: e.target.checked })} />
+            収支から除外
+          </label>
+          <div className="ml-auto flex gap-2">
+            <button onClick={onCancel} disabled={saving} className="px-3 py-1.5 text-xs bg-slate-700 hover:bg-slate-600 text-slate-300 rounded-lg">
+              キャンセル
+            </button>
+            <button
+              onClick={onSave}
+              disabled={saving || !draft.category || !draft.amount}
+              className="px-3 py-1.5 text-xs bg-blue-600 hover:bg-blue-500 disabled:bg-slate-700 text-white rounded-lg"
+            >
+              {saving ? "保存中..." : "保存"}
+            </button>
+          </div>
+        </div>
+      </td>
+    </tr>
+  );
+}
+
+/** 分割明細の編集フォーム（親取引の下に表示） */
+function SplitEditorRow({
+  draft, onChange, onSave, onCancel, saving,
+}: {
+  draft: SplitDraft;
+  onChange: (d: SplitDraft) => void;
+  onSave: (lines: SplitDraft["lines"]) => void;
+  onCancel: () => void;
+  saving: boolean;
+}) {
+  const inputClass = "bg-slate-800 text-white text-sm rounded-lg px-2 py-1.5 border border-slate-700 focus:border-blue-500 outline-none";
+  const tx = draft.transaction;
+  const total = tx.expenseAmount || tx.incomeAmount;
+  const remaining = total - draft.lines.reduce((s, l) => s + (Number(l.amount) || 0), 0);
+  const setLine = (i: number, patch: Partial<SplitDraft["lines"][number]>) =>
+    onChange({ ...draft, lines: draft.lines.map((l, j) => (j === i ? { ...l, ...patch } : l)) });
+
+  return (
+    <tr className="bg-slate-900/60">
+      <td colSpan={8}>
+        <div className="space-y-1.5 py-1">
+          {draft.lines.map((line, i) => (
+            <div key={i} className="flex flex-wrap items-center gap-2">
+              <span className="text-slate-600 text-xs">└</span>
+              <CategorySelect
+                value={line.category}
+                onChange={(category) => setLine(i, { category })}
+                type={tx.type === "収入" ? "income" : tx.type === "支出" ? "expense" : "all"}
+                includeAll={false}
+                className="py-1.5 px-2"
+              />
+              <input
+                type="number"
+                min={1}
+                value={line.amount}
+                onChange={(e) => setLine(i, { amount: e.target.value })}
+                placeholder="金額"
+                style={{ fontSize: "16px" }}
+                className={`${inputClass} w-28 text-right`}
+              />
+              <input
+                value={line.memo}
+                onChange={(e) => setLine(i, { memo: e.target.value })}
+                placeholder="メモ"
+                style={{ fontSize: "16px" }}
+                className={`${inputClass} w-40`}
+              />
+              {draft.lines.length > 2 && (
+                <button
+                  onClick={() => onChange({ ...draft, lines: draft.lines.filter((_, j) => j !== i) })}
+                  className="text-xs text-slate-500 hover:text-red-400"
+                >
+                  ✕
+                </button>
+              )}
+            </div>
+          ))}
+          <div className="flex flex-wrap items-center gap-2 pt-1">
+            <button
+              onClick={() => onChange({ ...draft, lines: [...draft.lines, { category: "", amount: "", memo: "" }] })}
+              className="px-3 py-1.5 text-xs bg-slate-700 hover:bg-slate-600 text-slate-300 rounded-lg"
+            >
+              ＋ 行を追加
+            </button>
+            <span className={`text-xs ${remaining === 0 ? "text-slate-500" : "text-amber-400"}`}>
+              合計 {formatCurrency(total)} / 未割り当て {formatCurrency(remaining)}
+            </span>
+            <div className="ml-auto flex gap-2">
+              {tx.splits.length > 0 && (
+                <button
+                  onClick={() => onSave([])}
+                  disabled={saving}
+                  className="px-3 py-1.5 text-xs bg-slate-700 hover:bg-red-900/60 text-slate-300 rounded-lg"
+                >
+                  分割を解除
+                </button>
+              )}
+              <button onClick={onCancel} disabled={saving} className="px-3 py-1.5 text-xs bg-slate-700 hover:bg-slate-600 text-slate-300 rounded-lg">
+                キャンセル
+              </button>
+              <button
+                onClick={() => onSave(draft.lines)}
+                disabled={saving || remaining !== 0 || draft.lines.some((l) => !l.category || !Number(l.amount))}
+                className="px-3 py-1.5 text-xs bg-blue-600 hover:bg-blue-500 disabled:bg-slate-700 text-white rounded-lg"
+              >
+                {saving ? "保存中..." : "分割を保存"}
+              </button>
+            </div>
+          </div>
+        </div>
+      </td>
+    </tr>
+  );
+}
@@ -1,7 +1,11 @@
 "use client";
+import { Fragment, useEffect, useState } from "react";
 import Link from "next/link";
 import { usePathname } from "next/navigation";
 import { cn } from "@/lib/utils";
+import { SAVED_FILTERS_CHANGED_EVENT } from "@/lib/transaction-filter";
+import { NOTIFICATIONS_CHANGED_EVENT } from "@/lib/notifications";
+import type { SavedFilter } from "@/lib/schema";
 
 const navItems = [
   { href: "/report", label: "決算レポート", icon: "📊" },
@@ -16,12 +20,42 @@ const navItems = [
   { href: "/standard-budget", label: "標準予算", icon: "⊙" },
   { href: "/special-expense", label: "特別経費B", icon: "★" },
   { href: "/import", label: "CSVインポート", icon: "↑" },
+  { href: "/categories", label: "カテゴリ設定", icon: "▤" },
+  { href: "/rules", label: "分類ルール", icon: "⇄" },
+  { href: "/notifications", label: "通知", icon: "🔔" },
 ];
 
 type Props = { isOpen?: boolean; onClose?: () => void };
 
 export default function Sidebar({ isOpen, onClose }: Props) {
   const pathname = usePathname();
+  const [savedFilters, setSavedFilters] = useState<SavedFilter[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+
+  // 保存した検索条件を取引明細の下に表示する（取引明細ページで保存・削除されたら読み直す）
+  useEffect(() => {
+    const load = () =>
+      fetch("/api/saved-filters")
+        .then((r) => r.json())
+        .then((json) => setSavedFilters(json.data ?? []))
+        .catch(() => {});
+    load();
+    window.addEventListener(SAVED_FILTERS_CHANGED_EVENT, load);
+    return () => window.removeEventListener(SAVED_FILTERS_CHANGED_EVENT, load);
+  }, []);
+
+  // 未読の通知数をバッジにする（ページ移動・インポート・通知ページでの既読で読み直す）
+  useEffect(() => {
+    const load = () =>
+      fetch("/api/notifications?summary=1")
+        .then((r) => r.json())
+        .then((json) => setUnreadCount(json.unreadCount ?? 0))
+        .catch(() => {});
+    load();
+    window.addEventListener(NOTIFICATIONS_CHANGED_EVENT, load);
+    return () => window.removeEventListener(NOTIFICATIONS_CHANGED_EVENT, load);
+  }, [pathname]);
+
   return (
     <>
       {/* モバイル用オーバーレイ背景 */}
@@ -63,20 +97,36 @@ export default function Sidebar({ isOpen, onClose }: Props) {
           {navItems.map((item) => {
             const active = pathname === item.href || (item.href !== "/" && pathname.startsWith(item.href));
             return (
-              <Link
-                key={item.href}
-                href={item.href}
-                onClick={onClose}
-                className={cn(
-                  "flex items-center gap-3 px-4 py-2.5 text-sm transition-colors",
-                  active
-                    ? "bg-blue-600/20 text-blue-400 border-r-2 border-blue-500"
-                    : "text-slate-400 hover:text-slate-200 hover:bg-slate-800"
-                )}
-              >
-                <span className="text-base w-5 text-center">{item.icon}</span>
-                <span>{item.label}</span>
-              </Link>
+              <Fragment key={item.href}>
+                <Link
+                  href={item.href}
+                  onClick={onClose}
+                  className={cn(
+                    "flex items-center gap-3 px-4 py-2.5 text-sm transition-colors",
+                    active
+                      ? "bg-blue-600/20 text-blue-400 border-r-2 border-blue-500"
+                      : "text-slate-400 hover:text-slate-200 hover:bg-slate-800"
+                  )}
+                >
+                  <span className="text-base w-5 text-center">{item.icon}</span>
+                  <span>{item.label}</span>
+                  {item.href === "/notifications" && unreadCount > 0 && (
+                    <span className="ml-auto min-w-5 px-1.5 py-0.5 rounded-full bg-red-500 text-white text-xs leading-none text-center tabular-nums">
+                      {unreadCount > 99 ? "99+" : unreadCount}
+                    </span>
+                  )}
+                </Link>
+                {item.href === "/transactions" && savedFilters.map((f) => (
+                  <Link
+                    key={f.id}
+                    href={`/transactions?${f.query}`}
+                    onClick={onClose}
+                    className="flex items-center gap-2 pl-12 pr-4 py-1.5 text-xs text-slate-500 hover:text-slate-200 hover:bg-slate-800 truncate"
+                  >
+                    <span className="truncate">{f.name}</span>
+                  </Link>
+                ))}
+              </Fragment>
             );
           })}
         </nav>
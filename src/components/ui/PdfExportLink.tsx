@@ -0,0 +1,25 @@
+/**
+ * 帳票 PDF のダウンロードボタン
+ * PDF は日本語フォントを埋め込まずに閲覧ソフトの標準フォント（HeiseiKakuGo-W5）を参照するため（src/lib/pdf.ts）、
+ * 日本語フォントを持たない閲覧ソフトでは文字が表示されないことをボタンの横に示す。
+ */
+const FONT_NOTE =
+  "PDF にフォントは埋め込まれていません。日本語は閲覧ソフトの標準フォントで表示されるため、" +
+  "Adobe Acrobat Reader・macOS のプレビュー・ブラウザ以外では文字が表示されないことがあります";
+
+export function PdfExportLink({ href }: { href: string }) {
+  return (
+    <span className="flex items-center gap-2">
+      <a
+        href={href}
+        title={FONT_NOTE}
+        className="px-3 py-2 text-sm bg-slate-800 hover:bg-slate-700 text-slate-300 hover:text-white rounded-lg border border-slate-700 transition"
+      >
+        PDF 出力
+      </a>
+      <span className="text-xs text-slate-500" title={FONT_NOTE}>
+        ※フォント非埋め込み
+      </span>
+    </span>
+  );
+}
@@ -0,0 +1,228 @@
+/**
+ * 年次決算レポートの PDF
+ * 決算レポート画面の年次タブと同じ内容（KPI・月別収支・カテゴリ別支出・保存済みの定性分析）を
+ * 保管・共有（パートナーや税理士への提出）向けに A4 縦の白地で出力する。
+ */
+import { formatCurrency, formatCurrencySigned, MONTH_NAMES } from "./utils";
+import { createPdfDocument, wrapText, type PdfColor } from "./pdf";
+import {
+  createWriter,
+  drawEmpty,
+  drawFooters,
+  drawRow,
+  drawTitle,
+  BAR,
+  BLUE,
+  CONTENT_WIDTH,
+  GREEN,
+  MARGIN,
+  MUTED,
+  PANEL,
+  RED,
+  TEXT,
+  type Column,
+  type Writer,
+} from "./report-pdf";
+import type { AnnualReport } from "./annual-report";
+import type { ReportAnalysis } from "./schema";
+
+function yoyLabel(value: number | null): string {
+  if (value === null) return "前年比 —";
+  const arrow = value > 0 ? "▲" : value < 0 ? "▼" : "—";
+  return `前年比 ${arrow} ${Math.abs(value).toFixed(1)}%`;
+}
+
+function drawKpis(w: Writer, report: AnnualReport) {
+  const kpis: { label: string; value: string; sub: string; color: PdfColor }[] = [
+    {
+      label: "年間収入",
+      value: formatCurrency(report.income.current),
+      sub: `前年: ${formatCurrency(report.income.prev)}  ${yoyLabel(report.income.yoy)}`,
+      color: GREEN,
+    },
+    {
+      label: "年間支出",
+      value: formatCurrency(report.expense.current),
+      sub: `前年: ${formatCurrency(report.expense.prev)}  ${yoyLabel(report.expense.yoy)}`,
+      color: RED,
+    },
+    {
+      label: "年間純損益（貯蓄額）",
+      value: formatCurrencySigned(report.netIncome.current),
+      sub: `前年: ${formatCurrencySigned(report.netIncome.prev)}`,
+      color: report.netIncome.current >= 0 ? GREEN : RED,
+    },
+    {
+      label: "貯蓄率",
+      value: `${report.savingsRate.current.toFixed(1)}%`,
+      sub: `前年: ${report.savingsRate.prev.toFixed(1)}%`,
+      color: BLUE,
+    },
+    {
+      label: "期末純資産",
+      value: formatCurrency(report.netAsset.end),
+      sub: `前年末: ${formatCurrency(report.netAsset.prevEnd)}  ${yoyLabel(report.netAsset.yoy)}`,
+      color: BLUE,
+    },
+    {
+      label: "純資産増減（年間）",
+      value: formatCurrencySigned(report.netAsset.change),
+      sub: `期首: ${formatCurrency(report.netAsset.start)} → 期末: ${formatCurrency(report.netAsset.end)}`,
+      color: report.netAsset.change >= 0 ? GREEN : RED,
+    },
+  ];
+
+  w.heading("主要指標");
+  const gap = 10;
+  const boxW = (CONTENT_WIDTH - gap) / 2;
+  const boxH = 54;
+  for (let i = 0; i < kpis.length; i += 2) {
+    w.ensure(boxH + gap);
+    kpis.slice(i, i + 2).forEach((kpi, j) => {
+      const x = MARGIN + j * (boxW + gap);
+      w.pdf.rect(x, w.y, boxW, boxH, PANEL);
+      w.pdf.text(x + 10, w.y + 8, kpi.label, { size: 8, color: MUTED });
+      w.pdf.text(x + 10, w.y + 20, kpi.value, { size: 14, color: kpi.color });
+      w.pdf.text(x + 10, w.y + 40, kpi.sub, { size: 7, color: MUTED });
+    });
+    w.advance(boxH + gap);
+  }
+
+  const { bestMonth, worstMonth } = report.highlights;
+  if (bestMonth || worstMonth) {
+    w.ensure(16);
+    const parts = [
+      bestMonth && `最高月（貯蓄額）: ${bestMonth.month}月 ${formatCurrencySigned(bestMonth.netIncome)}`,
+      worstMonth && `最低月（貯蓄額）: ${worstMonth.month}月 ${formatCurrencySigned(worstMonth.netIncome)}`,
+    ].filter(Boolean);
+    w.pdf.text(MARGIN, w.y, parts.join("　／　"), { size: 8, color: MUTED });
+    w.advance(16);
+  }
+}
+
+function drawMonthlyTable(w: Writer, report: AnnualReport) {
+  w.heading("月別収支");
+  const columns: Column[] = [
+    { label: "月", width: 60, align: "left" },
+    { label: "収入", width: 110, align: "right" },
+    { label: "支出", width: 110, align: "right" },
+    { label: "純損益", width: 110, align: "right" },
+    { label: "貯蓄率", width: CONTENT_WIDTH - 390, align: "right" },
+  ];
+  const rate = (income: number, expense: number) =>
+    income > 0 ? `${(((income - expense) / income) * 100).toFixed(1)}%` : "—";
+
+  drawRow(w, columns, columns.map((c) => ({ text: c.label })), { header: true });
+  for (const m of report.monthly) {
+    drawRow(w, columns, [
+      { text: MONTH_NAMES[m.month - 1] },
+      { text: formatCurrency(m.totalIncome) },
+      { text: formatCurrency(m.totalExpense) },
+      { text: formatCurrencySigned(m.netIncome), color: m.netIncome >= 0 ? GREEN : RED },
+      { text: rate(m.totalIncome, m.totalExpense) },
+    ]);
+  }
+  drawRow(
+    w,
+    columns,
+    [
+      { text: "合計" },
+      { text: formatCurrency(report.income.current) },
+      { text: formatCurrency(report.expense.current) },
+      { text: formatCurrencySigned(report.netIncome.current), color: report.netIncome.current >= 0 ? GREEN : RED },
+      { text: rate(report.income.current, report.expense.current) },
+    ],
+    { shade: true }
+  );
+}
+
+function drawCategoryTable(w: Writer, report: AnnualReport) {
+  w.heading("カテゴリ別支出");
+  if (report.categories.length === 0) {
+    drawEmpty(w);
+    return;
+  }
+  const columns: Column[] = [
+    { label: "カテゴリ", width: 150, align: "left" },
+    { label: "金額", width: 100, align: "right" },
+    { label: "構成比", width: 60, align: "right" },
+    { label: "", width: CONTENT_WIDTH - 310, align: "left" },
+  ];
+  const barX = MARGIN + 310 + 8;
+  const barMaxW = CONTENT_WIDTH - 310 - 16;
+  const maxRatio = Math.max(...report.categories.map((c) => c.ratio), 1);
+
+  drawRow(w, columns, columns.map((c) => ({ text: c.label })), { header: true });
+  for (const c of report.categories) {
+    const top = drawRow(w, columns, [
+      { text: c.category },
+      { text: formatCurrency(c.total) },
+      { text: `${c.ratio.toFixed(1)}%` },
+      { text: "" },
+    ]);
+    w.pdf.rect(barX, top + 5, Math.max((c.ratio / maxRatio) * barMaxW, 0.5), 7, BAR);
+  }
+}
+
+/** 定性分析（Markdown の見出し・箇条書き・段落だけを解釈する） */
+function drawAnalysis(w: Writer, analysis: ReportAnalysis | null) {
+  w.heading("定性分析レポート（AI）");
+  if (!analysis) {
+    drawEmpty(w, "定性分析レポートは未作成です");
+    return;
+  }
+
+  for (const raw of analysis.analysis.split("\n")) {
+    const line = raw.replace(/\*\*(.+?)\*\*/g, "$1").trimEnd();
+    if (line.trim() === "") {
+      w.advance(5);
+      continue;
+    }
+    const heading = line.match(/^(#{1,4})\s+(.*)$/);
+    if (heading) {
+      const size = heading[1].length <= 2 ? 12 : 11;
+      w.ensure(size + 22);
+      w.advance(8);
+      w.pdf.text(MARGIN, w.y, heading[2], { size, color: TEXT });
+      w.advance(size + 6);
+      continue;
+    }
+    const bullet = line.match(/^\s*(?:[-*]|\d+\.)\s+(.*)$/);
+    const size = 9;
+    const lineH = 14;
+    const indent = bullet ? 12 : 0;
+    const lines = wrapText(bullet ? bullet[1] : line, size, CONTENT_WIDTH - indent);
+    lines.forEach((text, i) => {
+      w.ensure(lineH);
+      if (bullet && i === 0) w.pdf.text(MARGIN + 2, w.y, "•", { size, color: BLUE });
+      w.pdf.text(MARGIN + indent, w.y, text, { size, color: TEXT });
+      w.advance(lineH);
+    });
+  }
+
+  w.advance(6);
+  w.ensure(14);
+  w.pdf.text(MARGIN, w.y, `生成日時: ${analysis.createdAt ? analysis.createdAt.toLocaleString("ja-JP", { timeZone: "Asia/Tokyo" }) : "—"}`, {
+    size: 7, color: MUTED,
+  });
+  w.advance(14);
+}
+
+export function renderAnnualReportPdf(report: AnnualReport, analysis: ReportAnalysis | null): Uint8Array<ArrayBuffer> {
+  const pdf = createPdfDocument();
+  const w = createWriter(pdf);
+
+  drawTitle(
+    w,
+    "Annual Financial Report",
+    `${report.year}年 家計決算報告`,
+    `対象期間: ${report.year}年1月1日 〜 ${report.year}年12月31日`
+  );
+  drawKpis(w, report);
+  drawMonthlyTable(w, report);
+  drawCategoryTable(w, report);
+  drawAnalysis(w, analysis);
+  drawFooters(pdf, `${report.year}年 家計決算報告`, new Date());
+
+  return pdf.build();
+}
@@ -0,0 +1,128 @@
+/**
+ * 年次決算レポートの集計
+ * 決算レポート画面（/api/report?type=annual）と PDF 出力の両方で使う。
+ * カテゴリ別の集計が分割明細のカテゴリで行われるよう、取引は transaction_lines ビューから読む。
+ */
+import { db } from "./db";
+import { transactionLines, assetSnapshots } from "./schema";
+import { eq, and, sql, ne } from "drizzle-orm";
+
+export async function getAnnualReport(year: number) {
+  const baseWhere = (y: number) =>
+    and(
+      eq(transactionLines.year, y),
+      eq(transactionLines.excludeFromPl, false),
+      ne(transactionLines.type, "振替"),
+      ne(transactionLines.category, "振替")
+    );
+
+  // 当年・前年の収支
+  const [curRows, prevRows] = await Promise.all([
+    db.select({
+      totalExpense: sql<number>`sum(expense_amount)`,
+      totalIncome: sql<number>`sum(income_amount)`,
+    }).from(transactionLines).where(baseWhere(year)),
+    db.select({
+      totalExpense: sql<number>`sum(expense_amount)`,
+      totalIncome: sql<number>`sum(income_amount)`,
+    }).from(transactionLines).where(baseWhere(year - 1)),
+  ]);
+
+  const curIncome = Number(curRows[0]?.totalIncome ?? 0);
+  const curExpense = Number(curRows[0]?.totalExpense ?? 0);
+  const prevIncome = Number(prevRows[0]?.totalIncome ?? 0);
+  const prevExpense = Number(prevRows[0]?.totalExpense ?? 0);
+
+  // 月別収支
+  const monthlyRows = await db
+    .select({
+      month: transactionLines.month,
+      totalExpense: sql<number>`sum(expense_amount)`,
+      totalIncome: sql<number>`sum(income_amount)`,
+    })
+    .from(transactionLines)
+    .where(baseWhere(year))
+    .groupBy(transactionLines.month)
+    .orderBy(transactionLines.month);
+
+  const monthly = Array.from({ length: 12 }, (_, i) => {
+    const m = i + 1;
+    const r = monthlyRows.find((x) => x.month === m);
+    const inc = Number(r?.totalIncome ?? 0);
+    const exp = Number(r?.totalExpense ?? 0);
+    return { month: m, totalIncome: inc, totalExpense: exp, netIncome: inc - exp };
+  });
+
+  // カテゴリ別支出
+  const categoryRows = await db
+    .select({
+      category: transactionLines.category,
+      total: sql<number>`sum(expense_amount)`,
+    })
+    .from(transactionLines)
+    .where(and(baseWhere(year), eq(transactionLines.type, "支出")))
+    .groupBy(transactionLines.category)
+    .orderBy(sql`sum(expense_amount) desc`);
+
+  const totalExpForRatio = Number(curRows[0]?.totalExpense ?? 0);
+  const categories = categoryRows.map((r) => ({
+    category: r.category,
+    total: Number(r.total ?? 0),
+    ratio: totalExpForRatio > 0 ? Math.round((Number(r.total ?? 0) / totalExpForRatio) * 1000) / 10 : 0,
+  }));
+
+  // 期首・期末純資産（1月 & 12月の closing_balance 合計）
+  const [assetStart, assetEnd, prevAssetEnd] = await Promise.all([
+    db.select({ net: sql<number>`sum(closing_balance)` }).from(assetSnapshots)
+      .where(and(eq(assetSnapshots.year, year), eq(assetSnapshots.month, 1))),
+    db.select({ net: sql<number>`sum(closing_balance)` }).from(assetSnapshots)
+      .where(and(eq(assetSnapshots.year, year), eq(assetSnapshots.month, 12))),
+    db.select({ net: sql<number>`sum(closing_balance)` }).from(assetSnapshots)
+      .where(and(eq(assetSnapshots.year, year - 1), eq(assetSnapshots.month, 12))),
+  ]);
+
+  const netAssetStart = Number(assetStart[0]?.net ?? 0);
+  const netAssetEnd = Number(assetEnd[0]?.net ?? 0);
+  const prevNetAssetEnd = Number(prevAssetEnd[0]?.net ?? 0);
+
+  // 最高支出月・最低支出月
+  const bestMonth = monthly.reduce((a, b) => (b.netIncome > a.netIncome ? b : a), monthly[0]);
+  const worstMonth = monthly.reduce((a, b) => (b.netIncome < a.netIncome ? b : a), monthly[0]);
+
+  return {
+    year,
+    income: {
+      current: curIncome,
+      prev: prevIncome,
+      yoy: prevIncome > 0 ? Math.round(((curIncome - prevIncome) / prevIncome) * 1000) / 10 : null,
+    },
+    expense: {
+      current: curExpense,
+      prev: prevExpense,
+      yoy: prevExpense > 0 ? Math.round(((curExpense - prevExpense) / prevExpense) * 1000) / 10 : null,
+    },
+    netIncome: {
+      current: curIncome - curExpense,
+      prev: prevIncome - prevExpense,
+    },
+    savingsRate: {
+      current: curIncome > 0 ? Math.round(((curIncome - curExpense) / curIncome) * 1000) / 10 : 0,
+      prev: prevIncome > 0 ? Math.round(((prevIncome - prevExpense) / prevIncome) * 1000) / 10 : 0,
+    },
+    netAsset: {
+      start: netAssetStart,
+      end: netAssetEnd,
+      change: netAssetEnd - netAssetStart,
+      prevEnd: prevNetAssetEnd,
+      yoy: prevNetAssetEnd > 0 ? Math.round(((netAssetEnd - prevNetAssetEnd) / prevNetAssetEnd) * 1000) / 10 : null,
+    },
+    monthly,
+    categories,
+    highlights: {
+      bestMonth: bestMonth ? { month: bestMonth.month, netIncome: bestMonth.netIncome } : null,
+      worstMonth: worstMonth ? { month: worstMonth.month, netIncome: worstMonth.netIncome } : null,
+    },
+  };
+}
+
+export type AnnualReport = Awaited<ReturnType<typeof getAnnualReport>>;
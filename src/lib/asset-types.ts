@@ -0,0 +1,17 @@
+/**
+ * 資産の種類（asset_snapshots.asset_type）の表示名
+ * DB に依存しないため、画面（貸借対照表）からも import できる。
+ */
+
+export const ASSET_TYPE_LABELS: Record<string, string> = {
+  bank: "銀行口座",
+  credit: "クレジットカード（負債）",
+  investment: "投資・証券",
+  ic_card: "IC カード",
+  qr_pay: "QR 決済",
+  cash: "現金",
+  other: "その他",
+};
+
+/** 貸借対照表の資産の部に並べる順（クレジットカードは負債の部に出す） */
+export const ASSET_SIDE_TYPES = ["bank", "investment", "ic_card", "qr_pay", "cash", "other"] as const;
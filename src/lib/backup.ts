@@ -0,0 +1,152 @@
+/**
+ * データベースのバックアップ・復元
+ * schema.ts で定義したすべてのテーブルを、バージョン付きの JSON アーカイブに書き出し・読み戻す。
+ * /api/backup と scripts/backup.ts の両方から使う。
+ *
+ * アーカイブの形式:
+ *   {
+ *     format: "kakei-analytics-backup",
+ *     version: 1,                         // アーカイブ形式のバージョン
+ *     schemaVersion: "0014_...",          // 書き出したときの最新マイグレーション（drizzle/meta/_journal.json）
+ *     createdAt: "2026-01-01T00:00:00Z",
+ *     tables: { transactions: [{ id, date, ... }], ... }  // テーブル名 → 行（列は schema.ts のプロパティ名）
+ *   }
+ *
+ * 復元:
+ *   - schemaVersion が現在のマイグレーションと一致しなければ復元しない（先にマイグレーションを揃える）
+ *   - mode = 'replace' … 全テーブルの行を削除してからアーカイブの行を入れる
+ *   - mode = 'merge'   … 既存の行は残し、主キー・一意制約が重ならない行だけを追加する
+ *   - 1回の db.batch() で実行するため、途中で失敗した場合は何も変わらない
+ */
+import { db } from "./db";
+import * as schema from "./schema";
+import { getTableColumns, is, sql } from "drizzle-orm";
+import { PgTable, getTableConfig } from "drizzle-orm/pg-core";
+import type { BatchItem } from "drizzle-orm/batch";
+import journal from "../../drizzle/meta/_journal.json";
+
+export const BACKUP_FORMAT = "kakei-analytics-backup";
+export const BACKUP_VERSION = 1;
+
+export type BackupArchive = {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  schemaVersion: string;
+  createdAt: string;
+  tables: Record<string, Record<string, unknown>[]>;
+};
+
+export type RestoreMode = "replace" | "merge";
+
+/** 1回の INSERT に含める行数 */
+const INSERT_CHUNK = 500;
+
+/** 現在のスキーマのバージョン（最新のマイグレーションのタグ） */
+export function currentSchemaVersion(): string {
+  return journal.entries[journal.entries.length - 1]?.tag ?? "";
+}
+
+/** schema.ts のテーブル（ビューは除く）をテーブル名で引けるようにする */
+function backupTables(): Map<string, PgTable> {
+  const tables = new Map<string, PgTable>();
+  for (const value of Object.values(schema)) {
+    if (is(value, PgTable)) tables.set(getTableConfig(value).name, value);
+  }
+  return tables;
+}
+
+export async function createBackup(): Promise<BackupArchive> {
+  const tables = backupTables();
+  const names = [...tables.keys()].sort();
+  const rows = await Promise.all(names.map((name) => db.select().from(tables.get(name)!)));
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    schemaVersion: currentSchemaVersion(),
+    createdAt: new Date().toISOString(),
+    tables: Object.fromEntries(names.map((name, i) => [name, rows[i] as Record<string, unknown>[]])),
+  };
+}
+
+/** アーカイブを検証する。問題があればエラーメッセージを返す */
+export function validateBackup(archive: unknown): { archive: BackupArchive } | { error: string } {
+  const a = archive as Partial<BackupArchive> | null;
+  if (!a || typeof a !== "object" || a.format !== BACKUP_FORMAT) {
+    return { error: "バックアップファイルの形式ではありません" };
+  }
+  if (a.version !== BACKUP_VERSION) {
+    return { error: `未対応のアーカイブ形式です（version ${a.version}）` };
+  }
+  const current = currentSchemaVersion();
+  if (a.schemaVersion !== current) {
+    return {
+      error: `スキーマのバージョンが異なります（バックアップ: ${a.schemaVersion} / 現在: ${current}）。マイグレーションを揃えてから復元してください`,
+    };
+  }
+  if (!a.tables || typeof a.tables !== "object") {
+    return { error: "テーブルのデータがありません" };
+  }
+
+  const tables = backupTables();
+  for (const [name, rows] of Object.entries(a.tables)) {
+    const table = tables.get(name);
+    if (!table) return { error: `不明なテーブルです（${name}）` };
+    if (!Array.isArray(rows)) return { error: `${name} の行が配列ではありません` };
+    const columns = getTableColumns(table);
+    for (const row of rows) {
+      if (!row || typeof row !== "object") return { error: `${name} に不正な行があります` };
+      const unknown = Object.keys(row).find((key) => !(key in columns));
+      if (unknown) return { error: `${name} に不明な列があります（${unknown}）` };
+    }
+  }
+  return { archive: a as BackupArchive };
+}
+
+/** JSON で文字列になった日時を Date に戻す */
+function reviveRow(table: PgTable, row: Record<string, unknown>): Record<string, unknown> {
+  const revived = { ...row };
+  for (const [key, column] of Object.entries(getTableColumns(table))) {
+    if (column.columnType === "PgTimestamp" && typeof revived[key] === "string") {
+      revived[key] = new Date(revived[key] as string);
+    }
+  }
+  return revived;
+}
+
+/** 復元する。戻り値はテーブルごとのアーカイブの行数 */
+export async function restoreBackup(archive: BackupArchive, mode: RestoreMode): Promise<Record<string, number>> {
+  const tables = backupTables();
+  const statements: BatchItem<"pg">[] = [];
+  const counts: Record<string, number> = {};
+
+  if (mode === "replace") {
+    for (const table of tables.values()) statements.push(db.delete(table));
+  }
+
+  for (const [name, rows] of Object.entries(archive.tables)) {
+    const table = tables.get(name)!;
+    counts[name] = rows.length;
+    for (let i = 0; i < rows.length; i += INSERT_CHUNK) {
+      const values = rows.slice(i, i + INSERT_CHUNK).map((row) => reviveRow(table, row));
+      const insert = db.insert(table).values(values);
+      statements.push(mode === "merge" ? insert.onConflictDoNothing() : insert);
+    }
+  }
+
+  // id を指定して入れたため、連番を最大値の次から振り直す
+  for (const [name, table] of tables) {
+    for (const column of Object.values(getTableColumns(table))) {
+      if (column.columnType !== "PgSerial") continue;
+      statements.push(
+        db.execute(
+          sql`select setval(pg_get_serial_sequence(${name}, ${column.name}), coalesce((select max(${sql.identifier(column.name)}) from ${table}), 0) + 1, false)`
+        )
+      );
+    }
+  }
+
+  if (statements.length > 0) {
+    await db.batch(statements as [BatchItem<"pg">, ...BatchItem<"pg">[]]);
+  }
+  return counts;
+}
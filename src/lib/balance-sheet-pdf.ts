@@ -0,0 +1,84 @@
+/**
+ * 貸借対照表の PDF
+ * 貸借対照表画面と同じ区分（資産の種類ごとの資産の部・負債の部・純資産）で、
+ * 指定した月末時点の残高を A4 縦の白地で出力する。
+ */
+import { formatCurrency } from "./utils";
+import { createPdfDocument } from "./pdf";
+import {
+  createWriter,
+  drawEmpty,
+  drawFooters,
+  drawRow,
+  drawTitle,
+  BLUE,
+  CONTENT_WIDTH,
+  GREEN,
+  RED,
+  type Column,
+  type Writer,
+} from "./report-pdf";
+import type { BalanceSheet } from "./balance-sheet";
+
+const columns: Column[] = [
+  { label: "", width: CONTENT_WIDTH - 160, align: "left" },
+  { label: "", width: 160, align: "right" },
+];
+
+function drawAssets(w: Writer, bs: BalanceSheet) {
+  w.heading("資産の部");
+  if (bs.assetGroups.length === 0) {
+    drawEmpty(w);
+    return;
+  }
+  for (const group of bs.assetGroups) {
+    drawRow(w, columns, [{ text: group.label }, { text: formatCurrency(group.subtotal), color: BLUE }], { shade: true });
+    for (const item of group.items) {
+      drawRow(w, columns, [{ text: `　${item.assetName}` }, { text: formatCurrency(item.balance) }]);
+    }
+  }
+  drawRow(w, columns, [{ text: "資産合計" }, { text: formatCurrency(bs.totalAssets), color: BLUE }], { shade: true });
+}
+
+function drawLiabilities(w: Writer, bs: BalanceSheet) {
+  w.heading("負債の部");
+  if (bs.liabilities.length === 0) {
+    drawEmpty(w, "負債なし");
+    return;
+  }
+  for (const item of bs.liabilities) {
+    drawRow(w, columns, [{ text: item.assetName }, { text: formatCurrency(item.balance), color: RED }]);
+  }
+  drawRow(w, columns, [{ text: "負債合計" }, { text: formatCurrency(bs.totalLiabilities), color: RED }], { shade: true });
+}
+
+function drawNetAssets(w: Writer, bs: BalanceSheet) {
+  w.heading("純資産");
+  drawRow(w, columns, [{ text: "資産合計" }, { text: formatCurrency(bs.totalAssets) }]);
+  drawRow(w, columns, [{ text: "負債合計" }, { text: `− ${formatCurrency(bs.totalLiabilities)}` }]);
+  drawRow(
+    w,
+    columns,
+    [{ text: "純資産" }, { text: formatCurrency(bs.netAssets), color: bs.netAssets >= 0 ? GREEN : RED }],
+    { shade: true }
+  );
+}
+
+export function renderBalanceSheetPdf(bs: BalanceSheet): Uint8Array<ArrayBuffer> {
+  const pdf = createPdfDocument();
+  const w = createWriter(pdf);
+  const lastDay = new Date(Date.UTC(bs.year, bs.month, 0)).getUTCDate();
+
+  drawTitle(
+    w,
+    "Balance Sheet",
+    `${bs.year}年${bs.month}月末 貸借対照表`,
+    `基準日: ${bs.year}年${bs.month}月${lastDay}日（各資産はこの日以前で最新の月末残高）`
+  );
+  drawAssets(w, bs);
+  drawLiabilities(w, bs);
+  drawNetAssets(w, bs);
+  drawFooters(pdf, `${bs.year}年${bs.month}月末 貸借対照表`, new Date());
+
+  return pdf.build();
+}
@@ -0,0 +1,81 @@
+/**
+ * 貸借対照表の集計
+ * 貸借対照表画面（/api/analytics?type=asset）と PDF 出力（/api/report?type=balance_sheet）の両方で使う。
+ * 残高がマイナスの資産（カードの未払いなど）を負債、それ以外を資産として扱う。
+ */
+import { db } from "./db";
+import { sql } from "drizzle-orm";
+import { ASSET_SIDE_TYPES, ASSET_TYPE_LABELS } from "./asset-types";
+
+export type AssetBalance = {
+  id: number;
+  assetName: string;
+  year: number;
+  month: number;
+  openingBalance: number;
+  closingBalance: number;
+  assetType: string;
+  updatedAt: Date | string | null;
+};
+
+/**
+ * 各資産について「指定年月以前の最新スナップショット」を返す
+ * → 月に取引がなかった口座も最後に記録された残高で表示できる
+ */
+export async function getAssetBalancesAsOf(year: number, month: number): Promise<AssetBalance[]> {
+  const rows = await db.execute(
+    sql`
+      SELECT DISTINCT ON (asset_name)
+        id, asset_name, year, month,
+        opening_balance, closing_balance, asset_type, updated_at
+      FROM asset_snapshots
+      WHERE (year * 100 + month) <= ${year * 100 + month}
+      ORDER BY asset_name, (year * 100 + month) DESC
+    `
+  );
+  // 生SQLはsnake_caseで返るので camelCase に変換
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  return (rows.rows as any[]).map((r) => ({
+    id: r.id,
+    assetName: r.asset_name,
+    year: Number(r.year),
+    month: Number(r.month),
+    openingBalance: Number(r.opening_balance),
+    closingBalance: Number(r.closing_balance),
+    assetType: r.asset_type,
+    updatedAt: r.updated_at,
+  }));
+}
+
+export async function getBalanceSheet(year: number, month: number) {
+  const balances = await getAssetBalancesAsOf(year, month);
+
+  const assetGroups = ASSET_SIDE_TYPES.map((type) => {
+    const items = balances
+      .filter((a) => a.assetType === type && a.closingBalance >= 0)
+      .sort((a, b) => b.closingBalance - a.closingBalance)
+      .map((a) => ({ assetName: a.assetName, balance: a.closingBalance }));
+    return { type, label: ASSET_TYPE_LABELS[type], subtotal: items.reduce((s, a) => s + a.balance, 0), items };
+  }).filter((g) => g.items.length > 0);
+
+  // 負債は正の金額で持つ
+  const liabilities = balances
+    .filter((a) => a.closingBalance < 0)
+    .sort((a, b) => a.closingBalance - b.closingBalance)
+    .map((a) => ({ assetName: a.assetName, balance: -a.closingBalance }));
+
+  const totalAssets = balances.filter((a) => a.closingBalance > 0).reduce((s, a) => s + a.closingBalance, 0);
+  const totalLiabilities = liabilities.reduce((s, a) => s + a.balance, 0);
+
+  return {
+    year,
+    month,
+    assetGroups,
+    liabilities,
+    totalAssets,
+    totalLiabilities,
+    netAssets: totalAssets - totalLiabilities,
+  };
+}
+
+export type BalanceSheet = Awaited<ReturnType<typeof getBalanceSheet>>;
@@ -0,0 +1,104 @@
+/**
+ * 予算アラート
+ * カテゴリ別の支出実績が予算合計（月額予算 + 繰越 + 予算移動）のしきい値（%）を超えたら、notifications に通知を残す。
+ * CSV インポートの後（/api/import）と、手動の再評価（/api/notifications/settings）から呼ぶ。
+ *
+ * - しきい値はカテゴリ別（budget_alert_thresholds）、なければ既定（budget_alert_settings.default_thresholds）
+ * - 予算合計が 0 以下のカテゴリは対象外
+ * - 同じ月・カテゴリ・しきい値の通知は1回だけ（dedupe_key で重複を防ぐ）
+ * - webhook_url があれば、新しく作った通知を JSON で POST する（失敗しても通知は残す）
+ */
+import { db } from "./db";
+import { budgetAlertSettings, budgetAlertThresholds, notifications, type Notification } from "./schema";
+import { eq } from "drizzle-orm";
+import { getMonthlyBudgetStatus } from "./budget-carryover";
+import { DEFAULT_ALERT_THRESHOLDS, parseThresholds } from "./notifications";
+import { formatCurrency } from "./utils";
+
+/** webhook の応答を待つ時間（ms） */
+const WEBHOOK_TIMEOUT_MS = 5000;
+
+export type BudgetAlertConfig = {
+  defaultThresholds: number[];
+  webhookUrl: string | null;
+  /** カテゴリ → しきい値（既定を上書きするカテゴリだけ） */
+  categoryThresholds: Record<string, number[]>;
+};
+
+export async function getBudgetAlertConfig(): Promise<BudgetAlertConfig> {
+  const [settings, overrides] = await Promise.all([
+    db.select().from(budgetAlertSettings).where(eq(budgetAlertSettings.id, 1)),
+    db.select().from(budgetAlertThresholds).orderBy(budgetAlertThresholds.categoryName),
+  ]);
+  return {
+    defaultThresholds: settings[0] ? parseThresholds(settings[0].defaultThresholds) : DEFAULT_ALERT_THRESHOLDS,
+    webhookUrl: settings[0]?.webhookUrl ?? null,
+    categoryThresholds: Object.fromEntries(overrides.map((o) => [o.categoryName, parseThresholds(o.thresholds)])),
+  };
+}
+
+/** 指定した月の予算アラートを評価し、新しく作った通知を返す */
+export async function evaluateBudgetAlerts(months: { year: number; month: number }[]): Promise<Notification[]> {
+  const config = await getBudgetAlertConfig();
+  const created: Notification[] = [];
+
+  for (const { year, month } of months) {
+    const statuses = await getMonthlyBudgetStatus(year, month);
+    const values = statuses.flatMap((s) => {
+      if (s.totalBudget <= 0) return [];
+      const pct = (s.actual / s.totalBudget) * 100;
+      const thresholds = config.categoryThresholds[s.categoryName] ?? config.defaultThresholds;
+      return thresholds
+        .filter((t) => pct >= t)
+        .map((t) => ({
+          kind: "budget_threshold",
+          dedupeKey: `budget:${year}-${month}:${s.categoryName}:${t}`,
+          title: `${s.categoryName} が予算の ${t}% に達しました`,
+          message:
+            `${year}年${month}月の ${s.categoryName} の支出が ${formatCurrency(s.actual)} になり、` +
+            `予算 ${formatCurrency(s.totalBudget)} の ${Math.floor(pct)}% です（残り ${formatCurrency(s.remaining)}）`,
+          link: "/budget",
+        }));
+    });
+    if (values.length === 0) continue;
+
+    const inserted = await db.insert(notifications).values(values).onConflictDoNothing().returning();
+    created.push(...inserted);
+  }
+
+  if (created.length > 0 && config.webhookUrl) {
+    await sendWebhook(config.webhookUrl, created);
+  }
+  return created;
+}
+
+/** 通知を webhook に送る。失敗してもログに残して false を返すだけで、例外は投げない */
+export async function sendWebhook(url: string, items: Notification[]): Promise<boolean> {
+  try {
+    const res = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        source: "kakei-analytics",
+        type: "budget_alerts",
+        notifications: items.map((n) => ({
+          id: n.id,
+          kind: n.kind,
+          title: n.title,
+          message: n.message,
+          link: n.link,
+          createdAt: n.createdAt,
+        })),
+      }),
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+    });
+    if (!res.ok) {
+      console.error(`webhook の送信に失敗しました（${res.status}）`);
+      return false;
+    }
+    return true;
+  } catch (e) {
+    console.error(e);
+    return false;
+  }
+}
@@ -0,0 +1,328 @@
+/**
+ * 予算の繰越計算と「月を開く」処理
+ * /api/budgets/carryover・/api/budgets/ledger・/api/budgets・予算アラート（budget-alerts.ts）・scripts/open-month.ts から使う。
+ *
+ * 繰越は、カテゴリごとに最初に予算を保存した月から指定月までを1ヶ月ずつたどる台帳（envelope）で求める:
+ *   予算合計 = 月額予算 + 繰越額 + 予算移動（受けた額 − 出した額）、残額 = 予算合計 − 実績
+ *   翌月の繰越額 = 繰越ルール(残額)
+ *   - 最初の月の繰越額は保存した値（それ以前の残高）をそのまま使う
+ *   - 予算を保存しなかった月は、標準予算の月額予算で開いたものとして計算を続ける（途中の月が抜けても繰越が途切れない）
+ *   - 2ヶ月目以降に保存した繰越額は使わず、台帳の値を正とする（/api/budgets・予算アラートの予算合計も台帳から求める）
+ *
+ * 月を開く（openMonth）:
+ *   - 標準予算の月額予算 + 前月からの繰越額（カテゴリごとの繰越ルールを適用）で、その月の budgets 行を作る
+ *   - その月の予算がすでに 1 行でもあれば何もしない（手で保存した月を上書きしない・何度実行しても同じ結果）
+ *   - 作成後、前月の収入に対する割り当て状況を記録する（income-allocation.ts）。収入を超えていても作成はする
+ */
+import { db } from "./db";
+import { budgetTransfers, budgets, standardBudgets, transactionLines } from "./schema";
+import { and, eq, ne, sql, type SQL } from "drizzle-orm";
+import { applyRolloverRule, prevYearMonth, toRolloverRule, type RolloverRule } from "./budget-rollover";
+import { planIncomeAllocation, recordIncomeAllocation, type IncomeAllocation } from "./income-allocation";
+
+export type LedgerEntry = {
+  year: number;
+  month: number;
+  /** saved = 保存した予算、standard = 未保存のため標準予算で計算 */
+  source: "saved" | "standard";
+  allocation: number;
+  /** 前月の残額（最初の月は null） */
+  prevRemaining: number | null;
+  carryover: number;
+  /** 予算移動の純額（受けた額 − 出した額） */
+  transfers: number;
+  totalBudget: number;
+  actual: number;
+  remaining: number;
+};
+
+export type CategoryLedger = {
+  categoryName: string;
+  rule: RolloverRule;
+  entries: LedgerEntry[];
+};
+
+export type CarryoverItem = {
+  categoryName: string;
+  prevTotalBudget: number;
+  prevActual: number;
+  /** 前月の残額（予算合計 − 実績） */
+  remaining: number;
+  rule: RolloverRule;
+  /** 繰越ルールを適用した繰越額 */
+  carryover: number;
+};
+
+export type OpenMonthResult = {
+  year: number;
+  month: number;
+  /** すでに予算があったため何もしなかった */
+  alreadyOpen: boolean;
+  items: { categoryName: string; allocation: number; carryover: number; totalBudget: number }[];
+  /** 前月の収入に対する割り当て状況（作成済みの月では null） */
+  incomeAllocation: IncomeAllocation | null;
+};
+
+/** 年月 ↔ 通し番号（月を 1 ずつ進めるため） */
+const toMonthIndex = (year: number, month: number) => year * 12 + month - 1;
+const fromMonthIndex = (index: number) => ({ year: Math.floor(index / 12), month: (index % 12) + 1 });
+
+/** 予算の実績として数える明細（支出のみ、振替・収支の計算から除外した取引は除く） */
+function expenseLineConditions(...extra: SQL[]) {
+  return and(
+    eq(transactionLines.excludeFromPl, false),
+    ne(transactionLines.type, "振替"),
+    ne(transactionLines.category, "振替"),
+    eq(transactionLines.type, "支出"),
+    ...extra
+  );
+}
+
+/** 指定月のカテゴリ別支出実績（分割された取引は分割明細のカテゴリで計上） */
+export async function getMonthlyExpenseActuals(year: number, month: number): Promise<Map<string, number>> {
+  const rows = await db
+    .select({
+      category: transactionLines.category,
+      actual: sql<number>`sum(expense_amount)`,
+    })
+    .from(transactionLines)
+    .where(expenseLineConditions(eq(transactionLines.year, year), eq(transactionLines.month, month)))
+    .groupBy(transactionLines.category);
+  return new Map(rows.map((r) => [r.category, Number(r.actual ?? 0)]));
+}
+
+/** 期間内の月・カテゴリ別支出実績。キーは `${月の通し番号}:${カテゴリ}` */
+async function getExpenseActualsBetween(fromIndex: number, toIndex: number): Promise<Map<string, number>> {
+  const monthIndex = sql`${transactionLines.year} * 12 + ${transactionLines.month} - 1`;
+  const rows = await db
+    .select({
+      year: transactionLines.year,
+      month: transactionLines.month,
+      category: transactionLines.category,
+      actual: sql<number>`sum(expense_amount)`,
+    })
+    .from(transactionLines)
+    .where(expenseLineConditions(sql`${monthIndex} between ${fromIndex} and ${toIndex}`))
+    .groupBy(transactionLines.year, transactionLines.month, transactionLines.category);
+  return new Map(rows.map((r) => [`${toMonthIndex(r.year, r.month)}:${r.category}`, Number(r.actual ?? 0)]));
+}
+
+/** 予算移動をカテゴリ別の純額（受けた額 − 出した額）にする。キーは keyOf で決める */
+function sumTransfers<T extends { fromCategory: string; toCategory: string; amount: number }>(
+  rows: T[],
+  keyOf: (row: T, category: string) => string
+): Map<string, number> {
+  const net = new Map<string, number>();
+  for (const row of rows) {
+    const from = keyOf(row, row.fromCategory);
+    const to = keyOf(row, row.toCategory);
+    net.set(from, (net.get(from) ?? 0) - row.amount);
+    net.set(to, (net.get(to) ?? 0) + row.amount);
+  }
+  return net;
+}
+
+/** 指定月のカテゴリ別予算移動の純額 */
+export async function getMonthlyTransferNet(year: number, month: number): Promise<Map<string, number>> {
+  const rows = await db
+    .select()
+    .from(budgetTransfers)
+    .where(and(eq(budgetTransfers.year, year), eq(budgetTransfers.month, month)));
+  return sumTransfers(rows, (_, category) => category);
+}
+
+/** 期間内の月・カテゴリ別予算移動の純額。キーは `${月の通し番号}:${カテゴリ}` */
+async function getTransferNetBetween(fromIndex: number, toIndex: number): Promise<Map<string, number>> {
+  const rows = await db
+    .select()
+    .from(budgetTransfers)
+    .where(sql`${budgetTransfers.year} * 12 + ${budgetTransfers.month} - 1 between ${fromIndex} and ${toIndex}`);
+  return sumTransfers(rows, (row, category) => `${toMonthIndex(row.year, row.month)}:${category}`);
+}
+
+export type BudgetStatus = {
+  categoryName: string;
+  allocation: number;
+  carryover: number;
+  /** 予算移動の純額（totalBudget に含まれる） */
+  transfers: number;
+  totalBudget: number;
+  actual: number;
+  remaining: number;
+  notes: string | null;
+  hasBudget: boolean;
+};
+
+/**
+ * 指定月のカテゴリ別の予算と実績（予算レコードがあるカテゴリ + 取引があるカテゴリ + 予算を移動したカテゴリ）
+ * 月額予算・繰越額・予算合計は繰越台帳の指定月の値を使う（保存した繰越額は台帳と食い違うことがあるため）
+ */
+export async function getMonthlyBudgetStatus(year: number, month: number): Promise<BudgetStatus[]> {
+  const [budgetRows, ledgers, actualMap, transferMap] = await Promise.all([
+    db
+      .select()
+      .from(budgets)
+      .where(and(eq(budgets.year, year), eq(budgets.month, month)))
+      .orderBy(budgets.categoryName),
+    buildBudgetLedgers(year, month),
+    getMonthlyExpenseActuals(year, month),
+    getMonthlyTransferNet(year, month),
+  ]);
+  const budgetMap = new Map(budgetRows.map((b) => [b.categoryName, b]));
+  // 台帳は指定月まで続くので、最後の行が指定月
+  const ledgerMap = new Map(ledgers.map((l) => [l.categoryName, l.entries[l.entries.length - 1]]));
+
+  const categories = new Set([...actualMap.keys(), ...transferMap.keys()]);
+  budgetRows.forEach((b) => categories.add(b.categoryName));
+
+  return Array.from(categories)
+    .sort()
+    .map((category) => {
+      const budget = budgetMap.get(category);
+      const entry = ledgerMap.get(category);
+      const actual = actualMap.get(category) ?? 0;
+      const transfers = transferMap.get(category) ?? 0;
+      const totalBudget = entry?.totalBudget ?? transfers;
+      return {
+        categoryName: category,
+        allocation: entry?.allocation ?? 0,
+        carryover: entry?.carryover ?? 0,
+        transfers,
+        totalBudget,
+        actual,
+        remaining: totalBudget - actual,
+        notes: budget?.notes ?? null,
+        hasBudget: !!budget,
+      };
+    });
+}
+
+async function getStandardBudgetMap() {
+  const rows = await db.select().from(standardBudgets);
+  return new Map(
+    rows.map((r) => [r.categoryName, { allocation: r.allocation, rule: toRolloverRule(r.rolloverPolicy, r.rolloverCapMonths) }])
+  );
+}
+
+/**
+ * 指定月までの繰越台帳をカテゴリごとに作る（指定月以前に予算を保存したカテゴリが対象）
+ * category を指定するとそのカテゴリだけを返す
+ */
+export async function buildBudgetLedgers(year: number, month: number, category?: string): Promise<CategoryLedger[]> {
+  const target = toMonthIndex(year, month);
+  const rows = await db
+    .select()
+    .from(budgets)
+    .where(
+      and(
+        sql`${budgets.year} * 12 + ${budgets.month} - 1 <= ${target}`,
+        category ? eq(budgets.categoryName, category) : undefined
+      )
+    );
+  if (rows.length === 0) return [];
+
+  type BudgetRow = (typeof rows)[number];
+  const saved = new Map<string, Map<number, BudgetRow>>();
+  for (const row of rows) {
+    const byMonth = saved.get(row.categoryName) ?? new Map<number, BudgetRow>();
+    byMonth.set(toMonthIndex(row.year, row.month), row);
+    saved.set(row.categoryName, byMonth);
+  }
+  const first = Math.min(...rows.map((r) => toMonthIndex(r.year, r.month)));
+  const [actualMap, transferMap, standardMap] = await Promise.all([
+    getExpenseActualsBetween(first, target),
+    getTransferNetBetween(first, target),
+    getStandardBudgetMap(),
+  ]);
+
+  return Array.from(saved.keys())
+    .sort()
+    .map((categoryName) => {
+      const byMonth = saved.get(categoryName)!;
+      const standard = standardMap.get(categoryName);
+      const rule = standard?.rule ?? toRolloverRule(null, null);
+      const start = Math.min(...byMonth.keys());
+
+      const entries: LedgerEntry[] = [];
+      let prevRemaining: number | null = null;
+      for (let i = start; i <= target; i++) {
+        const row = byMonth.get(i);
+        const allocation = row?.allocation ?? standard?.allocation ?? 0;
+        const carryover: number = prevRemaining === null ? row?.carryover ?? 0 : applyRolloverRule(prevRemaining, allocation, rule);
+        const transfers = transferMap.get(`${i}:${categoryName}`) ?? 0;
+        const totalBudget = allocation + carryover + transfers;
+        const actual = actualMap.get(`${i}:${categoryName}`) ?? 0;
+        entries.push({
+          ...fromMonthIndex(i),
+          source: row ? "saved" : "standard",
+          allocation,
+          prevRemaining,
+          carryover,
+          transfers,
+          totalBudget,
+          actual,
+          remaining: totalBudget - actual,
+        });
+        prevRemaining = totalBudget - actual;
+      }
+      return { categoryName, rule, entries };
+    });
+}
+
+/** 前月までの台帳から、指定月の繰越額をカテゴリごとに求める */
+export async function computeCarryover(year: number, month: number) {
+  const prev = prevYearMonth(year, month);
+  const ledgers = await buildBudgetLedgers(year, month);
+
+  const items: CarryoverItem[] = ledgers
+    .filter((l) => l.entries.length >= 2)
+    .map((l) => {
+      const last = l.entries[l.entries.length - 1];
+      const prevEntry = l.entries[l.entries.length - 2];
+      return {
+        categoryName: l.categoryName,
+        prevTotalBudget: prevEntry.totalBudget,
+        prevActual: prevEntry.actual,
+        remaining: prevEntry.remaining,
+        rule: l.rule,
+        carryover: last.carryover,
+      };
+    });
+
+  return { prevYear: prev.year, prevMonth: prev.month, items };
+}
+
+/** 指定月の予算を標準予算と繰越額から作る。dryRun のときは作成する内容だけを返す */
+export async function openMonth(year: number, month: number, { dryRun = false } = {}): Promise<OpenMonthResult> {
+  const existing = await db
+    .select({ id: budgets.id })
+    .from(budgets)
+    .where(and(eq(budgets.year, year), eq(budgets.month, month)))
+    .limit(1);
+  if (existing.length > 0) return { year, month, alreadyOpen: true, items: [], incomeAllocation: null };
+
+  const [{ items: carryovers }, standardMap] = await Promise.all([
+    computeCarryover(year, month),
+    getStandardBudgetMap(),
+  ]);
+  const carryoverMap = new Map(carryovers.map((c) => [c.categoryName, c.carryover]));
+
+  // 予算画面と同じく、月額予算か繰越額のどちらかがあるカテゴリだけを作る
+  const categories = Array.from(new Set([...standardMap.keys(), ...carryoverMap.keys()])).sort();
+  const items = categories
+    .map((categoryName) => {
+      const allocation = standardMap.get(categoryName)?.allocation ?? 0;
+      const carryover = carryoverMap.get(categoryName) ?? 0;
+      return { categoryName, allocation, carryover, totalBudget: allocation + carryover };
+    })
+    .filter((i) => i.allocation !== 0 || i.carryover !== 0);
+
+  if (dryRun || items.length === 0) {
+    return { year, month, alreadyOpen: false, items, incomeAllocation: await planIncomeAllocation(year, month, items) };
+  }
+  await db
+    .insert(budgets)
+    .values(items.map((i) => ({ year, month, ...i })))
+    .onConflictDoNothing({ target: [budgets.year, budgets.month, budgets.categoryName] });
+  return { year, month, alreadyOpen: false, items, incomeAllocation: await recordIncomeAllocation(year, month) };
+}
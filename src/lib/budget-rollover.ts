@@ -0,0 +1,70 @@
+/**
+ * 予算の繰越ルール
+ * 前月の残額（予算合計 − 実績）を、カテゴリごとのルールに従って翌月の繰越額にする。
+ * ルールは標準予算（standard_budgets.rollover_policy / rollover_cap_months）に保存する。
+ *
+ *   full    … 残額をそのまま繰り越す（超過分はマイナスとして繰り越す）
+ *   surplus … 余った分だけ繰り越す（超過分は繰り越さない）
+ *   reset   … 繰り越さない（毎月 0 から）
+ *   cap     … full と同じだが、繰越額は月額予算の N ヶ月分までにする
+ *
+ * DB に依存しないため、画面からも import できる。
+ */
+
+export type RolloverPolicy = "full" | "surplus" | "reset" | "cap";
+
+export const ROLLOVER_POLICIES: Record<RolloverPolicy, string> = {
+  full: "全額繰越",
+  surplus: "余りのみ繰越",
+  reset: "繰越なし",
+  cap: "上限付き繰越",
+};
+
+/** cap の既定の月数 */
+export const DEFAULT_CAP_MONTHS = 3;
+
+/** 前月（1月なら前年の12月） */
+export function prevYearMonth(year: number, month: number) {
+  return month === 1 ? { year: year - 1, month: 12 } : { year, month: month - 1 };
+}
+
+export type RolloverRule = {
+  policy: RolloverPolicy;
+  capMonths: number | null;
+};
+
+export const DEFAULT_ROLLOVER_RULE: RolloverRule = { policy: "full", capMonths: null };
+
+export function isRolloverPolicy(value: unknown): value is RolloverPolicy {
+  return typeof value === "string" && Object.hasOwn(ROLLOVER_POLICIES, value);
+}
+
+/** 保存値をルールにする（未知の値は全額繰越として扱う） */
+export function toRolloverRule(policy: string | null | undefined, capMonths: number | null | undefined): RolloverRule {
+  if (!isRolloverPolicy(policy)) return DEFAULT_ROLLOVER_RULE;
+  if (policy !== "cap") return { policy, capMonths: null };
+  return { policy, capMonths: capMonths && capMonths > 0 ? capMonths : DEFAULT_CAP_MONTHS };
+}
+
+/**
+ * 残額と翌月の月額予算から繰越額を求める
+ * cap で月額予算が 0 以下のときは上限を決められないため、余りは繰り越さない
+ */
+export function applyRolloverRule(remaining: number, allocation: number, rule: RolloverRule): number {
+  switch (rule.policy) {
+    case "reset":
+      return 0;
+    case "surplus":
+      return Math.max(remaining, 0);
+    case "cap": {
+      const limit = Math.max(allocation, 0) * (rule.capMonths ?? DEFAULT_CAP_MONTHS);
+      return Math.min(remaining, limit);
+    }
+    default:
+      return remaining;
+  }
+}
+
+export function describeRolloverRule(rule: RolloverRule): string {
+  return rule.policy === "cap" ? `${ROLLOVER_POLICIES.cap}（${rule.capMonths}ヶ月分まで）` : ROLLOVER_POLICIES[rule.policy];
+}
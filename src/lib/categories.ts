@@ -0,0 +1,58 @@
+/**
+ * カテゴリの並び順・色・グループの参照（クライアントからも使う）
+ * 登録簿そのものは category-registry.ts（サーバー）が categories テーブルから返す。
+ *
+ * 未登録のカテゴリは末尾に名前順で並べ、色は名前から決まる既定色、グループは UNGROUPED_LABEL とする。
+ */
+import { getCategoryColor } from "./utils";
+import type { Category, CategoryGroup } from "./schema";
+
+export type CategoryRegistry = { groups: CategoryGroup[]; categories: Category[] };
+
+/** グループ未設定のカテゴリをまとめる見出し */
+export const UNGROUPED_LABEL = "グループなし";
+
+export type CategoryLookup = {
+  color: (name: string) => string;
+  groupName: (name: string) => string;
+  /** 表示順で比較する（Array.prototype.sort 用） */
+  compare: (a: string, b: string) => number;
+  /** カテゴリ名をグループごとにまとめる（グループ・カテゴリとも表示順、グループなしは最後） */
+  group: (names: string[]) => { group: string; categories: string[] }[];
+};
+
+export function createCategoryLookup(registry: CategoryRegistry | null): CategoryLookup {
+  const byName = new Map((registry?.categories ?? []).map((c) => [c.name, c]));
+  const groups = registry?.groups ?? [];
+  const groupById = new Map(groups.map((g) => [g.id, g]));
+
+  const groupName = (name: string) => {
+    const groupId = byName.get(name)?.groupId;
+    return (groupId != null && groupById.get(groupId)?.name) || UNGROUPED_LABEL;
+  };
+  const compare = (a: string, b: string) => {
+    const ca = byName.get(a);
+    const cb = byName.get(b);
+    if (!ca && !cb) return a.localeCompare(b, "ja");
+    if (!ca) return 1;
+    if (!cb) return -1;
+    return ca.sortOrder - cb.sortOrder || ca.id - cb.id;
+  };
+  const groupOrder = [...groups.map((g) => g.name), UNGROUPED_LABEL];
+
+  return {
+    color: (name) => byName.get(name)?.color ?? getCategoryColor(name),
+    groupName,
+    compare,
+    group: (names) => {
+      const buckets = new Map<string, string[]>();
+      for (const name of [...names].sort(compare)) {
+        const g = groupName(name);
+        buckets.set(g, [...(buckets.get(g) ?? []), name]);
+      }
+      return groupOrder
+        .filter((g) => buckets.has(g))
+        .map((g) => ({ group: g, categories: buckets.get(g)! }));
+    },
+  };
+}
@@ -0,0 +1,153 @@
+/**
+ * カテゴリ登録簿
+ * カテゴリの表示順・色・グループ（固定費 / 変動費 / 特別費 など）を categories テーブルで管理する。
+ * 予算管理・損益計算書・分析のカテゴリの並び順とグループ別の集計に使う。
+ *
+ * - テーブルが空のときは従来の固定値（予算表の並び順・カテゴリ色）を登録してから返す
+ * - 取引・予算に出てくる未登録のカテゴリは、グループなしで末尾に自動登録する
+ * - 名前を変更・統合したカテゴリは旧名を category_aliases に残し、インポート時に読み替える
+ */
+import { db } from "./db";
+import { categories, categoryGroups, categoryAliases, transactionLines, budgets } from "./schema";
+import { asc, ne } from "drizzle-orm";
+import { getCategoryColor } from "./utils";
+import type { CategoryRegistry } from "./categories";
+
+const DEFAULT_GROUPS: { name: string; categories: string[] }[] = [
+  { name: "固定費", categories: ["家賃・光熱費", "通信費", "家賃", "家賃補助", "光熱費"] },
+  {
+    name: "変動費",
+    categories: [
+      "食費", "研究", "カフェ", "娯楽費", "交際費・贅沢費", "交通費", "美容費", "生活消耗品費", "医療費", "ファッション",
+      "研究費", "交際費", "衣服・美容費", "生活費", "テニス", "脱毛",
+    ],
+  },
+  {
+    name: "特別費",
+    categories: [
+      "特別経費S", "特別経費B", "旅行・帰省", "同棲費",
+      "特別経費M", "法律", "教育ビジネス", "法律・教育", "FjordBootCamp",
+    ],
+  },
+  { name: "貯蓄", categories: ["貯蓄", "貯蓄（投信）"] },
+];
+
+/** 現行の予算表の並び順（有効なカテゴリ） */
+const DEFAULT_ACTIVE_CATEGORIES = [
+  "食費", "研究", "カフェ", "娯楽費", "交際費・贅沢費", "交通費", "美容費", "生活消耗品費", "医療費", "家賃・光熱費",
+  "通信費", "特別経費S", "特別経費B", "ファッション", "旅行・帰省", "貯蓄", "貯蓄（投信）", "会社立替",
+];
+
+/** 過去の年の予算表にだけあるカテゴリ（無効として登録する） */
+const DEFAULT_LEGACY_CATEGORIES = [
+  "研究費", "交際費", "衣服・美容費", "生活費", "光熱費", "家賃", "家賃補助", "法律", "教育ビジネス", "法律・教育",
+  "特別経費M", "脱毛", "テニス", "FjordBootCamp", "同棲費", "投資損益",
+];
+
+const DEFAULT_COLORS: Record<string, string> = {
+  "食費": "#f97316",
+  "交通費": "#3b82f6",
+  "交際費・贅沢費": "#a855f7",
+  "娯楽費": "#ec4899",
+  "研究": "#14b8a6",
+  "特別経費B": "#ef4444",
+  "特別経費S": "#f43f5e",
+  "生活消耗品費": "#84cc16",
+  "医療費": "#06b6d4",
+  "通信費": "#6366f1",
+  "美容費": "#e879f9",
+  "ファッション": "#fb923c",
+  "カフェ": "#78716c",
+  "旅行・帰省": "#0ea5e9",
+  "家賃・光熱費": "#d97706",
+  "会社立替": "#9ca3af",
+  "同棲費": "#f0abfc",
+  "必要経費": "#64748b",
+  "その他": "#94a3b8",
+};
+
+async function seedDefaults() {
+  const groups = await db
+    .insert(categoryGroups)
+    .values(DEFAULT_GROUPS.map((g, i) => ({ name: g.name, sortOrder: i + 1 })))
+    .onConflictDoNothing()
+    .returning();
+  const groupIdOf = new Map<string, number>();
+  for (const g of DEFAULT_GROUPS) {
+    const id = groups.find((r) => r.name === g.name)?.id;
+    if (id) g.categories.forEach((name) => groupIdOf.set(name, id));
+  }
+
+  const names = [...DEFAULT_ACTIVE_CATEGORIES, ...DEFAULT_LEGACY_CATEGORIES];
+  await db
+    .insert(categories)
+    .values(
+      names.map((name, i) => ({
+        name,
+        groupId: groupIdOf.get(name) ?? null,
+        sortOrder: i + 1,
+        color: DEFAULT_COLORS[name] ?? getCategoryColor(name),
+        active: DEFAULT_ACTIVE_CATEGORIES.includes(name),
+      }))
+    )
+    .onConflictDoNothing();
+}
+
+/** 取引・予算に出てくるのに未登録のカテゴリを末尾に登録する */
+async function registerUnknownCategories(registered: Set<string>, maxSortOrder: number): Promise<boolean> {
+  const [txCats, budgetCats] = await Promise.all([
+    db.selectDistinct({ name: transactionLines.category }).from(transactionLines).where(ne(transactionLines.type, "振替")),
+    db.selectDistinct({ name: budgets.categoryName }).from(budgets),
+  ]);
+  const unknown = [...new Set([...txCats, ...budgetCats].map((r) => r.name))]
+    .filter((name) => name && !registered.has(name))
+    .sort((a, b) => a.localeCompare(b, "ja"));
+  if (unknown.length === 0) return false;
+
+  await db
+    .insert(categories)
+    .values(
+      unknown.map((name, i) => ({
+        name,
+        sortOrder: maxSortOrder + i + 1,
+        color: DEFAULT_COLORS[name] ?? getCategoryColor(name),
+      }))
+    )
+    .onConflictDoNothing();
+  return true;
+}
+
+/** グループとカテゴリを表示順に返す */
+export async function getCategoryRegistry(): Promise<CategoryRegistry> {
+  const load = () =>
+    Promise.all([
+      db.select().from(categoryGroups).orderBy(asc(categoryGroups.sortOrder), asc(categoryGroups.id)),
+      db.select().from(categories).orderBy(asc(categories.sortOrder), asc(categories.id)),
+    ]);
+
+  let [groups, rows] = await load();
+  if (groups.length === 0 && rows.length === 0) {
+    await seedDefaults();
+    [groups, rows] = await load();
+  }
+  const maxSortOrder = rows.reduce((max, c) => Math.max(max, c.sortOrder), 0);
+  if (await registerUnknownCategories(new Set(rows.map((c) => c.name)), maxSortOrder)) {
+    [groups, rows] = await load();
+  }
+  return { groups, categories: rows };
+}
+
+/** 旧カテゴリ名 → 現在のカテゴリ名 */
+export async function loadCategoryAliases(): Promise<Map<string, string>> {
+  const rows = await db.select().from(categoryAliases);
+  return new Map(rows.map((r) => [r.alias, r.categoryName]));
+}
+
+/** 旧カテゴリ名の行を現在のカテゴリ名に読み替える（元の配列は変更しない） */
+export function applyCategoryAliases<T extends { category: string }>(rows: T[], aliases: ReadonlyMap<string, string>): T[] {
+  if (aliases.size === 0) return rows;
+  return rows.map((row) => {
+    const renamed = aliases.get(row.category);
+    return renamed ? { ...row, category: renamed } : row;
+  });
+}
@@ -0,0 +1,221 @@
+/**
+ * 分類ルール
+ * 項目名・メモ・資産名の文字列（部分一致 / 正規表現）と金額範囲で取引を照合し、
+ * カテゴリ・タグ・P/L 除外を書き換える。
+ *
+ * - ルールは priority の小さい順に評価し、最初に一致した1件だけを適用する
+ * - 文字列の照合は大文字・小文字を区別しない
+ * - 振替は対象外（振替カテゴリの整合性を崩さないため）
+ *
+ * インポート（/api/import）と過去データへの再適用（/api/category-rules/apply）の両方から使う。
+ */
+import type { CategoryRule } from "./schema";
+
+export type CategoryRuleMatchField = "itemName" | "memo" | "assetName";
+export type CategoryRuleMatchType = "contains" | "regex";
+
+export const CATEGORY_RULE_MATCH_FIELDS: Record<CategoryRuleMatchField, string> = {
+  itemName: "項目名",
+  memo: "メモ",
+  assetName: "資産",
+};
+
+export const CATEGORY_RULE_MATCH_TYPES: Record<CategoryRuleMatchType, string> = {
+  contains: "を含む",
+  regex: "正規表現",
+};
+
+/** ルールの照合・書き換え対象になる取引の項目（CSV のパース結果・DB の行の両方） */
+export type CategoryRuleTarget = {
+  type: string;
+  category: string;
+  itemName: string | null;
+  memo: string | null;
+  assetName: string | null;
+  amount: number;
+  tag: string | null;
+  excludeFromPl: boolean;
+};
+
+export type CategoryRuleInput = {
+  name?: string;
+  priority?: number;
+  active?: boolean;
+  matchField?: string;
+  matchType?: string;
+  pattern?: string;
+  amountMin?: number | null;
+  amountMax?: number | null;
+  setCategory?: string | null;
+  setTag?: string | null;
+  setExcludeFromPl?: boolean | null;
+};
+
+export type CategoryRuleValues = Omit<CategoryRule, "id" | "createdAt" | "updatedAt">;
+
+function isMatchField(value: unknown): value is CategoryRuleMatchField {
+  return typeof value === "string" && Object.hasOwn(CATEGORY_RULE_MATCH_FIELDS, value);
+}
+
+function isMatchType(value: unknown): value is CategoryRuleMatchType {
+  return typeof value === "string" && Object.hasOwn(CATEGORY_RULE_MATCH_TYPES, value);
+}
+
+function isAmountBound(value: unknown): value is number | null | undefined {
+  return value === undefined || value === null || (Number.isInteger(value) && (value as number) >= 0);
+}
+
+/** 空文字は「変更しない」（null）として扱う */
+function optionalText(value: string | null | undefined): string | null {
+  const s = value?.trim() ?? "";
+  return s === "" ? null : s;
+}
+
+/** 入力を検証し、保存する値に変換する */
+export function validateCategoryRuleInput(
+  input: CategoryRuleInput
+): { values: CategoryRuleValues } | { error: string } {
+  const matchField = input.matchField ?? "itemName";
+  const matchType = input.matchType ?? "contains";
+  if (!isMatchField(matchField)) return { error: "照合する項目が不正です" };
+  if (!isMatchType(matchType)) return { error: "照合方法が不正です" };
+
+  const pattern = input.pattern?.trim() ?? "";
+  if (matchType === "regex" && pattern !== "") {
+    try {
+      new RegExp(pattern);
+    } catch {
+      return { error: "正規表現が不正です" };
+    }
+  }
+
+  if (!isAmountBound(input.amountMin) || !isAmountBound(input.amountMax)) {
+    return { error: "金額範囲は0以上の整数で指定してください" };
+  }
+  const amountMin = input.amountMin ?? null;
+  const amountMax = input.amountMax ?? null;
+  if (amountMin !== null && amountMax !== null && amountMin > amountMax) {
+    return { error: "金額範囲の下限が上限を超えています" };
+  }
+  if (pattern === "" && amountMin === null && amountMax === null) {
+    return { error: "照合する文字列か金額範囲のどちらかを指定してください" };
+  }
+
+  const setCategory = optionalText(input.setCategory);
+  const setTag = optionalText(input.setTag);
+  const setExcludeFromPl = input.setExcludeFromPl ?? null;
+  if (setCategory === null && setTag === null && setExcludeFromPl === null) {
+    return { error: "書き換える内容を1つ以上指定してください" };
+  }
+  if (setCategory?.startsWith("振替")) return { error: "振替カテゴリには書き換えられません" };
+  if ((setCategory?.length ?? 0) > 100 || (setTag?.length ?? 0) > 100) {
+    return { error: "カテゴリ・タグは100文字以内で入力してください" };
+  }
+
+  return {
+    values: {
+      name: input.name?.trim() ?? "",
+      priority: Number.isInteger(input.priority) ? input.priority! : 0,
+      active: input.active ?? true,
+      matchField,
+      matchType,
+      pattern,
+      amountMin,
+      amountMax,
+      setCategory,
+      setTag,
+      setExcludeFromPl,
+    },
+  };
+}
+
+type CompiledRule = {
+  rule: CategoryRule;
+  test: (row: CategoryRuleTarget) => boolean;
+};
+
+/** 有効なルールを評価順に並べ、照合関数を作る（照合項目・照合方法・正規表現が不正なルールは無視する） */
+function compileRules(rules: CategoryRule[]): CompiledRule[] {
+  const compiled: CompiledRule[] = [];
+  const sorted = rules.filter((r) => r.active).sort((a, b) => a.priority - b.priority || a.id - b.id);
+
+  for (const rule of sorted) {
+    if (!isMatchField(rule.matchField) || !isMatchType(rule.matchType)) continue;
+    const field = rule.matchField;
+    let matchText: (value: string) => boolean = () => true;
+    if (rule.pattern !== "") {
+      if (rule.matchType === "regex") {
+        let re: RegExp;
+        try {
+          re = new RegExp(rule.pattern, "i");
+        } catch {
+          continue;
+        }
+        matchText = (value) => re.test(value);
+      } else {
+        const needle = rule.pattern.toLowerCase();
+        matchText = (value) => value.toLowerCase().includes(needle);
+      }
+    }
+    compiled.push({
+      rule,
+      test: (row) =>
+        (rule.amountMin === null || row.amount >= rule.amountMin) &&
+        (rule.amountMax === null || row.amount <= rule.amountMax) &&
+        matchText(row[field] ?? ""),
+    });
+  }
+  return compiled;
+}
+
+/** 一致したルールで書き換えた行を返す。どのルールにも一致しなければ元の行をそのまま返す */
+function rewrite<T extends CategoryRuleTarget>(row: T, compiled: CompiledRule[]): { row: T; rule: CategoryRule | null } {
+  if (row.type === "振替") return { row, rule: null };
+  const match = compiled.find((c) => c.test(row));
+  if (!match) return { row, rule: null };
+
+  const { rule } = match;
+  return {
+    row: {
+      ...row,
+      category: rule.setCategory ?? row.category,
+      tag: rule.setTag ?? row.tag,
+      excludeFromPl: rule.setExcludeFromPl ?? row.excludeFromPl,
+    },
+    rule,
+  };
+}
+
+/** 取引の一覧にルールを適用する（元の配列は変更しない） */
+export function applyCategoryRules<T extends CategoryRuleTarget>(rows: T[], rules: CategoryRule[]): T[] {
+  const compiled = compileRules(rules);
+  if (compiled.length === 0) return rows;
+  return rows.map((row) => rewrite(row, compiled).row);
+}
+
+/**
+ * ルールを適用すると内容が変わる行だけを、適用後の値と一致したルールとともに返す
+ * 過去データへの再適用のプレビューと反映に使う
+ */
+export function findCategoryRuleChanges<T extends CategoryRuleTarget>(
+  rows: T[],
+  rules: CategoryRule[]
+): { before: T; after: T; rule: CategoryRule }[] {
+  const compiled = compileRules(rules);
+  const changes: { before: T; after: T; rule: CategoryRule }[] = [];
+  if (compiled.length === 0) return changes;
+
+  for (const before of rows) {
+    const { row: after, rule } = rewrite(before, compiled);
+    if (!rule) continue;
+    if (
+      after.category === before.category &&
+      (after.tag ?? "") === (before.tag ?? "") &&
+      after.excludeFromPl === before.excludeFromPl
+    ) {
+      continue;
+    }
+    changes.push({ before, after, rule });
+  }
+  return changes;
+}
@@ -0,0 +1,274 @@
+/**
+ * CSV 形式レジストリ
+ * 取引の CSV を形式ごとのアダプタで ParsedTransaction に変換する。
+ *
+ * 各形式は次を宣言する:
+ *  - detect()       : 先頭数行からその形式かどうかを判定（ヘッダ検出）
+ *  - parse()        : 行 → ParsedTransaction の変換（列マッピング）。取り込めない行・疑わしい行は理由付きで返す
+ *  - replaceScope   : 再インポート時に置き換える範囲
+ *      'month' = 対象月の全取引（家計簿アプリの全件エクスポート）
+ *      'asset' = ファイルの最初の日付〜最後の日付のうち同じ資産の取引のみ（口座・カード単位の明細）。
+ *                カードの締め日は月末とは限らないため月単位では置き換えない。資産名の指定が必須
+ *
+ * 新しい銀行・カードに対応するときは defineMappedFormat() で列名の候補を追加する。
+ * 符号付きの単一金額列の向きは形式ごとに positiveAmount で宣言する（カード = 正が利用、銀行 = 正が入金）。
+ */
+import {
+  parseCSVRows,
+  parseCombinedReport,
+  skipRecord,
+  warnRecord,
+  warnBeforeFromYear,
+  isValidDate,
+  todayString,
+  type ParsedTransaction,
+  type ParseResult,
+  type RowIssue,
+} from "./csv-parser";
+
+export type CsvFormatId = "combined" | "bank" | "card";
+
+export type CsvFormatOptions = {
+  fromYear: number;
+  assetName: string; // 'asset' 形式で取引に付ける資産名
+};
+
+export type CsvFormat = {
+  id: CsvFormatId;
+  label: string;
+  replaceScope: "month" | "asset";
+  detect: (rows: string[][]) => boolean;
+  parse: (csvText: string, options: CsvFormatOptions) => ParseResult<ParsedTransaction>;
+};
+
+/** ヘッダを探す範囲（銀行 CSV は口座情報などの前置き行があることが多い） */
+const HEADER_SCAN_ROWS = 10;
+
+/** 列マッピングで使う未分類カテゴリ */
+const UNCATEGORIZED = "未分類";
+
+/** "お引出し金額（円）" → "お引出し金額" */
+function normalizeHeader(cell: string): string {
+  return cell.replace(/\s/g, "").replace(/[（(][^）)]*[）)]$/, "");
+}
+
+/**
+ * 様々な日付表記 → "YYYY-MM-DD"
+ * 対応: 2026/2/1, 2026-02-01, 2026.02.01, 2026年2月1日, 20260201
+ */
+function parseFlexibleDate(raw: string): string {
+  const s = raw.trim();
+  const m =
+    s.match(/^(\d{4})[/\-.年](\d{1,2})[/\-.月](\d{1,2})/) ??
+    s.match(/^(\d{4})(\d{2})(\d{2})$/);
+  if (!m || !isValidDate(m[1], m[2], m[3])) return "";
+  return `${m[1]}-${m[2].padStart(2, "0")}-${m[3].padStart(2, "0")}`;
+}
+
+/** "¥1,234" / "-1,234円" / "" → 数値（空は 0、数値として解釈できなければ null） */
+function toAmount(v: string | undefined): number | null {
+  const s = (v ?? "").replace(/[,¥￥円\s]/g, "");
+  if (s === "" || s === "-") return 0;
+  return /^-?\d+(\.\d+)?$/.test(s) ? parseInt(s, 10) : null;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 列マッピング形式
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** ParsedTransaction の各項目に対応する列名の候補 */
+type ColumnMapping = {
+  date: string[];
+  itemName: string[];
+  expense?: string[]; // 出金・支払額（正の値）
+  income?: string[];  // 入金額（正の値）
+  amount?: string[];  // 符号付きの単一金額列（正の値の意味は positiveAmount で決める）
+  memo?: string[];
+};
+
+type ResolvedColumns = {
+  date: number;
+  itemName: number;
+  expense: number;
+  income: number;
+  amount: number;
+  memo: number;
+};
+
+function findColumn(header: string[], candidates: string[] | undefined): number {
+  if (!candidates) return -1;
+  const normalized = header.map(normalizeHeader);
+  return normalized.findIndex((h) => candidates.includes(h));
+}
+
+/** ヘッダ行を探して列位置を解決する。見つからなければ null */
+function resolveColumns(rows: string[][], mapping: ColumnMapping): { headerIndex: number; cols: ResolvedColumns } | null {
+  for (let i = 0; i < Math.min(rows.length, HEADER_SCAN_ROWS); i++) {
+    const header = rows[i];
+    const cols: ResolvedColumns = {
+      date: findColumn(header, mapping.date),
+      itemName: findColumn(header, mapping.itemName),
+      expense: findColumn(header, mapping.expense),
+      income: findColumn(header, mapping.income),
+      amount: findColumn(header, mapping.amount),
+      memo: findColumn(header, mapping.memo),
+    };
+    const hasAmount = cols.amount >= 0 || cols.expense >= 0 || cols.income >= 0;
+    if (cols.date >= 0 && cols.itemName >= 0 && hasAmount) return { headerIndex: i, cols };
+  }
+  return null;
+}
+
+function defineMappedFormat(def: {
+  id: CsvFormatId;
+  label: string;
+  mapping: ColumnMapping;
+  /** 符号付きの金額列で正の値が表すもの（'expense' = 支出、'income' = 収入） */
+  positiveAmount: "expense" | "income";
+}): CsvFormat {
+  return {
+    id: def.id,
+    label: def.label,
+    replaceScope: "asset",
+    detect: (rows) => resolveColumns(rows, def.mapping) !== null,
+    parse: (csvText, { fromYear, assetName }) => {
+      const records = parseCSVRows(csvText);
+      const resolved = resolveColumns(records.map((r) => r.fields), def.mapping);
+      if (!resolved) return { rows: [], issues: [] };
+      const { headerIndex, cols } = resolved;
+      const results: ParsedTransaction[] = [];
+      const issues: RowIssue[] = [];
+      const today = todayString();
+
+      for (const record of records.slice(headerIndex + 1)) {
+        if (record.error) {
+          issues.push(skipRecord(record, record.error));
+          continue;
+        }
+        const row = record.fields;
+        const date = parseFlexibleDate(row[cols.date] ?? "");
+        if (!date) {
+          // 合計行・注記行など
+          issues.push(skipRecord(record, `日付を解釈できません（${row[cols.date] || "空欄"}）`));
+          continue;
+        }
+
+        const year = parseInt(date.slice(0, 4), 10);
+        const month = parseInt(date.slice(5, 7), 10);
+        if (year < fromYear) {
+          issues.push(warnBeforeFromYear(record, date, fromYear));
+          continue;
+        }
+
+        // 数値として解釈できない金額は 0 として扱い、警告に残す
+        const readAmount = (index: number, label: string): number => {
+          if (index < 0) return 0;
+          const value = toAmount(row[index]);
+          if (value === null) {
+            issues.push(warnRecord(record, `${label}が数値ではありません（${row[index]}）。0 として扱います`));
+          }
+          return value ?? 0;
+        };
+
+        let expenseAmount = readAmount(cols.expense, "出金額");
+        let incomeAmount = readAmount(cols.income, "入金額");
+        if (cols.amount >= 0 && expenseAmount === 0 && incomeAmount === 0) {
+          const signed = readAmount(cols.amount, "金額");
+          const asExpense = def.positiveAmount === "expense" ? signed : -signed;
+          if (asExpense >= 0) expenseAmount = asExpense;
+          else incomeAmount = -asExpense;
+        }
+        if (expenseAmount === 0 && incomeAmount === 0) {
+          issues.push(skipRecord(record, "金額が空または0です"));
+          continue;
+        }
+        if (expenseAmount !== 0 && incomeAmount !== 0) {
+          issues.push(warnRecord(record, "出金と入金の両方に金額があります。支出として扱います"));
+          incomeAmount = 0;
+        }
+        if (date > today) {
+          issues.push(warnRecord(record, `未来の日付です（${date}）`));
+        }
+
+        results.push({
+          date,
+          year,
+          month,
+          type: expenseAmount !== 0 ? "支出" : "収入",
+          category: UNCATEGORIZED,
+          itemName: (row[cols.itemName] ?? "").trim(),
+          amount: expenseAmount !== 0 ? expenseAmount : incomeAmount,
+          expenseAmount,
+          incomeAmount,
+          assetName,
+          tag: "",
+          memo: cols.memo >= 0 ? (row[cols.memo] ?? "").trim() : "",
+          excludeFromPl: false,
+        });
+      }
+
+      return { rows: results, issues };
+    },
+  };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 組み込み形式
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** 家計簿アプリの収支合算レポート */
+const combinedFormat: CsvFormat = {
+  id: "combined",
+  label: "収支合算レポート",
+  replaceScope: "month",
+  detect: (rows) =>
+    rows.slice(0, HEADER_SCAN_ROWS).some(
+      (r) =>
+        (r[0] === "日付" && r[1] === "種別" && r[2] === "カテゴリ") ||
+        (r.length >= 11 && /^\d{4}年\d{2}月\d{2}日/.test(r[0]))
+    ),
+  parse: (csvText, { fromYear }) => parseCombinedReport(csvText, fromYear),
+};
+
+/** 銀行の入出金明細（ゆうちょ・都市銀行・ネット銀行の一般的な列名） */
+const bankFormat = defineMappedFormat({
+  id: "bank",
+  label: "銀行 入出金明細",
+  mapping: {
+    date: ["日付", "取引日", "お取引日", "取扱日付", "年月日", "入出金日"],
+    itemName: ["摘要", "お取引内容", "取引内容", "内容", "お取り扱い内容", "詳細"],
+    expense: ["出金", "出金額", "お引出し", "お引出し金額", "お支払金額", "引出額", "支払金額"],
+    income: ["入金", "入金額", "お預入れ", "お預入れ金額", "預入額", "受入金額"],
+    amount: ["金額", "入出金額"],
+    memo: ["メモ", "備考", "摘要内容"],
+  },
+  // 口座の残高から見た向き（正 = 入金、負 = 出金）
+  positiveAmount: "income",
+});
+
+/** クレジットカードの利用明細 */
+const cardFormat = defineMappedFormat({
+  id: "card",
+  label: "クレジットカード 利用明細",
+  mapping: {
+    date: ["利用日", "ご利用日", "ご利用年月日", "利用年月日"],
+    itemName: ["利用店名", "ご利用店名", "ご利用先", "利用店名・商品名", "ご利用店名・商品名", "ご利用内容"],
+    amount: ["利用金額", "ご利用金額", "支払金額", "お支払金額", "今回ご請求額", "請求金額"],
+    memo: ["備考", "メモ", "支払区分"],
+  },
+  // 正 = 利用、負 = 返品・返金
+  positiveAmount: "expense",
+});
+
+/** 判別順（先にマッチしたものを採用） */
+export const CSV_FORMATS: CsvFormat[] = [combinedFormat, cardFormat, bankFormat];
+
+export function getCsvFormat(id: string): CsvFormat | null {
+  return CSV_FORMATS.find((f) => f.id === id) ?? null;
+}
+
+/** CSV の先頭行から形式を自動判別する。どれにも当てはまらなければ null */
+export function detectCsvFormat(csvText: string): CsvFormat | null {
+  const rows = parseCSVRows(csvText).slice(0, HEADER_SCAN_ROWS).map((r) => r.fields);
+  return CSV_FORMATS.find((f) => f.detect(rows)) ?? null;
+}
@@ -6,6 +6,7 @@
  *
  * 収支合算レポートを主データソースとして使用する。
  * カテゴリ別レポートは収支合算に包含されているため取り込みは不要。
+ * 銀行・カード明細など他の形式は csv-formats.ts のレジストリで扱う。
  */
 
 export type ParsedTransaction = {
@@ -35,90 +36,229 @@ export type ParsedAssetEntry = {
 
 type integer = number;
 
+/** 取引の種別として想定している値 */
+const KNOWN_TYPES = ["支出", "収入", "振替"];
+
 /**
  * "2026年02月01日(日)" → "2026-02-01"
+ * 存在しない日付（2月30日など）は ""
  */
 function parseJapaneseDate(raw: string): string {
   const m = raw.match(/(\d{4})年(\d{2})月(\d{2})日/);
   if (!m) return "";
-  return `${m[1]}-${m[2]}-${m[3]}`;
+  return isValidDate(m[1], m[2], m[3]) ? `${m[1]}-${m[2]}-${m[3]}` : "";
+}
+
+/** 暦上存在する日付かどうか */
+export function isValidDate(year: string, month: string, day: string): boolean {
+  const d = new Date(Date.UTC(+year, +month - 1, +day));
+  return d.getUTCFullYear() === +year && d.getUTCMonth() === +month - 1 && d.getUTCDate() === +day;
+}
+
+/** 今日の日付 "YYYY-MM-DD"（未来日付の検出・ファイル名用）。サーバーの時刻帯によらず日本時間で数える */
+export function todayString(): string {
+  // en-CA は "YYYY-MM-DD" 形式になる
+  return new Date().toLocaleDateString("en-CA", { timeZone: "Asia/Tokyo" });
+}
+
+/**
+ * 文字列 → 整数（空文字・"-" は 0、数値として解釈できなければ null）
+ */
+function parseAmount(v: string): number | null {
+  const s = v.replace(/,/g, "");
+  if (s === "" || s === "-") return 0;
+  return /^-?\d+(\.\d+)?$/.test(s) ? parseInt(s, 10) : null;
 }
 
 /**
  * 文字列 → 整数（空文字・無効値は 0）
  */
 function toInt(v: string): number {
-  const n = parseInt(v.replace(/,/g, ""), 10);
-  return isNaN(n) ? 0 : n;
+  return parseAmount(v) ?? 0;
 }
 
 /**
- * BOM 除去 + 改行正規化してから行分割
+ * 行単位の検証結果
+ *  - error   : 取り込まなかった行
+ *  - warning : 取り込んだが内容に疑わしい点がある行（上流のエクスポート形式の変更に気づくため）
+ *              取り込み開始年より前の行も、設定どおりの除外なので error ではなく warning にする
  */
-function splitLines(text: string): string[] {
-  return text
-    .replace(/^\uFEFF/, "")
-    .replace(/\r\n/g, "\n")
-    .replace(/\r/g, "\n")
-    .split("\n");
-}
+export type IssueSeverity = "error" | "warning";
+
+export type RowIssue = {
+  line: number;   // CSV 上の行番号（1始まり、複数行にまたがる場合は開始行）
+  severity: IssueSeverity;
+  reason: string;
+  raw: string;    // 元の行（フィールドをカンマで連結したもの）
+};
+
+/** パース結果: 取り込む行 + 行単位の検証結果 */
+export type ParseResult<T> = {
+  rows: T[];
+  issues: RowIssue[];
+};
+
+/** CSV の1レコード */
+export type CsvRecord = {
+  line: number;       // 開始行番号（1始まり）
+  fields: string[];
+  error?: string;     // 構文エラー（閉じられていないクォートなど）
+};
 
 /**
- * CSV 行をフィールド配列に分解（簡易実装・クォート対応）
+ * CSV をレコード単位で順に読み出す（RFC 4180 準拠）
+ * - クォート内の改行・カンマはフィールドの一部として扱う
+ * - "" はクォート内のエスケープされた " として扱う
+ * - 末尾の区切り文字は空フィールドとして扱う（"a,b," → ["a", "b", ""]）
+ * - 改行コードは CRLF / LF / CR のいずれにも対応し、フィールド内の改行は LF に揃える
+ * - BOM は除去する。各フィールドは前後の空白を除去する
  */
-function parseCSVLine(line: string): string[] {
-  const fields: string[] = [];
-  let current = "";
+export function* readCSVRecords(csvText: string): Generator<CsvRecord> {
+  const text = csvText.replace(/^\uFEFF/, "");
+  let fields: string[] = [];
+  let field = "";
   let inQuote = false;
-  for (let i = 0; i < line.length; i++) {
-    const ch = line[i];
-    if (ch === '"') {
-      if (inQuote && line[i + 1] === '"') {
-        current += '"';
-        i++;
+  let line = 1;
+  let recordLine = 1;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+
+    if (inQuote) {
+      if (ch === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuote = false;
+        }
+      } else if (ch === "\r" || ch === "\n") {
+        if (ch === "\r" && text[i + 1] === "\n") i++;
+        field += "\n";
+        line++;
       } else {
-        inQuote = !inQuote;
+        field += ch;
       }
-    } else if (ch === "," && !inQuote) {
-      fields.push(current.trim());
-      current = "";
+      continue;
+    }
+
+    if (ch === '"') {
+      inQuote = true;
+    } else if (ch === ",") {
+      fields.push(field.trim());
+      field = "";
+    } else if (ch === "\r" || ch === "\n") {
+      if (ch === "\r" && text[i + 1] === "\n") i++;
+      fields.push(field.trim());
+      yield { line: recordLine, fields };
+      fields = [];
+      field = "";
+      line++;
+      recordLine = line;
     } else {
-      current += ch;
+      field += ch;
     }
   }
-  fields.push(current.trim());
-  return fields;
+
+  // 末尾に改行がない最終レコード
+  if (field !== "" || fields.length > 0 || inQuote) {
+    fields.push(field.trim());
+    yield inQuote
+      ? { line: recordLine, fields, error: "クォートが閉じられていません" }
+      : { line: recordLine, fields };
+  }
+}
+
+/** 空行（全フィールドが空）かどうか */
+function isBlankRecord(record: CsvRecord): boolean {
+  return record.fields.every((f) => f === "");
+}
+
+/** 取り込まなかった行として記録する */
+export function skipRecord(record: CsvRecord, reason: string): RowIssue {
+  return { line: record.line, severity: "error", reason, raw: record.fields.join(",") };
+}
+
+/** 取り込んだが確認が必要な行として記録する */
+export function warnRecord(record: CsvRecord, reason: string): RowIssue {
+  return { line: record.line, severity: "warning", reason, raw: record.fields.join(",") };
+}
+
+/** 取り込み開始年より前のため取り込まなかった行として記録する（IssueSeverity を参照） */
+export function warnBeforeFromYear(record: CsvRecord, date: string, fromYear: number): RowIssue {
+  return warnRecord(record, `取り込み開始年（${fromYear}年）より前のため取り込みません（${date}）`);
+}
+
+/**
+ * CSV 全体をレコード配列に分解（空行は除く）
+ * 形式レジストリ（csv-formats.ts）の判別・列マッピングで使用
+ */
+export function parseCSVRows(csvText: string): CsvRecord[] {
+  return [...readCSVRecords(csvText)].filter((r) => !isBlankRecord(r));
 }
 
 /**
  * 収支合算レポート.csv をパース
  * ヘッダ行: 日付,種別,カテゴリ,項目名,金額,支出,収入,資産,タグ,メモ,収支の計算から除外
  */
-export function parseCombinedReport(csvText: string, fromYear = 2019): ParsedTransaction[] {
-  const lines = splitLines(csvText);
+export function parseCombinedReport(csvText: string, fromYear = 2019): ParseResult<ParsedTransaction> {
   const results: ParsedTransaction[] = [];
+  const issues: RowIssue[] = [];
+  const today = todayString();
 
-  for (const line of lines) {
-    if (!line.trim()) continue;
-    const cols = parseCSVLine(line);
-    if (cols.length < 11) continue;
+  for (const record of readCSVRecords(csvText)) {
+    if (isBlankRecord(record)) continue;
+    if (record.error) {
+      issues.push(skipRecord(record, record.error));
+      continue;
+    }
+    const cols = record.fields;
 
-    const [rawDate, type, category, itemName, , expenseRaw, incomeRaw, asset, tag, memo, excludeRaw] = cols;
+    // ヘッダ行はスキップ
+    if (cols[0] === "日付") continue;
+
+    if (cols.length < 11) {
+      issues.push(skipRecord(record, `列数が不足しています（${cols.length}列 / 11列）`));
+      continue;
+    }
 
-    // ヘッダ行・空日付はスキップ
-    if (!rawDate.match(/^\d{4}年/)) continue;
+    const [rawDate, type, category, itemName, , expenseRaw, incomeRaw, asset, tag, memo, excludeRaw] = cols;
 
-    const dateStr = parseJapaneseDate(rawDate);
-    if (!dateStr) continue;
+    const dateStr = rawDate.match(/^\d{4}年/) ? parseJapaneseDate(rawDate) : "";
+    if (!dateStr) {
+      issues.push(skipRecord(record, `日付を解釈できません（${rawDate || "空欄"}）`));
+      continue;
+    }
 
     const year = parseInt(dateStr.slice(0, 4), 10);
     const month = parseInt(dateStr.slice(5, 7), 10);
 
-    // 2019年未満のデータはスキップ
-    if (year < fromYear) continue;
+    // 取り込み開始年（インポート設定）より前のデータはスキップ
+    if (year < fromYear) {
+      issues.push(warnBeforeFromYear(record, dateStr, fromYear));
+      continue;
+    }
+
+    if (dateStr > today) {
+      issues.push(warnRecord(record, `未来の日付です（${dateStr}）`));
+    }
+    if (!KNOWN_TYPES.includes(type)) {
+      issues.push(warnRecord(record, `未知の種別です（${type || "空欄"}）`));
+    }
 
-    const expenseAmount = toInt(expenseRaw);
-    const incomeAmount = toInt(incomeRaw);
+    const parsedExpense = parseAmount(expenseRaw);
+    const parsedIncome = parseAmount(incomeRaw);
+    if (parsedExpense === null) {
+      issues.push(warnRecord(record, `支出の金額が数値ではありません（${expenseRaw}）。0 として取り込みます`));
+    }
+    if (parsedIncome === null) {
+      issues.push(warnRecord(record, `収入の金額が数値ではありません（${incomeRaw}）。0 として取り込みます`));
+    }
+    const expenseAmount = parsedExpense ?? 0;
+    const incomeAmount = parsedIncome ?? 0;
+    if (expenseAmount !== 0 && incomeAmount !== 0) {
+      issues.push(warnRecord(record, "支出と収入の両方に金額があります。支出として扱います"));
+    }
     const amount = expenseAmount !== 0 ? expenseAmount : incomeAmount;
 
     // "収支の計算から除外" は '-' が「除外しない（計算に含める）」を意味する
@@ -142,7 +282,7 @@ export function parseCombinedReport(csvText: string, fromYear = 2019): ParsedTra
     });
   }
 
-  return results;
+  return { rows: results, issues };
 }
 
 /**
@@ -163,18 +303,26 @@ export type ParsedAssetTransaction = {
   isInitial: boolean;
 };
 
-export function parseAssetReport(csvText: string, fromYear = 2019): ParsedAssetTransaction[] {
-  const lines = splitLines(csvText);
+export function parseAssetReport(csvText: string, fromYear = 2019): ParseResult<ParsedAssetTransaction> {
   const results: ParsedAssetTransaction[] = [];
+  const issues: RowIssue[] = [];
+  const today = todayString();
   let currentAsset = "";
 
-  for (const line of lines) {
-    if (!line.trim()) continue;
-    const cols = parseCSVLine(line);
-    if (cols.length < 6) continue;
+  for (const record of readCSVRecords(csvText)) {
+    if (isBlankRecord(record)) continue;
+    if (record.error) {
+      issues.push(skipRecord(record, record.error));
+      continue;
+    }
+    const cols = record.fields;
+    if (cols.length < 6) {
+      issues.push(skipRecord(record, `列数が不足しています（${cols.length}列 / 6列）`));
+      continue;
+    }
 
-    const col0 = cols[0].trim();
-    const col1 = cols[1].trim();
+    const col0 = cols[0];
+    const col1 = cols[1];
 
     // ヘッダ行（"名前" で始まる行）
     if (col0 === "名前") continue;
@@ -184,14 +332,17 @@ export function parseAssetReport(csvText: string, fromYear = 2019): ParsedAssetT
       currentAsset = col0;
     }
 
-    if (!currentAsset) continue;
+    if (!currentAsset) {
+      issues.push(skipRecord(record, "資産名が見つかりません"));
+      continue;
+    }
 
     // 初期残高行: col1 が "-" かつ col2 が "-"
     const isInitial = col1 === "-" && cols[2] === "-";
 
     if (isInitial) {
       // 初期残高は date='' として記録（後で補完が必要）
-      const balance = toInt(cols[6]);
+      const balance = toInt(cols[6] ?? "");
       results.push({
         assetName: currentAsset,
         date: "",
@@ -208,31 +359,50 @@ export function parseAssetReport(csvText: string, fromYear = 2019): ParsedAssetT
     }
 
     // 通常行
-    if (!col1.match(/^\d{4}年/)) continue;
-    const dateStr = parseJapaneseDate(col1);
-    if (!dateStr) continue;
+    const dateStr = col1.match(/^\d{4}年/) ? parseJapaneseDate(col1) : "";
+    if (!dateStr) {
+      issues.push(skipRecord(record, `日付を解釈できません（${col1 || "空欄"}）`));
+      continue;
+    }
 
     const year = parseInt(dateStr.slice(0, 4), 10);
     const month = parseInt(dateStr.slice(5, 7), 10);
-    if (year < fromYear) continue;
+    if (year < fromYear) {
+      issues.push(warnBeforeFromYear(record, dateStr, fromYear));
+      continue;
+    }
 
-    const balance = toInt(cols[6]);
+    const type = cols[2];
+    if (dateStr > today) {
+      issues.push(warnRecord(record, `未来の日付です（${dateStr}）`));
+    }
+    if (!KNOWN_TYPES.includes(type)) {
+      issues.push(warnRecord(record, `未知の種別です（${type || "空欄"}）`));
+    }
+    const amount = parseAmount(cols[5]);
+    if (amount === null) {
+      issues.push(warnRecord(record, `金額が数値ではありません（${cols[5]}）。0 として取り込みます`));
+    }
+    const balance = parseAmount(cols[6] ?? "");
+    if (balance === null) {
+      issues.push(warnRecord(record, `残高が数値ではありません（${cols[6]}）。0 として取り込みます`));
+    }
 
     results.push({
       assetName: currentAsset,
       date: dateStr,
       year,
       month,
-      type: cols[2].trim(),
+      type,
       category: cols[3].trim(),
       itemName: cols[4].trim(),
-      amount: toInt(cols[5]),
-      balance,
+      amount: amount ?? 0,
+      balance: balance ?? 0,
       isInitial: false,
     });
   }
 
-  return results;
+  return { rows: results, issues };
 }
 
 /**
@@ -302,25 +472,25 @@ export function aggregateAssetSnapshots(
  * 送金側（ゆうちょ → iDeCo）ではなく受取側を使う理由:
  * 2024-04以降、送金側の itemName が「iDeCo」（→ なし）に変わり送金側パターンでは検出できないため。
  *
+ * investmentAssetNames は投資口座の資産名（investment_products.asset_name）。
+ * 資産別レポートのセクション名と一致するものを受取側として扱う。
+ *
  * 生成されるレコード: type='振替', category='振替', memo='__asset_report__'
  */
-// 資産別レポートのセクション名 → transactions.asset_name のマッピング
-const RECEIVING_INVESTMENT_ASSETS: Record<string, string> = {
-  "iDeCo": "iDeCo",
-  "投資信託/SBI": "投資信託/SBI",
-};
-
-export function extractInvestmentTransfers(csvText: string, fromYear = 2019): ParsedTransaction[] {
-  const lines = splitLines(csvText);
+export function extractInvestmentTransfers(
+  csvText: string,
+  fromYear: number,
+  investmentAssetNames: ReadonlySet<string>
+): ParsedTransaction[] {
   const results: ParsedTransaction[] = [];
   let currentAsset = "";
 
-  for (const line of lines) {
-    if (!line.trim()) continue;
-    const cols = parseCSVLine(line);
-    if (cols.length < 6) continue;
+  // 取り込めない行の報告は parseAssetReport が行うので、ここでは黙ってスキップする
+  for (const record of readCSVRecords(csvText)) {
+    const cols = record.fields;
+    if (record.error || cols.length < 6) continue;
 
-    const col0 = cols[0].trim();
+    const col0 = cols[0];
     if (col0 === "名前") continue;
 
     // 資産別レポートは全データ行の col0 に資産名が入っている
@@ -331,11 +501,11 @@ export function extractInvestmentTransfers(csvText: string, fromYear = 2019): Pa
     if (!currentAsset) continue;
 
     // 投資口座セクション以外はスキップ
-    const destAssetName = RECEIVING_INVESTMENT_ASSETS[currentAsset];
-    if (!destAssetName) continue;
+    if (!investmentAssetNames.has(currentAsset)) continue;
+    const destAssetName = currentAsset;
 
     // col1 が日付形式のデータ行のみ処理
-    const col1 = cols[1].trim();
+    const col1 = cols[1];
     if (!col1.match(/^\d{4}年/)) continue;
 
     const dateStr = parseJapaneseDate(col1);
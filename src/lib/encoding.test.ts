@@ -0,0 +1,65 @@
+import { readFileSync } from "node:fs";
+import path from "node:path";
+import { describe, expect, it } from "vitest";
+import { decodeCsv, detectEncoding, parseEncodingParam } from "./encoding";
+
+/** フィクスチャはどれも同じ内容（CP932 の拡張文字 ㈱・① を含む）を文字コードだけ変えて保存したもの */
+const EXPECTED =
+  "日付,内容,出金,入金\r\n" +
+  "2026/02/01,㈱カケイ商店 ①,1200,\r\n" +
+  "2026/02/25,給与振込,,250000\r\n";
+
+function fixture(name: string): ArrayBuffer {
+  const buf = readFileSync(path.join(__dirname, "__fixtures__/encoding", name));
+  return buf.buffer.slice(buf.byteOffset, buf.byteOffset + buf.byteLength);
+}
+
+describe("decodeCsv（自動判定）", () => {
+  it("Shift_JIS を判定してデコードする", () => {
+    expect(decodeCsv(fixture("shift_jis.csv"))).toEqual({ text: EXPECTED, encoding: "shift_jis" });
+  });
+
+  it("BOM 付き UTF-8 は BOM を取り除いてデコードする", () => {
+    expect(decodeCsv(fixture("utf-8-bom.csv"))).toEqual({ text: EXPECTED, encoding: "utf-8" });
+  });
+
+  it("BOM なし UTF-8 を判定してデコードする", () => {
+    expect(decodeCsv(fixture("utf-8.csv"))).toEqual({ text: EXPECTED, encoding: "utf-8" });
+  });
+
+  it("UTF-16 は BOM で判定する", () => {
+    expect(detectEncoding(new Uint8Array([0xff, 0xfe, 0x41, 0x00]))).toBe("utf-16le");
+    expect(detectEncoding(new Uint8Array([0xfe, 0xff, 0x00, 0x41]))).toBe("utf-16be");
+  });
+});
+
+describe("decodeCsv（文字コードを指定）", () => {
+  it("指定した文字コードを自動判定より優先する", () => {
+    // UTF-8 のファイルを Shift_JIS として読むと文字化けするが、指定どおりにデコードする
+    const result = decodeCsv(fixture("utf-8.csv"), "shift_jis");
+    expect(result.encoding).toBe("shift_jis");
+    expect(result.text).not.toBe(EXPECTED);
+  });
+
+  it("自動判定と同じ文字コードを指定すれば同じ結果になる", () => {
+    expect(decodeCsv(fixture("shift_jis.csv"), "shift_jis")).toEqual({ text: EXPECTED, encoding: "shift_jis" });
+  });
+});
+
+describe("parseEncodingParam", () => {
+  it("既知の文字コードはそのまま返す", () => {
+    expect(parseEncodingParam("shift_jis")).toBe("shift_jis");
+    expect(parseEncodingParam("utf-16be")).toBe("utf-16be");
+  });
+
+  it("未指定・不明な値は自動判定にする", () => {
+    expect(parseEncodingParam(null)).toBe("auto");
+    expect(parseEncodingParam("")).toBe("auto");
+    expect(parseEncodingParam("euc-jp")).toBe("auto");
+  });
+
+  it("Object.prototype のプロパティ名は文字コードとして扱わない", () => {
+    expect(parseEncodingParam("toString")).toBe("auto");
+    expect(parseEncodingParam("__proto__")).toBe("auto");
+  });
+});
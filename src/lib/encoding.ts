@@ -0,0 +1,52 @@
+/**
+ * CSV の文字コード判定・デコード
+ * 国内の銀行・カードの CSV は Shift_JIS（CP932）が多く、File.text() の UTF-8 前提では文字化けする。
+ *
+ * 自動判定の順序:
+ *  1. BOM（UTF-8 / UTF-16LE / UTF-16BE）
+ *  2. UTF-8 として不正なバイト列を含まなければ UTF-8
+ *  3. それ以外は Shift_JIS
+ *
+ * WHATWG の "shift_jis" デコーダは NEC・IBM 拡張文字（①, ㈱ など）を含む CP932 相当。
+ */
+
+export type CsvEncoding = "utf-8" | "shift_jis" | "utf-16le" | "utf-16be";
+
+export const CSV_ENCODING_LABELS: Record<CsvEncoding, string> = {
+  "utf-8": "UTF-8",
+  "shift_jis": "Shift_JIS (CP932)",
+  "utf-16le": "UTF-16LE",
+  "utf-16be": "UTF-16BE",
+};
+
+export function detectEncoding(bytes: Uint8Array): CsvEncoding {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return "utf-8";
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return "utf-16le";
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return "utf-16be";
+
+  try {
+    new TextDecoder("utf-8", { fatal: true }).decode(bytes);
+    return "utf-8";
+  } catch {
+    return "shift_jis";
+  }
+}
+
+/**
+ * バイト列を文字列にデコードする
+ * encoding に "auto" を渡すと自動判定し、実際に使った文字コードも返す
+ * （BOM はデコード時に取り除かれる）
+ */
+export function decodeCsv(
+  buffer: ArrayBuffer,
+  encoding: CsvEncoding | "auto" = "auto"
+): { text: string; encoding: CsvEncoding } {
+  const bytes = new Uint8Array(buffer);
+  const resolved = encoding === "auto" ? detectEncoding(bytes) : encoding;
+  return { text: new TextDecoder(resolved).decode(bytes), encoding: resolved };
+}
+
+/** フォームの値を CsvEncoding に変換（不明な値は自動判定） */
+export function parseEncodingParam(value: string | null): CsvEncoding | "auto" {
+  return value && Object.hasOwn(CSV_ENCODING_LABELS, value) ? (value as CsvEncoding) : "auto";
+}
@@ -0,0 +1,84 @@
+/**
+ * 取引の指紋（fingerprint）
+ * 日付・種別・カテゴリ・項目名・金額・資産・メモから決まる SHA-256。
+ * 同じ内容の取引が同日に複数ある場合は出現順の序数を加えて区別する。
+ *
+ * 再インポート時はこの値で upsert するため、内容が変わらない取引は id が維持される。
+ * 指紋の導入前に取り込んだ行は内容で突き合わせ、最初の再インポートで指紋を付ける。
+ */
+import { createHash } from "crypto";
+import type { ParsedTransaction } from "./csv-parser";
+
+export function assignFingerprints<T extends ParsedTransaction>(rows: T[]): (T & { fingerprint: string })[] {
+  const ordinals = new Map<string, number>();
+  return rows.map((t) => {
+    const base = [
+      t.date,
+      t.type,
+      t.category,
+      t.itemName,
+      t.amount,
+      t.expenseAmount,
+      t.incomeAmount,
+      t.assetName,
+      t.memo,
+    ].join("\u001f");
+    const ordinal = ordinals.get(base) ?? 0;
+    ordinals.set(base, ordinal + 1);
+    return {
+      ...t,
+      fingerprint: createHash("sha256").update(`${base}\u001f${ordinal}`).digest("hex"),
+    };
+  });
+}
+
+/** 指紋のない既存行と突き合わせるための内容（カテゴリはルール・読み替えで変わるため含めない） */
+type ContentFields = {
+  date: string;
+  type: string;
+  itemName: string | null;
+  amount: number;
+  expenseAmount: number;
+  incomeAmount: number;
+  assetName: string | null;
+  memo: string | null;
+};
+
+function contentKey(t: ContentFields): string {
+  return [
+    t.date,
+    t.type,
+    t.itemName ?? "",
+    t.amount,
+    t.expenseAmount,
+    t.incomeAmount,
+    t.assetName ?? "",
+    t.memo ?? "",
+  ].join("\u001f");
+}
+
+/**
+ * 指紋の導入前に取り込んだ行（fingerprint = null）を、内容が同じ CSV の行に対応付ける
+ * 対応付けた行に CSV の行の指紋を付ければ、再インポートで削除・再作成されず id が維持される。
+ * 既存の行がすでに持っている指紋の CSV 行は対象外。同じ内容の行が複数あれば id の小さい順に対応付ける
+ */
+export function matchUnfingerprintedRows(
+  existing: (ContentFields & { id: number; fingerprint: string | null })[],
+  incoming: (ContentFields & { fingerprint: string })[]
+): { id: number; fingerprint: string }[] {
+  const known = new Set(existing.map((r) => r.fingerprint).filter((f) => f !== null));
+  const legacy = new Map<string, number[]>();
+  for (const r of [...existing].sort((a, b) => a.id - b.id)) {
+    if (r.fingerprint !== null) continue;
+    const key = contentKey(r);
+    legacy.set(key, [...(legacy.get(key) ?? []), r.id]);
+  }
+
+  const matches: { id: number; fingerprint: string }[] = [];
+  for (const t of incoming) {
+    if (known.has(t.fingerprint)) continue;
+    const id = legacy.get(contentKey(t))?.shift();
+    if (id !== undefined) matches.push({ id, fingerprint: t.fingerprint });
+  }
+  return matches;
+}
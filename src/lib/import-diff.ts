@@ -0,0 +1,176 @@
+/**
+ * インポート差分計算
+ * dry-run 時に CSV の内容と DB の既存データを突き合わせ、月別の差分を返す。
+ *
+ * 取引は (日付, 種別, カテゴリ, 項目名, 資産) を同一視キーとして対応付ける。
+ *  - キーも金額も一致        → 変更なし
+ *  - キーが一致し金額が違う  → 金額変更
+ *  - CSV にのみ存在          → 追加
+ *  - DB にのみ存在           → 削除（インポートすると消える行）
+ */
+import type { ParsedTransaction, MonthlyAssetSnapshot } from "./csv-parser";
+
+/** 月ごとの明細は件数が多くなりがちなので、この件数までしか返さない */
+const DETAIL_LIMIT = 100;
+
+export type DiffTransaction = {
+  date: string;
+  type: string;
+  category: string;
+  itemName: string;
+  assetName: string;
+  memo: string;
+  expenseAmount: number;
+  incomeAmount: number;
+};
+
+export type MonthDiff = {
+  year: number;
+  month: number;
+  addedCount: number;
+  removedCount: number;
+  changedCount: number;
+  unchangedCount: number;
+  added: DiffTransaction[];
+  removed: DiffTransaction[];
+  changed: { before: DiffTransaction; after: DiffTransaction }[];
+};
+
+export type SnapshotDiff = {
+  assetName: string;
+  year: number;
+  month: number;
+  before: { openingBalance: number; closingBalance: number } | null; // null = 新規
+  after: { openingBalance: number; closingBalance: number };
+};
+
+/** DB の transactions 行（nullable 列を含む）を比較用に正規化 */
+export function toDiffTransaction(row: {
+  date: string;
+  type: string;
+  category: string;
+  itemName: string | null;
+  assetName: string | null;
+  memo: string | null;
+  expenseAmount: number;
+  incomeAmount: number;
+}): DiffTransaction {
+  return {
+    date: row.date,
+    type: row.type,
+    category: row.category,
+    itemName: row.itemName ?? "",
+    assetName: row.assetName ?? "",
+    memo: row.memo ?? "",
+    expenseAmount: row.expenseAmount,
+    incomeAmount: row.incomeAmount,
+  };
+}
+
+function matchKey(t: DiffTransaction): string {
+  return [t.date, t.type, t.category, t.itemName, t.assetName].join("\u0000");
+}
+
+function sameAmount(a: DiffTransaction, b: DiffTransaction): boolean {
+  return a.expenseAmount === b.expenseAmount && a.incomeAmount === b.incomeAmount;
+}
+
+/**
+ * 取引の月別差分を計算する
+ * existing は対象月の既存行すべて、incoming は CSV をパースした結果
+ */
+export function diffTransactions(
+  existing: DiffTransaction[],
+  incoming: ParsedTransaction[]
+): MonthDiff[] {
+  const months = new Map<string, { year: number; month: number; before: DiffTransaction[]; after: DiffTransaction[] }>();
+  const bucket = (date: string) => {
+    const year = parseInt(date.slice(0, 4), 10);
+    const month = parseInt(date.slice(5, 7), 10);
+    const key = `${year}-${month}`;
+    if (!months.has(key)) months.set(key, { year, month, before: [], after: [] });
+    return months.get(key)!;
+  };
+
+  for (const t of existing) bucket(t.date).before.push(t);
+  for (const t of incoming) bucket(t.date).after.push(toDiffTransaction(t));
+
+  const result: MonthDiff[] = [];
+  for (const { year, month, before, after } of months.values()) {
+    // 同一キーの行をグループ化し、金額一致を優先して対応付ける
+    const pool = new Map<string, DiffTransaction[]>();
+    for (const t of before) {
+      const list = pool.get(matchKey(t)) ?? [];
+      list.push(t);
+      pool.set(matchKey(t), list);
+    }
+
+    const added: DiffTransaction[] = [];
+    const changed: { before: DiffTransaction; after: DiffTransaction }[] = [];
+    const unmatched: DiffTransaction[] = [];
+    let unchangedCount = 0;
+
+    for (const t of after) {
+      const candidates = pool.get(matchKey(t));
+      const idx = candidates?.findIndex((c) => sameAmount(c, t)) ?? -1;
+      if (candidates && idx >= 0) {
+        candidates.splice(idx, 1);
+        unchangedCount++;
+      } else {
+        unmatched.push(t);
+      }
+    }
+    // 金額が一致しなかった行は、同じキーの残りと組み合わせて「金額変更」とする
+    for (const t of unmatched) {
+      const candidates = pool.get(matchKey(t));
+      if (candidates && candidates.length > 0) {
+        changed.push({ before: candidates.shift()!, after: t });
+      } else {
+        added.push(t);
+      }
+    }
+    const removed = [...pool.values()].flat();
+
+    result.push({
+      year,
+      month,
+      addedCount: added.length,
+      removedCount: removed.length,
+      changedCount: changed.length,
+      unchangedCount,
+      added: added.slice(0, DETAIL_LIMIT),
+      removed: removed.slice(0, DETAIL_LIMIT),
+      changed: changed.slice(0, DETAIL_LIMIT),
+    });
+  }
+
+  return result.sort((a, b) => a.year * 100 + a.month - (b.year * 100 + b.month));
+}
+
+/**
+ * 資産スナップショットの差分を計算する
+ * 残高が変わらないものは返さない（上書きされても影響がないため）
+ */
+export function diffSnapshots(
+  existing: { assetName: string; year: number; month: number; openingBalance: number; closingBalance: number }[],
+  incoming: MonthlyAssetSnapshot[]
+): SnapshotDiff[] {
+  const existingMap = new Map(existing.map((s) => [`${s.assetName}|${s.year}-${s.month}`, s]));
+  const result: SnapshotDiff[] = [];
+
+  for (const s of incoming) {
+    const prev = existingMap.get(`${s.assetName}|${s.year}-${s.month}`);
+    if (prev && prev.openingBalance === s.openingBalance && prev.closingBalance === s.closingBalance) continue;
+    result.push({
+      assetName: s.assetName,
+      year: s.year,
+      month: s.month,
+      before: prev ? { openingBalance: prev.openingBalance, closingBalance: prev.closingBalance } : null,
+      after: { openingBalance: s.openingBalance, closingBalance: s.closingBalance },
+    });
+  }
+
+  return result.sort(
+    (a, b) => a.year * 100 + a.month - (b.year * 100 + b.month) || a.assetName.localeCompare(b.assetName, "ja")
+  );
+}
@@ -0,0 +1,54 @@
+/**
+ * インポート設定
+ * 形式ごとに「取り込む最初の年」を持ち、資産別レポートは加えて
+ * 「投資振替（__asset_report__）を合成する最初の年」を持つ。
+ * DB（import_settings）に行がない形式は既定値を使う。
+ */
+import { CSV_FORMATS, type CsvFormatId } from "./csv-formats";
+
+export type ImportSettingsFormat = CsvFormatId | "asset";
+
+export type ImportSettingsValues = {
+  fromYear: number;
+  transferFromYear: number | null; // 資産別レポート以外は null
+};
+
+export const DEFAULT_FROM_YEAR = 2019;
+/** 収支合算レポートに投資振替が含まれない期間（この年以降）を資産別レポートから補う */
+export const DEFAULT_TRANSFER_FROM_YEAR = 2026;
+
+export const IMPORT_SETTINGS_FORMATS: { id: ImportSettingsFormat; label: string }[] = [
+  ...CSV_FORMATS.map((f) => ({ id: f.id, label: f.label })),
+  { id: "asset", label: "資産別レポート" },
+];
+
+export function defaultImportSettings(format: ImportSettingsFormat): ImportSettingsValues {
+  return {
+    fromYear: DEFAULT_FROM_YEAR,
+    transferFromYear: format === "asset" ? DEFAULT_TRANSFER_FROM_YEAR : null,
+  };
+}
+
+export function isImportSettingsFormat(value: string): value is ImportSettingsFormat {
+  return IMPORT_SETTINGS_FORMATS.some((f) => f.id === value);
+}
+
+/** 年として妥当な値か（フォーム・API の入力チェック用） */
+export function isValidImportYear(value: unknown): value is number {
+  return typeof value === "number" && Number.isInteger(value) && value >= 1900 && value <= 2100;
+}
+
+/** DB の行と既定値をマージして、全形式の設定を返す */
+export function resolveImportSettings(
+  rows: { format: string; fromYear: number; transferFromYear: number | null }[]
+): Record<ImportSettingsFormat, ImportSettingsValues> {
+  const result = {} as Record<ImportSettingsFormat, ImportSettingsValues>;
+  for (const { id } of IMPORT_SETTINGS_FORMATS) {
+    const row = rows.find((r) => r.format === id);
+    const defaults = defaultImportSettings(id);
+    result[id] = row
+      ? { fromYear: row.fromYear, transferFromYear: id === "asset" ? row.transferFromYear ?? defaults.transferFromYear : null }
+      : defaults;
+  }
+  return result;
+}
@@ -0,0 +1,88 @@
+/**
+ * ゼロベース予算の収入割り当て
+ * 前月の実収入を今月の予算に割り当てる。monthly_income_allocations には予算の月ごとに
+ *   totalIncome    … 前月の実収入（/api/summary の totalIncome と同じ条件で集計）
+ *   totalAllocated … その月の予算の月額予算（allocation）の合計（貯蓄も含む）
+ * を保存し、どれだけ割り当てたかの履歴として残す。割当待ち = totalIncome − totalAllocated。
+ *
+ * 予算の保存（/api/budgets）・月を開く処理（budget-carryover.ts）のたびに記録し直す。
+ */
+import { db } from "./db";
+import { budgets, monthlyIncomeAllocations, transactionLines } from "./schema";
+import { and, desc, eq, ne, or, sql } from "drizzle-orm";
+import { prevYearMonth } from "./budget-rollover";
+
+export type IncomeAllocation = {
+  year: number;
+  month: number;
+  totalIncome: number;
+  totalAllocated: number;
+  /** 割当待ち（マイナスなら収入を超えて割り当てている） */
+  toBeAllocated: number;
+};
+
+function toIncomeAllocation(year: number, month: number, totalIncome: number, totalAllocated: number): IncomeAllocation {
+  return { year, month, totalIncome, totalAllocated, toBeAllocated: totalIncome - totalAllocated };
+}
+
+/** 指定月の実収入（収支の計算から除外した取引は除く。投資損益は含める） */
+export async function getMonthlyIncome(year: number, month: number): Promise<number> {
+  const [row] = await db
+    .select({ total: sql<number>`sum(income_amount)` })
+    .from(transactionLines)
+    .where(
+      and(
+        eq(transactionLines.year, year),
+        eq(transactionLines.month, month),
+        or(eq(transactionLines.excludeFromPl, false), eq(transactionLines.category, "投資損益")),
+        ne(transactionLines.type, "振替"),
+        ne(transactionLines.category, "振替")
+      )
+    );
+  return Number(row?.total ?? 0);
+}
+
+/**
+ * 予算を保存した場合の割り当て状況を求める（保存はしない）
+ * allocations を省略すると、保存済みの予算で計算する。指定したカテゴリは保存済みの値を置き換える
+ */
+export async function planIncomeAllocation(
+  year: number,
+  month: number,
+  allocations: { categoryName: string; allocation: number }[] = []
+): Promise<IncomeAllocation> {
+  const prev = prevYearMonth(year, month);
+  const [totalIncome, saved] = await Promise.all([
+    getMonthlyIncome(prev.year, prev.month),
+    db
+      .select({ categoryName: budgets.categoryName, allocation: budgets.allocation })
+      .from(budgets)
+      .where(and(eq(budgets.year, year), eq(budgets.month, month))),
+  ]);
+  const merged = new Map(saved.map((b) => [b.categoryName, b.allocation]));
+  for (const a of allocations) merged.set(a.categoryName, a.allocation);
+  const totalAllocated = Array.from(merged.values()).reduce((s, v) => s + v, 0);
+  return toIncomeAllocation(year, month, totalIncome, totalAllocated);
+}
+
+/** 保存済みの予算から割り当て状況を求めて記録する */
+export async function recordIncomeAllocation(year: number, month: number): Promise<IncomeAllocation> {
+  const plan = await planIncomeAllocation(year, month);
+  await db
+    .insert(monthlyIncomeAllocations)
+    .values({ year, month, totalIncome: plan.totalIncome, totalAllocated: plan.totalAllocated })
+    .onConflictDoUpdate({
+      target: [monthlyIncomeAllocations.year, monthlyIncomeAllocations.month],
+      set: { totalIncome: plan.totalIncome, totalAllocated: plan.totalAllocated, updatedAt: new Date() },
+    });
+  return plan;
+}
+
+/** 記録した割り当ての履歴（新しい月から） */
+export async function listIncomeAllocations(): Promise<IncomeAllocation[]> {
+  const rows = await db
+    .select()
+    .from(monthlyIncomeAllocations)
+    .orderBy(desc(monthlyIncomeAllocations.year), desc(monthlyIncomeAllocations.month));
+  return rows.map((r) => toIncomeAllocation(r.year, r.month, r.totalIncome, r.totalAllocated));
+}
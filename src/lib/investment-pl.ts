@@ -0,0 +1,87 @@
+/**
+ * 投資の運用損益
+ * 当月運用損益 = 当月末評価額 - 前月末評価額 - 当月新規拠出額
+ * 損益計算書（/api/summary）と損益計算書の PDF の両方で使う。
+ */
+import { db } from "./db";
+import { transactionLines, investmentValuations } from "./schema";
+import { and, eq, sql } from "drizzle-orm";
+import { getInvestmentProducts } from "./investment-products";
+
+/** 指定月までの累計拠出額 */
+async function getCostBasisUpTo(assetName: string, uptoYear: number, uptoMonth: number) {
+  const rows = await db
+    .select({ total: sql<number>`sum(income_amount)` })
+    .from(transactionLines)
+    .where(and(
+      eq(transactionLines.category, "振替"),
+      eq(transactionLines.assetName, assetName),
+      sql`income_amount > 0`,
+      sql`(year * 100 + month) <= ${uptoYear * 100 + uptoMonth}`,
+    ));
+  return Number(rows[0]?.total ?? 0);
+}
+
+/** 単月の投資運用損益（商品別 + 合計） */
+export async function getMonthlyInvestmentPL(year: number, month: number) {
+  const prevMonth = month === 1 ? { y: year - 1, m: 12 } : { y: year, m: month - 1 };
+
+  const [investmentProductList, currentVals, prevVals] = await Promise.all([
+    getInvestmentProducts(),
+    db.select().from(investmentValuations)
+      .where(and(eq(investmentValuations.year, year), eq(investmentValuations.month, month))),
+    db.select().from(investmentValuations)
+      .where(and(eq(investmentValuations.year, prevMonth.y), eq(investmentValuations.month, prevMonth.m))),
+  ]);
+
+  const products: { productName: string; gain: number; marketValue: number; prevMarketValue: number; contribution: number }[] = [];
+  let totalGain = 0;
+
+  for (const { name: productName, assetName } of investmentProductList) {
+    const cur = currentVals.find(v => v.productName === productName);
+    if (!cur) continue; // 当月の評価額が未登録ならスキップ
+    const prev = prevVals.find(v => v.productName === productName);
+
+    const curMarket = cur.marketValue;
+    const prevMarket = prev?.marketValue ?? 0;
+
+    let gain: number;
+    let contribution: number;
+    if (!prev) {
+      // 初回登録月: 前月の評価額がないため運用損益は算出不可 → スキップ
+      continue;
+    } else {
+      // 通常月: 運用損益 = 当月末評価額 - 前月末評価額 - 当月新規拠出額
+      const [costCur, costPrev] = await Promise.all([
+        getCostBasisUpTo(assetName, year, month),
+        getCostBasisUpTo(assetName, prevMonth.y, prevMonth.m),
+      ]);
+      contribution = costCur - costPrev;
+      gain = curMarket - prevMarket - contribution;
+    }
+
+    products.push({ productName, gain, marketValue: curMarket, prevMarketValue: prevMarket, contribution });
+    totalGain += gain;
+  }
+
+  return { products, totalGain };
+}
+
+/** 複数月の投資運用損益を合算 */
+export async function getInvestmentPLForMonths(year: number, months: number[]) {
+  const results = await Promise.all(months.map(m => getMonthlyInvestmentPL(year, m)));
+  const productMap = new Map<string, number>();
+  let totalGain = 0;
+
+  for (const r of results) {
+    for (const p of r.products) {
+      productMap.set(p.productName, (productMap.get(p.productName) ?? 0) + p.gain);
+    }
+    totalGain += r.totalGain;
+  }
+
+  return {
+    products: Array.from(productMap.entries()).map(([name, gain]) => ({ productName: name, gain })),
+    totalGain,
+  };
+}
@@ -0,0 +1,38 @@
+/**
+ * 投資商品（投資口座）の登録簿
+ * 投資管理・サマリーの運用損益・CSV インポートの投資振替抽出が参照する。
+ * 初期値（従来の固定値の iDeCo・SBI投資信託）は scripts/seed-investment-products.ts で一度だけ登録する。
+ * 読み取りでは登録しない（すべて削除した後に初期値が戻らないように）。
+ */
+import { db } from "./db";
+import { investmentProducts, type InvestmentProduct } from "./schema";
+import { asc } from "drizzle-orm";
+
+export type InvestmentAccountKind = "nisa" | "ideco" | "taxable" | "other";
+
+export const INVESTMENT_ACCOUNT_KINDS: InvestmentAccountKind[] = ["nisa", "ideco", "taxable", "other"];
+
+const DEFAULT_INVESTMENT_PRODUCTS = [
+  { name: "iDeCo", assetName: "iDeCo", accountKind: "ideco", color: "#3b82f6", sortOrder: 1 },
+  { name: "SBI投資信託", assetName: "投資信託/SBI", accountKind: "taxable", color: "#22c55e", sortOrder: 2 },
+];
+
+/** 表示順に投資商品を返す。activeOnly なら評価額の入力対象のみ */
+export async function getInvestmentProducts({ activeOnly = false } = {}): Promise<InvestmentProduct[]> {
+  const rows = await db
+    .select()
+    .from(investmentProducts)
+    .orderBy(asc(investmentProducts.sortOrder), asc(investmentProducts.id));
+  return activeOnly ? rows.filter((p) => p.active) : rows;
+}
+
+/** テーブルが空のときだけ初期値を登録し、登録した投資商品を返す（1件でもあれば何もしない） */
+export async function seedDefaultInvestmentProducts(): Promise<InvestmentProduct[]> {
+  const existing = await db.select({ id: investmentProducts.id }).from(investmentProducts).limit(1);
+  if (existing.length > 0) return [];
+  return db.insert(investmentProducts).values(DEFAULT_INVESTMENT_PRODUCTS).onConflictDoNothing().returning();
+}
+
+export function isInvestmentAccountKind(value: unknown): value is InvestmentAccountKind {
+  return typeof value === "string" && (INVESTMENT_ACCOUNT_KINDS as string[]).includes(value);
+}
@@ -0,0 +1,34 @@
+/**
+ * 通知・予算アラートの共通定義
+ * DB に依存しないため、画面（サイドバー・通知ページ・インポート）からも import できる。
+ */
+
+/** 通知が増減したときに window に投げるイベント（サイドバーが未読数を読み直す） */
+export const NOTIFICATIONS_CHANGED_EVENT = "notifications-changed";
+
+/** 予算アラートの既定のしきい値（予算合計に対する %） */
+export const DEFAULT_ALERT_THRESHOLDS = [80, 100];
+
+/** しきい値として受け付ける範囲（%） */
+const MIN_THRESHOLD = 1;
+const MAX_THRESHOLD = 1000;
+
+/**
+ * しきい値を正規化する（"80, 100" のような文字列か数値の配列）
+ * 範囲外・整数でない値は除き、重複を除いて昇順にする
+ */
+export function parseThresholds(input: unknown): number[] {
+  const values = Array.isArray(input)
+    ? input
+    : typeof input === "string"
+      ? input.split(/[,、\s]+/).filter((s) => s !== "")
+      : [];
+  const thresholds = values
+    .map((v) => Number(v))
+    .filter((n) => Number.isInteger(n) && n >= MIN_THRESHOLD && n <= MAX_THRESHOLD);
+  return Array.from(new Set(thresholds)).sort((a, b) => a - b);
+}
+
+export function formatThresholds(thresholds: number[]): string {
+  return thresholds.join(", ");
+}
@@ -0,0 +1,181 @@
+/**
+ * 最小限の PDF 書き出し
+ * 外部サービス・フォントファイルなしで、日本語の表・文章を A4 の PDF にする。
+ *
+ * - フォントは PDF 閲覧ソフトが持つ日本語の標準フォント（HeiseiKakuGo-W5）を埋め込まずに参照する
+ *   日本語フォントのない閲覧ソフトでは文字が表示されないため、画面の出力ボタンに注記している（PdfExportLink）
+ * - 文字は UniJIS-UCS2-HW-H で符号化する（ASCII は半角幅、それ以外は全角幅）
+ * - 座標はページ左上を原点とする pt（下方向が正）。PDF の座標系への変換はここで行う
+ * - 基本多言語面の外の文字（絵文字など）は描画できないため除く
+ */
+import { deflateSync } from "zlib";
+
+export const PAGE_WIDTH = 595.28;
+export const PAGE_HEIGHT = 841.89;
+
+const FONT_NAME = "HeiseiKakuGo-W5";
+
+export type PdfColor = [number, number, number];
+
+export type TextOptions = {
+  size?: number;
+  color?: PdfColor;
+  align?: "left" | "right" | "center";
+};
+
+export type PdfDocument = {
+  /** ページを追加し、以降の描画先にする。追加したページの番号（1始まり）を返す */
+  addPage: () => number;
+  /** 描画先のページを切り替える（ページ番号などを後から書き込むため） */
+  setPage: (page: number) => void;
+  pageCount: () => number;
+  /** align: right / center のとき x は右端 / 中心 */
+  text: (x: number, y: number, value: string, options?: TextOptions) => void;
+  line: (x1: number, y1: number, x2: number, y2: number, color?: PdfColor, width?: number) => void;
+  rect: (x: number, y: number, w: number, h: number, fill: PdfColor) => void;
+  build: () => Uint8Array<ArrayBuffer>;
+};
+
+/** 描画したときの文字列の幅（pt） */
+export function textWidth(value: string, size: number): number {
+  let units = 0;
+  for (const ch of value) {
+    const code = ch.codePointAt(0)!;
+    units += code < 0x80 || (code >= 0xff61 && code <= 0xff9f) ? 500 : 1000;
+  }
+  return (units / 1000) * size;
+}
+
+/** 幅に収まるように折り返す（英単語の途中でも折り返す） */
+export function wrapText(value: string, size: number, maxWidth: number): string[] {
+  const lines: string[] = [];
+  let current = "";
+  for (const ch of value) {
+    if (current !== "" && textWidth(current + ch, size) > maxWidth) {
+      lines.push(current);
+      current = ch === " " ? "" : ch;
+    } else {
+      current += ch;
+    }
+  }
+  lines.push(current);
+  return lines;
+}
+
+/** "#3b82f6" → [r, g, b]（0〜1） */
+export function hexColor(hex: string): PdfColor {
+  const n = parseInt(hex.replace("#", ""), 16);
+  return [((n >> 16) & 0xff) / 255, ((n >> 8) & 0xff) / 255, (n & 0xff) / 255];
+}
+
+function encodeText(value: string): string {
+  let hex = "";
+  for (const ch of value) {
+    const code = ch.codePointAt(0)!;
+    if (code > 0xffff || code < 0x20) continue;
+    hex += code.toString(16).padStart(4, "0");
+  }
+  return `<${hex}>`;
+}
+
+const num = (n: number) => (Math.round(n * 100) / 100).toString();
+const colorOps = (c: PdfColor, op: "rg" | "RG") => `${c.map(num).join(" ")} ${op}`;
+
+export function createPdfDocument(): PdfDocument {
+  const pages: string[][] = [];
+  let current = -1;
+
+  const ops = () => {
+    if (current < 0) throw new Error("addPage() を先に呼んでください");
+    return pages[current];
+  };
+
+  return {
+    addPage() {
+      pages.push([]);
+      current = pages.length - 1;
+      return pages.length;
+    },
+    setPage(page) {
+      current = page - 1;
+    },
+    pageCount: () => pages.length,
+    text(x, y, value, { size = 10, color = [0, 0, 0] as PdfColor, align = "left" } = {}) {
+      const w = textWidth(value, size);
+      const left = align === "right" ? x - w : align === "center" ? x - w / 2 : x;
+      ops().push(
+        `BT ${colorOps(color, "rg")} /F1 ${num(size)} Tf ${num(left)} ${num(PAGE_HEIGHT - y - size * 0.88)} Td ${encodeText(value)} Tj ET`
+      );
+    },
+    line(x1, y1, x2, y2, color: PdfColor = [0.8, 0.8, 0.8], width = 0.5) {
+      ops().push(
+        `${colorOps(color, "RG")} ${num(width)} w ${num(x1)} ${num(PAGE_HEIGHT - y1)} m ${num(x2)} ${num(PAGE_HEIGHT - y2)} l S`
+      );
+    },
+    rect(x, y, w, h, fill) {
+      ops().push(`${colorOps(fill, "rg")} ${num(x)} ${num(PAGE_HEIGHT - y - h)} ${num(w)} ${num(h)} re f`);
+    },
+    build() {
+      return serialize(pages);
+    },
+  };
+}
+
+/** オブジェクト番号: 1 = Catalog, 2 = Pages, 3〜5 = フォント, 6 以降 = ページと内容 */
+function serialize(pages: string[][]): Uint8Array<ArrayBuffer> {
+  const objects: Buffer[] = [];
+  const pageIds = pages.map((_, i) => 6 + i * 2);
+
+  const dict = (body: string) => Buffer.from(body, "latin1");
+  objects.push(dict("<< /Type /Catalog /Pages 2 0 R >>"));
+  objects.push(dict(`<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pages.length} >>`));
+  objects.push(dict(`<< /Type /Font /Subtype /Type0 /BaseFont /${FONT_NAME} /Encoding /UniJIS-UCS2-HW-H /DescendantFonts [4 0 R] >>`));
+  objects.push(
+    dict(
+      `<< /Type /Font /Subtype /CIDFontType0 /BaseFont /${FONT_NAME}` +
+        " /CIDSystemInfo << /Registry (Adobe) /Ordering (Japan1) /Supplement 2 >>" +
+        " /FontDescriptor 5 0 R /DW 1000 /W [231 389 500 631 631 500] >>"
+    )
+  );
+  objects.push(
+    dict(
+      `<< /Type /FontDescriptor /FontName /${FONT_NAME} /Flags 4 /FontBBox [-92 -250 1010 922]` +
+        " /ItalicAngle 0 /Ascent 752 /Descent -221 /CapHeight 737 /StemV 114 >>"
+    )
+  );
+
+  pages.forEach((ops, i) => {
+    objects.push(
+      dict(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}]` +
+          ` /Resources << /Font << /F1 3 0 R >> >> /Contents ${pageIds[i] + 1} 0 R >>`
+      )
+    );
+    const content = deflateSync(Buffer.from(ops.join("\n"), "latin1"));
+    objects.push(
+      Buffer.concat([
+        dict(`<< /Length ${content.length} /Filter /FlateDecode >>\nstream\n`),
+        content,
+        dict("\nendstream"),
+      ])
+    );
+  });
+
+  const chunks: Buffer[] = [Buffer.from("%PDF-1.4\n%\xe2\xe3\xcf\xd3\n", "latin1")];
+  let offset = chunks[0].length;
+  const offsets: number[] = [];
+  objects.forEach((body, i) => {
+    offsets.push(offset);
+    const chunk = Buffer.concat([dict(`${i + 1} 0 obj\n`), body, dict("\nendobj\n")]);
+    chunks.push(chunk);
+    offset += chunk.length;
+  });
+
+  const xref =
+    `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n` +
+    offsets.map((o) => `${String(o).padStart(10, "0")} 00000 n \n`).join("") +
+    `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${offset}\n%%EOF\n`;
+  chunks.push(dict(xref));
+
+  return new Uint8Array(Buffer.concat(chunks));
+}
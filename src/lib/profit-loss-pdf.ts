@@ -0,0 +1,151 @@
+/**
+ * 損益計算書の PDF
+ * 損益計算書画面と同じ区分（営業損益 = 収入 − 支出、総合損益 = 営業損益 + 投資運用損益）で、
+ * 月次・四半期・年次の1期間分を A4 縦の白地で出力する。
+ */
+import { formatCurrency, formatCurrencySigned, MONTH_NAMES } from "./utils";
+import { createPdfDocument } from "./pdf";
+import {
+  createWriter,
+  drawEmpty,
+  drawFooters,
+  drawRow,
+  drawTitle,
+  CONTENT_WIDTH,
+  GREEN,
+  RED,
+  type Column,
+  type Writer,
+} from "./report-pdf";
+import { plPeriodMonths, type PlPeriod, type ProfitAndLoss } from "./profit-loss";
+
+const signedColor = (n: number) => (n >= 0 ? GREEN : RED);
+
+/** "2026年1月1日 〜 2026年3月31日" */
+function periodRange(period: PlPeriod): string {
+  const months = plPeriodMonths(period);
+  const first = months[0];
+  const last = months[months.length - 1];
+  const lastDay = new Date(Date.UTC(period.year, last, 0)).getUTCDate();
+  return `${period.year}年${first}月1日 〜 ${period.year}年${last}月${lastDay}日`;
+}
+
+function drawSummary(w: Writer, pl: ProfitAndLoss) {
+  w.heading("損益の概要");
+  const columns: Column[] = [
+    { label: "", width: CONTENT_WIDTH - 160, align: "left" },
+    { label: "", width: 160, align: "right" },
+  ];
+  drawRow(w, columns, [{ text: "収入合計" }, { text: formatCurrency(pl.income.total) }]);
+  drawRow(w, columns, [{ text: "支出合計" }, { text: formatCurrency(pl.expense.total) }]);
+  drawRow(w, columns, [
+    { text: "営業損益（収入 − 支出）" },
+    { text: formatCurrencySigned(pl.operatingNet), color: signedColor(pl.operatingNet) },
+  ]);
+  drawRow(w, columns, [
+    { text: "投資運用損益" },
+    { text: formatCurrencySigned(pl.investment.totalGain), color: signedColor(pl.investment.totalGain) },
+  ]);
+  drawRow(
+    w,
+    columns,
+    [{ text: "総合損益" }, { text: formatCurrencySigned(pl.totalNet), color: signedColor(pl.totalNet) }],
+    { shade: true }
+  );
+}
+
+/** 収入の部・支出の部（カテゴリ・金額・構成比） */
+function drawCategoryTable(w: Writer, title: string, side: ProfitAndLoss["income"]) {
+  w.heading(title);
+  if (side.categories.length === 0) {
+    drawEmpty(w);
+    return;
+  }
+  const columns: Column[] = [
+    { label: "カテゴリ", width: CONTENT_WIDTH - 240, align: "left" },
+    { label: "金額", width: 160, align: "right" },
+    { label: "構成比", width: 80, align: "right" },
+  ];
+  drawRow(w, columns, columns.map((c) => ({ text: c.label })), { header: true });
+  for (const c of side.categories) {
+    drawRow(w, columns, [
+      { text: c.category },
+      { text: formatCurrency(c.amount) },
+      { text: `${((c.amount / side.total) * 100).toFixed(1)}%` },
+    ]);
+  }
+  drawRow(w, columns, [{ text: "合計" }, { text: formatCurrency(side.total) }, { text: "100.0%" }], { shade: true });
+}
+
+function drawInvestment(w: Writer, pl: ProfitAndLoss) {
+  if (pl.investment.products.length === 0) return;
+  w.heading("投資運用損益（商品別）");
+  const columns: Column[] = [
+    { label: "商品", width: CONTENT_WIDTH - 160, align: "left" },
+    { label: "運用損益", width: 160, align: "right" },
+  ];
+  drawRow(w, columns, columns.map((c) => ({ text: c.label })), { header: true });
+  for (const p of pl.investment.products) {
+    drawRow(w, columns, [{ text: p.productName }, { text: formatCurrencySigned(p.gain), color: signedColor(p.gain) }]);
+  }
+  drawRow(
+    w,
+    columns,
+    [{ text: "合計" }, { text: formatCurrencySigned(pl.investment.totalGain), color: signedColor(pl.investment.totalGain) }],
+    { shade: true }
+  );
+}
+
+/** 四半期・年次のみ */
+function drawMonthlyTable(w: Writer, pl: ProfitAndLoss) {
+  if (pl.monthly.length <= 1) return;
+  w.heading("月別損益");
+  const amountWidth = (CONTENT_WIDTH - 50) / 5;
+  const columns: Column[] = [
+    { label: "月", width: 50, align: "left" },
+    { label: "収入", width: amountWidth, align: "right" },
+    { label: "支出", width: amountWidth, align: "right" },
+    { label: "営業損益", width: amountWidth, align: "right" },
+    { label: "投資運用損益", width: amountWidth, align: "right" },
+    { label: "総合損益", width: amountWidth, align: "right" },
+  ];
+  drawRow(w, columns, columns.map((c) => ({ text: c.label })), { header: true });
+  for (const m of pl.monthly) {
+    drawRow(w, columns, [
+      { text: MONTH_NAMES[m.month - 1] },
+      { text: formatCurrency(m.income) },
+      { text: formatCurrency(m.expense) },
+      { text: formatCurrencySigned(m.operatingNet), color: signedColor(m.operatingNet) },
+      { text: formatCurrencySigned(m.investmentGain), color: signedColor(m.investmentGain) },
+      { text: formatCurrencySigned(m.totalNet), color: signedColor(m.totalNet) },
+    ]);
+  }
+  drawRow(
+    w,
+    columns,
+    [
+      { text: "合計" },
+      { text: formatCurrency(pl.income.total) },
+      { text: formatCurrency(pl.expense.total) },
+      { text: formatCurrencySigned(pl.operatingNet), color: signedColor(pl.operatingNet) },
+      { text: formatCurrencySigned(pl.investment.totalGain), color: signedColor(pl.investment.totalGain) },
+      { text: formatCurrencySigned(pl.totalNet), color: signedColor(pl.totalNet) },
+    ],
+    { shade: true }
+  );
+}
+
+export function renderProfitAndLossPdf(pl: ProfitAndLoss): Uint8Array<ArrayBuffer> {
+  const pdf = createPdfDocument();
+  const w = createWriter(pdf);
+
+  drawTitle(w, "Profit and Loss Statement", `${pl.label} 損益計算書`, `対象期間: ${periodRange(pl.period)}`);
+  drawSummary(w, pl);
+  drawCategoryTable(w, "収入の部", pl.income);
+  drawCategoryTable(w, "支出の部", pl.expense);
+  drawInvestment(w, pl);
+  drawMonthlyTable(w, pl);
+  drawFooters(pdf, `${pl.label} 損益計算書`, new Date());
+
+  return pdf.build();
+}
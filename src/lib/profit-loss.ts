@@ -0,0 +1,98 @@
+/**
+ * 損益計算書の集計
+ * 損益計算書画面（/api/summary）と同じ条件で、PDF 出力（/api/report?type=pl）用に1期間分をまとめる。
+ * 取引は分割明細のカテゴリで数えるため transaction_lines ビューから読む。
+ */
+import { db } from "./db";
+import { transactionLines } from "./schema";
+import { and, eq, inArray, ne, or, sql } from "drizzle-orm";
+import { getInvestmentPLForMonths, getMonthlyInvestmentPL } from "./investment-pl";
+
+// 投資損益は excludeFromPl=true でも P&L に含める
+export const plCondition = or(eq(transactionLines.excludeFromPl, false), eq(transactionLines.category, "投資損益"))!;
+
+export type PlPeriod =
+  | { type: "monthly"; year: number; month: number }
+  | { type: "quarterly"; year: number; quarter: number }
+  | { type: "yearly"; year: number };
+
+export function plPeriodMonths(period: PlPeriod): number[] {
+  if (period.type === "monthly") return [period.month];
+  if (period.type === "quarterly") return [1, 2, 3].map((m) => m + (period.quarter - 1) * 3);
+  return Array.from({ length: 12 }, (_, i) => i + 1);
+}
+
+/** "2026年" / "2026年Q1" / "2026年2月" */
+export function plPeriodLabel(period: PlPeriod): string {
+  if (period.type === "monthly") return `${period.year}年${period.month}月`;
+  if (period.type === "quarterly") return `${period.year}年Q${period.quarter}`;
+  return `${period.year}年`;
+}
+
+export async function getProfitAndLoss(period: PlPeriod) {
+  const { year } = period;
+  const months = plPeriodMonths(period);
+  const where = and(
+    eq(transactionLines.year, year),
+    inArray(transactionLines.month, months),
+    plCondition,
+    ne(transactionLines.type, "振替"),
+    ne(transactionLines.category, "振替")
+  );
+
+  const [categoryRows, monthlyRows, investPL, monthlyInvestPL] = await Promise.all([
+    db
+      .select({
+        category: transactionLines.category,
+        totalExpense: sql<number>`sum(expense_amount)`,
+        totalIncome: sql<number>`sum(income_amount)`,
+      })
+      .from(transactionLines)
+      .where(where)
+      .groupBy(transactionLines.category),
+    db
+      .select({
+        month: transactionLines.month,
+        totalExpense: sql<number>`sum(expense_amount)`,
+        totalIncome: sql<number>`sum(income_amount)`,
+      })
+      .from(transactionLines)
+      .where(where)
+      .groupBy(transactionLines.month),
+    getInvestmentPLForMonths(year, months),
+    Promise.all(months.map((m) => getMonthlyInvestmentPL(year, m))),
+  ]);
+
+  const byAmount = (side: "totalIncome" | "totalExpense") =>
+    categoryRows
+      .map((r) => ({ category: r.category, amount: Number(r[side] ?? 0) }))
+      .filter((r) => r.amount > 0)
+      .sort((a, b) => b.amount - a.amount);
+  const incomeCategories = byAmount("totalIncome");
+  const expenseCategories = byAmount("totalExpense");
+  const totalIncome = incomeCategories.reduce((s, c) => s + c.amount, 0);
+  const totalExpense = expenseCategories.reduce((s, c) => s + c.amount, 0);
+  const operatingNet = totalIncome - totalExpense;
+
+  const monthly = months.map((month, i) => {
+    const r = monthlyRows.find((x) => x.month === month);
+    const income = Number(r?.totalIncome ?? 0);
+    const expense = Number(r?.totalExpense ?? 0);
+    const investmentGain = monthlyInvestPL[i].totalGain;
+    return { month, income, expense, operatingNet: income - expense, investmentGain, totalNet: income - expense + investmentGain };
+  });
+
+  return {
+    period,
+    label: plPeriodLabel(period),
+    income: { total: totalIncome, categories: incomeCategories },
+    expense: { total: totalExpense, categories: expenseCategories },
+    operatingNet,
+    investment: investPL,
+    /** 総合損益 = 営業損益 + 投資運用損益 */
+    totalNet: operatingNet + investPL.totalGain,
+    monthly,
+  };
+}
+
+export type ProfitAndLoss = Awaited<ReturnType<typeof getProfitAndLoss>>;
@@ -0,0 +1,112 @@
+/**
+ * 帳票 PDF の共通レイアウト
+ * 年次決算レポート・損益計算書・貸借対照表の PDF で、A4 縦・白地の同じ体裁（タイトル・見出し・表・フッター）を使う。
+ */
+import { hexColor, PAGE_WIDTH, PAGE_HEIGHT, type PdfColor, type PdfDocument } from "./pdf";
+
+export const MARGIN = 48;
+export const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const FOOTER_TOP = PAGE_HEIGHT - 36;
+
+export const TEXT = hexColor("#0f172a");
+export const MUTED = hexColor("#64748b");
+export const RULE = hexColor("#cbd5e1");
+export const PANEL = hexColor("#f1f5f9");
+export const GREEN = hexColor("#15803d");
+export const RED = hexColor("#b91c1c");
+export const BLUE = hexColor("#1d4ed8");
+export const BAR = hexColor("#3b82f6");
+
+/** ページをまたいで上から順に書き進める */
+export function createWriter(pdf: PdfDocument) {
+  let y = 0;
+
+  const newPage = () => {
+    pdf.addPage();
+    y = MARGIN;
+  };
+  newPage();
+
+  return {
+    pdf,
+    get y() {
+      return y;
+    },
+    advance(h: number) {
+      y += h;
+    },
+    /** 残りの高さが足りなければ改ページする */
+    ensure(h: number) {
+      if (y + h > FOOTER_TOP - 12) newPage();
+    },
+    heading(title: string) {
+      this.ensure(40);
+      y += 10;
+      pdf.text(MARGIN, y, title, { size: 13, color: TEXT });
+      y += 19;
+      pdf.line(MARGIN, y, MARGIN + CONTENT_WIDTH, y, RULE, 0.8);
+      y += 8;
+    },
+  };
+}
+
+export type Writer = ReturnType<typeof createWriter>;
+
+/** 1ページ目の表題（英字の小見出し・表題・対象期間などの補足） */
+export function drawTitle(w: Writer, eyebrow: string, title: string, subtitle: string) {
+  const { pdf } = w;
+  pdf.text(PAGE_WIDTH / 2, w.y, eyebrow, { size: 9, color: MUTED, align: "center" });
+  w.advance(16);
+  pdf.text(PAGE_WIDTH / 2, w.y, title, { size: 20, color: TEXT, align: "center" });
+  w.advance(28);
+  pdf.text(PAGE_WIDTH / 2, w.y, subtitle, { size: 9, color: MUTED, align: "center" });
+  w.advance(24);
+}
+
+export type Column = { label: string; width: number; align: "left" | "right" };
+
+/** 表の1行。cells は columns と同じ順。行の上端の y を返す */
+export function drawRow(
+  w: Writer,
+  columns: Column[],
+  cells: { text: string; color?: PdfColor }[],
+  options: { header?: boolean; shade?: boolean } = {}
+): number {
+  const rowH = 17;
+  w.ensure(rowH);
+  const top = w.y;
+  if (options.shade) w.pdf.rect(MARGIN, w.y, CONTENT_WIDTH, rowH, PANEL);
+  let x = MARGIN;
+  columns.forEach((col, i) => {
+    const cell = cells[i];
+    const tx = col.align === "right" ? x + col.width - 6 : x + 6;
+    w.pdf.text(tx, w.y + 4, cell.text, {
+      size: options.header ? 8 : 9,
+      color: cell.color ?? (options.header ? MUTED : TEXT),
+      align: col.align,
+    });
+    x += col.width;
+  });
+  w.advance(rowH);
+  w.pdf.line(MARGIN, w.y, MARGIN + CONTENT_WIDTH, w.y, RULE, options.header ? 0.8 : 0.3);
+  return top;
+}
+
+/** データがないときの1行 */
+export function drawEmpty(w: Writer, message = "データなし") {
+  w.pdf.text(MARGIN, w.y, message, { size: 9, color: MUTED });
+  w.advance(16);
+}
+
+/** 全ページに帳票名・作成日・ページ番号を入れる（最後に呼ぶ） */
+export function drawFooters(pdf: PdfDocument, documentTitle: string, generatedAt: Date) {
+  const total = pdf.pageCount();
+  for (let page = 1; page <= total; page++) {
+    pdf.setPage(page);
+    pdf.line(MARGIN, FOOTER_TOP, MARGIN + CONTENT_WIDTH, FOOTER_TOP, RULE, 0.5);
+    pdf.text(MARGIN, FOOTER_TOP + 6, `${documentTitle}　作成日 ${generatedAt.toLocaleDateString("ja-JP", { timeZone: "Asia/Tokyo" })}`, {
+      size: 7, color: MUTED,
+    });
+    pdf.text(MARGIN + CONTENT_WIDTH, FOOTER_TOP + 6, `${page} / ${total}`, { size: 7, color: MUTED, align: "right" });
+  }
+}
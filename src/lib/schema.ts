@@ -1,5 +1,6 @@
 import {
   pgTable,
+  pgView,
   serial,
   varchar,
   integer,
@@ -7,9 +8,11 @@ import {
   date,
   text,
   timestamp,
+  jsonb,
   unique,
   index,
 } from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
 
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -32,10 +35,18 @@ export const transactions = pgTable(
     tag: varchar("tag", { length: 100 }),
     memo: text("memo"),
     excludeFromPl: boolean("exclude_from_pl").notNull().default(false),
+    importBatchId: integer("import_batch_id"), // 取り込んだインポート（import_batches.id）
+    // 内容から決まる識別子（再インポート時に同じ行を同じ id のまま残すため）
+    // null = 指紋導入前の行、または資産別レポート由来の合成レコード
+    fingerprint: varchar("fingerprint", { length: 64 }),
+    // 'import' = CSV から取り込んだ行 | 'manual' = 手入力（再インポートで置き換えない）
+    source: varchar("source", { length: 10 }).notNull().default("import"),
     createdAt: timestamp("created_at").notNull().defaultNow(),
   },
   (t) => ({
+    fingerprintUniq: unique("tx_fingerprint_uniq").on(t.fingerprint),
     yearMonthIdx: index("tx_year_month_idx").on(t.year, t.month),
+    importBatchIdx: index("tx_import_batch_idx").on(t.importBatchId),
     categoryIdx: index("tx_category_idx").on(t.category),
     typeIdx: index("tx_type_idx").on(t.type),
     dateIdx: index("tx_date_idx").on(t.date),
@@ -43,6 +54,64 @@ export const transactions = pgTable(
   })
 );
 
+// ─────────────────────────────────────────────────────────────────────────────
+// 取引の分割明細（1件の取引を複数カテゴリに分ける。金額の合計は親取引の金額と一致）
+// ─────────────────────────────────────────────────────────────────────────────
+export const transactionSplits = pgTable(
+  "transaction_splits",
+  {
+    id: serial("id").primaryKey(),
+    transactionId: integer("transaction_id").notNull(), // 親取引（transactions.id）
+    // 親取引の指紋。再インポートで親の id が変わったときに付け替えるために持つ（手入力の親は null）
+    parentFingerprint: varchar("parent_fingerprint", { length: 64 }),
+    category: varchar("category", { length: 100 }).notNull(),
+    amount: integer("amount").notNull(), // 親取引と同じ向き（支出なら支出額）の正の金額
+    memo: text("memo"),
+    sortOrder: integer("sort_order").notNull().default(0),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+  },
+  (t) => [
+    index("tx_splits_transaction_idx").on(t.transactionId),
+    index("tx_splits_parent_fingerprint_idx").on(t.parentFingerprint),
+  ]
+);
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 集計用の取引明細ビュー
+// 分割されていない取引はそのまま、分割された取引は分割明細ごとの行になる。
+// 収支・予算・分析の集計は transactions ではなくこのビューを使う。
+// ─────────────────────────────────────────────────────────────────────────────
+export const transactionLines = pgView("transaction_lines", {
+  id: integer("id").notNull(), // 親取引の id（分割明細では複数行が同じ id を持つ）
+  splitId: integer("split_id"), // null = 分割されていない取引
+  date: date("date").notNull(),
+  year: integer("year").notNull(),
+  month: integer("month").notNull(),
+  type: varchar("type", { length: 10 }).notNull(),
+  category: varchar("category", { length: 100 }).notNull(),
+  itemName: varchar("item_name", { length: 200 }),
+  amount: integer("amount").notNull(),
+  expenseAmount: integer("expense_amount").notNull(),
+  incomeAmount: integer("income_amount").notNull(),
+  assetName: varchar("asset_name", { length: 100 }),
+  tag: varchar("tag", { length: 100 }),
+  memo: text("memo"),
+  excludeFromPl: boolean("exclude_from_pl").notNull(),
+}).as(sql`
+  SELECT t.id, NULL::integer AS split_id, t.date, t.year, t.month, t.type, t.category, t.item_name,
+         t.amount, t.expense_amount, t.income_amount, t.asset_name, t.tag, t.memo, t.exclude_from_pl
+  FROM transactions t
+  WHERE NOT EXISTS (SELECT 1 FROM transaction_splits s WHERE s.transaction_id = t.id)
+  UNION ALL
+  SELECT t.id, s.id AS split_id, t.date, t.year, t.month, t.type, s.category, t.item_name,
+         s.amount,
+         CASE WHEN t.income_amount > 0 THEN 0 ELSE s.amount END AS expense_amount,
+         CASE WHEN t.income_amount > 0 THEN s.amount ELSE 0 END AS income_amount,
+         t.asset_name, t.tag, COALESCE(s.memo, t.memo) AS memo, t.exclude_from_pl
+  FROM transaction_splits s
+  JOIN transactions t ON t.id = s.transaction_id
+`);
+
 // ─────────────────────────────────────────────────────────────────────────────
 // 資産月次スナップショット（資産別レポートCSVから取り込む月末残高）
 // ─────────────────────────────────────────────────────────────────────────────
@@ -58,6 +127,7 @@ export const assetSnapshots = pgTable(
     // 資産種別（柔軟に追加できるよう文字列で管理）
     assetType: varchar("asset_type", { length: 30 }).notNull().default("other"),
     // bank | credit | investment | ic_card | qr_pay | cash | other
+    importBatchId: integer("import_batch_id"), // 最後に上書きしたインポート（import_batches.id）
     updatedAt: timestamp("updated_at").notNull().defaultNow(),
   },
   (t) => ({
@@ -66,6 +136,107 @@ export const assetSnapshots = pgTable(
   })
 );
 
+// ─────────────────────────────────────────────────────────────────────────────
+// インポート履歴テーブル（/api/import の実行1回 = 1行）
+// ─────────────────────────────────────────────────────────────────────────────
+export const importBatches = pgTable("import_batches", {
+  id: serial("id").primaryKey(),
+  fileNames: text("file_names").notNull(),
+  fileHash: varchar("file_hash", { length: 64 }).notNull(), // SHA-256（全ファイル連結）
+  format: varchar("format", { length: 30 }), // 取引ファイルの形式（csv-formats.ts の id）、null = 資産別レポートのみ
+  transactionCount: integer("transaction_count").notNull().default(0), // 挿入した取引
+  transferCount: integer("transfer_count").notNull().default(0),       // 挿入した合成振替
+  snapshotCount: integer("snapshot_count").notNull().default(0),       // upsert した資産スナップショット
+  replacedCount: integer("replaced_count").notNull().default(0),       // 置き換えで削除した既存取引
+  yearMonths: jsonb("year_months").$type<string[]>().notNull(),        // ['2026-01', '2026-02', ...]
+  revertedAt: timestamp("reverted_at"), // null = 有効
+  backupPrunedAt: timestamp("backup_pruned_at"), // 退避データを削除した日時（以後は取り消せない）
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (t) => [index("import_batches_created_at_idx").on(t.createdAt)]);
+
+// ─────────────────────────────────────────────────────────────────────────────
+// インポート前の状態の退避テーブル（取り消し時に復元する行）
+// ─────────────────────────────────────────────────────────────────────────────
+export const importBatchBackups = pgTable("import_batch_backups", {
+  id: serial("id").primaryKey(),
+  batchId: integer("batch_id").notNull(),
+  tableName: varchar("table_name", { length: 30 }).notNull(), // 'transactions' | 'asset_snapshots'
+  data: jsonb("data").notNull(), // 削除・上書きされる前の行そのもの
+}, (t) => [index("import_batch_backups_batch_idx").on(t.batchId)]);
+
+// ─────────────────────────────────────────────────────────────────────────────
+// インポート設定テーブル（形式ごとの取り込み範囲、行がない形式は既定値）
+// ─────────────────────────────────────────────────────────────────────────────
+export const importSettings = pgTable("import_settings", {
+  format: varchar("format", { length: 30 }).primaryKey(), // csv-formats.ts の id | 'asset'（資産別レポート）
+  fromYear: integer("from_year").notNull().default(2019), // この年以降の行を取り込む
+  transferFromYear: integer("transfer_from_year"), // 資産別レポートのみ: 投資振替を合成する最初の年
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// カテゴリテーブル（表示順・色・グループ。取引の category 文字列と name で対応）
+// ─────────────────────────────────────────────────────────────────────────────
+export const categoryGroups = pgTable("category_groups", {
+  id: serial("id").primaryKey(),
+  name: varchar("name", { length: 50 }).notNull().unique(), // 例: 固定費 / 変動費 / 特別費
+  sortOrder: integer("sort_order").notNull().default(0),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const categories = pgTable("categories", {
+  id: serial("id").primaryKey(),
+  name: varchar("name", { length: 100 }).notNull().unique(), // transactions.category と同じ文字列
+  groupId: integer("group_id"), // category_groups.id（null = グループなし）
+  sortOrder: integer("sort_order").notNull().default(0),
+  color: varchar("color", { length: 7 }).notNull().default("#94a3b8"), // グラフの色
+  active: boolean("active").notNull().default(true), // false = 過去のカテゴリ（集計には残るが選択肢に出さない）
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// 旧カテゴリ名 → 現在のカテゴリ名（名前の変更・統合時に記録し、以後のインポートで読み替える）
+export const categoryAliases = pgTable("category_aliases", {
+  alias: varchar("alias", { length: 100 }).primaryKey(),
+  categoryName: varchar("category_name", { length: 100 }).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 分類ルールテーブル（インポート時にカテゴリ・タグ・P/L除外を書き換える）
+// ─────────────────────────────────────────────────────────────────────────────
+export const categoryRules = pgTable("category_rules", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull().default(""), // 一覧での表示用
+  priority: integer("priority").notNull().default(0), // 小さいほど先に評価（最初に一致したルールだけを適用）
+  active: boolean("active").notNull().default(true),
+  // 照合条件: pattern が空なら文字列は照合しない。金額範囲は両端を含む（null = 制限なし）
+  matchField: varchar("match_field", { length: 20 }).notNull().default("itemName"), // 'itemName' | 'memo' | 'assetName'
+  matchType: varchar("match_type", { length: 10 }).notNull().default("contains"), // 'contains' | 'regex'
+  pattern: text("pattern").notNull().default(""),
+  amountMin: integer("amount_min"),
+  amountMax: integer("amount_max"),
+  // 書き換え内容（null = 変更しない）
+  setCategory: varchar("set_category", { length: 100 }),
+  setTag: varchar("set_tag", { length: 100 }),
+  setExcludeFromPl: boolean("set_exclude_from_pl"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 保存した検索条件テーブル（取引明細の絞り込みに名前を付けて保存）
+// ─────────────────────────────────────────────────────────────────────────────
+export const savedFilters = pgTable("saved_filters", {
+  id: serial("id").primaryKey(),
+  name: varchar("name", { length: 100 }).notNull(),
+  query: text("query").notNull(), // /api/transactions のクエリ文字列（transaction-filter.ts の形式）
+  sortOrder: integer("sort_order").notNull().default(0),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
 // ─────────────────────────────────────────────────────────────────────────────
 // 予算設定テーブル（月ごと × カテゴリごとの予算）
 // ─────────────────────────────────────────────────────────────────────────────
@@ -89,6 +260,67 @@ export const budgets = pgTable(
   })
 );
 
+// ─────────────────────────────────────────────────────────────────────────────
+// 予算移動テーブル（月の途中でカテゴリ間に予算を移した記録）
+// ─────────────────────────────────────────────────────────────────────────────
+export const budgetTransfers = pgTable(
+  "budget_transfers",
+  {
+    id: serial("id").primaryKey(),
+    year: integer("year").notNull(),
+    month: integer("month").notNull(),
+    fromCategory: varchar("from_category", { length: 100 }).notNull(),
+    toCategory: varchar("to_category", { length: 100 }).notNull(),
+    amount: integer("amount").notNull(), // 移動額（正の値）
+    memo: text("memo"),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+  },
+  (t) => ({
+    yearMonthIdx: index("budget_transfers_year_month_idx").on(t.year, t.month),
+  })
+);
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 予算アラート設定テーブル（既定のしきい値と通知先。id=1 固定）
+// ─────────────────────────────────────────────────────────────────────────────
+export const budgetAlertSettings = pgTable("budget_alert_settings", {
+  id: integer("id").primaryKey().default(1),
+  defaultThresholds: jsonb("default_thresholds").$type<number[]>().notNull().default([80, 100]), // 予算合計に対する %
+  webhookUrl: text("webhook_url"), // 新しいアラートを POST する URL（自宅サーバーなど。空なら送らない）
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// カテゴリ別の予算アラートしきい値（行がないカテゴリは既定のしきい値を使う）
+// ─────────────────────────────────────────────────────────────────────────────
+export const budgetAlertThresholds = pgTable("budget_alert_thresholds", {
+  id: serial("id").primaryKey(),
+  categoryName: varchar("category_name", { length: 100 }).notNull().unique(),
+  thresholds: jsonb("thresholds").$type<number[]>().notNull(), // 空配列 = このカテゴリは通知しない
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 通知テーブル（予算アラートなど。サイドバーのバッジと /notifications に表示）
+// ─────────────────────────────────────────────────────────────────────────────
+export const notifications = pgTable(
+  "notifications",
+  {
+    id: serial("id").primaryKey(),
+    kind: text("kind").notNull(), // 'budget_threshold'
+    // 同じ内容を二重に通知しないためのキー（例: 'budget:2026-2:食費:80'）
+    dedupeKey: text("dedupe_key").notNull().unique(),
+    title: text("title").notNull(),
+    message: text("message").notNull(),
+    link: text("link"), // 通知から開くページ
+    readAt: timestamp("read_at"),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+  },
+  (t) => ({
+    createdAtIdx: index("notifications_created_at_idx").on(t.createdAt),
+  })
+);
+
 // ─────────────────────────────────────────────────────────────────────────────
 // 月次収入割り当てテーブル（前月収入を今月予算に割り振るときの管理）
 // ─────────────────────────────────────────────────────────────────────────────
@@ -134,6 +366,10 @@ export const standardBudgets = pgTable("standard_budgets", {
   categoryName: text("category_name").notNull().unique(),
   allocation: integer("allocation").notNull().default(0),
   notes: text("notes"),
+  // 月を開くときの繰越ルール: 'full' | 'surplus' | 'reset' | 'cap'（budget-rollover.ts）
+  rolloverPolicy: text("rollover_policy").notNull().default("full"),
+  // rolloverPolicy = 'cap' のときの上限（月額予算の何ヶ月分まで繰り越すか）
+  rolloverCapMonths: integer("rollover_cap_months"),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
@@ -160,6 +396,21 @@ export const specialExpensesB = pgTable("special_expenses_b", {
   updatedAt: timestamp("updated_at").defaultNow(),
 }, (t) => [index("special_expenses_b_year_month_idx").on(t.year, t.month)]);
 
+// ─────────────────────────────────────────────────────────────────────────────
+// 投資商品テーブル（投資口座の登録簿。投資管理・サマリー・インポートが参照する）
+// ─────────────────────────────────────────────────────────────────────────────
+export const investmentProducts = pgTable("investment_products", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull().unique(), // 表示名 = investment_valuations.product_name
+  assetName: varchar("asset_name", { length: 100 }).notNull().unique(), // 資産別レポート・asset_snapshots の資産名
+  accountKind: varchar("account_kind", { length: 20 }).notNull().default("taxable"), // 'nisa' | 'ideco' | 'taxable' | 'other'
+  color: varchar("color", { length: 7 }).notNull().default("#3b82f6"), // グラフの色
+  sortOrder: integer("sort_order").notNull().default(0),
+  active: boolean("active").notNull().default(true), // false = 評価額の入力対象から外す（過去の記録は残す）
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
 // ─────────────────────────────────────────────────────────────────────────────
 // 投資評価額テーブル（月次・商品別）
 // ─────────────────────────────────────────────────────────────────────────────
@@ -167,7 +418,7 @@ export const investmentValuations = pgTable("investment_valuations", {
   id: serial("id").primaryKey(),
   year: integer("year").notNull(),
   month: integer("month").notNull(),
-  productName: text("product_name").notNull(), // 'iDeCo' | 'SBI投資信託'
+  productName: text("product_name").notNull(), // investment_products.name
   marketValue: integer("market_value").notNull().default(0), // 評価額
   updatedAt: timestamp("updated_at").defaultNow(),
 }, (t) => [
@@ -205,6 +456,7 @@ export const reportAnalyses = pgTable("report_analyses", {
 
 export type ReportAnalysis = typeof reportAnalyses.$inferSelect;
 
+export type InvestmentProduct = typeof investmentProducts.$inferSelect;
 export type InvestmentValuation = typeof investmentValuations.$inferSelect;
 export type NewInvestmentValuation = typeof investmentValuations.$inferInsert;
 export type FireSettings = typeof fireSettings.$inferSelect;
@@ -220,8 +472,20 @@ export type NewSpecialExpenseB = typeof specialExpensesB.$inferInsert;
 // ─────────────────────────────────────────────────────────────────────────────
 export type Transaction = typeof transactions.$inferSelect;
 export type NewTransaction = typeof transactions.$inferInsert;
+export type TransactionSplit = typeof transactionSplits.$inferSelect;
 export type AssetSnapshot = typeof assetSnapshots.$inferSelect;
 export type NewAssetSnapshot = typeof assetSnapshots.$inferInsert;
 export type Budget = typeof budgets.$inferSelect;
 export type NewBudget = typeof budgets.$inferInsert;
+export type BudgetTransfer = typeof budgetTransfers.$inferSelect;
 export type MonthlyIncomeAllocation = typeof monthlyIncomeAllocations.$inferSelect;
+export type BudgetAlertSettings = typeof budgetAlertSettings.$inferSelect;
+export type BudgetAlertThreshold = typeof budgetAlertThresholds.$inferSelect;
+export type Notification = typeof notifications.$inferSelect;
+export type ImportBatch = typeof importBatches.$inferSelect;
+export type ImportSetting = typeof importSettings.$inferSelect;
+export type CategoryRule = typeof categoryRules.$inferSelect;
+export type Category = typeof categories.$inferSelect;
+export type CategoryGroup = typeof categoryGroups.$inferSelect;
+export type CategoryAlias = typeof categoryAliases.$inferSelect;
+export type SavedFilter = typeof savedFilters.$inferSelect;
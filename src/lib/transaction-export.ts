@@ -0,0 +1,70 @@
+/**
+ * 取引のエクスポート
+ * 収支合算レポート.csv と同じ列・表記で出力する（csv-parser.ts の parseCombinedReport で読み戻せる）。
+ *
+ *   日付,種別,カテゴリ,項目名,金額,支出,収入,資産,タグ,メモ,収支の計算から除外
+ *
+ * - 日付は "2026年02月01日(日)" 形式
+ * - 収支の計算から除外は、集計対象なら "-"、除外なら "除外"
+ * - 分割明細は出力しない（分割はアプリ内の情報で、元の CSV にはないため）
+ * - 手入力の取引（source='manual'）は渡さない。取り込みで置き換わらずに残るため、読み戻すと二重になる
+ *
+ * 収支合算レポートの取り込みは対象月の取引を丸ごと置き換えるため、/api/transactions は
+ * 期間以外の絞り込みを外して月単位で出力する（transaction-filter.ts の toExportFilter）。
+ * 取り込めるのは CSV だけで、xlsx は表計算ソフトで見るためのもの。
+ */
+import type { Transaction } from "./schema";
+import { buildXlsx } from "./xlsx";
+
+export const COMBINED_REPORT_HEADERS = [
+  "日付", "種別", "カテゴリ", "項目名", "金額", "支出", "収入", "資産", "タグ", "メモ", "収支の計算から除外",
+];
+
+export type ExportFormat = "csv" | "xlsx";
+
+const WEEKDAYS = ["日", "月", "火", "水", "木", "金", "土"];
+
+/** "2026-02-01" → "2026年02月01日(日)" */
+function toJapaneseDate(date: string): string {
+  const [y, m, d] = date.split("-");
+  const weekday = WEEKDAYS[new Date(Date.UTC(+y, +m - 1, +d)).getUTCDay()];
+  return `${y}年${m}月${d}日(${weekday})`;
+}
+
+export function toCombinedReportRows(rows: Transaction[]): (string | number)[][] {
+  return rows.map((t) => [
+    toJapaneseDate(t.date),
+    t.type,
+    t.category,
+    t.itemName ?? "",
+    t.amount,
+    t.expenseAmount,
+    t.incomeAmount,
+    t.assetName ?? "",
+    t.tag ?? "",
+    t.memo ?? "",
+    t.excludeFromPl ? "除外" : "-",
+  ]);
+}
+
+/** カンマ・ダブルクォート・改行・前後の空白を含むフィールドはクォートする */
+function csvField(value: string | number): string {
+  const s = String(value);
+  return /[",\r\n]|^\s|\s$/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+export function toCsv(rows: (string | number)[][]): string {
+  return rows.map((r) => r.map(csvField).join(",")).join("\r\n") + "\r\n";
+}
+
+/** 取引一覧をファイルの中身にする（CSV は Excel でも文字化けしないよう BOM 付き UTF-8） */
+export function exportTransactions(rows: Transaction[], format: ExportFormat): Uint8Array<ArrayBuffer> {
+  const table = [COMBINED_REPORT_HEADERS, ...toCombinedReportRows(rows)];
+  if (format === "xlsx") return new Uint8Array(buildXlsx("収支合算レポート", table));
+  return new TextEncoder().encode(`\uFEFF${toCsv(table)}`);
+}
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+};
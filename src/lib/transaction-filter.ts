@@ -0,0 +1,133 @@
+/**
+ * 取引の検索条件
+ * /api/transactions のクエリパラメータと、取引明細ページの URL（共有用）で同じ形式を使う。
+ *
+ *   year, month, quarter        期間（quarter があれば month より優先）
+ *   from, to                    日付範囲 YYYY-MM-DD（両端を含む）
+ *   type                        種別
+ *   category                    カテゴリ（複数指定可: category=食費&category=カフェ）。分割明細のカテゴリにも一致
+ *   keyword                     項目名・メモ・タグ・資産名の部分一致
+ *   amount                      金額の完全一致
+ *   amountMin, amountMax        金額範囲（両端を含む）
+ *   pl                          'included' = P/L 対象のみ | 'excluded' = P/L 除外のみ
+ *   sort                        date_desc（既定）| date_asc | amount_desc | amount_asc
+ */
+
+/** 保存した検索条件を追加・削除したときに window に送るイベント（サイドバーが一覧を読み直す） */
+export const SAVED_FILTERS_CHANGED_EVENT = "saved-filters-changed";
+
+export type TransactionSort = "date_desc" | "date_asc" | "amount_desc" | "amount_asc";
+
+export const TRANSACTION_SORTS: Record<TransactionSort, string> = {
+  date_desc: "日付の新しい順",
+  date_asc: "日付の古い順",
+  amount_desc: "金額の大きい順",
+  amount_asc: "金額の小さい順",
+};
+
+export type TransactionPlFilter = "included" | "excluded";
+
+export type TransactionFilter = {
+  year: number | null;
+  month: number | null;
+  quarter: number | null;
+  dateFrom: string | null;
+  dateTo: string | null;
+  type: string | null;
+  categories: string[];
+  keyword: string | null;
+  amount: number | null;
+  amountMin: number | null;
+  amountMax: number | null;
+  pl: TransactionPlFilter | null;
+  sort: TransactionSort;
+};
+
+export const EMPTY_TRANSACTION_FILTER: TransactionFilter = {
+  year: null,
+  month: null,
+  quarter: null,
+  dateFrom: null,
+  dateTo: null,
+  type: null,
+  categories: [],
+  keyword: null,
+  amount: null,
+  amountMin: null,
+  amountMax: null,
+  pl: null,
+  sort: "date_desc",
+};
+
+function intParam(params: URLSearchParams, key: string): number | null {
+  const n = parseInt(params.get(key) ?? "", 10);
+  return Number.isNaN(n) ? null : n;
+}
+
+function dateParam(params: URLSearchParams, key: string): string | null {
+  const v = params.get(key);
+  return v && /^\d{4}-\d{2}-\d{2}$/.test(v) ? v : null;
+}
+
+/** クエリパラメータ → 検索条件（解釈できない値は無視する） */
+export function parseTransactionFilter(params: URLSearchParams): TransactionFilter {
+  const sort = params.get("sort");
+  const pl = params.get("pl");
+  return {
+    year: intParam(params, "year") || null,
+    month: intParam(params, "month") || null,
+    quarter: intParam(params, "quarter") || null,
+    dateFrom: dateParam(params, "from"),
+    dateTo: dateParam(params, "to"),
+    type: params.get("type") || null,
+    categories: params.getAll("category").filter(Boolean),
+    keyword: params.get("keyword")?.trim() || null,
+    amount: intParam(params, "amount") || null,
+    amountMin: intParam(params, "amountMin"),
+    amountMax: intParam(params, "amountMax"),
+    pl: pl === "included" || pl === "excluded" ? pl : null,
+    sort: sort && Object.hasOwn(TRANSACTION_SORTS, sort) ? (sort as TransactionSort) : "date_desc",
+  };
+}
+
+/** "2026-02-14" → "2026-02-28"（その月の末日） */
+function endOfMonth(date: string): string {
+  const [y, m] = date.split("-").map(Number);
+  return `${date.slice(0, 8)}${String(new Date(Date.UTC(y, m, 0)).getUTCDate()).padStart(2, "0")}`;
+}
+
+/**
+ * エクスポートに使う検索条件（期間の条件だけを残し、日付範囲は月初〜月末に広げる）
+ * 収支合算レポートの取り込みは対象月の取引を丸ごと置き換えるため、
+ * 月の一部だけを出力したファイルを読み戻すと、出力しなかった取引が消える
+ */
+export function toExportFilter(filter: TransactionFilter): TransactionFilter {
+  return {
+    ...EMPTY_TRANSACTION_FILTER,
+    year: filter.year,
+    month: filter.month,
+    quarter: filter.quarter,
+    dateFrom: filter.dateFrom && `${filter.dateFrom.slice(0, 8)}01`,
+    dateTo: filter.dateTo && endOfMonth(filter.dateTo),
+    sort: filter.sort,
+  };
+}
+
+/** 検索条件 → クエリパラメータ（既定値の項目は含めない） */
+export function transactionFilterToParams(filter: TransactionFilter): URLSearchParams {
+  const params = new URLSearchParams();
+  if (filter.year) params.set("year", String(filter.year));
+  if (filter.quarter) params.set("quarter", String(filter.quarter));
+  else if (filter.month) params.set("month", String(filter.month));
+  if (filter.dateFrom) params.set("from", filter.dateFrom);
+  if (filter.dateTo) params.set("to", filter.dateTo);
+  if (filter.type) params.set("type", filter.type);
+  for (const c of filter.categories) params.append("category", c);
+  if (filter.keyword) params.set("keyword", filter.keyword);
+  if (filter.amount) params.set("amount", String(filter.amount));
+  if (filter.amountMin !== null) params.set("amountMin", String(filter.amountMin));
+  if (filter.amountMax !== null) params.set("amountMax", String(filter.amountMax));
+  if (filter.pl) params.set("pl", filter.pl);
+  if (filter.sort !== "date_desc") params.set("sort", filter.sort);
+  return params;
+}
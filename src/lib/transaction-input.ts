@@ -0,0 +1,99 @@
+/**
+ * 手入力の取引（/api/transactions の POST・PATCH）の検証
+ * 種別・カテゴリ・金額の整合性を確認し、transactions に書き込む値へ変換する。
+ *
+ *  - 支出 : expenseAmount > 0、incomeAmount = 0
+ *  - 収入 : incomeAmount > 0、expenseAmount = 0
+ *  - 振替 : どちらか一方だけが > 0（出金側 / 入金側）、カテゴリは「振替」で始まる
+ */
+import type { NewTransaction } from "./schema";
+
+export const TRANSACTION_TYPES = ["支出", "収入", "振替"] as const;
+
+export type TransactionInput = {
+  date: string;           // YYYY-MM-DD
+  type: string;
+  category: string;
+  itemName?: string | null;
+  expenseAmount?: number;
+  incomeAmount?: number;
+  assetName?: string | null;
+  tag?: string | null;
+  memo?: string | null;
+  excludeFromPl?: boolean;
+};
+
+type TransactionValues = Required<
+  Pick<
+    NewTransaction,
+    | "date" | "year" | "month" | "type" | "category" | "itemName" | "amount"
+    | "expenseAmount" | "incomeAmount" | "assetName" | "tag" | "memo" | "excludeFromPl"
+  >
+>;
+
+function isAmount(v: unknown): v is number {
+  return typeof v === "number" && Number.isInteger(v) && v >= 0;
+}
+
+/** 空文字は null にそろえる */
+function optionalText(v: string | null | undefined): string | null {
+  const s = v?.trim() ?? "";
+  return s === "" ? null : s;
+}
+
+export function validateTransactionInput(
+  input: TransactionInput
+): { values: TransactionValues } | { error: string } {
+  const m = /^(\d{4})-(\d{2})-(\d{2})$/.exec(input.date ?? "");
+  const date = m ? new Date(Date.UTC(+m[1], +m[2] - 1, +m[3])) : null;
+  if (!m || !date || date.getUTCMonth() !== +m[2] - 1 || date.getUTCDate() !== +m[3]) {
+    return { error: "日付は YYYY-MM-DD 形式で指定してください" };
+  }
+
+  const type = input.type?.trim() ?? "";
+  if (!(TRANSACTION_TYPES as readonly string[]).includes(type)) {
+    return { error: "種別は 支出・収入・振替 のいずれかです" };
+  }
+  const category = input.category?.trim() ?? "";
+  if (!category) return { error: "カテゴリは必須です" };
+  if (category.length > 100) return { error: "カテゴリが長すぎます" };
+  if (type === "振替" && !category.startsWith("振替")) {
+    return { error: "振替のカテゴリは「振替」で始まるものを指定してください" };
+  }
+
+  const expenseAmount = input.expenseAmount ?? 0;
+  const incomeAmount = input.incomeAmount ?? 0;
+  if (!isAmount(expenseAmount) || !isAmount(incomeAmount)) {
+    return { error: "金額は 0 以上の整数で指定してください" };
+  }
+  if ((expenseAmount > 0) === (incomeAmount > 0)) {
+    return { error: "金額は支出・収入のどちらか一方に指定してください" };
+  }
+  if (type === "支出" && expenseAmount === 0) return { error: "支出の取引には支出金額が必要です" };
+  if (type === "収入" && incomeAmount === 0) return { error: "収入の取引には収入金額が必要です" };
+
+  const itemName = optionalText(input.itemName);
+  const assetName = optionalText(input.assetName);
+  const tag = optionalText(input.tag);
+  if ((itemName?.length ?? 0) > 200 || (assetName?.length ?? 0) > 100 || (tag?.length ?? 0) > 100) {
+    return { error: "項目名・資産名・タグが長すぎます" };
+  }
+
+  return {
+    values: {
+      date: input.date,
+      year: +m[1],
+      month: +m[2],
+      type,
+      category,
+      itemName,
+      amount: expenseAmount || incomeAmount,
+      expenseAmount,
+      incomeAmount,
+      assetName,
+      tag,
+      memo: optionalText(input.memo),
+      excludeFromPl: input.excludeFromPl ?? false,
+    },
+  };
+}
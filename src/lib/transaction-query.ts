@@ -0,0 +1,82 @@
+/**
+ * 取引の検索条件 → SQL
+ * 検索条件（transaction-filter.ts）を transactions テーブルの where / order by に変換する。
+ */
+import { db } from "./db";
+import { transactions, transactionSplits, savedFilters } from "./schema";
+import { eq, and, or, gte, lte, ilike, inArray, desc, asc, sql, type SQL } from "drizzle-orm";
+import { parseTransactionFilter, type TransactionFilter } from "./transaction-filter";
+
+/**
+ * リクエストの検索条件を返す
+ * savedFilter=<id> があれば保存した検索条件を使う（見つからなければ null）。sort だけはリクエストの指定を優先する
+ */
+export async function resolveTransactionFilter(params: URLSearchParams): Promise<TransactionFilter | null> {
+  const savedId = parseInt(params.get("savedFilter") ?? "", 10);
+  if (!savedId) return parseTransactionFilter(params);
+
+  const [saved] = await db.select().from(savedFilters).where(eq(savedFilters.id, savedId));
+  if (!saved) return null;
+  const filter = parseTransactionFilter(new URLSearchParams(saved.query));
+  return params.get("sort") ? { ...filter, sort: parseTransactionFilter(params).sort } : filter;
+}
+
+/** LIKE のワイルドカードを文字として扱う */
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, (c) => `\\${c}`);
+}
+
+export function transactionFilterWhere(filter: TransactionFilter): SQL | undefined {
+  const conditions: SQL[] = [];
+  if (filter.year) conditions.push(eq(transactions.year, filter.year));
+  if (filter.quarter) {
+    const qMonths = [1, 2, 3].map((m) => m + (filter.quarter! - 1) * 3);
+    conditions.push(inArray(transactions.month, qMonths));
+  } else if (filter.month) {
+    conditions.push(eq(transactions.month, filter.month));
+  }
+  if (filter.dateFrom) conditions.push(gte(transactions.date, filter.dateFrom));
+  if (filter.dateTo) conditions.push(lte(transactions.date, filter.dateTo));
+  if (filter.categories.length > 0) {
+    // 分割明細のカテゴリでも一致させる
+    conditions.push(
+      or(
+        inArray(transactions.category, filter.categories),
+        sql`exists (select 1 from ${transactionSplits} where ${transactionSplits.transactionId} = ${transactions.id} and ${inArray(transactionSplits.category, filter.categories)})`
+      )!
+    );
+  }
+  if (filter.type) conditions.push(eq(transactions.type, filter.type));
+  if (filter.keyword) {
+    const pattern = `%${escapeLike(filter.keyword)}%`;
+    conditions.push(
+      or(
+        ilike(transactions.itemName, pattern),
+        ilike(transactions.memo, pattern),
+        ilike(transactions.tag, pattern),
+        ilike(transactions.assetName, pattern)
+      )!
+    );
+  }
+  if (filter.amount) {
+    conditions.push(or(eq(transactions.expenseAmount, filter.amount), eq(transactions.incomeAmount, filter.amount))!);
+  }
+  if (filter.amountMin !== null) conditions.push(gte(transactions.amount, filter.amountMin));
+  if (filter.amountMax !== null) conditions.push(lte(transactions.amount, filter.amountMax));
+  if (filter.pl) conditions.push(eq(transactions.excludeFromPl, filter.pl === "excluded"));
+
+  return conditions.length > 0 ? and(...conditions) : undefined;
+}
+
+export function transactionFilterOrderBy(filter: TransactionFilter): SQL[] {
+  switch (filter.sort) {
+    case "date_asc":
+      return [asc(transactions.date), asc(transactions.id)];
+    case "amount_desc":
+      return [desc(transactions.amount), desc(transactions.date), asc(transactions.id)];
+    case "amount_asc":
+      return [asc(transactions.amount), desc(transactions.date), asc(transactions.id)];
+    default:
+      return [desc(transactions.date), asc(transactions.id)];
+  }
+}
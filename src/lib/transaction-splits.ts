@@ -0,0 +1,21 @@
+/**
+ * 取引の分割明細の付け直し
+ * インポート・取り消しで親取引が削除・再挿入されて id が変わっても、
+ * 指紋（fingerprint）が同じ取引に分割明細を付け直す。db.batch() の最後に含めて使う。
+ */
+import { db } from "./db";
+import { transactions, transactionSplits } from "./schema";
+import { and, eq, ne } from "drizzle-orm";
+
+export function relinkSplitsStatement() {
+  return db
+    .update(transactionSplits)
+    .set({ transactionId: transactions.id })
+    .from(transactions)
+    .where(
+      and(
+        eq(transactionSplits.parentFingerprint, transactions.fingerprint),
+        ne(transactionSplits.transactionId, transactions.id)
+      )
+    );
+}